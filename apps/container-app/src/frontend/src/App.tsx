@@ -1,5 +1,5 @@
 import { useState, useEffect, useRef, useCallback } from "react";
-import type { Message } from "@codex-webapp/shared";
+import type { MainToContainerMessage, Message } from "@codex-webapp/shared";
 import { useMainAppBridge } from "./hooks/useMainAppBridge";
 import { useWebSocket } from "./hooks/useWebSocket";
 import ReactMarkdown from "react-markdown";
@@ -39,9 +39,18 @@ function App() {
   const [editorValue, setEditorValue] = useState("");
   const [saving, setSaving] = useState(false);
 
-  const {  } = useMainAppBridge((message) => {
+  // Message picked in the main app's search, shown once it has loaded
+  const [focusMessageId, setFocusMessageId] = useState<string | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+
+  const handleBridgeMessage = useCallback((message: MainToContainerMessage) => {
     console.log("[Container] Received message from main app:", message);
-  });
+    if (message.type === "FOCUS_MESSAGE") {
+      setFocusMessageId(message.messageId);
+    }
+  }, []);
+
+  const { sendToMainApp, sessionId, embedded } = useMainAppBridge(handleBridgeMessage);
 
   const { connected: wsConnected, lastChunk } = useWebSocket();
 
@@ -145,6 +154,28 @@ function App() {
     }
   }, [messages, streamingContent]);
 
+  // Scroll to the focused message, after the auto-scroll above
+  useEffect(() => {
+    if (!focusMessageId || !messages.some((message) => message.id === focusMessageId)) {
+      return;
+    }
+
+    document
+      .getElementById(`message-${focusMessageId}`)
+      ?.scrollIntoView({ block: "center" });
+    setHighlightedMessageId(focusMessageId);
+    setFocusMessageId(null);
+  }, [focusMessageId, messages]);
+
+  useEffect(() => {
+    if (!highlightedMessageId) {
+      return;
+    }
+
+    const timer = window.setTimeout(() => setHighlightedMessageId(null), 2000);
+    return () => window.clearTimeout(timer);
+  }, [highlightedMessageId]);
+
   const handleSendMessage = useCallback(async () => {
     if (!composerValue.trim() || sending) {
       return;
@@ -312,7 +343,13 @@ function App() {
 
         <div className="message-list" ref={messageListRef}>
           {messages.map((message) => (
-            <div key={message.id} className={`message message-${message.role}`}>
+            <div
+              key={message.id}
+              id={`message-${message.id}`}
+              className={`message message-${message.role}${
+                message.id === highlightedMessageId ? " message-highlighted" : ""
+              }`}
+            >
               <div className="message-meta">
                 <span className="message-role">
                   {message.role === "user" ? "You" : "AI"}
@@ -321,6 +358,21 @@ function App() {
                   {new Date(message.createdAt).toLocaleTimeString()}
                 </span>
               </div>
+              {/* The review opens in the main app, around this frame */}
+              {embedded && message.role === "assistant" && (
+                <div className="message-actions">
+                  <button
+                    type="button"
+                    className="ghost-button"
+                    onClick={() =>
+                      sendToMainApp({ type: "REVIEW_TURN", sessionId, messageId: message.id })
+                    }
+                    title="Review the file changes made during this turn"
+                  >
+                    Review changes
+                  </button>
+                </div>
+              )}
               <div className="message-content">
                 <ReactMarkdown remarkPlugins={[remarkGfm]}>
                   {message.content || "(Empty message)"}
@@ -3,6 +3,11 @@ import type { MainToContainerMessage, ContainerToMainMessage } from "@codex-weba
 
 type MessageHandler = (message: MainToContainerMessage) => void;
 
+const getSessionId = (): string =>
+  new URLSearchParams(window.location.search).get("sessionId") ||
+  process.env.SESSION_ID ||
+  "unknown";
+
 /**
  * Hook to communicate with the main app via postMessage
  */
@@ -39,15 +44,11 @@ export function useMainAppBridge(onMessage?: MessageHandler) {
 
   // Send READY signal on mount
   useEffect(() => {
-    const sessionId = new URLSearchParams(window.location.search).get("sessionId") || 
-                     process.env.SESSION_ID || 
-                     "unknown";
-
     sendToMainApp({
       type: "READY",
-      sessionId,
+      sessionId: getSessionId(),
     });
   }, [sendToMainApp]);
 
-  return { sendToMainApp };
+  return { sendToMainApp, sessionId: getSessionId(), embedded: window.parent !== window };
 }
@@ -29,58 +29,6 @@ class ClaudeManager implements IAgent {
     this.sessions = new Map();
   }
 
-  private applyEnv(env: AgentRunOptions['env']): () => void {
-    if (!env || Object.keys(env).length === 0) {
-      return () => {};
-    }
-
-    const previous = new Map<string, string | undefined>();
-    for (const [key, value] of Object.entries(env)) {
-      previous.set(key, process.env[key]);
-      process.env[key] = value;
-    }
-
-    return () => {
-      for (const [key, value] of previous.entries()) {
-        if (value === undefined) {
-          delete process.env[key];
-        } else {
-          process.env[key] = value;
-        }
-      }
-    };
-  }
-
-  private async withEnv<T>(env: AgentRunOptions['env'], fn: () => Promise<T>): Promise<T> {
-    const restore = this.applyEnv(env);
-    try {
-      return await fn();
-    } finally {
-      restore();
-    }
-  }
-
-  private wrapGeneratorWithEnv<T>(
-    env: AgentRunOptions['env'],
-    generator: AsyncGenerator<T>,
-  ): AsyncGenerator<T> {
-    if (!env || Object.keys(env).length === 0) {
-      return generator;
-    }
-
-    const self = this;
-    return (async function* wrapped() {
-      const restore = self.applyEnv(env);
-      try {
-        for await (const item of generator) {
-          yield item;
-        }
-      } finally {
-        restore();
-      }
-    })();
-  }
-
   private getSessionFromCache(sessionKey: string): SessionCacheEntry | null {
     return this.sessions.get(sessionKey) ?? null;
   }
@@ -172,8 +120,10 @@ class ClaudeManager implements IAgent {
     workspaceDirectory: string,
     resumeSessionId?: string | null,
     resumeAt?: string | null,
+    model: string = getCodexMeta().model,
+    signal?: AbortSignal,
+    env?: AgentRunOptions['env'],
   ): Options {
-    const { model } = getCodexMeta();
 
     const options: Options = {
       cwd: workspaceDirectory,
@@ -196,6 +146,21 @@ class ClaudeManager implements IAgent {
       options.model = model;
     }
 
+    if (env && Object.keys(env).length > 0) {
+      // Handed to the spawned process only; other sessions' runs must not see it
+      options.env = { ...process.env, ...env };
+    }
+
+    if (signal) {
+      const abortController = new AbortController();
+      if (signal.aborted) {
+        abortController.abort();
+      } else {
+        signal.addEventListener('abort', () => abortController.abort(), { once: true });
+      }
+      options.abortController = abortController;
+    }
+
     // Handle Claude Code executable path
     // On Windows, don't set the path and let the SDK auto-detect
     // The SDK handles Windows spawning better than our manual path setting
@@ -327,48 +292,53 @@ class ClaudeManager implements IAgent {
     input: string,
     options: AgentRunOptions = {},
   ): Promise<RunTurnResult> {
-    return this.withEnv(options.env, async () => {
-      const workspaceDirectory = ensureWorkspaceDirectory(session.id);
-      const cached = this.getSessionFromCache(session.id);
-      const resumeSessionId = session.codexThreadId ?? cached?.claudeSessionId ?? null;
-      const resumeAt = cached?.lastAssistantMessageId ?? null;
-
-      const queryOptions = this.createQueryOptions(workspaceDirectory, resumeSessionId, resumeAt);
-      const queryInstance = query({ prompt: input, options: queryOptions });
-
-      let resultMessage: SDKResultMessage | null = null;
-      let claudeSessionId = resumeSessionId;
-      let lastAssistantMessageId = resumeAt;
-
-      try {
-        for await (const message of queryInstance) {
-          if (message.session_id && message.session_id !== claudeSessionId) {
-            claudeSessionId = message.session_id;
-          }
+    const workspaceDirectory = ensureWorkspaceDirectory(session.id);
+    const cached = this.getSessionFromCache(session.id);
+    const resumeSessionId = session.codexThreadId ?? cached?.claudeSessionId ?? null;
+    const resumeAt = cached?.lastAssistantMessageId ?? null;
+
+    const queryOptions = this.createQueryOptions(
+      workspaceDirectory,
+      resumeSessionId,
+      resumeAt,
+      options.model,
+      options.signal,
+      options.env,
+    );
+    const queryInstance = query({ prompt: input, options: queryOptions });
+
+    let resultMessage: SDKResultMessage | null = null;
+    let claudeSessionId = resumeSessionId;
+    let lastAssistantMessageId = resumeAt;
 
-          if (message.type === 'assistant') {
-            lastAssistantMessageId = message.message.id ?? lastAssistantMessageId;
-          }
+    try {
+      for await (const message of queryInstance) {
+        if (message.session_id && message.session_id !== claudeSessionId) {
+          claudeSessionId = message.session_id;
+        }
 
-          if (message.type === 'result') {
-            resultMessage = message as SDKResultMessage;
-          }
+        if (message.type === 'assistant') {
+          lastAssistantMessageId = message.message.id ?? lastAssistantMessageId;
+        }
+
+        if (message.type === 'result') {
+          resultMessage = message as SDKResultMessage;
         }
-      } catch (error) {
-        throw new Error(this.normalizeClaudeError(error));
       }
+    } catch (error) {
+      throw new Error(this.normalizeClaudeError(error));
+    }
 
-      this.setSessionCache(session.id, claudeSessionId ?? null, lastAssistantMessageId ?? null);
+    this.setSessionCache(session.id, claudeSessionId ?? null, lastAssistantMessageId ?? null);
 
-      if (!resultMessage) {
-        throw new Error('Claude run did not produce a result.');
-      }
+    if (!resultMessage) {
+      throw new Error('Claude run did not produce a result.');
+    }
 
-      return {
-        result: resultMessage as any,
-        threadId: claudeSessionId ?? null,
-      };
-    });
+    return {
+      result: resultMessage as any,
+      threadId: claudeSessionId ?? null,
+    };
   }
 
   async runTurnStreamed(
@@ -376,19 +346,22 @@ class ClaudeManager implements IAgent {
     input: string,
     options: AgentRunOptions = {},
   ): Promise<RunTurnStreamedResult> {
-    const generator = await this.withEnv(options.env, async () => {
-      const workspaceDirectory = ensureWorkspaceDirectory(session.id);
-      const cached = this.getSessionFromCache(session.id);
-      const resumeSessionId = session.codexThreadId ?? cached?.claudeSessionId ?? null;
-      const resumeAt = cached?.lastAssistantMessageId ?? null;
-
-      const queryOptions = this.createQueryOptions(workspaceDirectory, resumeSessionId, resumeAt);
-      const queryInstance = query({ prompt: input, options: queryOptions });
-      return this.mapClaudeEvents(session.id, queryInstance);
-    });
-
+    const workspaceDirectory = ensureWorkspaceDirectory(session.id);
+    const cached = this.getSessionFromCache(session.id);
+    const resumeSessionId = session.codexThreadId ?? cached?.claudeSessionId ?? null;
+    const resumeAt = cached?.lastAssistantMessageId ?? null;
+
+    const queryOptions = this.createQueryOptions(
+      workspaceDirectory,
+      resumeSessionId,
+      resumeAt,
+      options.model,
+      options.signal,
+      options.env,
+    );
+    const queryInstance = query({ prompt: input, options: queryOptions });
     return {
-      events: this.wrapGeneratorWithEnv(options.env, generator),
+      events: this.mapClaudeEvents(session.id, queryInstance),
       thread: null as any,
     };
   }
@@ -396,6 +369,7 @@ class ClaudeManager implements IAgent {
   async generateTitleSuggestion(
     session: SessionRecord,
     conversationJson: string,
+    runOptions: AgentRunOptions = {},
   ): Promise<string | null> {
     const workspaceDirectory = ensureWorkspaceDirectory(session.id);
 
@@ -407,7 +381,12 @@ class ClaudeManager implements IAgent {
     ].join("\n\n");
 
     try {
-      const options = this.createQueryOptions(workspaceDirectory, session.codexThreadId ?? null);
+      const options = this.createQueryOptions(
+        workspaceDirectory,
+        session.codexThreadId ?? null,
+        null,
+        runOptions.model,
+      );
       const queryInstance = query({ prompt, options });
 
       let finalText = '';
@@ -1,6 +1,8 @@
-import type { Codex, Thread } from '@openai/codex-sdk';
+import type { Codex, CodexOptions, Thread, ThreadOptions } from '@openai/codex-sdk';
+import { spawn } from 'node:child_process';
 import { createRequire } from 'node:module';
 import path from 'node:path';
+import readline from 'node:readline';
 import { fileURLToPath } from 'node:url';
 import type { RunTurnResult, RunTurnStreamedResult, CodexThreadEvent } from './types/codex';
 import type { SessionRecord } from './types/database';
@@ -11,6 +13,7 @@ import type { AgentRunOptions } from './interfaces/IAgent';
 
 type ThreadCacheEntry = {
   thread: Thread;
+  model: string;
 };
 
 const dirname = path.dirname(fileURLToPath(import.meta.url));
@@ -18,6 +21,7 @@ const dirname = path.dirname(fileURLToPath(import.meta.url));
 const require = createRequire(import.meta.url);
 
 let CodexClass: typeof Codex | null | undefined;
+let ThreadClass: ThreadConstructor | null = null;
 let codexLoadError: Error | null = null;
 
 const codexOptions = {
@@ -36,59 +40,140 @@ const sandboxMode: 'read-only' | 'workspace-write' | 'danger-full-access' =
   resolvedSandboxEnv ??
   (process.platform === 'win32' ? 'danger-full-access' : 'workspace-write');
 
-const applyEnvOverrides = (env: AgentRunOptions['env']): (() => void) => {
-  if (!env || Object.keys(env).length === 0) {
-    return () => {};
-  }
+type CodexExecArgs = {
+  input: string;
+  baseUrl?: string;
+  apiKey?: string;
+  threadId?: string | null;
+  model?: string;
+  sandboxMode?: string;
+  workingDirectory?: string;
+  skipGitRepoCheck?: boolean;
+  outputSchemaFile?: string;
+};
 
-  const previous = new Map<string, string | undefined>();
-  for (const [key, value] of Object.entries(env)) {
-    previous.set(key, process.env[key]);
-    process.env[key] = value;
-  }
+type ThreadConstructor = new (
+  exec: CodexTurnExec,
+  options: CodexOptions,
+  threadOptions: ThreadOptions,
+  id: string | null,
+) => Thread;
+
+const FORCE_KILL_DELAY_MS = 5000;
+
+/**
+ * Stand-in for the SDK's internal `CodexExec` that runs `codex exec` for one
+ * turn with the session's environment. The SDK only copies `process.env` into
+ * the child, and changing `process.env` would leak the variables into every
+ * other turn running at the same time. Aborting `signal` kills the child right
+ * away instead of when codex emits its next event.
+ */
+class CodexTurnExec {
+  constructor(
+    private readonly executablePath: string,
+    private readonly env: AgentRunOptions['env'],
+    private readonly signal?: AbortSignal,
+  ) {}
+
+  async *run(args: CodexExecArgs): AsyncGenerator<string> {
+    const signal = this.signal;
+    if (signal?.aborted) {
+      return;
+    }
 
-  return () => {
-    for (const [key, value] of previous.entries()) {
-      if (value === undefined) {
-        delete process.env[key];
-      } else {
-        process.env[key] = value;
-      }
+    const commandArgs = ['exec', '--experimental-json'];
+    if (args.model) {
+      commandArgs.push('--model', args.model);
+    }
+    if (args.sandboxMode) {
+      commandArgs.push('--sandbox', args.sandboxMode);
+    }
+    if (args.workingDirectory) {
+      commandArgs.push('--cd', args.workingDirectory);
+    }
+    if (args.skipGitRepoCheck) {
+      commandArgs.push('--skip-git-repo-check');
+    }
+    if (args.outputSchemaFile) {
+      commandArgs.push('--output-schema', args.outputSchemaFile);
+    }
+    if (args.threadId) {
+      commandArgs.push('resume', args.threadId);
     }
-  };
-};
 
-const withEnvOverrides = async <T>(
-  env: AgentRunOptions['env'],
-  action: () => Promise<T>,
-): Promise<T> => {
-  const restore = applyEnvOverrides(env);
-  try {
-    return await action();
-  } finally {
-    restore();
-  }
-};
+    const env: NodeJS.ProcessEnv = { ...process.env, ...(this.env ?? {}) };
+    if (!env.CODEX_INTERNAL_ORIGINATOR_OVERRIDE) {
+      env.CODEX_INTERNAL_ORIGINATOR_OVERRIDE = 'codex_sdk_ts';
+    }
+    if (args.baseUrl) {
+      env.OPENAI_BASE_URL = args.baseUrl;
+    }
+    if (args.apiKey) {
+      env.CODEX_API_KEY = args.apiKey;
+    }
 
-const wrapGeneratorWithEnv = <T>(
-  env: AgentRunOptions['env'],
-  generator: AsyncGenerator<T>,
-): AsyncGenerator<T> => {
-  if (!env || Object.keys(env).length === 0) {
-    return generator;
-  }
+    const child = spawn(this.executablePath, commandArgs, { env });
+    let spawnError: Error | null = null;
+    child.once('error', (error) => {
+      spawnError = error;
+    });
+
+    child.stdin.write(args.input);
+    child.stdin.end();
+
+    const stderrChunks: Buffer[] = [];
+    child.stderr.on('data', (data: Buffer) => {
+      stderrChunks.push(data);
+    });
+
+    const lines = readline.createInterface({ input: child.stdout, crlfDelay: Infinity });
+    const stop = () => {
+      // Closing the reader ends the pending read without waiting for output
+      lines.close();
+      if (child.exitCode !== null || child.signalCode !== null) {
+        return;
+      }
+      child.kill();
+      setTimeout(() => {
+        if (child.exitCode === null && child.signalCode === null) {
+          child.kill('SIGKILL');
+        }
+      }, FORCE_KILL_DELAY_MS).unref();
+    };
+    signal?.addEventListener('abort', stop, { once: true });
 
-  return (async function* wrapped() {
-    const restore = applyEnvOverrides(env);
     try {
-      for await (const item of generator) {
-        yield item;
+      for await (const line of lines) {
+        yield line;
+      }
+      if (signal?.aborted) {
+        return;
       }
+
+      const exitCode = new Promise<void>((resolve, reject) => {
+        child.once('exit', (code) => {
+          if (code === 0) {
+            resolve();
+          } else {
+            const stderr = Buffer.concat(stderrChunks).toString('utf8');
+            reject(new Error(`Codex Exec exited with code ${code}: ${stderr}`));
+          }
+        });
+      });
+      if (spawnError) {
+        throw spawnError;
+      }
+      await exitCode;
     } finally {
-      restore();
+      signal?.removeEventListener('abort', stop);
+      lines.close();
+      child.removeAllListeners();
+      if (!child.killed) {
+        child.kill();
+      }
     }
-  })();
-};
+  }
+}
 
 class CodexManager implements IAgent {
   private codexInstance: Codex | null = null;
@@ -118,16 +203,11 @@ class CodexManager implements IAgent {
     return this.codexInstance;
   }
 
-  private setThread(sessionId: string, thread: Thread) {
-    this.threads.set(sessionId, { thread });
-  }
-
-  private getThreadFromCache(sessionId: string): Thread | null {
-    return this.threads.get(sessionId)?.thread ?? null;
+  private setThread(sessionId: string, thread: Thread, model: string) {
+    this.threads.set(sessionId, { thread, model });
   }
 
-  private createThreadOptions(workspaceDirectory: string) {
-    const { model } = getCodexMeta();
+  private createThreadOptions(workspaceDirectory: string, model: string) {
     return {
       sandboxMode,
       workingDirectory: workspaceDirectory,
@@ -136,24 +216,36 @@ class CodexManager implements IAgent {
     };
   }
 
-  private async ensureThread(session: SessionRecord): Promise<Thread> {
-    const cached = this.getThreadFromCache(session.id);
-    if (cached) {
-      return cached;
-    }
-
+  private async ensureThread(
+    session: SessionRecord,
+    model: string,
+    env: AgentRunOptions['env'],
+    signal?: AbortSignal,
+  ): Promise<Thread> {
+    const cached = this.threads.get(session.id);
     const workspaceDirectory = ensureWorkspaceDirectory(session.id);
 
     const codex = await this.getCodex();
-
-    let thread: Thread;
-    if (session.codexThreadId) {
-      thread = codex.resumeThread(session.codexThreadId, this.createThreadOptions(workspaceDirectory));
-    } else {
-      thread = codex.startThread(this.createThreadOptions(workspaceDirectory));
+    const ThreadCtor = ThreadClass;
+    if (!ThreadCtor) {
+      throw new Error('Codex SDK does not export Thread.');
     }
 
-    this.setThread(session.id, thread);
+    // Every turn gets its own exec so the `codex` process starts with this
+    // session's environment. The cached thread only carries the thread id over;
+    // a thread started with another model is resumed with the new one so the
+    // conversation history carries over.
+    const resumeThreadId = cached?.thread.id ?? session.codexThreadId;
+    const executablePath = (codex as unknown as { exec: { executablePath: string } }).exec
+      .executablePath;
+    const thread = new ThreadCtor(
+      new CodexTurnExec(executablePath, env, signal),
+      codexOptions,
+      this.createThreadOptions(workspaceDirectory, model),
+      resumeThreadId ?? null,
+    );
+
+    this.setThread(session.id, thread, model);
     return thread;
   }
 
@@ -162,11 +254,14 @@ class CodexManager implements IAgent {
     input: string,
     options: AgentRunOptions = {},
   ): Promise<RunTurnResult> {
-    return withEnvOverrides(options.env, async () => {
-      const thread = await this.ensureThread(session);
-      const result = await thread.run(input);
-      return { result, threadId: thread.id };
-    });
+    const thread = await this.ensureThread(
+      session,
+      options.model ?? getCodexMeta().model,
+      options.env,
+      options.signal,
+    );
+    const result = await thread.run(input);
+    return { result, threadId: thread.id };
   }
 
   async runTurnStreamed(
@@ -174,14 +269,16 @@ class CodexManager implements IAgent {
     input: string,
     options: AgentRunOptions = {}
   ): Promise<RunTurnStreamedResult> {
-    return withEnvOverrides(options.env, async () => {
-      const thread = await this.ensureThread(session);
-      const streamed = await (thread as unknown as {
-        runStreamed: (input: string) => Promise<{ events: AsyncGenerator<CodexThreadEvent> }>;
-      }).runStreamed(input);
-      const events = wrapGeneratorWithEnv(options.env, streamed.events);
-      return { events, thread };
-    });
+    const thread = await this.ensureThread(
+      session,
+      options.model ?? getCodexMeta().model,
+      options.env,
+      options.signal,
+    );
+    const streamed = await (thread as unknown as {
+      runStreamed: (input: string) => Promise<{ events: AsyncGenerator<CodexThreadEvent> }>;
+    }).runStreamed(input);
+    return { events: streamed.events, thread };
   }
 
   forgetSession(sessionId: string) {
@@ -195,6 +292,7 @@ class CodexManager implements IAgent {
   async generateTitleSuggestion(
     session: SessionRecord,
     conversationJson: string,
+    options: AgentRunOptions = {},
   ): Promise<string | null> {
     let codexInstance: Codex;
     try {
@@ -209,7 +307,7 @@ class CodexManager implements IAgent {
 
     const workspaceDirectory = ensureWorkspaceDirectory(session.id);
     const thread = codexInstance.startThread(
-      this.createThreadOptions(workspaceDirectory),
+      this.createThreadOptions(workspaceDirectory, options.model ?? getCodexMeta().model),
     );
 
     const prompt = [
@@ -251,8 +349,9 @@ async function loadCodexClass(): Promise<typeof Codex | null> {
   }
 
   try {
-    const mod = await import('@openai/codex-sdk') as { Codex: typeof Codex };
+    const mod = await import('@openai/codex-sdk') as { Codex: typeof Codex; Thread: unknown };
     CodexClass = mod.Codex;
+    ThreadClass = mod.Thread as ThreadConstructor;
     codexLoadError = null;
   } catch (error) {
     codexLoadError = error instanceof Error ? error : new Error(String(error));
@@ -55,7 +55,8 @@ class CopilotCliManager implements IAgent {
     workspaceDir: string,
     prompt: string,
     model: string,
-    env?: Record<string, string>
+    env?: Record<string, string>,
+    signal?: AbortSignal
   ): Promise<ExecutionResult> {
     const binaryPath = this.getBinaryPath();
     
@@ -86,6 +87,20 @@ class CopilotCliManager implements IAgent {
       // Pass command as single string when using shell mode
       const proc = spawn(commandString, [], spawnOptions);
 
+      if (signal) {
+        const handleAbort = () => {
+          if (!proc.killed) {
+            proc.kill();
+          }
+        };
+        if (signal.aborted) {
+          handleAbort();
+        } else {
+          signal.addEventListener('abort', handleAbort, { once: true });
+          proc.once('close', () => signal.removeEventListener('abort', handleAbort));
+        }
+      }
+
       let stdout = '';
       let stderr = '';
 
@@ -203,7 +218,7 @@ class CopilotCliManager implements IAgent {
   ): Promise<RunTurnResult> {
     const workspaceDir = await ensureWorkspaceDirectory(session.id);
     const meta = getCodexMeta();
-    const model = meta.model || this.getDefaultModel();
+    const model = options?.model || meta.model || this.getDefaultModel();
 
     console.log(`[CopilotCLI] runTurn for session ${session.id}`);
     console.log(`[CopilotCLI] Model: ${model}`);
@@ -213,7 +228,8 @@ class CopilotCliManager implements IAgent {
       workspaceDir,
       input,
       model,
-      options?.env
+      options?.env,
+      options?.signal
     );
 
     const messageId = randomUUID();
@@ -241,7 +257,7 @@ class CopilotCliManager implements IAgent {
   ): Promise<RunTurnStreamedResult> {
     const workspaceDir = await ensureWorkspaceDirectory(session.id);
     const meta = getCodexMeta();
-    const model = meta.model || this.getDefaultModel();
+    const model = options?.model || meta.model || this.getDefaultModel();
 
     console.log(`[CopilotCLI] runTurnStreamed for session ${session.id}`);
 
@@ -250,7 +266,8 @@ class CopilotCliManager implements IAgent {
       workspaceDir,
       input,
       model,
-      options?.env
+      options?.env,
+      options?.signal
     );
 
     const messageId = randomUUID();
@@ -326,11 +343,12 @@ class CopilotCliManager implements IAgent {
    */
   async generateTitleSuggestion(
     session: SessionRecord,
-    conversationJson: string
+    conversationJson: string,
+    options?: AgentRunOptions
   ): Promise<string | null> {
     const workspaceDir = await ensureWorkspaceDirectory(session.id);
     const meta = getCodexMeta();
-    const model = meta.model || this.getDefaultModel();
+    const model = options?.model || meta.model || this.getDefaultModel();
 
     const prompt = `Based on this conversation, generate a short, descriptive title (maximum 6 words):
 
@@ -9,9 +9,19 @@ import type IWorkspace from "./interfaces/IWorkspace";
 import { workspaceManager } from "./workspaces";
 import { DEFAULT_SESSION_TITLE } from "./config/sessions";
 import { generateSessionTitle } from "./services/titleService";
+import { resolveAgentSelection } from "./settings";
 import type {
+  ApiTokenRecord,
+  ApiTokenScope,
   AttachmentRecord,
-  DeployConfigRow,
+  AuditEventFilter,
+  AuditEventRecord,
+  UserIdentityRecord,
+  UserTotpRecord,
+  DeployTargetRow,
+  DeploymentRecord,
+  DeploymentStatus,
+  DeployArtifactRecord,
   MessageRecord,
   MessageWithAttachments,
   NewAttachmentInput,
@@ -19,13 +29,29 @@ import type {
   UserAuthFileRecord,
   UserRecord,
   LoginSessionRecord,
+  SessionSecretAuditRecord,
+  SessionSecretRecord,
   SessionServiceRecord,
   SessionSettingsRecord,
+  MessageStatus,
+  MessageUsageRecord,
+  ModelPricingRecord,
+  SearchResultRecord,
+  SessionForkRecord,
+  SessionTurnRecord,
+  SessionTurnStatus,
+  TurnChangeDecision,
+  TurnChangeReviewRecord,
+  UsageGroupBy,
+  UsageReportRow,
+  UserQuotaRecord,
+  UserQuotaUsage,
 } from "./types/database";
 import type { DeployConfig } from "../shared/dokploy";
 import {
   decryptSecret,
   encryptSecret,
+  isEncryptionAvailable,
 } from "./utils/secretVault";
 
 type RunItemRow = {
@@ -42,15 +68,39 @@ type UserRow = {
   username: string;
   password_hash: string;
   is_admin: number;
+  totp_enabled_at: string | null;
   created_at: string;
   updated_at: string;
 };
 
+type UserTotpRow = {
+  totp_secret_cipher: string | null;
+  totp_secret_iv: string | null;
+  totp_secret_tag: string | null;
+  totp_enabled_at: string | null;
+  totp_last_step: number | null;
+  totp_recovery_codes: string | null;
+};
+
 type LoginSessionRow = {
   id: string;
   user_id: string;
   expires_at: string;
   created_at: string;
+  impersonator_user_id: string | null;
+  impersonator_session_id: string | null;
+};
+
+type DeployTargetDbRow = {
+  id: string;
+  name: string;
+  is_default: number;
+  config_json: string;
+  api_key_cipher: string | null;
+  api_key_iv: string | null;
+  api_key_tag: string | null;
+  created_at: string;
+  updated_at: string;
 };
 
 type UserAuthFileRow = {
@@ -65,6 +115,15 @@ type UserAuthFileRow = {
   updated_at: string;
 };
 
+type ApiTokenRow = Omit<ApiTokenRecord, "scopes"> & {
+  scopes: string;
+};
+
+type AuditEventRow = Omit<AuditEventRecord, "before" | "after"> & {
+  beforeJson: string | null;
+  afterJson: string | null;
+};
+
 const dirname = path.dirname(fileURLToPath(import.meta.url));
 const projectRoot = path.resolve(dirname, "../..");
 const defaultDataDir = path.join(projectRoot, "var");
@@ -76,8 +135,67 @@ fs.mkdirSync(dataDir, { recursive: true });
 
 const databasePath = path.join(dataDir, "chat.db");
 
+// Never to be packed into deploy archives
+export const DATA_DIR = dataDir;
+export const DATABASE_PATH = databasePath;
+
 const normalizePath = (value: string): string => path.resolve(value);
 
+// Searchable text of a run item: commands and their output, changed file
+// paths, and the text of non-message items (reasoning, tool calls, queries).
+const runItemSearchText = (payload: string): string => `
+  CASE WHEN json_valid(${payload}) THEN trim(
+    coalesce(json_extract(${payload}, '$.command'), '') || ' ' ||
+    coalesce(json_extract(${payload}, '$.aggregated_output'), '') || ' ' ||
+    coalesce(json_extract(${payload}, '$.query'), '') || ' ' ||
+    coalesce(json_extract(${payload}, '$.tool'), '') || ' ' ||
+    CASE WHEN json_extract(${payload}, '$.type') = 'agent_message' THEN ''
+      ELSE coalesce(json_extract(${payload}, '$.text'), '') END || ' ' ||
+    coalesce((
+      SELECT group_concat(
+        CASE WHEN change.type = 'object'
+          THEN json_extract(change.value, '$.path') END,
+        ' '
+      )
+      FROM json_each(
+        CASE WHEN json_type(${payload}, '$.changes') = 'array'
+          THEN json_extract(${payload}, '$.changes') ELSE '[]' END
+      ) AS change
+    ), '')
+  ) ELSE '' END`;
+
+// Grouping columns for usage reports. Usage rows outlive their sessions and
+// users, so labels fall back to a placeholder once those are deleted.
+const usageReportGroups: Record<UsageGroupBy, { key: string; label: string }> = {
+  user: {
+    key: "coalesce(message_usage.user_id, '')",
+    label: "coalesce(users.username, 'Deleted user')",
+  },
+  session: {
+    key: "message_usage.session_id",
+    label: "coalesce(sessions.title, 'Deleted session')",
+  },
+  provider: {
+    key: "coalesce(message_usage.provider, 'unknown')",
+    label: "coalesce(message_usage.provider, 'unknown')",
+  },
+  day: {
+    key: "substr(message_usage.created_at, 1, 10)",
+    label: "substr(message_usage.created_at, 1, 10)",
+  },
+};
+
+// Cost of one usage row in the pricing unit; prices are per million tokens
+// and input tokens include the cached ones.
+const usageCostExpression = `
+  CASE WHEN model_pricing.model IS NULL THEN 0 ELSE (
+    max(message_usage.input_tokens - message_usage.cached_input_tokens, 0)
+      * model_pricing.input_per_million +
+    message_usage.cached_input_tokens
+      * coalesce(model_pricing.cached_input_per_million, model_pricing.input_per_million) +
+    message_usage.output_tokens * model_pricing.output_per_million
+  ) / 1000000.0 END`;
+
 const migrations: string[] = [
   `
   CREATE TABLE IF NOT EXISTS sessions (
@@ -273,6 +391,16 @@ const migrations: string[] = [
   // Add auto_commit column for automatic commit/push after each turn
   `
   ALTER TABLE session_settings ADD COLUMN auto_commit INTEGER DEFAULT 0
+`,
+  // Per-session agent selection (provider/model/reasoning effort)
+  `
+  ALTER TABLE session_settings ADD COLUMN provider TEXT
+`,
+  `
+  ALTER TABLE session_settings ADD COLUMN model TEXT
+`,
+  `
+  ALTER TABLE session_settings ADD COLUMN reasoning_effort TEXT
 `,
   // GitHub OAuth tokens for Git operations
   `
@@ -291,6 +419,373 @@ const migrations: string[] = [
 `,
   `
   CREATE UNIQUE INDEX IF NOT EXISTS idx_github_oauth_user ON github_oauth_tokens(user_id)
+`,
+  // Assistant messages are stored while their turn is still running
+  `
+  ALTER TABLE messages ADD COLUMN status TEXT NOT NULL DEFAULT 'completed'
+`,
+  // Agent turns run as server-side jobs that clients can re-attach to
+  `
+  CREATE TABLE IF NOT EXISTS session_turns (
+    id TEXT PRIMARY KEY,
+    session_id TEXT NOT NULL,
+    user_message_id TEXT,
+    assistant_message_id TEXT,
+    status TEXT NOT NULL,
+    error TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    completed_at TEXT,
+    FOREIGN KEY(session_id) REFERENCES sessions(id) ON DELETE CASCADE,
+    FOREIGN KEY(user_message_id) REFERENCES messages(id) ON DELETE SET NULL,
+    FOREIGN KEY(assistant_message_id) REFERENCES messages(id) ON DELETE SET NULL
+  )
+`,
+  `
+  CREATE INDEX IF NOT EXISTS idx_session_turns_session
+    ON session_turns(session_id, created_at)
+`,
+  // Sessions forked from an earlier point of another conversation
+  `
+  CREATE TABLE IF NOT EXISTS session_forks (
+    session_id TEXT PRIMARY KEY,
+    source_session_id TEXT,
+    source_message_id TEXT,
+    created_at TEXT NOT NULL,
+    FOREIGN KEY(session_id) REFERENCES sessions(id) ON DELETE CASCADE,
+    FOREIGN KEY(source_session_id) REFERENCES sessions(id) ON DELETE SET NULL
+  )
+`,
+  // Full-text search over session titles, messages and run items. The index
+  // is kept in sync by triggers so every write path is covered.
+  `
+  CREATE VIRTUAL TABLE IF NOT EXISTS search_index USING fts5(
+    content,
+    source UNINDEXED,
+    source_id UNINDEXED,
+    session_id UNINDEXED,
+    message_id UNINDEXED,
+    tokenize = 'unicode61 remove_diacritics 2'
+  )
+`,
+  `
+  CREATE TRIGGER IF NOT EXISTS search_index_sessions_insert
+  AFTER INSERT ON sessions BEGIN
+    INSERT INTO search_index (content, source, source_id, session_id, message_id)
+    VALUES (NEW.title, 'session', NEW.id, NEW.id, NULL);
+  END
+`,
+  `
+  CREATE TRIGGER IF NOT EXISTS search_index_sessions_update
+  AFTER UPDATE OF title ON sessions BEGIN
+    DELETE FROM search_index WHERE source = 'session' AND source_id = OLD.id;
+    INSERT INTO search_index (content, source, source_id, session_id, message_id)
+    VALUES (NEW.title, 'session', NEW.id, NEW.id, NULL);
+  END
+`,
+  `
+  CREATE TRIGGER IF NOT EXISTS search_index_sessions_delete
+  AFTER DELETE ON sessions BEGIN
+    DELETE FROM search_index WHERE source = 'session' AND source_id = OLD.id;
+  END
+`,
+  `
+  CREATE TRIGGER IF NOT EXISTS search_index_messages_insert
+  AFTER INSERT ON messages BEGIN
+    INSERT INTO search_index (content, source, source_id, session_id, message_id)
+    VALUES (NEW.content, 'message', NEW.id, NEW.session_id, NEW.id);
+  END
+`,
+  `
+  CREATE TRIGGER IF NOT EXISTS search_index_messages_update
+  AFTER UPDATE OF content ON messages BEGIN
+    DELETE FROM search_index WHERE source = 'message' AND source_id = OLD.id;
+    INSERT INTO search_index (content, source, source_id, session_id, message_id)
+    VALUES (NEW.content, 'message', NEW.id, NEW.session_id, NEW.id);
+  END
+`,
+  `
+  CREATE TRIGGER IF NOT EXISTS search_index_messages_delete
+  AFTER DELETE ON messages BEGIN
+    DELETE FROM search_index WHERE source = 'message' AND source_id = OLD.id;
+  END
+`,
+  `
+  CREATE TRIGGER IF NOT EXISTS search_index_run_items_insert
+  AFTER INSERT ON message_run_items BEGIN
+    INSERT INTO search_index (content, source, source_id, session_id, message_id)
+    VALUES (${runItemSearchText("NEW.payload")}, 'run_item', NEW.id, NEW.session_id, NEW.message_id);
+  END
+`,
+  `
+  CREATE TRIGGER IF NOT EXISTS search_index_run_items_delete
+  AFTER DELETE ON message_run_items BEGIN
+    DELETE FROM search_index WHERE source = 'run_item' AND source_id = OLD.id;
+  END
+`,
+  // Token usage is kept when the message is deleted so reports stay complete.
+  `
+  CREATE TABLE IF NOT EXISTS message_usage (
+    id TEXT PRIMARY KEY,
+    message_id TEXT UNIQUE,
+    session_id TEXT NOT NULL,
+    user_id TEXT,
+    provider TEXT,
+    model TEXT,
+    input_tokens INTEGER NOT NULL DEFAULT 0,
+    cached_input_tokens INTEGER NOT NULL DEFAULT 0,
+    output_tokens INTEGER NOT NULL DEFAULT 0,
+    created_at TEXT NOT NULL,
+    FOREIGN KEY(message_id) REFERENCES messages(id) ON DELETE SET NULL
+  )
+`,
+  `
+  CREATE INDEX IF NOT EXISTS idx_message_usage_created_at
+  ON message_usage(created_at)
+`,
+  `
+  CREATE TABLE IF NOT EXISTS user_quotas (
+    user_id TEXT PRIMARY KEY,
+    turns_per_hour INTEGER,
+    tokens_per_day INTEGER,
+    concurrent_turns INTEGER,
+    updated_at TEXT NOT NULL,
+    FOREIGN KEY(user_id) REFERENCES users(id) ON DELETE CASCADE
+  )
+`,
+  `
+  CREATE TABLE IF NOT EXISTS model_pricing (
+    model TEXT PRIMARY KEY,
+    input_per_million REAL NOT NULL DEFAULT 0,
+    cached_input_per_million REAL,
+    output_per_million REAL NOT NULL DEFAULT 0,
+    updated_at TEXT NOT NULL
+  )
+`,
+  // Accept/revert decisions taken while reviewing the diff of a turn
+  `
+  CREATE TABLE IF NOT EXISTS turn_change_reviews (
+    turn_id TEXT NOT NULL,
+    file_path TEXT NOT NULL,
+    hunk_index INTEGER NOT NULL,
+    decision TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    PRIMARY KEY(turn_id, file_path, hunk_index),
+    FOREIGN KEY(turn_id) REFERENCES session_turns(id) ON DELETE CASCADE
+  )
+`,
+  // Dokploy deployment target used by the session's service (NULL = default)
+  `
+  ALTER TABLE session_settings ADD COLUMN deploy_target_id TEXT
+`,
+  // History of deployments triggered against a deploy target
+  `
+  CREATE TABLE IF NOT EXISTS deployments (
+    id TEXT PRIMARY KEY,
+    target_id TEXT,
+    target_name TEXT NOT NULL,
+    application_id TEXT,
+    artifact_key TEXT,
+    commit_sha TEXT,
+    user_id TEXT,
+    dokploy_deployment_id TEXT,
+    status TEXT NOT NULL,
+    error TEXT,
+    redeploy_of TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    completed_at TEXT,
+    FOREIGN KEY(target_id) REFERENCES deploy_configs(id) ON DELETE SET NULL,
+    FOREIGN KEY(user_id) REFERENCES users(id) ON DELETE SET NULL
+  )
+`,
+  `
+  CREATE INDEX IF NOT EXISTS idx_deployments_target
+    ON deployments(target_id, created_at)
+`,
+  // Workspace archives in var/deploy-artifacts, for the retention sweeper
+  `
+  CREATE TABLE IF NOT EXISTS deploy_artifacts (
+    key TEXT PRIMARY KEY,
+    target_id TEXT,
+    size INTEGER NOT NULL,
+    commit_sha TEXT,
+    created_at TEXT NOT NULL,
+    FOREIGN KEY(target_id) REFERENCES deploy_configs(id) ON DELETE SET NULL
+  )
+`,
+  // Session whose service a deployment built, for status notifications
+  `
+  ALTER TABLE deployments ADD COLUMN session_id TEXT REFERENCES sessions(id) ON DELETE SET NULL
+`,
+  `
+  CREATE INDEX IF NOT EXISTS idx_deployments_session
+    ON deployments(session_id, created_at)
+`,
+  `
+  ALTER TABLE session_containers ADD COLUMN last_activity_at TEXT
+`,
+  `
+  ALTER TABLE session_containers ADD COLUMN stopped_reason TEXT
+`,
+  // Secret env vars of a session, encrypted with CODEX_WEBAPP_SECRET
+  `
+  CREATE TABLE IF NOT EXISTS session_secrets (
+    session_id TEXT NOT NULL,
+    key TEXT NOT NULL,
+    value_cipher TEXT NOT NULL,
+    value_iv TEXT,
+    value_tag TEXT,
+    updated_by TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    PRIMARY KEY(session_id, key),
+    FOREIGN KEY(session_id) REFERENCES sessions(id) ON DELETE CASCADE,
+    FOREIGN KEY(updated_by) REFERENCES users(id) ON DELETE SET NULL
+  )
+`,
+  `
+  CREATE TABLE IF NOT EXISTS session_secret_audit (
+    id TEXT PRIMARY KEY,
+    session_id TEXT NOT NULL,
+    key TEXT NOT NULL,
+    action TEXT NOT NULL CHECK(action IN ('created', 'updated', 'deleted')),
+    user_id TEXT,
+    created_at TEXT NOT NULL,
+    FOREIGN KEY(session_id) REFERENCES sessions(id) ON DELETE CASCADE,
+    FOREIGN KEY(user_id) REFERENCES users(id) ON DELETE SET NULL
+  )
+`,
+  `
+  CREATE INDEX IF NOT EXISTS idx_session_secret_audit_session
+    ON session_secret_audit(session_id, created_at)
+`,
+  // Backend a session service runs on; services keep theirs when the default changes
+  `
+  ALTER TABLE session_containers ADD COLUMN backend TEXT NOT NULL DEFAULT 'dokploy'
+`,
+  `
+  ALTER TABLE session_containers ADD COLUMN container_id TEXT
+`,
+  `
+  CREATE TABLE IF NOT EXISTS app_settings (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  )
+`,
+  // Written by the health reconciler, which restarts crashed services
+  `
+  ALTER TABLE session_containers ADD COLUMN health TEXT
+`,
+  `
+  ALTER TABLE session_containers ADD COLUMN health_checked_at TEXT
+`,
+  `
+  ALTER TABLE session_containers ADD COLUMN restart_count INTEGER NOT NULL DEFAULT 0
+`,
+  `
+  ALTER TABLE session_containers ADD COLUMN last_restart_at TEXT
+`,
+  // Append-only record of administrative and security-relevant actions.
+  // Names are copied so entries stay readable after a user is deleted.
+  `
+  CREATE TABLE IF NOT EXISTS audit_events (
+    id TEXT PRIMARY KEY,
+    created_at TEXT NOT NULL,
+    actor_user_id TEXT,
+    actor_username TEXT,
+    acting_as_user_id TEXT,
+    acting_as_username TEXT,
+    action TEXT NOT NULL,
+    target_type TEXT,
+    target_id TEXT,
+    target_label TEXT,
+    ip TEXT,
+    before_json TEXT,
+    after_json TEXT
+  )
+`,
+  `
+  CREATE INDEX IF NOT EXISTS idx_audit_events_created ON audit_events(created_at)
+`,
+  `
+  CREATE INDEX IF NOT EXISTS idx_audit_events_action ON audit_events(action, created_at)
+`,
+  `
+  CREATE TRIGGER IF NOT EXISTS audit_events_no_update
+  BEFORE UPDATE ON audit_events
+  BEGIN
+    SELECT RAISE(ABORT, 'audit_events is append-only');
+  END
+`,
+  `
+  CREATE TRIGGER IF NOT EXISTS audit_events_no_delete
+  BEFORE DELETE ON audit_events
+  BEGIN
+    SELECT RAISE(ABORT, 'audit_events is append-only');
+  END
+`,
+  `
+  ALTER TABLE login_sessions ADD COLUMN impersonator_user_id TEXT
+`,
+  `
+  ALTER TABLE login_sessions ADD COLUMN impersonator_session_id TEXT
+`,
+  // Personal access tokens; only a SHA-256 hash of each token is kept
+  `
+  CREATE TABLE IF NOT EXISTS api_tokens (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    name TEXT NOT NULL,
+    token_hash TEXT NOT NULL UNIQUE,
+    token_prefix TEXT NOT NULL,
+    scopes TEXT NOT NULL,
+    expires_at TEXT,
+    last_used_at TEXT,
+    last_used_ip TEXT,
+    created_at TEXT NOT NULL,
+    FOREIGN KEY(user_id) REFERENCES users(id) ON DELETE CASCADE
+  )
+`,
+  `
+  CREATE INDEX IF NOT EXISTS idx_api_tokens_user ON api_tokens(user_id, created_at)
+`,
+  // Accounts at GitHub or OIDC providers that users sign in with
+  `
+  CREATE TABLE IF NOT EXISTS user_identities (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    provider TEXT NOT NULL,
+    subject TEXT NOT NULL,
+    email TEXT,
+    created_at TEXT NOT NULL,
+    last_login_at TEXT,
+    UNIQUE(provider, subject),
+    FOREIGN KEY(user_id) REFERENCES users(id) ON DELETE CASCADE
+  )
+`,
+  `
+  CREATE INDEX IF NOT EXISTS idx_user_identities_user ON user_identities(user_id)
+`,
+  // Two-factor authentication with TOTP codes
+  `
+  ALTER TABLE users ADD COLUMN totp_secret_cipher TEXT
+`,
+  `
+  ALTER TABLE users ADD COLUMN totp_secret_iv TEXT
+`,
+  `
+  ALTER TABLE users ADD COLUMN totp_secret_tag TEXT
+`,
+  `
+  ALTER TABLE users ADD COLUMN totp_enabled_at TEXT
+`,
+  `
+  ALTER TABLE users ADD COLUMN totp_last_step INTEGER
+`,
+  `
+  ALTER TABLE users ADD COLUMN totp_recovery_codes TEXT
 `
 ];
 
@@ -336,6 +831,7 @@ class SQLiteDatabase implements IDatabase {
     sessionId: string;
     role: string;
     content: string;
+    status: string;
     createdAt: string;
     responderProvider: string | null;
     responderModel: string | null;
@@ -379,76 +875,258 @@ class SQLiteDatabase implements IDatabase {
     { sessionId: string },
     MessageRecord
   >;
-  private readonly resetAllThreadsStmt: Statement;
-  private readonly getDeployConfigStmt: Statement<[], {
+  private readonly getMessageStmt: Statement<{ id: string }, MessageRecord>;
+  private readonly updateMessageStmt: Statement<{
     id: string;
-    config_json: string;
-    api_key_cipher: string | null;
-    api_key_iv: string | null;
-    api_key_tag: string | null;
-    updated_at: string;
+    content: string;
+    status: string;
   }>;
-  private readonly upsertDeployConfigStmt: Statement<{
+  private readonly deleteMessageStmt: Statement<{ id: string }>;
+  private readonly listQueuedMessagesStmt: Statement<
+    { sessionId: string },
+    MessageRecord
+  >;
+  private readonly listSessionsWithQueuedMessagesStmt: Statement<
+    [],
+    { sessionId: string }
+  >;
+  private readonly dequeueMessageStmt: Statement<{
     id: string;
-    configJson: string;
-    apiKeyCipher: string | null;
-    apiKeyIv: string | null;
-    apiKeyTag: string | null;
-    updatedAt: string;
+    createdAt: string;
   }>;
-  private readonly insertUserStmt: Statement<{
+  private readonly insertSessionTurnStmt: Statement<{
     id: string;
-    username: string;
-    passwordHash: string;
-    isAdmin: number;
+    sessionId: string;
+    userMessageId: string | null;
+    assistantMessageId: string | null;
+    status: string;
     createdAt: string;
     updatedAt: string;
   }>;
-  private readonly listUsersStmt: Statement<[], UserRow>;
-  private readonly getUserByIdStmt: Statement<{ id: string }, UserRow>;
-  private readonly getUserByUsernameStmt: Statement<{
-    username: string;
-  }, UserRow>;
-  private readonly deleteUserStmt: Statement<{ id: string }>;
-  private readonly insertLoginSessionStmt: Statement<{
+  private readonly updateSessionTurnStmt: Statement<{
     id: string;
-    userId: string;
-    expiresAt: string;
+    status: string;
+    error: string | null;
+    updatedAt: string;
+    completedAt: string | null;
+  }>;
+  private readonly getSessionTurnStmt: Statement<{ id: string }, SessionTurnRecord>;
+  private readonly listSessionTurnsStmt: Statement<
+    { sessionId: string },
+    SessionTurnRecord
+  >;
+  private readonly listTurnChangeReviewsStmt: Statement<
+    { turnId: string },
+    TurnChangeReviewRecord
+  >;
+  private readonly upsertTurnChangeReviewStmt: Statement<TurnChangeReviewRecord>;
+  private readonly insertDeploymentStmt: Statement<{
+    id: string;
+    targetId: string;
+    targetName: string;
+    applicationId: string | null;
+    artifactKey: string | null;
+    commitSha: string | null;
+    userId: string | null;
+    sessionId: string | null;
+    status: string;
+    redeployOf: string | null;
     createdAt: string;
   }>;
-  private readonly getLoginSessionStmt: Statement<
-    { id: string },
-    LoginSessionRow
+  private readonly updateDeploymentStmt: Statement<{
+    id: string;
+    status: string;
+    dokployDeploymentId: string | null;
+    error: string | null;
+    updatedAt: string;
+    completedAt: string | null;
+  }>;
+  private readonly getDeploymentStmt: Statement<{ id: string }, DeploymentRecord>;
+  private readonly listDeploymentsStmt: Statement<
+    { targetId: string; limit: number },
+    DeploymentRecord
   >;
-  private readonly deleteLoginSessionStmt: Statement<{ id: string }>;
-  private readonly deleteLoginSessionsByUserStmt: Statement<{
-    userId: string;
+  private readonly listActiveDeploymentsStmt: Statement<[], DeploymentRecord>;
+  private readonly listSessionDeploymentsStmt: Statement<
+    { sessionId: string; limit: number },
+    DeploymentRecord
+  >;
+  private readonly insertDeployArtifactStmt: Statement<{
+    key: string;
+    targetId: string | null;
+    size: number;
+    commitSha: string | null;
+    createdAt: string;
   }>;
-  private readonly deleteExpiredLoginSessionsStmt: Statement<{
+  private readonly listDeployArtifactsStmt: Statement<[], DeployArtifactRecord>;
+  private readonly deleteDeployArtifactStmt: Statement<{ key: string }>;
+  private readonly upsertSessionSecretStmt: Statement<{
+    sessionId: string;
+    key: string;
+    valueCipher: string;
+    valueIv: string | null;
+    valueTag: string | null;
+    updatedBy: string | null;
     now: string;
   }>;
-  private readonly upsertUserAuthFileStmt: Statement<{
+  private readonly listSessionSecretsStmt: Statement<
+    { sessionId: string },
+    SessionSecretRecord
+  >;
+  private readonly deleteSessionSecretStmt: Statement<{ sessionId: string; key: string }>;
+  private readonly insertSessionSecretAuditStmt: Statement<{
     id: string;
-    userId: string;
-    provider: string;
-    fileName: string;
-    encryptedContent: string;
-    encryptedIv: string | null;
-    encryptedTag: string | null;
+    sessionId: string;
+    key: string;
+    action: SessionSecretAuditRecord["action"];
+    userId: string | null;
     createdAt: string;
-    updatedAt: string;
-  }>;
-  private readonly deleteUserAuthFileStmt: Statement<{
-    userId: string;
-    provider: string;
-    fileName: string;
   }>;
-  private readonly listUserAuthFilesStmt: Statement<
-    { userId: string },
-    UserAuthFileRow
+  private readonly listSessionSecretAuditStmt: Statement<
+    { sessionId: string; limit: number },
+    SessionSecretAuditRecord
   >;
-  private readonly getUserAuthFileStmt: Statement<
-    {
+  private readonly searchContentStmt: Statement<
+    { userId: string; query: string; limit: number },
+    SearchResultRecord
+  >;
+  private readonly insertSessionForkStmt: Statement<{
+    sessionId: string;
+    sourceSessionId: string;
+    sourceMessageId: string;
+    createdAt: string;
+  }>;
+  private readonly getSessionForkStmt: Statement<
+    { sessionId: string },
+    SessionForkRecord
+  >;
+  private readonly upsertMessageUsageStmt: Statement<{
+    id: string;
+    messageId: string;
+    sessionId: string;
+    userId: string | null;
+    provider: string | null;
+    model: string | null;
+    inputTokens: number;
+    cachedInputTokens: number;
+    outputTokens: number;
+    createdAt: string;
+  }>;
+  private readonly getMessageUsageStmt: Statement<
+    { messageId: string },
+    MessageUsageRecord
+  >;
+  private readonly usageReportStmts: Record<
+    UsageGroupBy,
+    Statement<{ from: string; to: string; userId: string | null }, UsageReportRow>
+  >;
+  private readonly listModelPricingStmt: Statement<[], ModelPricingRecord>;
+  private readonly upsertModelPricingStmt: Statement<ModelPricingRecord>;
+  private readonly deleteModelPricingStmt: Statement<{ model: string }>;
+  private readonly getUserQuotaStmt: Statement<
+    { userId: string },
+    UserQuotaRecord
+  >;
+  private readonly upsertUserQuotaStmt: Statement<UserQuotaRecord>;
+  private readonly getUserQuotaUsageStmt: Statement<
+    { userId: string; hourSince: string; daySince: string },
+    UserQuotaUsage
+  >;
+  private readonly getRunningSessionTurnStmt: Statement<
+    { sessionId: string },
+    SessionTurnRecord
+  >;
+  private readonly listRunningSessionTurnsStmt: Statement<[], SessionTurnRecord>;
+  private readonly resetAllThreadsStmt: Statement;
+  private readonly listDeployTargetsStmt: Statement<[], DeployTargetDbRow>;
+  private readonly getDeployTargetStmt: Statement<{ id: string }, DeployTargetDbRow>;
+  private readonly getDefaultDeployTargetStmt: Statement<[], DeployTargetDbRow>;
+  private readonly insertDeployTargetStmt: Statement<{
+    id: string;
+    name: string;
+    isDefault: number;
+    configJson: string;
+    apiKeyCipher: string | null;
+    apiKeyIv: string | null;
+    apiKeyTag: string | null;
+    createdAt: string;
+    updatedAt: string;
+  }>;
+  private readonly updateDeployTargetStmt: Statement<{
+    id: string;
+    name: string;
+    configJson: string;
+    apiKeyCipher: string | null;
+    apiKeyIv: string | null;
+    apiKeyTag: string | null;
+    updatedAt: string;
+  }>;
+  private readonly deleteDeployTargetStmt: Statement<{ id: string }>;
+  private readonly setDefaultDeployTargetStmt: Statement<{ id: string }>;
+  private readonly clearSessionDeployTargetStmt: Statement<{ id: string }>;
+  private readonly setSessionDeployTargetStmt: Statement<{
+    id: string;
+    sessionId: string;
+    deployTargetId: string | null;
+    createdAt: string;
+    updatedAt: string;
+  }>;
+  private readonly insertUserStmt: Statement<{
+    id: string;
+    username: string;
+    passwordHash: string;
+    isAdmin: number;
+    createdAt: string;
+    updatedAt: string;
+  }>;
+  private readonly listUsersStmt: Statement<[], UserRow>;
+  private readonly getUserByIdStmt: Statement<{ id: string }, UserRow>;
+  private readonly getUserByUsernameStmt: Statement<{
+    username: string;
+  }, UserRow>;
+  private readonly deleteUserStmt: Statement<{ id: string }>;
+  private readonly getUserTotpStmt: Statement<{ id: string }, UserTotpRow>;
+  private readonly insertLoginSessionStmt: Statement<{
+    id: string;
+    userId: string;
+    expiresAt: string;
+    createdAt: string;
+    impersonatorUserId: string | null;
+    impersonatorSessionId: string | null;
+  }>;
+  private readonly getLoginSessionStmt: Statement<
+    { id: string },
+    LoginSessionRow
+  >;
+  private readonly deleteLoginSessionStmt: Statement<{ id: string }>;
+  private readonly deleteLoginSessionsByUserStmt: Statement<{
+    userId: string;
+  }>;
+  private readonly deleteExpiredLoginSessionsStmt: Statement<{
+    now: string;
+  }>;
+  private readonly upsertUserAuthFileStmt: Statement<{
+    id: string;
+    userId: string;
+    provider: string;
+    fileName: string;
+    encryptedContent: string;
+    encryptedIv: string | null;
+    encryptedTag: string | null;
+    createdAt: string;
+    updatedAt: string;
+  }>;
+  private readonly deleteUserAuthFileStmt: Statement<{
+    userId: string;
+    provider: string;
+    fileName: string;
+  }>;
+  private readonly listUserAuthFilesStmt: Statement<
+    { userId: string },
+    UserAuthFileRow
+  >;
+  private readonly getUserAuthFileStmt: Statement<
+    {
       userId: string;
       provider: string;
       fileName: string;
@@ -462,6 +1140,9 @@ class SQLiteDatabase implements IDatabase {
     serviceUrl: string | null;
     status: string;
     errorMessage: string | null;
+    stoppedReason: string | null;
+    backend: string;
+    containerId: string | null;
     createdAt: string;
     updatedAt: string;
   }>;
@@ -474,11 +1155,94 @@ class SQLiteDatabase implements IDatabase {
       container_url: string | null;
       status: string;
       error_message: string | null;
+      last_activity_at: string | null;
+      stopped_reason: string | null;
+      backend: string;
+      container_id: string | null;
+      health: string | null;
+      health_checked_at: string | null;
+      restart_count: number;
+      last_restart_at: string | null;
       created_at: string;
       updated_at: string;
     }
   >;
   private readonly deleteSessionServiceStmt: Statement<{ sessionId: string }>;
+  private readonly touchSessionServiceStmt: Statement<{ sessionId: string; at: string }>;
+  private readonly listIdleSessionServicesStmt: Statement<
+    { before: string },
+    { session_id: string }
+  >;
+  private readonly updateSessionServiceHealthStmt: Statement<{
+    sessionId: string;
+    health: string | null;
+    checkedAt: string | null;
+    restartCount: number;
+    lastRestartAt: string | null;
+  }>;
+  private readonly listMonitoredSessionServicesStmt: Statement<[], { session_id: string }>;
+  private readonly insertAuditEventStmt: Statement<{
+    id: string;
+    createdAt: string;
+    actorUserId: string | null;
+    actorUsername: string | null;
+    actingAsUserId: string | null;
+    actingAsUsername: string | null;
+    action: string;
+    targetType: string | null;
+    targetId: string | null;
+    targetLabel: string | null;
+    ip: string | null;
+    beforeJson: string | null;
+    afterJson: string | null;
+  }>;
+  private readonly listAuditEventsStmt: Statement<
+    {
+      action: string | null;
+      actorUserId: string | null;
+      targetType: string | null;
+      from: string | null;
+      to: string | null;
+      search: string | null;
+      limit: number;
+      offset: number;
+    },
+    AuditEventRow
+  >;
+  private readonly insertApiTokenStmt: Statement<{
+    id: string;
+    userId: string;
+    name: string;
+    tokenHash: string;
+    tokenPrefix: string;
+    scopes: string;
+    expiresAt: string | null;
+    createdAt: string;
+  }>;
+  private readonly listApiTokensStmt: Statement<{ userId: string }, ApiTokenRow>;
+  private readonly getApiTokenByHashStmt: Statement<{ tokenHash: string }, ApiTokenRow>;
+  private readonly deleteApiTokenStmt: Statement<{ id: string; userId: string }>;
+  private readonly touchApiTokenStmt: Statement<{ id: string; usedAt: string; ip: string | null }>;
+  private readonly getUserIdentityStmt: Statement<
+    { provider: string; subject: string },
+    UserIdentityRecord
+  >;
+  private readonly listUserIdentitiesStmt: Statement<{ userId: string }, UserIdentityRecord>;
+  private readonly insertUserIdentityStmt: Statement<{
+    id: string;
+    userId: string;
+    provider: string;
+    subject: string;
+    email: string | null;
+    createdAt: string;
+  }>;
+  private readonly touchUserIdentityStmt: Statement<{
+    id: string;
+    email: string | null;
+    lastLoginAt: string;
+  }>;
+  private readonly getAppSettingStmt: Statement<{ key: string }, { value: string }>;
+  private readonly setAppSettingStmt: Statement<{ key: string; value: string; updatedAt: string }>;
   private readonly upsertSessionSettingsStmt: Statement<{
     id: string;
     sessionId: string;
@@ -504,10 +1268,23 @@ class SQLiteDatabase implements IDatabase {
       git_remote_url: string | null;
       git_branch: string | null;
       auto_commit: number;
+      provider: string | null;
+      model: string | null;
+      reasoning_effort: string | null;
+      deploy_target_id: string | null;
       created_at: string;
       updated_at: string;
     }
   >;
+  private readonly updateSessionAgentSettingsStmt: Statement<{
+    id: string;
+    sessionId: string;
+    provider: string;
+    model: string;
+    reasoningEffort: string;
+    createdAt: string;
+    updatedAt: string;
+  }>;
 
   constructor(private readonly workspace: IWorkspace) {
     this.db = new Database(databasePath);
@@ -516,6 +1293,8 @@ class SQLiteDatabase implements IDatabase {
     this.ensureSessionColumns();
     this.ensureDeployConfigColumns();
     this.migrateSessionSettingsBranchData();
+    this.backfillSearchIndex();
+    this.encryptStoredTotpSecrets();
     this.upsertSessionWorkspaceStmt = this.db.prepare(`
       INSERT OR REPLACE INTO session_workspaces (session_id, workspace_path)
       VALUES (@sessionId, @workspacePath)
@@ -605,6 +1384,7 @@ class SQLiteDatabase implements IDatabase {
         session_id,
         role,
         content,
+        status,
         created_at,
         responder_provider,
         responder_model,
@@ -615,6 +1395,7 @@ class SQLiteDatabase implements IDatabase {
         @sessionId,
         @role,
         @content,
+        @status,
         @createdAt,
         @responderProvider,
         @responderModel,
@@ -711,129 +1492,723 @@ class SQLiteDatabase implements IDatabase {
         session_id as sessionId,
         role,
         content,
+        status,
         created_at as createdAt,
         responder_provider as responderProvider,
         responder_model as responderModel,
         responder_reasoning_effort as responderReasoningEffort
       FROM messages
       WHERE session_id = @sessionId
-      ORDER BY created_at ASC
+      ORDER BY status = 'queued' ASC, created_at ASC
     `);
-    this.getDeployConfigStmt = this.db.prepare(`
+    this.getMessageStmt = this.db.prepare(`
       SELECT
         id,
-        config_json,
-        api_key_cipher,
-        api_key_iv,
-        api_key_tag,
-        updated_at
-      FROM deploy_configs
-      WHERE id = 'default'
+        session_id as sessionId,
+        role,
+        content,
+        status,
+        created_at as createdAt,
+        responder_provider as responderProvider,
+        responder_model as responderModel,
+        responder_reasoning_effort as responderReasoningEffort
+      FROM messages
+      WHERE id = @id
     `);
-    this.upsertDeployConfigStmt = this.db.prepare(`
-      INSERT INTO deploy_configs (
-        id,
-        config_json,
-        api_key_cipher,
-        api_key_iv,
-        api_key_tag,
-        updated_at
-      ) VALUES (
-        @id,
-        @configJson,
-        @apiKeyCipher,
-        @apiKeyIv,
-        @apiKeyTag,
-        @updatedAt
-      )
-      ON CONFLICT(id) DO UPDATE SET
-        config_json = excluded.config_json,
-        api_key_cipher = COALESCE(excluded.api_key_cipher, deploy_configs.api_key_cipher),
-        api_key_iv = COALESCE(excluded.api_key_iv, deploy_configs.api_key_iv),
-        api_key_tag = COALESCE(excluded.api_key_tag, deploy_configs.api_key_tag),
-        updated_at = excluded.updated_at
+    this.updateMessageStmt = this.db.prepare(`
+      UPDATE messages
+      SET content = @content,
+          status = @status
+      WHERE id = @id
     `);
-    this.insertUserStmt = this.db.prepare(`
-      INSERT INTO users (
-        id,
-        username,
-        password_hash,
-        is_admin,
-        created_at,
-        updated_at
-      ) VALUES (
-        @id,
-        @username,
-        @passwordHash,
-        @isAdmin,
-        @createdAt,
-        @updatedAt
-      )
+    this.deleteMessageStmt = this.db.prepare(`
+      DELETE FROM messages WHERE id = @id
     `);
-    this.listUsersStmt = this.db.prepare(`
+    this.listQueuedMessagesStmt = this.db.prepare(`
       SELECT
         id,
-        username,
-        password_hash,
-        is_admin,
-        created_at,
-        updated_at
-      FROM users
+        session_id as sessionId,
+        role,
+        content,
+        status,
+        created_at as createdAt,
+        responder_provider as responderProvider,
+        responder_model as responderModel,
+        responder_reasoning_effort as responderReasoningEffort
+      FROM messages
+      WHERE session_id = @sessionId AND status = 'queued'
       ORDER BY created_at ASC
     `);
-    this.getUserByIdStmt = this.db.prepare(`
+    this.searchContentStmt = this.db.prepare(`
       SELECT
-        id,
-        username,
-        password_hash,
-        is_admin,
-        created_at,
-        updated_at
-      FROM users
-      WHERE id = @id
+        search_index.source as source,
+        search_index.session_id as sessionId,
+        search_index.message_id as messageId,
+        sessions.title as sessionTitle,
+        messages.role as role,
+        coalesce(messages.created_at, sessions.updated_at) as createdAt,
+        snippet(search_index, 0, '', '', '…', 16) as snippet
+      FROM search_index
+      JOIN sessions ON sessions.id = search_index.session_id
+      LEFT JOIN messages ON messages.id = search_index.message_id
+      WHERE search_index MATCH @query AND sessions.user_id = @userId
+      ORDER BY bm25(search_index)
+      LIMIT @limit
     `);
-    this.getUserByUsernameStmt = this.db.prepare(`
-      SELECT
-        id,
-        username,
-        password_hash,
-        is_admin,
-        created_at,
-        updated_at
-      FROM users
-      WHERE username = @username
+    this.insertSessionForkStmt = this.db.prepare(`
+      INSERT INTO session_forks (
+        session_id,
+        source_session_id,
+        source_message_id,
+        created_at
+      )
+      VALUES (
+        @sessionId,
+        @sourceSessionId,
+        @sourceMessageId,
+        @createdAt
+      )
     `);
-    this.deleteUserStmt = this.db.prepare(`
-      DELETE FROM users
-      WHERE id = @id
+    this.getSessionForkStmt = this.db.prepare(`
+      SELECT
+        session_id as sessionId,
+        source_session_id as sourceSessionId,
+        source_message_id as sourceMessageId,
+        created_at as createdAt
+      FROM session_forks
+      WHERE session_id = @sessionId
     `);
-    this.insertLoginSessionStmt = this.db.prepare(`
-      INSERT INTO login_sessions (
+    this.upsertMessageUsageStmt = this.db.prepare(`
+      INSERT INTO message_usage (
         id,
+        message_id,
+        session_id,
         user_id,
-        expires_at,
+        provider,
+        model,
+        input_tokens,
+        cached_input_tokens,
+        output_tokens,
         created_at
-      ) VALUES (
+      )
+      VALUES (
         @id,
+        @messageId,
+        @sessionId,
         @userId,
-        @expiresAt,
+        @provider,
+        @model,
+        @inputTokens,
+        @cachedInputTokens,
+        @outputTokens,
         @createdAt
       )
+      ON CONFLICT(message_id) DO UPDATE SET
+        provider = excluded.provider,
+        model = excluded.model,
+        input_tokens = excluded.input_tokens,
+        cached_input_tokens = excluded.cached_input_tokens,
+        output_tokens = excluded.output_tokens
     `);
-    this.getLoginSessionStmt = this.db.prepare(`
+    this.getMessageUsageStmt = this.db.prepare(`
       SELECT
-        id,
-        user_id,
-        expires_at,
-        created_at
-      FROM login_sessions
-      WHERE id = @id
+        message_id as messageId,
+        session_id as sessionId,
+        user_id as userId,
+        provider,
+        model,
+        input_tokens as inputTokens,
+        cached_input_tokens as cachedInputTokens,
+        output_tokens as outputTokens,
+        created_at as createdAt
+      FROM message_usage
+      WHERE message_id = @messageId
     `);
-    this.deleteLoginSessionStmt = this.db.prepare(`
-      DELETE FROM login_sessions
-      WHERE id = @id
+    const prepareUsageReport = (group: { key: string; label: string }) =>
+      this.db.prepare<
+        { from: string; to: string; userId: string | null },
+        UsageReportRow
+      >(`
+        SELECT
+          ${group.key} as groupKey,
+          ${group.label} as label,
+          count(*) as turns,
+          sum(message_usage.input_tokens) as inputTokens,
+          sum(message_usage.cached_input_tokens) as cachedInputTokens,
+          sum(message_usage.output_tokens) as outputTokens,
+          sum(${usageCostExpression}) as cost,
+          sum(CASE WHEN model_pricing.model IS NULL THEN 1 ELSE 0 END) as unpricedTurns
+        FROM message_usage
+        LEFT JOIN model_pricing ON model_pricing.model = message_usage.model
+        LEFT JOIN users ON users.id = message_usage.user_id
+        LEFT JOIN sessions ON sessions.id = message_usage.session_id
+        WHERE message_usage.created_at >= @from
+          AND message_usage.created_at < @to
+          AND (@userId IS NULL OR message_usage.user_id = @userId)
+        GROUP BY groupKey
+        ORDER BY cost DESC, outputTokens DESC
+      `);
+    this.usageReportStmts = {
+      user: prepareUsageReport(usageReportGroups.user),
+      session: prepareUsageReport(usageReportGroups.session),
+      provider: prepareUsageReport(usageReportGroups.provider),
+      day: prepareUsageReport(usageReportGroups.day),
+    };
+    this.getUserQuotaStmt = this.db.prepare(`
+      SELECT
+        user_id as userId,
+        turns_per_hour as turnsPerHour,
+        tokens_per_day as tokensPerDay,
+        concurrent_turns as concurrentTurns,
+        updated_at as updatedAt
+      FROM user_quotas
+      WHERE user_id = @userId
     `);
-    this.deleteLoginSessionsByUserStmt = this.db.prepare(`
+    this.upsertUserQuotaStmt = this.db.prepare(`
+      INSERT INTO user_quotas (
+        user_id,
+        turns_per_hour,
+        tokens_per_day,
+        concurrent_turns,
+        updated_at
+      )
+      VALUES (
+        @userId,
+        @turnsPerHour,
+        @tokensPerDay,
+        @concurrentTurns,
+        @updatedAt
+      )
+      ON CONFLICT(user_id) DO UPDATE SET
+        turns_per_hour = excluded.turns_per_hour,
+        tokens_per_day = excluded.tokens_per_day,
+        concurrent_turns = excluded.concurrent_turns,
+        updated_at = excluded.updated_at
+    `);
+    this.getUserQuotaUsageStmt = this.db.prepare(`
+      SELECT
+        (
+          SELECT count(*)
+          FROM session_turns
+          JOIN sessions ON sessions.id = session_turns.session_id
+          WHERE sessions.user_id = @userId
+            AND session_turns.created_at >= @hourSince
+        ) as turnsLastHour,
+        (
+          SELECT min(session_turns.created_at)
+          FROM session_turns
+          JOIN sessions ON sessions.id = session_turns.session_id
+          WHERE sessions.user_id = @userId
+            AND session_turns.created_at >= @hourSince
+        ) as oldestTurnInHourAt,
+        (
+          SELECT count(*)
+          FROM messages
+          JOIN sessions ON sessions.id = messages.session_id
+          WHERE sessions.user_id = @userId AND messages.status = 'queued'
+        ) as queuedMessages,
+        (
+          SELECT coalesce(sum(
+            max(input_tokens - cached_input_tokens, 0) + output_tokens
+          ), 0)
+          FROM message_usage
+          WHERE user_id = @userId AND created_at >= @daySince
+        ) as tokensLastDay,
+        (
+          SELECT min(created_at)
+          FROM message_usage
+          WHERE user_id = @userId AND created_at >= @daySince
+        ) as oldestUsageInDayAt,
+        (
+          SELECT count(*)
+          FROM session_turns
+          JOIN sessions ON sessions.id = session_turns.session_id
+          WHERE sessions.user_id = @userId AND session_turns.status = 'running'
+        ) as runningTurns
+    `);
+    this.listModelPricingStmt = this.db.prepare(`
+      SELECT
+        model,
+        input_per_million as inputPerMillion,
+        cached_input_per_million as cachedInputPerMillion,
+        output_per_million as outputPerMillion,
+        updated_at as updatedAt
+      FROM model_pricing
+      ORDER BY model ASC
+    `);
+    this.upsertModelPricingStmt = this.db.prepare(`
+      INSERT INTO model_pricing (
+        model,
+        input_per_million,
+        cached_input_per_million,
+        output_per_million,
+        updated_at
+      )
+      VALUES (
+        @model,
+        @inputPerMillion,
+        @cachedInputPerMillion,
+        @outputPerMillion,
+        @updatedAt
+      )
+      ON CONFLICT(model) DO UPDATE SET
+        input_per_million = excluded.input_per_million,
+        cached_input_per_million = excluded.cached_input_per_million,
+        output_per_million = excluded.output_per_million,
+        updated_at = excluded.updated_at
+    `);
+    this.deleteModelPricingStmt = this.db.prepare(`
+      DELETE FROM model_pricing WHERE model = @model
+    `);
+    this.listSessionsWithQueuedMessagesStmt = this.db.prepare(`
+      SELECT DISTINCT session_id as sessionId
+      FROM messages
+      WHERE status = 'queued'
+    `);
+    this.dequeueMessageStmt = this.db.prepare(`
+      UPDATE messages
+      SET status = 'completed',
+          created_at = @createdAt
+      WHERE id = @id AND status = 'queued'
+    `);
+    this.insertSessionTurnStmt = this.db.prepare(`
+      INSERT INTO session_turns (
+        id,
+        session_id,
+        user_message_id,
+        assistant_message_id,
+        status,
+        created_at,
+        updated_at
+      )
+      VALUES (
+        @id,
+        @sessionId,
+        @userMessageId,
+        @assistantMessageId,
+        @status,
+        @createdAt,
+        @updatedAt
+      )
+    `);
+    this.updateSessionTurnStmt = this.db.prepare(`
+      UPDATE session_turns
+      SET status = @status,
+          error = @error,
+          updated_at = @updatedAt,
+          completed_at = @completedAt
+      WHERE id = @id
+    `);
+    this.getSessionTurnStmt = this.db.prepare(`
+      SELECT
+        id,
+        session_id as sessionId,
+        user_message_id as userMessageId,
+        assistant_message_id as assistantMessageId,
+        status,
+        error,
+        created_at as createdAt,
+        updated_at as updatedAt,
+        completed_at as completedAt
+      FROM session_turns
+      WHERE id = @id
+    `);
+    this.listSessionTurnsStmt = this.db.prepare(`
+      SELECT
+        id,
+        session_id as sessionId,
+        user_message_id as userMessageId,
+        assistant_message_id as assistantMessageId,
+        status,
+        error,
+        created_at as createdAt,
+        updated_at as updatedAt,
+        completed_at as completedAt
+      FROM session_turns
+      WHERE session_id = @sessionId
+      ORDER BY created_at ASC
+    `);
+    this.listTurnChangeReviewsStmt = this.db.prepare(`
+      SELECT
+        turn_id as turnId,
+        file_path as filePath,
+        hunk_index as hunkIndex,
+        decision,
+        updated_at as updatedAt
+      FROM turn_change_reviews
+      WHERE turn_id = @turnId
+    `);
+    this.upsertTurnChangeReviewStmt = this.db.prepare(`
+      INSERT INTO turn_change_reviews (
+        turn_id,
+        file_path,
+        hunk_index,
+        decision,
+        updated_at
+      )
+      VALUES (@turnId, @filePath, @hunkIndex, @decision, @updatedAt)
+      ON CONFLICT(turn_id, file_path, hunk_index) DO UPDATE SET
+        decision = excluded.decision,
+        updated_at = excluded.updated_at
+    `);
+    this.insertDeploymentStmt = this.db.prepare(`
+      INSERT INTO deployments (
+        id,
+        target_id,
+        target_name,
+        application_id,
+        artifact_key,
+        commit_sha,
+        user_id,
+        session_id,
+        status,
+        redeploy_of,
+        created_at,
+        updated_at
+      )
+      VALUES (
+        @id,
+        @targetId,
+        @targetName,
+        @applicationId,
+        @artifactKey,
+        @commitSha,
+        @userId,
+        @sessionId,
+        @status,
+        @redeployOf,
+        @createdAt,
+        @createdAt
+      )
+    `);
+    this.updateDeploymentStmt = this.db.prepare(`
+      UPDATE deployments
+      SET status = @status,
+          dokploy_deployment_id = COALESCE(@dokployDeploymentId, dokploy_deployment_id),
+          error = @error,
+          updated_at = @updatedAt,
+          completed_at = @completedAt
+      WHERE id = @id
+    `);
+    const deploymentColumns = `
+        d.id,
+        d.target_id as targetId,
+        d.target_name as targetName,
+        d.application_id as applicationId,
+        d.artifact_key as artifactKey,
+        d.commit_sha as commitSha,
+        d.user_id as userId,
+        u.username as username,
+        d.session_id as sessionId,
+        d.dokploy_deployment_id as dokployDeploymentId,
+        d.status,
+        d.error,
+        d.redeploy_of as redeployOf,
+        d.created_at as createdAt,
+        d.updated_at as updatedAt,
+        d.completed_at as completedAt
+    `;
+    this.getDeploymentStmt = this.db.prepare(`
+      SELECT ${deploymentColumns}
+      FROM deployments d
+      LEFT JOIN users u ON u.id = d.user_id
+      WHERE d.id = @id
+    `);
+    this.listDeploymentsStmt = this.db.prepare(`
+      SELECT ${deploymentColumns}
+      FROM deployments d
+      LEFT JOIN users u ON u.id = d.user_id
+      WHERE d.target_id = @targetId
+      ORDER BY d.created_at DESC
+      LIMIT @limit
+    `);
+    this.listActiveDeploymentsStmt = this.db.prepare(`
+      SELECT ${deploymentColumns}
+      FROM deployments d
+      LEFT JOIN users u ON u.id = d.user_id
+      WHERE d.status IN ('pending', 'running')
+      ORDER BY d.created_at ASC
+    `);
+    this.listSessionDeploymentsStmt = this.db.prepare(`
+      SELECT ${deploymentColumns}
+      FROM deployments d
+      LEFT JOIN users u ON u.id = d.user_id
+      WHERE d.session_id = @sessionId
+      ORDER BY d.created_at DESC
+      LIMIT @limit
+    `);
+    this.insertDeployArtifactStmt = this.db.prepare(`
+      INSERT INTO deploy_artifacts (key, target_id, size, commit_sha, created_at)
+      VALUES (@key, @targetId, @size, @commitSha, @createdAt)
+      ON CONFLICT(key) DO UPDATE SET
+        target_id = excluded.target_id,
+        size = excluded.size,
+        commit_sha = excluded.commit_sha
+    `);
+    this.listDeployArtifactsStmt = this.db.prepare(`
+      SELECT
+        a.key,
+        a.target_id as targetId,
+        t.name as targetName,
+        a.size,
+        a.commit_sha as commitSha,
+        a.created_at as createdAt
+      FROM deploy_artifacts a
+      LEFT JOIN deploy_configs t ON t.id = a.target_id
+      ORDER BY a.created_at DESC
+    `);
+    this.deleteDeployArtifactStmt = this.db.prepare(`
+      DELETE FROM deploy_artifacts WHERE key = @key
+    `);
+    this.upsertSessionSecretStmt = this.db.prepare(`
+      INSERT INTO session_secrets (
+        session_id, key, value_cipher, value_iv, value_tag, updated_by, created_at, updated_at
+      )
+      VALUES (@sessionId, @key, @valueCipher, @valueIv, @valueTag, @updatedBy, @now, @now)
+      ON CONFLICT(session_id, key) DO UPDATE SET
+        value_cipher = excluded.value_cipher,
+        value_iv = excluded.value_iv,
+        value_tag = excluded.value_tag,
+        updated_by = excluded.updated_by,
+        updated_at = excluded.updated_at
+    `);
+    this.listSessionSecretsStmt = this.db.prepare(`
+      SELECT
+        s.session_id as sessionId,
+        s.key,
+        s.value_cipher as valueCipher,
+        s.value_iv as valueIv,
+        s.value_tag as valueTag,
+        s.updated_by as updatedBy,
+        u.username as updatedByUsername,
+        s.created_at as createdAt,
+        s.updated_at as updatedAt
+      FROM session_secrets s
+      LEFT JOIN users u ON u.id = s.updated_by
+      WHERE s.session_id = @sessionId
+      ORDER BY s.key
+    `);
+    this.deleteSessionSecretStmt = this.db.prepare(`
+      DELETE FROM session_secrets WHERE session_id = @sessionId AND key = @key
+    `);
+    this.insertSessionSecretAuditStmt = this.db.prepare(`
+      INSERT INTO session_secret_audit (id, session_id, key, action, user_id, created_at)
+      VALUES (@id, @sessionId, @key, @action, @userId, @createdAt)
+    `);
+    this.listSessionSecretAuditStmt = this.db.prepare(`
+      SELECT
+        a.id,
+        a.session_id as sessionId,
+        a.key,
+        a.action,
+        a.user_id as userId,
+        u.username,
+        a.created_at as createdAt
+      FROM session_secret_audit a
+      LEFT JOIN users u ON u.id = a.user_id
+      WHERE a.session_id = @sessionId
+      ORDER BY a.created_at DESC
+      LIMIT @limit
+    `);
+    this.getRunningSessionTurnStmt = this.db.prepare(`
+      SELECT
+        id,
+        session_id as sessionId,
+        user_message_id as userMessageId,
+        assistant_message_id as assistantMessageId,
+        status,
+        error,
+        created_at as createdAt,
+        updated_at as updatedAt,
+        completed_at as completedAt
+      FROM session_turns
+      WHERE session_id = @sessionId AND status = 'running'
+      ORDER BY created_at DESC
+      LIMIT 1
+    `);
+    this.listRunningSessionTurnsStmt = this.db.prepare(`
+      SELECT
+        id,
+        session_id as sessionId,
+        user_message_id as userMessageId,
+        assistant_message_id as assistantMessageId,
+        status,
+        error,
+        created_at as createdAt,
+        updated_at as updatedAt,
+        completed_at as completedAt
+      FROM session_turns
+      WHERE status = 'running'
+      ORDER BY created_at ASC
+    `);
+    const deployTargetColumns = `
+        id,
+        name,
+        is_default,
+        config_json,
+        api_key_cipher,
+        api_key_iv,
+        api_key_tag,
+        created_at,
+        updated_at
+    `;
+    this.listDeployTargetsStmt = this.db.prepare(`
+      SELECT ${deployTargetColumns}
+      FROM deploy_configs
+      ORDER BY is_default DESC, name COLLATE NOCASE ASC
+    `);
+    this.getDeployTargetStmt = this.db.prepare(`
+      SELECT ${deployTargetColumns}
+      FROM deploy_configs
+      WHERE id = @id
+    `);
+    this.getDefaultDeployTargetStmt = this.db.prepare(`
+      SELECT ${deployTargetColumns}
+      FROM deploy_configs
+      WHERE is_default = 1
+      LIMIT 1
+    `);
+    this.insertDeployTargetStmt = this.db.prepare(`
+      INSERT INTO deploy_configs (
+        id,
+        name,
+        is_default,
+        config_json,
+        api_key_cipher,
+        api_key_iv,
+        api_key_tag,
+        created_at,
+        updated_at
+      ) VALUES (
+        @id,
+        @name,
+        @isDefault,
+        @configJson,
+        @apiKeyCipher,
+        @apiKeyIv,
+        @apiKeyTag,
+        @createdAt,
+        @updatedAt
+      )
+    `);
+    this.updateDeployTargetStmt = this.db.prepare(`
+      UPDATE deploy_configs
+      SET name = @name,
+          config_json = @configJson,
+          api_key_cipher = @apiKeyCipher,
+          api_key_iv = @apiKeyIv,
+          api_key_tag = @apiKeyTag,
+          updated_at = @updatedAt
+      WHERE id = @id
+    `);
+    this.deleteDeployTargetStmt = this.db.prepare(`
+      DELETE FROM deploy_configs WHERE id = @id
+    `);
+    this.setDefaultDeployTargetStmt = this.db.prepare(`
+      UPDATE deploy_configs
+      SET is_default = CASE WHEN id = @id THEN 1 ELSE 0 END
+    `);
+    this.insertUserStmt = this.db.prepare(`
+      INSERT INTO users (
+        id,
+        username,
+        password_hash,
+        is_admin,
+        created_at,
+        updated_at
+      ) VALUES (
+        @id,
+        @username,
+        @passwordHash,
+        @isAdmin,
+        @createdAt,
+        @updatedAt
+      )
+    `);
+    this.listUsersStmt = this.db.prepare(`
+      SELECT
+        id,
+        username,
+        password_hash,
+        is_admin,
+        totp_enabled_at,
+        created_at,
+        updated_at
+      FROM users
+      ORDER BY created_at ASC
+    `);
+    this.getUserByIdStmt = this.db.prepare(`
+      SELECT
+        id,
+        username,
+        password_hash,
+        is_admin,
+        totp_enabled_at,
+        created_at,
+        updated_at
+      FROM users
+      WHERE id = @id
+    `);
+    this.getUserByUsernameStmt = this.db.prepare(`
+      SELECT
+        id,
+        username,
+        password_hash,
+        is_admin,
+        totp_enabled_at,
+        created_at,
+        updated_at
+      FROM users
+      WHERE username = @username
+    `);
+    this.getUserTotpStmt = this.db.prepare(`
+      SELECT
+        totp_secret_cipher,
+        totp_secret_iv,
+        totp_secret_tag,
+        totp_enabled_at,
+        totp_last_step,
+        totp_recovery_codes
+      FROM users
+      WHERE id = @id
+    `);
+    this.deleteUserStmt = this.db.prepare(`
+      DELETE FROM users
+      WHERE id = @id
+    `);
+    this.insertLoginSessionStmt = this.db.prepare(`
+      INSERT INTO login_sessions (
+        id,
+        user_id,
+        expires_at,
+        created_at,
+        impersonator_user_id,
+        impersonator_session_id
+      ) VALUES (
+        @id,
+        @userId,
+        @expiresAt,
+        @createdAt,
+        @impersonatorUserId,
+        @impersonatorSessionId
+      )
+    `);
+    this.getLoginSessionStmt = this.db.prepare(`
+      SELECT
+        id,
+        user_id,
+        expires_at,
+        created_at,
+        impersonator_user_id,
+        impersonator_session_id
+      FROM login_sessions
+      WHERE id = @id
+    `);
+    this.deleteLoginSessionStmt = this.db.prepare(`
+      DELETE FROM login_sessions
+      WHERE id = @id
+    `);
+    this.deleteLoginSessionsByUserStmt = this.db.prepare(`
       DELETE FROM login_sessions
       WHERE user_id = @userId
     `);
@@ -910,6 +2285,9 @@ class SQLiteDatabase implements IDatabase {
         container_url,
         status,
         error_message,
+        stopped_reason,
+        backend,
+        container_id,
         created_at,
         updated_at
       ) VALUES (
@@ -919,6 +2297,9 @@ class SQLiteDatabase implements IDatabase {
         @serviceUrl,
         @status,
         @errorMessage,
+        @stoppedReason,
+        @backend,
+        @containerId,
         @createdAt,
         @updatedAt
       )
@@ -927,6 +2308,9 @@ class SQLiteDatabase implements IDatabase {
         container_url = @serviceUrl,
         status = @status,
         error_message = @errorMessage,
+        stopped_reason = @stoppedReason,
+        backend = @backend,
+        container_id = @containerId,
         updated_at = @updatedAt
     `);
     this.getSessionServiceStmt = this.db.prepare(`
@@ -937,13 +2321,184 @@ class SQLiteDatabase implements IDatabase {
         container_url,
         status,
         error_message,
+        last_activity_at,
+        stopped_reason,
+        backend,
+        container_id,
+        health,
+        health_checked_at,
+        restart_count,
+        last_restart_at,
         created_at,
         updated_at
       FROM session_containers
       WHERE session_id = @sessionId
     `);
-    this.deleteSessionServiceStmt = this.db.prepare(`
-      DELETE FROM session_containers WHERE session_id = @sessionId
+    this.deleteSessionServiceStmt = this.db.prepare(`
+      DELETE FROM session_containers WHERE session_id = @sessionId
+    `);
+    this.touchSessionServiceStmt = this.db.prepare(`
+      UPDATE session_containers
+      SET last_activity_at = @at
+      WHERE session_id = @sessionId
+    `);
+    this.listIdleSessionServicesStmt = this.db.prepare(`
+      SELECT session_id
+      FROM session_containers
+      WHERE status = 'running'
+        AND (dokploy_app_id IS NOT NULL OR container_id IS NOT NULL)
+        AND MAX(COALESCE(last_activity_at, ''), updated_at) < @before
+    `);
+    this.updateSessionServiceHealthStmt = this.db.prepare(`
+      UPDATE session_containers
+      SET health = @health,
+        health_checked_at = @checkedAt,
+        restart_count = @restartCount,
+        last_restart_at = @lastRestartAt
+      WHERE session_id = @sessionId
+    `);
+    this.listMonitoredSessionServicesStmt = this.db.prepare(`
+      SELECT session_id
+      FROM session_containers
+      WHERE status IN ('running', 'error')
+        AND (dokploy_app_id IS NOT NULL OR container_id IS NOT NULL)
+    `);
+    this.insertAuditEventStmt = this.db.prepare(`
+      INSERT INTO audit_events (
+        id,
+        created_at,
+        actor_user_id,
+        actor_username,
+        acting_as_user_id,
+        acting_as_username,
+        action,
+        target_type,
+        target_id,
+        target_label,
+        ip,
+        before_json,
+        after_json
+      ) VALUES (
+        @id,
+        @createdAt,
+        @actorUserId,
+        @actorUsername,
+        @actingAsUserId,
+        @actingAsUsername,
+        @action,
+        @targetType,
+        @targetId,
+        @targetLabel,
+        @ip,
+        @beforeJson,
+        @afterJson
+      )
+    `);
+    // `action` matches the action or, ending in ".", every action it prefixes
+    this.listAuditEventsStmt = this.db.prepare(`
+      SELECT
+        id,
+        created_at as createdAt,
+        actor_user_id as actorUserId,
+        actor_username as actorUsername,
+        acting_as_user_id as actingAsUserId,
+        acting_as_username as actingAsUsername,
+        action,
+        target_type as targetType,
+        target_id as targetId,
+        target_label as targetLabel,
+        ip,
+        before_json as beforeJson,
+        after_json as afterJson
+      FROM audit_events
+      WHERE (@action IS NULL OR action = @action OR (substr(@action, -1) = '.' AND substr(action, 1, length(@action)) = @action))
+        AND (@actorUserId IS NULL OR actor_user_id = @actorUserId OR acting_as_user_id = @actorUserId)
+        AND (@targetType IS NULL OR target_type = @targetType)
+        AND (@from IS NULL OR created_at >= @from)
+        AND (@to IS NULL OR created_at < @to)
+        AND (
+          @search IS NULL
+          OR instr(lower(COALESCE(target_label, '') || ' ' || COALESCE(target_id, '') || ' ' || COALESCE(actor_username, '') || ' ' || COALESCE(acting_as_username, '') || ' ' || COALESCE(ip, '')), lower(@search)) > 0
+        )
+      ORDER BY created_at DESC, rowid DESC
+      LIMIT @limit OFFSET @offset
+    `);
+    this.insertApiTokenStmt = this.db.prepare(`
+      INSERT INTO api_tokens (
+        id, user_id, name, token_hash, token_prefix, scopes, expires_at, created_at
+      )
+      VALUES (
+        @id, @userId, @name, @tokenHash, @tokenPrefix, @scopes, @expiresAt, @createdAt
+      )
+    `);
+    const apiTokenColumns = `
+        id,
+        user_id as userId,
+        name,
+        token_prefix as tokenPrefix,
+        scopes,
+        expires_at as expiresAt,
+        last_used_at as lastUsedAt,
+        last_used_ip as lastUsedIp,
+        created_at as createdAt
+    `;
+    this.listApiTokensStmt = this.db.prepare(`
+      SELECT ${apiTokenColumns}
+      FROM api_tokens
+      WHERE user_id = @userId
+      ORDER BY created_at DESC
+    `);
+    this.getApiTokenByHashStmt = this.db.prepare(`
+      SELECT ${apiTokenColumns}
+      FROM api_tokens
+      WHERE token_hash = @tokenHash
+    `);
+    this.deleteApiTokenStmt = this.db.prepare(`
+      DELETE FROM api_tokens WHERE id = @id AND user_id = @userId
+    `);
+    this.touchApiTokenStmt = this.db.prepare(`
+      UPDATE api_tokens
+      SET last_used_at = @usedAt, last_used_ip = @ip
+      WHERE id = @id
+    `);
+    const userIdentityColumns = `
+        id,
+        user_id as userId,
+        provider,
+        subject,
+        email,
+        created_at as createdAt,
+        last_login_at as lastLoginAt
+    `;
+    this.getUserIdentityStmt = this.db.prepare(`
+      SELECT ${userIdentityColumns}
+      FROM user_identities
+      WHERE provider = @provider AND subject = @subject
+    `);
+    this.listUserIdentitiesStmt = this.db.prepare(`
+      SELECT ${userIdentityColumns}
+      FROM user_identities
+      WHERE user_id = @userId
+      ORDER BY created_at
+    `);
+    this.insertUserIdentityStmt = this.db.prepare(`
+      INSERT INTO user_identities (id, user_id, provider, subject, email, created_at)
+      VALUES (@id, @userId, @provider, @subject, @email, @createdAt)
+    `);
+    this.touchUserIdentityStmt = this.db.prepare(`
+      UPDATE user_identities
+      SET email = @email, last_login_at = @lastLoginAt
+      WHERE id = @id
+    `);
+    this.getAppSettingStmt = this.db.prepare(`
+      SELECT value FROM app_settings WHERE key = @key
+    `);
+    this.setAppSettingStmt = this.db.prepare(`
+      INSERT INTO app_settings (key, value, updated_at)
+      VALUES (@key, @value, @updatedAt)
+      ON CONFLICT(key) DO UPDATE SET
+        value = @value,
+        updated_at = @updatedAt
     `);
     this.upsertSessionSettingsStmt = this.db.prepare(`
       INSERT INTO session_settings (
@@ -992,12 +2547,63 @@ class SQLiteDatabase implements IDatabase {
         git_remote_url,
         git_branch,
         auto_commit,
+        provider,
+        model,
+        reasoning_effort,
+        deploy_target_id,
         created_at,
         updated_at
       FROM session_settings
       WHERE session_id = @sessionId
     `);
-    this.initializeDeployConfig();
+    this.updateSessionAgentSettingsStmt = this.db.prepare(`
+      INSERT INTO session_settings (
+        id,
+        session_id,
+        provider,
+        model,
+        reasoning_effort,
+        created_at,
+        updated_at
+      ) VALUES (
+        @id,
+        @sessionId,
+        @provider,
+        @model,
+        @reasoningEffort,
+        @createdAt,
+        @updatedAt
+      )
+      ON CONFLICT(session_id) DO UPDATE SET
+        provider = @provider,
+        model = @model,
+        reasoning_effort = @reasoningEffort,
+        updated_at = @updatedAt
+    `);
+    this.setSessionDeployTargetStmt = this.db.prepare(`
+      INSERT INTO session_settings (
+        id,
+        session_id,
+        deploy_target_id,
+        created_at,
+        updated_at
+      ) VALUES (
+        @id,
+        @sessionId,
+        @deployTargetId,
+        @createdAt,
+        @updatedAt
+      )
+      ON CONFLICT(session_id) DO UPDATE SET
+        deploy_target_id = @deployTargetId,
+        updated_at = @updatedAt
+    `);
+    this.clearSessionDeployTargetStmt = this.db.prepare(`
+      UPDATE session_settings
+      SET deploy_target_id = NULL
+      WHERE deploy_target_id = @id
+    `);
+    this.initializeDeployTargets();
   }
 
   private ensureSessionColumns(): void {
@@ -1036,6 +2642,92 @@ class SQLiteDatabase implements IDatabase {
     this.db.exec(
       `CREATE INDEX IF NOT EXISTS idx_deploy_configs_session ON deploy_configs(session_id)`,
     );
+
+    // Each row is a named deployment target; the row that used to hold the
+    // single global configuration becomes the default target.
+    if (!columns.some((column) => column.name === "name")) {
+      this.db.exec(`ALTER TABLE deploy_configs ADD COLUMN name TEXT`);
+      this.db.exec(
+        `UPDATE deploy_configs SET name = CASE WHEN id = 'default' THEN 'Default' ELSE id END`,
+      );
+    }
+    if (!columns.some((column) => column.name === "is_default")) {
+      this.db.exec(
+        `ALTER TABLE deploy_configs ADD COLUMN is_default INTEGER NOT NULL DEFAULT 0`,
+      );
+      this.db.exec(`UPDATE deploy_configs SET is_default = 1 WHERE id = 'default'`);
+    }
+    if (!columns.some((column) => column.name === "created_at")) {
+      this.db.exec(`ALTER TABLE deploy_configs ADD COLUMN created_at TEXT`);
+      this.db.exec(`UPDATE deploy_configs SET created_at = updated_at`);
+    }
+    this.db.exec(
+      `CREATE UNIQUE INDEX IF NOT EXISTS idx_deploy_configs_name ON deploy_configs(name COLLATE NOCASE)`,
+    );
+  }
+
+  /**
+   * Populates the search index for data written before the index existed.
+   * Later writes are indexed by triggers.
+   */
+  private backfillSearchIndex(): void {
+    const indexed = this.db
+      .prepare(`SELECT 1 FROM search_index LIMIT 1`)
+      .get();
+    if (indexed) {
+      return;
+    }
+
+    this.db.transaction(() => {
+      this.db.exec(`
+        INSERT INTO search_index (content, source, source_id, session_id, message_id)
+        SELECT title, 'session', id, id, NULL FROM sessions
+      `);
+      this.db.exec(`
+        INSERT INTO search_index (content, source, source_id, session_id, message_id)
+        SELECT content, 'message', id, session_id, id FROM messages
+      `);
+      this.db.exec(`
+        INSERT INTO search_index (content, source, source_id, session_id, message_id)
+        SELECT ${runItemSearchText("payload")}, 'run_item', id, session_id, message_id
+        FROM message_run_items
+      `);
+    })();
+  }
+
+  /**
+   * Encrypts two-factor secrets that were stored before CODEX_WEBAPP_SECRET
+   * was set. Until it is set they stay readable so sign-in keeps working.
+   */
+  private encryptStoredTotpSecrets(): void {
+    if (!isEncryptionAvailable()) {
+      return;
+    }
+
+    const rows = this.db
+      .prepare(`
+        SELECT id, totp_secret_cipher AS cipherText
+        FROM users
+        WHERE totp_secret_cipher IS NOT NULL AND totp_secret_iv IS NULL
+      `)
+      .all() as Array<{ id: string; cipherText: string }>;
+    if (rows.length === 0) {
+      return;
+    }
+
+    const updateStmt = this.db.prepare(`
+      UPDATE users
+      SET totp_secret_cipher = @cipherText, totp_secret_iv = @iv, totp_secret_tag = @tag
+      WHERE id = @id
+    `);
+    this.db.transaction(() => {
+      for (const row of rows) {
+        const encrypted = encryptSecret(Buffer.from(row.cipherText, "base64").toString("utf8"));
+        if (encrypted) {
+          updateStmt.run({ id: row.id, ...encrypted });
+        }
+      }
+    })();
   }
 
   /**
@@ -1088,9 +2780,14 @@ class SQLiteDatabase implements IDatabase {
     })();
   }
 
-  private initializeDeployConfig(): void {
-    const existing = this.getDeployConfigStmt.get();
-    if (existing) {
+  private initializeDeployTargets(): void {
+    if (this.getDefaultDeployTargetStmt.get()) {
+      return;
+    }
+
+    const fallback = this.listDeployTargetsStmt.all()[0];
+    if (fallback) {
+      this.setDefaultDeployTargetStmt.run({ id: fallback.id });
       return;
     }
 
@@ -1107,12 +2804,15 @@ class SQLiteDatabase implements IDatabase {
     };
 
     const now = new Date().toISOString();
-    this.upsertDeployConfigStmt.run({
+    this.insertDeployTargetStmt.run({
       id: "default",
+      name: "Default",
+      isDefault: 1,
       configJson: JSON.stringify(defaultConfig),
       apiKeyCipher: null,
       apiKeyIv: null,
       apiKeyTag: null,
+      createdAt: now,
       updatedAt: now,
     });
   }
@@ -1184,6 +2884,7 @@ class SQLiteDatabase implements IDatabase {
       username: row.username,
       passwordHash: row.password_hash,
       isAdmin: Boolean(row.is_admin),
+      totpEnabledAt: row.totp_enabled_at ?? null,
       createdAt: row.created_at,
       updatedAt: row.updated_at,
     };
@@ -1200,6 +2901,8 @@ class SQLiteDatabase implements IDatabase {
       userId: row.user_id,
       expiresAt: row.expires_at,
       createdAt: row.created_at,
+      impersonatorUserId: row.impersonator_user_id ?? null,
+      impersonatorSessionId: row.impersonator_session_id ?? null,
     };
   }
 
@@ -1318,6 +3021,7 @@ class SQLiteDatabase implements IDatabase {
 
     const suggestion = await generateSessionTitle(existing, messages, {
       fallback: existing.title,
+      selection: resolveAgentSelection(this.getSessionSettings(id)),
     });
     const normalizedSuggestion = suggestion.trim();
     if (normalizedSuggestion.length === 0) {
@@ -1383,17 +3087,15 @@ class SQLiteDatabase implements IDatabase {
     this.resetAllThreadsStmt.run();
   }
 
-  getDeployConfig(): DeployConfigRow | null {
-    const row = this.getDeployConfigStmt.get();
-    if (!row) {
-      return null;
-    }
-
+  private toDeployTargetRow(row: DeployTargetDbRow): DeployTargetRow {
     let parsed: DeployConfig;
     try {
       parsed = JSON.parse(row.config_json) as DeployConfig;
     } catch (error) {
-      console.warn("[codex-webapp] Failed to parse stored Dokploy config:", error);
+      console.warn(
+        `[codex-webapp] Failed to parse stored config of deploy target ${row.id}:`,
+        error,
+      );
       parsed = {
         baseUrl: "",
         authMethod: "x-api-key",
@@ -1407,7 +3109,10 @@ class SQLiteDatabase implements IDatabase {
 
     return {
       id: row.id,
+      name: row.name,
+      isDefault: row.is_default === 1,
       config: parsed,
+      createdAt: row.created_at ?? row.updated_at,
       updatedAt: row.updated_at,
       hasApiKey: Boolean(row.api_key_cipher),
       apiKeyCipher: row.api_key_cipher,
@@ -1416,55 +3121,127 @@ class SQLiteDatabase implements IDatabase {
     };
   }
 
-  saveDeployConfig(input: {
+  /**
+   * Resolves the stored API key columns after an update. `undefined` keeps the
+   * current key, an empty value clears it.
+   */
+  private resolveDeployApiKey(
+    apiKey: string | null | undefined,
+    existing: Pick<DeployTargetDbRow, "api_key_cipher" | "api_key_iv" | "api_key_tag"> | null,
+  ): { apiKeyCipher: string | null; apiKeyIv: string | null; apiKeyTag: string | null } {
+    if (apiKey === undefined) {
+      return {
+        apiKeyCipher: existing?.api_key_cipher ?? null,
+        apiKeyIv: existing?.api_key_iv ?? null,
+        apiKeyTag: existing?.api_key_tag ?? null,
+      };
+    }
+
+    const trimmed = apiKey?.trim();
+    if (!trimmed) {
+      return { apiKeyCipher: null, apiKeyIv: null, apiKeyTag: null };
+    }
+
+    const encrypted = encryptSecret(trimmed);
+    if (encrypted) {
+      return {
+        apiKeyCipher: encrypted.cipherText,
+        apiKeyIv: encrypted.iv,
+        apiKeyTag: encrypted.tag,
+      };
+    }
+    return {
+      apiKeyCipher: Buffer.from(trimmed, "utf8").toString("base64"),
+      apiKeyIv: null,
+      apiKeyTag: null,
+    };
+  }
+
+  listDeployTargets(): DeployTargetRow[] {
+    return this.listDeployTargetsStmt
+      .all()
+      .map((row) => this.toDeployTargetRow(row));
+  }
+
+  getDeployTarget(id: string): DeployTargetRow | null {
+    const row = this.getDeployTargetStmt.get({ id });
+    return row ? this.toDeployTargetRow(row) : null;
+  }
+
+  getDefaultDeployTarget(): DeployTargetRow | null {
+    const row = this.getDefaultDeployTargetStmt.get();
+    return row ? this.toDeployTargetRow(row) : null;
+  }
+
+  createDeployTarget(input: {
+    name: string;
     config: DeployConfig;
     apiKey?: string | null;
-  }): DeployConfigRow {
-    const existing = this.getDeployConfigStmt.get();
-    let apiKeyCipher = existing?.api_key_cipher ?? null;
-    let apiKeyIv = existing?.api_key_iv ?? null;
-    let apiKeyTag = existing?.api_key_tag ?? null;
-
-    if (input.apiKey !== undefined) {
-      const trimmed = input.apiKey?.trim();
-      if (trimmed && trimmed.length > 0) {
-        const encrypted = encryptSecret(trimmed);
-        if (encrypted) {
-          apiKeyCipher = encrypted.cipherText;
-          apiKeyIv = encrypted.iv;
-          apiKeyTag = encrypted.tag;
-        } else {
-          apiKeyCipher = Buffer.from(trimmed, "utf8").toString("base64");
-          apiKeyIv = null;
-          apiKeyTag = null;
-        }
-      } else {
-        apiKeyCipher = null;
-        apiKeyIv = null;
-        apiKeyTag = null;
-      }
+  }): DeployTargetRow {
+    const now = new Date().toISOString();
+    const id = uuid();
+    const isDefault = this.getDefaultDeployTargetStmt.get() ? 0 : 1;
+    this.insertDeployTargetStmt.run({
+      id,
+      name: input.name.trim(),
+      isDefault,
+      configJson: JSON.stringify(input.config),
+      ...this.resolveDeployApiKey(input.apiKey, null),
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    const created = this.getDeployTarget(id);
+    if (!created) {
+      throw new Error("Failed to retrieve stored deploy target");
     }
+    return created;
+  }
 
-    const updatedAt = new Date().toISOString();
-    this.upsertDeployConfigStmt.run({
-      id: "default",
+  updateDeployTarget(
+    id: string,
+    input: {
+      name?: string;
+      config: DeployConfig;
+      apiKey?: string | null;
+    },
+  ): DeployTargetRow | null {
+    const existing = this.getDeployTargetStmt.get({ id });
+    if (!existing) {
+      return null;
+    }
+
+    this.updateDeployTargetStmt.run({
+      id,
+      name: input.name?.trim() || existing.name,
       configJson: JSON.stringify(input.config),
-      apiKeyCipher,
-      apiKeyIv,
-      apiKeyTag,
-      updatedAt,
+      ...this.resolveDeployApiKey(input.apiKey, existing),
+      updatedAt: new Date().toISOString(),
     });
+    return this.getDeployTarget(id);
+  }
 
-    return {
-      id: "default",
-      config: input.config,
-      updatedAt,
-      hasApiKey: Boolean(apiKeyCipher),
-    };
+  /**
+   * Deletes a deployment target. Sessions pointing at it fall back to the
+   * default target.
+   */
+  deleteDeployTarget(id: string): boolean {
+    return this.db.transaction(() => {
+      this.clearSessionDeployTargetStmt.run({ id });
+      return this.deleteDeployTargetStmt.run({ id }).changes > 0;
+    })();
+  }
+
+  setDefaultDeployTarget(id: string): DeployTargetRow | null {
+    if (!this.getDeployTargetStmt.get({ id })) {
+      return null;
+    }
+    this.setDefaultDeployTargetStmt.run({ id });
+    return this.getDeployTarget(id);
   }
 
-  getDeployApiKey(): string | null {
-    const row = this.getDeployConfigStmt.get();
+  getDeployTargetApiKey(id: string): string | null {
+    const row = this.getDeployTargetStmt.get({ id });
     if (!row) {
       return null;
     }
@@ -1484,6 +3261,7 @@ class SQLiteDatabase implements IDatabase {
       username: normalizedUsername,
       passwordHash: input.passwordHash,
       isAdmin: input.isAdmin,
+      totpEnabledAt: null,
       createdAt: now,
       updatedAt: now,
     };
@@ -1564,15 +3342,81 @@ class SQLiteDatabase implements IDatabase {
       .filter((record): record is UserRecord => record !== null);
   }
 
+  getUserTotp(userId: string): UserTotpRecord | null {
+    const row = this.getUserTotpStmt.get({ id: userId });
+    if (!row) {
+      return null;
+    }
+    return {
+      userId,
+      secret: decryptSecret(row.totp_secret_cipher, row.totp_secret_iv, row.totp_secret_tag),
+      enabledAt: row.totp_enabled_at,
+      lastUsedStep: row.totp_last_step,
+      recoveryCodeHashes: row.totp_recovery_codes ? JSON.parse(row.totp_recovery_codes) : [],
+    };
+  }
+
+  updateUserTotp(userId: string, updates: {
+    secret?: string | null;
+    enabledAt?: string | null;
+    lastUsedStep?: number | null;
+    recoveryCodeHashes?: string[];
+  }): void {
+    const assignments: string[] = [];
+    const params: Record<string, unknown> = { id: userId };
+
+    if (updates.secret !== undefined) {
+      const encrypted = updates.secret ? encryptSecret(updates.secret) : null;
+      if (updates.secret && !encrypted) {
+        throw new Error("Set CODEX_WEBAPP_SECRET on the server before turning on two-factor authentication.");
+      }
+      assignments.push(
+        "totp_secret_cipher = @secretCipher",
+        "totp_secret_iv = @secretIv",
+        "totp_secret_tag = @secretTag",
+      );
+      params.secretCipher = encrypted?.cipherText ?? null;
+      params.secretIv = encrypted?.iv ?? null;
+      params.secretTag = encrypted?.tag ?? null;
+    }
+
+    if (updates.enabledAt !== undefined) {
+      assignments.push("totp_enabled_at = @enabledAt");
+      params.enabledAt = updates.enabledAt;
+    }
+
+    if (updates.lastUsedStep !== undefined) {
+      assignments.push("totp_last_step = @lastUsedStep");
+      params.lastUsedStep = updates.lastUsedStep;
+    }
+
+    if (updates.recoveryCodeHashes !== undefined) {
+      assignments.push("totp_recovery_codes = @recoveryCodes");
+      params.recoveryCodes = JSON.stringify(updates.recoveryCodeHashes);
+    }
+
+    if (assignments.length === 0) {
+      return;
+    }
+
+    this.db
+      .prepare(`UPDATE users SET ${assignments.join(", ")} WHERE id = @id`)
+      .run(params);
+  }
+
   createLoginSession(input: {
     userId: string;
     expiresAt: string;
+    impersonatorUserId?: string | null;
+    impersonatorSessionId?: string | null;
   }): LoginSessionRecord {
     const record: LoginSessionRecord = {
       id: uuid(),
       userId: input.userId,
       expiresAt: input.expiresAt,
       createdAt: new Date().toISOString(),
+      impersonatorUserId: input.impersonatorUserId ?? null,
+      impersonatorSessionId: input.impersonatorSessionId ?? null,
     };
 
     this.insertLoginSessionStmt.run({
@@ -1580,6 +3424,8 @@ class SQLiteDatabase implements IDatabase {
       userId: record.userId,
       expiresAt: record.expiresAt,
       createdAt: record.createdAt,
+      impersonatorUserId: record.impersonatorUserId,
+      impersonatorSessionId: record.impersonatorSessionId,
     });
 
     return record;
@@ -1812,6 +3658,10 @@ class SQLiteDatabase implements IDatabase {
     serviceUrl: string | null;
     status: SessionServiceRecord["status"];
     errorMessage?: string | null;
+    stoppedReason?: SessionServiceRecord["stoppedReason"];
+    /** Kept from the existing record when omitted. */
+    backend?: SessionServiceRecord["backend"];
+    containerId?: string | null;
   }): SessionServiceRecord {
     const existing = this.getSessionService(input.sessionId);
     const now = new Date().toISOString();
@@ -1825,37 +3675,226 @@ class SQLiteDatabase implements IDatabase {
       serviceUrl: input.serviceUrl,
       status: input.status,
       errorMessage: input.errorMessage ?? null,
+      stoppedReason: input.stoppedReason ?? null,
+      backend: input.backend ?? existing?.backend ?? "dokploy",
+      containerId:
+        input.containerId !== undefined ? input.containerId : (existing?.containerId ?? null),
       createdAt,
       updatedAt: now,
     });
 
-    const updated = this.getSessionService(input.sessionId);
-    if (!updated) {
-      throw new Error("Failed to retrieve stored session service record");
-    }
-    return updated;
+    const updated = this.getSessionService(input.sessionId);
+    if (!updated) {
+      throw new Error("Failed to retrieve stored session service record");
+    }
+    return updated;
+  }
+
+  getSessionService(sessionId: string): SessionServiceRecord | null {
+    const row = this.getSessionServiceStmt.get({ sessionId });
+    if (!row) {
+      return null;
+    }
+    return {
+      id: row.id,
+      sessionId: row.session_id,
+      dokployAppId: row.dokploy_app_id,
+      serviceUrl: row.container_url,
+      status: row.status as SessionServiceRecord["status"],
+      errorMessage: row.error_message,
+      lastActivityAt: row.last_activity_at,
+      stoppedReason: row.stopped_reason as SessionServiceRecord["stoppedReason"],
+      backend: row.backend as SessionServiceRecord["backend"],
+      containerId: row.container_id,
+      health: row.health as SessionServiceRecord["health"],
+      healthCheckedAt: row.health_checked_at,
+      restartCount: row.restart_count,
+      lastRestartAt: row.last_restart_at,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  deleteSessionService(sessionId: string): boolean {
+    const result = this.deleteSessionServiceStmt.run({ sessionId });
+    return result.changes > 0;
+  }
+
+  touchSessionService(sessionId: string, at: string = new Date().toISOString()): void {
+    this.touchSessionServiceStmt.run({ sessionId, at });
+  }
+
+  listIdleSessionServices(before: string): string[] {
+    return this.listIdleSessionServicesStmt.all({ before }).map((row) => row.session_id);
+  }
+
+  updateSessionServiceHealth(
+    sessionId: string,
+    input: {
+      health: SessionServiceRecord["health"];
+      checkedAt: string | null;
+      restartCount: number;
+      lastRestartAt: string | null;
+    },
+  ): void {
+    this.updateSessionServiceHealthStmt.run({ sessionId, ...input });
+  }
+
+  listMonitoredSessionServices(): string[] {
+    return this.listMonitoredSessionServicesStmt.all().map((row) => row.session_id);
+  }
+
+  addAuditEvent(input: Omit<AuditEventRecord, "id" | "createdAt">): AuditEventRecord {
+    const event: AuditEventRecord = {
+      ...input,
+      id: uuid(),
+      createdAt: new Date().toISOString(),
+    };
+    this.insertAuditEventStmt.run({
+      id: event.id,
+      createdAt: event.createdAt,
+      actorUserId: event.actorUserId,
+      actorUsername: event.actorUsername,
+      actingAsUserId: event.actingAsUserId,
+      actingAsUsername: event.actingAsUsername,
+      action: event.action,
+      targetType: event.targetType,
+      targetId: event.targetId,
+      targetLabel: event.targetLabel,
+      ip: event.ip,
+      beforeJson: event.before ? JSON.stringify(event.before) : null,
+      afterJson: event.after ? JSON.stringify(event.after) : null,
+    });
+    return event;
+  }
+
+  listAuditEvents(filter: AuditEventFilter = {}): AuditEventRecord[] {
+    const parseSummary = (json: string | null): Record<string, unknown> | null => {
+      if (!json) {
+        return null;
+      }
+      try {
+        return JSON.parse(json) as Record<string, unknown>;
+      } catch {
+        return null;
+      }
+    };
+
+    return this.listAuditEventsStmt
+      .all({
+        action: filter.action ?? null,
+        actorUserId: filter.actorUserId ?? null,
+        targetType: filter.targetType ?? null,
+        from: filter.from ?? null,
+        to: filter.to ?? null,
+        search: filter.search ?? null,
+        limit: filter.limit ?? 100,
+        offset: filter.offset ?? 0,
+      })
+      .map(({ beforeJson, afterJson, ...row }) => ({
+        ...row,
+        before: parseSummary(beforeJson),
+        after: parseSummary(afterJson),
+      }));
+  }
+
+  private hydrateApiTokenRow(row: ApiTokenRow): ApiTokenRecord {
+    return {
+      ...row,
+      scopes: row.scopes.split(",").filter(Boolean) as ApiTokenScope[],
+    };
+  }
+
+  createApiToken(input: {
+    userId: string;
+    name: string;
+    tokenHash: string;
+    tokenPrefix: string;
+    scopes: ApiTokenScope[];
+    expiresAt: string | null;
+  }): ApiTokenRecord {
+    const record: ApiTokenRecord = {
+      id: uuid(),
+      userId: input.userId,
+      name: input.name,
+      tokenPrefix: input.tokenPrefix,
+      scopes: input.scopes,
+      expiresAt: input.expiresAt,
+      lastUsedAt: null,
+      lastUsedIp: null,
+      createdAt: new Date().toISOString(),
+    };
+    this.insertApiTokenStmt.run({
+      id: record.id,
+      userId: record.userId,
+      name: record.name,
+      tokenHash: input.tokenHash,
+      tokenPrefix: record.tokenPrefix,
+      scopes: record.scopes.join(","),
+      expiresAt: record.expiresAt,
+      createdAt: record.createdAt,
+    });
+    return record;
+  }
+
+  listApiTokens(userId: string): ApiTokenRecord[] {
+    return this.listApiTokensStmt.all({ userId }).map((row) => this.hydrateApiTokenRow(row));
+  }
+
+  getApiTokenByHash(tokenHash: string): ApiTokenRecord | null {
+    const row = this.getApiTokenByHashStmt.get({ tokenHash });
+    return row ? this.hydrateApiTokenRow(row) : null;
+  }
+
+  deleteApiToken(id: string, userId: string): boolean {
+    return this.deleteApiTokenStmt.run({ id, userId }).changes > 0;
   }
 
-  getSessionService(sessionId: string): SessionServiceRecord | null {
-    const row = this.getSessionServiceStmt.get({ sessionId });
-    if (!row) {
-      return null;
-    }
-    return {
-      id: row.id,
-      sessionId: row.session_id,
-      dokployAppId: row.dokploy_app_id,
-      serviceUrl: row.container_url,
-      status: row.status as SessionServiceRecord["status"],
-      errorMessage: row.error_message,
-      createdAt: row.created_at,
-      updatedAt: row.updated_at,
+  touchApiToken(id: string, usedAt: string, ip: string | null): void {
+    this.touchApiTokenStmt.run({ id, usedAt, ip });
+  }
+
+  getUserIdentity(provider: string, subject: string): UserIdentityRecord | null {
+    return this.getUserIdentityStmt.get({ provider, subject }) ?? null;
+  }
+
+  listUserIdentities(userId: string): UserIdentityRecord[] {
+    return this.listUserIdentitiesStmt.all({ userId });
+  }
+
+  createUserIdentity(input: {
+    userId: string;
+    provider: string;
+    subject: string;
+    email: string | null;
+  }): UserIdentityRecord {
+    const record: UserIdentityRecord = {
+      id: uuid(),
+      ...input,
+      createdAt: new Date().toISOString(),
+      lastLoginAt: null,
     };
+    this.insertUserIdentityStmt.run({
+      id: record.id,
+      userId: record.userId,
+      provider: record.provider,
+      subject: record.subject,
+      email: record.email,
+      createdAt: record.createdAt,
+    });
+    return record;
   }
 
-  deleteSessionService(sessionId: string): boolean {
-    const result = this.deleteSessionServiceStmt.run({ sessionId });
-    return result.changes > 0;
+  touchUserIdentity(id: string, input: { email: string | null; lastLoginAt: string }): void {
+    this.touchUserIdentityStmt.run({ id, ...input });
+  }
+
+  getAppSetting(key: string): string | null {
+    return this.getAppSettingStmt.get({ key })?.value ?? null;
+  }
+
+  setAppSetting(key: string, value: string): void {
+    this.setAppSettingStmt.run({ key, value, updatedAt: new Date().toISOString() });
   }
 
   upsertSessionSettings(input: {
@@ -1909,11 +3948,57 @@ class SQLiteDatabase implements IDatabase {
       gitRemoteUrl: row.git_remote_url,
       gitBranch: row.git_branch,
       autoCommit: Boolean(row.auto_commit),
+      provider: row.provider,
+      model: row.model,
+      reasoningEffort: row.reasoning_effort,
+      deployTargetId: row.deploy_target_id,
       createdAt: row.created_at,
       updatedAt: row.updated_at,
     };
   }
 
+  updateSessionAgentSettings(
+    sessionId: string,
+    selection: { provider: string; model: string; reasoningEffort: string },
+  ): SessionSettingsRecord {
+    const now = new Date().toISOString();
+    this.updateSessionAgentSettingsStmt.run({
+      id: uuid(),
+      sessionId,
+      provider: selection.provider,
+      model: selection.model,
+      reasoningEffort: selection.reasoningEffort,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    const updated = this.getSessionSettings(sessionId);
+    if (!updated) {
+      throw new Error("Failed to retrieve stored session settings record");
+    }
+    return updated;
+  }
+
+  setSessionDeployTarget(
+    sessionId: string,
+    deployTargetId: string | null,
+  ): SessionSettingsRecord {
+    const now = new Date().toISOString();
+    this.setSessionDeployTargetStmt.run({
+      id: uuid(),
+      sessionId,
+      deployTargetId,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    const updated = this.getSessionSettings(sessionId);
+    if (!updated) {
+      throw new Error("Failed to retrieve stored session settings record");
+    }
+    return updated;
+  }
+
   deleteSession(id: string): boolean {
     const result = this.deleteSessionStmt.run({ id });
     const deleted = result.changes > 0;
@@ -1934,6 +4019,7 @@ class SQLiteDatabase implements IDatabase {
       model?: string | null;
       reasoningEffort?: string | null;
     },
+    status: MessageStatus = "completed",
   ): MessageWithAttachments {
     const createdAt = new Date().toISOString();
     const responderProvider = responder?.provider ?? null;
@@ -1945,6 +4031,7 @@ class SQLiteDatabase implements IDatabase {
       sessionId,
       role,
       content,
+      status,
       createdAt,
       responderProvider,
       responderModel,
@@ -1956,6 +4043,7 @@ class SQLiteDatabase implements IDatabase {
       sessionId: message.sessionId,
       role: message.role,
       content: message.content,
+      status: message.status,
       createdAt: message.createdAt,
       responderProvider,
       responderModel,
@@ -2018,7 +4106,475 @@ class SQLiteDatabase implements IDatabase {
     const baseMessages = this.listMessagesStmt.all({
       sessionId,
     }) as MessageRecord[];
-    return baseMessages.map((message) => ({
+    return baseMessages.map((message) => this.hydrateMessage(message));
+  }
+
+  getMessage(id: string): MessageWithAttachments | null {
+    const message = this.getMessageStmt.get({ id });
+    return message ? this.hydrateMessage(message) : null;
+  }
+
+  updateMessage(
+    id: string,
+    updates: { content?: string; status?: MessageStatus },
+  ): MessageWithAttachments | null {
+    const existing = this.getMessageStmt.get({ id });
+    if (!existing) {
+      return null;
+    }
+
+    this.updateMessageStmt.run({
+      id,
+      content: updates.content ?? existing.content,
+      status: updates.status ?? existing.status,
+    });
+    this.touchSessionStmt.run({
+      id: existing.sessionId,
+      updatedAt: new Date().toISOString(),
+    });
+
+    return this.getMessage(id);
+  }
+
+  appendMessageRunItem(
+    messageId: string,
+    sessionId: string,
+    idx: number,
+    item: ThreadItem,
+  ): void {
+    this.insertRunItemStmt.run({
+      id: uuid(),
+      messageId,
+      sessionId,
+      idx,
+      payload: JSON.stringify(item),
+      createdAt: new Date().toISOString(),
+    });
+  }
+
+  deleteMessage(id: string): boolean {
+    const result = this.deleteMessageStmt.run({ id });
+    return result.changes > 0;
+  }
+
+  listQueuedMessages(sessionId: string): MessageWithAttachments[] {
+    return this.listQueuedMessagesStmt
+      .all({ sessionId })
+      .map((message) => this.hydrateMessage(message));
+  }
+
+  listSessionsWithQueuedMessages(): string[] {
+    return this.listSessionsWithQueuedMessagesStmt
+      .all()
+      .map((row) => row.sessionId);
+  }
+
+  dequeueMessage(id: string): MessageWithAttachments | null {
+    // Re-stamp the message so it sorts after the reply it was waiting on.
+    const result = this.dequeueMessageStmt.run({
+      id,
+      createdAt: new Date().toISOString(),
+    });
+    return result.changes > 0 ? this.getMessage(id) : null;
+  }
+
+  createSessionTurn(input: {
+    sessionId: string;
+    userMessageId: string | null;
+    assistantMessageId: string | null;
+  }): SessionTurnRecord {
+    const now = new Date().toISOString();
+    const record: SessionTurnRecord = {
+      id: uuid(),
+      sessionId: input.sessionId,
+      userMessageId: input.userMessageId,
+      assistantMessageId: input.assistantMessageId,
+      status: "running",
+      error: null,
+      createdAt: now,
+      updatedAt: now,
+      completedAt: null,
+    };
+
+    this.insertSessionTurnStmt.run({
+      id: record.id,
+      sessionId: record.sessionId,
+      userMessageId: record.userMessageId,
+      assistantMessageId: record.assistantMessageId,
+      status: record.status,
+      createdAt: record.createdAt,
+      updatedAt: record.updatedAt,
+    });
+
+    return record;
+  }
+
+  updateSessionTurnStatus(
+    id: string,
+    status: SessionTurnStatus,
+    error: string | null = null,
+  ): SessionTurnRecord | null {
+    const now = new Date().toISOString();
+    this.updateSessionTurnStmt.run({
+      id,
+      status,
+      error,
+      updatedAt: now,
+      completedAt: status === "running" ? null : now,
+    });
+    return this.getSessionTurn(id);
+  }
+
+  getSessionTurn(id: string): SessionTurnRecord | null {
+    return this.getSessionTurnStmt.get({ id }) ?? null;
+  }
+
+  listSessionTurns(sessionId: string): SessionTurnRecord[] {
+    return this.listSessionTurnsStmt.all({ sessionId });
+  }
+
+  listTurnChangeReviews(turnId: string): TurnChangeReviewRecord[] {
+    return this.listTurnChangeReviewsStmt.all({ turnId });
+  }
+
+  recordTurnChangeReviews(
+    turnId: string,
+    decision: TurnChangeDecision,
+    hunks: Array<{ filePath: string; hunkIndex: number }>,
+  ): void {
+    const updatedAt = new Date().toISOString();
+    this.db.transaction(() => {
+      for (const hunk of hunks) {
+        this.upsertTurnChangeReviewStmt.run({
+          turnId,
+          filePath: hunk.filePath,
+          hunkIndex: hunk.hunkIndex,
+          decision,
+          updatedAt,
+        });
+      }
+    })();
+  }
+
+  createDeployment(input: {
+    targetId: string;
+    targetName: string;
+    applicationId: string | null;
+    artifactKey: string | null;
+    commitSha: string | null;
+    userId: string | null;
+    sessionId?: string | null;
+    redeployOf?: string | null;
+  }): DeploymentRecord {
+    const id = uuid();
+    this.insertDeploymentStmt.run({
+      id,
+      targetId: input.targetId,
+      targetName: input.targetName,
+      applicationId: input.applicationId,
+      artifactKey: input.artifactKey,
+      commitSha: input.commitSha,
+      userId: input.userId,
+      sessionId: input.sessionId ?? null,
+      status: "pending",
+      redeployOf: input.redeployOf ?? null,
+      createdAt: new Date().toISOString(),
+    });
+
+    const created = this.getDeployment(id);
+    if (!created) {
+      throw new Error("Failed to retrieve stored deployment");
+    }
+    return created;
+  }
+
+  updateDeploymentStatus(
+    id: string,
+    status: DeploymentStatus,
+    updates: { dokployDeploymentId?: string | null; error?: string | null } = {},
+  ): DeploymentRecord | null {
+    const now = new Date().toISOString();
+    const finished = status === "succeeded" || status === "failed";
+    this.updateDeploymentStmt.run({
+      id,
+      status,
+      dokployDeploymentId: updates.dokployDeploymentId ?? null,
+      error: updates.error ?? null,
+      updatedAt: now,
+      completedAt: finished ? now : null,
+    });
+    return this.getDeployment(id);
+  }
+
+  getDeployment(id: string): DeploymentRecord | null {
+    return this.getDeploymentStmt.get({ id }) ?? null;
+  }
+
+  listDeployments(targetId: string, limit = 50): DeploymentRecord[] {
+    return this.listDeploymentsStmt.all({ targetId, limit });
+  }
+
+  listSessionDeployments(sessionId: string, limit = 20): DeploymentRecord[] {
+    return this.listSessionDeploymentsStmt.all({ sessionId, limit });
+  }
+
+  /** Deployments whose final Dokploy status has not been recorded yet. */
+  listActiveDeployments(): DeploymentRecord[] {
+    return this.listActiveDeploymentsStmt.all();
+  }
+
+  recordDeployArtifact(input: {
+    key: string;
+    targetId: string | null;
+    size: number;
+    commitSha: string | null;
+  }): void {
+    this.insertDeployArtifactStmt.run({
+      ...input,
+      createdAt: new Date().toISOString(),
+    });
+  }
+
+  /** Recorded workspace archives, newest first. */
+  listDeployArtifacts(): DeployArtifactRecord[] {
+    return this.listDeployArtifactsStmt.all();
+  }
+
+  deleteDeployArtifact(key: string): boolean {
+    const result = this.deleteDeployArtifactStmt.run({ key });
+    return result.changes > 0;
+  }
+
+  listSessionSecrets(sessionId: string): SessionSecretRecord[] {
+    return this.listSessionSecretsStmt.all({ sessionId });
+  }
+
+  /**
+   * Stores the encrypted value of a session secret and records who changed
+   * it. Returns whether the key was new.
+   */
+  setSessionSecret(input: {
+    sessionId: string;
+    key: string;
+    valueCipher: string;
+    valueIv: string | null;
+    valueTag: string | null;
+    userId: string | null;
+  }): "created" | "updated" {
+    const now = new Date().toISOString();
+    const save = this.db.transaction(() => {
+      const existed = this.listSessionSecretsStmt
+        .all({ sessionId: input.sessionId })
+        .some((secret) => secret.key === input.key);
+      this.upsertSessionSecretStmt.run({
+        sessionId: input.sessionId,
+        key: input.key,
+        valueCipher: input.valueCipher,
+        valueIv: input.valueIv,
+        valueTag: input.valueTag,
+        updatedBy: input.userId,
+        now,
+      });
+      const action = existed ? "updated" : "created";
+      this.insertSessionSecretAuditStmt.run({
+        id: uuid(),
+        sessionId: input.sessionId,
+        key: input.key,
+        action,
+        userId: input.userId,
+        createdAt: now,
+      });
+      return action;
+    });
+    return save();
+  }
+
+  deleteSessionSecret(sessionId: string, key: string, userId: string | null): boolean {
+    const remove = this.db.transaction(() => {
+      const result = this.deleteSessionSecretStmt.run({ sessionId, key });
+      if (result.changes === 0) {
+        return false;
+      }
+      this.insertSessionSecretAuditStmt.run({
+        id: uuid(),
+        sessionId,
+        key,
+        action: "deleted",
+        userId,
+        createdAt: new Date().toISOString(),
+      });
+      return true;
+    });
+    return remove();
+  }
+
+  /** Changes to the session's secrets, newest first. */
+  listSessionSecretAudit(sessionId: string, limit = 100): SessionSecretAuditRecord[] {
+    return this.listSessionSecretAuditStmt.all({ sessionId, limit });
+  }
+
+  /**
+   * Runs an FTS5 `MATCH` expression against the sessions owned by `userId`,
+   * best matches first.
+   */
+  searchContent(
+    userId: string,
+    query: string,
+    limit: number,
+  ): SearchResultRecord[] {
+    return this.searchContentStmt.all({ userId, query, limit });
+  }
+
+  /**
+   * Copies messages (with attachments and run items) into another session,
+   * keeping their original timestamps.
+   */
+  copyMessagesToSession(
+    targetSessionId: string,
+    messages: MessageWithAttachments[],
+  ): void {
+    this.db.transaction(() => {
+      for (const message of messages) {
+        const messageId = uuid();
+        this.insertMessageStmt.run({
+          id: messageId,
+          sessionId: targetSessionId,
+          role: message.role,
+          content: message.content,
+          status: message.status,
+          createdAt: message.createdAt,
+          responderProvider: message.responderProvider,
+          responderModel: message.responderModel,
+          responderReasoningEffort: message.responderReasoningEffort,
+        });
+
+        for (const attachment of message.attachments) {
+          this.insertAttachmentStmt.run({
+            id: uuid(),
+            messageId,
+            sessionId: targetSessionId,
+            filename: attachment.filename,
+            mimeType: attachment.mimeType,
+            size: attachment.size,
+            relativePath: attachment.relativePath,
+            createdAt: attachment.createdAt,
+          });
+        }
+
+        message.items.forEach((item, index) => {
+          this.insertRunItemStmt.run({
+            id: uuid(),
+            messageId,
+            sessionId: targetSessionId,
+            idx: index,
+            payload: JSON.stringify(item),
+            createdAt: message.createdAt,
+          });
+        });
+      }
+    })();
+  }
+
+  recordSessionFork(input: {
+    sessionId: string;
+    sourceSessionId: string;
+    sourceMessageId: string;
+  }): SessionForkRecord {
+    const createdAt = new Date().toISOString();
+    this.insertSessionForkStmt.run({ ...input, createdAt });
+    return { ...input, createdAt };
+  }
+
+  getSessionFork(sessionId: string): SessionForkRecord | null {
+    return this.getSessionForkStmt.get({ sessionId }) ?? null;
+  }
+
+  recordMessageUsage(
+    input: Omit<MessageUsageRecord, "messageId" | "createdAt"> & {
+      messageId: string;
+    },
+  ): MessageUsageRecord {
+    const createdAt = new Date().toISOString();
+    this.upsertMessageUsageStmt.run({ id: uuid(), ...input, createdAt });
+    return this.getMessageUsageStmt.get({ messageId: input.messageId }) ?? {
+      ...input,
+      createdAt,
+    };
+  }
+
+  /**
+   * Aggregates recorded usage in `[from, to)`, optionally for a single user.
+   * Costs only cover models with a configured price.
+   */
+  getUsageReport(
+    groupBy: UsageGroupBy,
+    filter: { from: string; to: string; userId?: string | null },
+  ): UsageReportRow[] {
+    return this.usageReportStmts[groupBy].all({
+      from: filter.from,
+      to: filter.to,
+      userId: filter.userId ?? null,
+    });
+  }
+
+  getUserQuota(userId: string): UserQuotaRecord | null {
+    return this.getUserQuotaStmt.get({ userId }) ?? null;
+  }
+
+  upsertUserQuota(
+    input: Omit<UserQuotaRecord, "updatedAt">,
+  ): UserQuotaRecord {
+    const record = { ...input, updatedAt: new Date().toISOString() };
+    this.upsertUserQuotaStmt.run(record);
+    return record;
+  }
+
+  /**
+   * Counts the activity quotas are measured against: turns started since
+   * `hourSince`, token usage since `daySince`, queued and running turns.
+   */
+  getUserQuotaUsage(
+    userId: string,
+    window: { hourSince: string; daySince: string },
+  ): UserQuotaUsage {
+    return (
+      this.getUserQuotaUsageStmt.get({ userId, ...window }) ?? {
+        turnsLastHour: 0,
+        oldestTurnInHourAt: null,
+        queuedMessages: 0,
+        tokensLastDay: 0,
+        oldestUsageInDayAt: null,
+        runningTurns: 0,
+      }
+    );
+  }
+
+  listModelPricing(): ModelPricingRecord[] {
+    return this.listModelPricingStmt.all();
+  }
+
+  upsertModelPricing(
+    input: Omit<ModelPricingRecord, "updatedAt">,
+  ): ModelPricingRecord {
+    const record = { ...input, updatedAt: new Date().toISOString() };
+    this.upsertModelPricingStmt.run(record);
+    return record;
+  }
+
+  deleteModelPricing(model: string): boolean {
+    return this.deleteModelPricingStmt.run({ model }).changes > 0;
+  }
+
+  getRunningSessionTurn(sessionId: string): SessionTurnRecord | null {
+    return this.getRunningSessionTurnStmt.get({ sessionId }) ?? null;
+  }
+
+  listRunningSessionTurns(): SessionTurnRecord[] {
+    return this.listRunningSessionTurnsStmt.all();
+  }
+
+  private hydrateMessage(message: MessageRecord): MessageWithAttachments {
+    return {
       ...message,
       attachments:
         this.listAttachmentsForMessageStmt.all({ messageId: message.id }) ?? [],
@@ -2026,7 +4582,8 @@ class SQLiteDatabase implements IDatabase {
         this.listRunItemsForMessageStmt
           .all({ messageId: message.id })
           .map((row) => this.deserializeRunItem(row.payload)) ?? [],
-    }));
+      usage: this.getMessageUsageStmt.get({ messageId: message.id }) ?? null,
+    };
   }
 
   getAttachment(id: string): AttachmentRecord | null {
@@ -155,7 +155,7 @@ class DroidCliManager implements IAgent {
     session: SessionRecord,
     prompt: string,
     reuseSession: boolean,
-    envOverrides?: Record<string, string>
+    runOptions: AgentRunOptions = {}
   ): ExecutionController {
     const workspaceDirectory = ensureWorkspaceDirectory(session.id);
     const meta = getCodexMeta();
@@ -170,8 +170,8 @@ class DroidCliManager implements IAgent {
 
     const args = this.createArgs({
       workspaceDirectory,
-      model: meta.model,
-      reasoningEffort: meta.reasoningEffort,
+      model: runOptions.model ?? meta.model,
+      reasoningEffort: runOptions.reasoningEffort ?? meta.reasoningEffort,
       resumeSessionId,
       prompt,
       reuseSession
@@ -179,7 +179,7 @@ class DroidCliManager implements IAgent {
 
     const child = spawn(this.getBinaryPath(), args, {
       cwd: workspaceDirectory,
-      env: { ...process.env, ...(envOverrides ?? {}) },
+      env: { ...process.env, ...(runOptions.env ?? {}) },
       stdio: ['ignore', 'pipe', 'pipe'],
       shell: process.platform === 'win32' // Use shell on Windows for proper .cmd execution
     });
@@ -399,6 +399,20 @@ class DroidCliManager implements IAgent {
       cleanup();
     });
 
+    const abortSignal = runOptions.signal;
+    if (abortSignal) {
+      const handleAbort = () => {
+        endStream();
+        cleanup();
+      };
+      if (abortSignal.aborted) {
+        handleAbort();
+      } else {
+        abortSignal.addEventListener('abort', handleAbort, { once: true });
+        child.once('close', () => abortSignal.removeEventListener('abort', handleAbort));
+      }
+    }
+
     child.on('close', (code, signal) => {
       if (code === 0 && !failure) {
         finalizeAgentItem();
@@ -456,7 +470,7 @@ class DroidCliManager implements IAgent {
     input: string,
     options: AgentRunOptions = {}
   ): Promise<RunTurnResult> {
-    const controller = this.startExecution(session, input, true, options.env);
+    const controller = this.startExecution(session, input, true, options);
     const events = controller.events;
 
     for await (const _event of events) {
@@ -494,7 +508,7 @@ class DroidCliManager implements IAgent {
     input: string,
     options: AgentRunOptions = {}
   ): Promise<RunTurnStreamedResult> {
-    const controller = this.startExecution(session, input, true, options.env);
+    const controller = this.startExecution(session, input, true, options);
     return {
       events: controller.events,
       thread: null as any
@@ -511,7 +525,8 @@ class DroidCliManager implements IAgent {
 
   async generateTitleSuggestion(
     session: SessionRecord,
-    conversationJson: string
+    conversationJson: string,
+    options: AgentRunOptions = {}
   ): Promise<string | null> {
     const titlePrompt = [
       'You generate short, descriptive titles for conversations.',
@@ -521,7 +536,10 @@ class DroidCliManager implements IAgent {
     ].join('\n\n');
 
     try {
-      const controller = this.startExecution(session, titlePrompt, false);
+      const controller = this.startExecution(session, titlePrompt, false, {
+        model: options.model,
+        reasoningEffort: options.reasoningEffort
+      });
       for await (const _ of controller.events) {
         // Exhaust events for the title run, but ignore content.
       }
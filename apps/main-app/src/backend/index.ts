@@ -9,28 +9,52 @@ import serviceWebhookRoutes from "./routes/serviceWebhookRoutes";
 import debugRoutes from "./routes/debugRoutes";
 import workspaceRoutes from "./routes/workspaceRoutes";
 import deployRoutes from "./routes/deployRoutes";
+import deployArtifactRoutes from "./routes/deployArtifactRoutes";
 import authRoutes from "./routes/authRoutes";
 import userRoutes from "./routes/userRoutes";
 import userAuthFilesRoutes from "./routes/userAuthFilesRoutes";
+import searchRoutes from "./routes/searchRoutes";
+import usageRoutes from "./routes/usageRoutes";
+import auditRoutes from "./routes/auditRoutes";
+import apiTokenRoutes from "./routes/apiTokenRoutes";
 import { loadUserFromSession } from "./middleware/auth";
 import { ensureDefaultAdmin } from "./services/authService";
+import { recoverInterruptedTurns } from "./services/turnService";
+import { resumeQueuedMessages } from "./services/sessionMessageService";
+import { resumeDeploymentTracking } from "./services/deploymentService";
+import { startDeploymentNotifications } from "./services/deploymentNotifier";
+import { startArtifactSweeper } from "./services/artifactRetentionService";
+import { startIdleServiceMonitor } from "./services/serviceIdleService";
+import { startServiceHealthMonitor } from "./services/serviceHealthService";
 
 export async function registerBackend(app: Application): Promise<void> {
   await ensureDefaultAdmin();
+  recoverInterruptedTurns();
+  resumeQueuedMessages();
+  startDeploymentNotifications();
+  resumeDeploymentTracking();
+  startArtifactSweeper();
+  startIdleServiceMonitor();
+  startServiceHealthMonitor();
   app.use(express.json({ limit: "20mb" }));
   app.use(cookieParser());
   app.use(loadUserFromSession);
   app.use(healthRoutes);
+  app.use('/api', deployArtifactRoutes);
   app.use('/api', authRoutes);
   app.use('/api', metaRoutes);
   app.use('/api', workspaceRoutes);
   app.use('/api', sessionRoutes);
   app.use('/api', sessionServiceRoutes);
   app.use('/api', serviceWebhookRoutes);
+  app.use('/api', searchRoutes);
+  app.use('/api', apiTokenRoutes);
   app.use('/api', debugRoutes);
   app.use('/api', deployRoutes);
   app.use('/api', userRoutes);
   app.use('/api', userAuthFilesRoutes);
+  app.use('/api', usageRoutes);
+  app.use('/api', auditRoutes);
 
   app.use(
     (error: unknown, _req: Request, res: Response, _next: NextFunction) => {
@@ -3,6 +3,12 @@ import type { SessionRecord } from '../types/database';
 
 export type AgentRunOptions = {
   env?: Record<string, string>;
+  /** Session-specific model; falls back to the global default when omitted. */
+  model?: string;
+  /** Session-specific reasoning effort; falls back to the global default when omitted. */
+  reasoningEffort?: string;
+  /** Aborting stops the underlying run (SDK query or spawned CLI process). */
+  signal?: AbortSignal;
 };
 
 interface IAgent {
@@ -17,6 +23,7 @@ interface IAgent {
   generateTitleSuggestion(
     session: SessionRecord,
     conversationJson: string,
+    options?: AgentRunOptions,
   ): Promise<string | null>;
 }
 
@@ -1,13 +1,39 @@
 import type { ThreadItem } from "@openai/codex-sdk";
 import type {
+  ApiTokenRecord,
+  ApiTokenScope,
   AttachmentRecord,
-  DeployConfigRow,
+  AuditEventFilter,
+  AuditEventRecord,
+  UserIdentityRecord,
+  DeployTargetRow,
+  DeploymentRecord,
+  DeploymentStatus,
+  DeployArtifactRecord,
   LoginSessionRecord,
+  MessageStatus,
+  MessageUsageRecord,
   MessageWithAttachments,
+  ModelPricingRecord,
   NewAttachmentInput,
   SessionRecord,
+  SessionSecretAuditRecord,
+  SessionSecretRecord,
+  SessionServiceRecord,
+  SessionSettingsRecord,
+  SearchResultRecord,
+  SessionForkRecord,
+  SessionTurnRecord,
+  SessionTurnStatus,
+  TurnChangeDecision,
+  TurnChangeReviewRecord,
+  UsageGroupBy,
+  UsageReportRow,
   UserAuthFileRecord,
+  UserQuotaRecord,
+  UserQuotaUsage,
   UserRecord,
+  UserTotpRecord,
 } from "../types/database";
 
 interface IDatabase {
@@ -40,17 +66,216 @@ interface IDatabase {
       model?: string | null;
       reasoningEffort?: string | null;
     },
+    status?: MessageStatus,
   ): MessageWithAttachments;
   listMessages(sessionId: string): MessageWithAttachments[];
+  getMessage(id: string): MessageWithAttachments | null;
+  updateMessage(
+    id: string,
+    updates: { content?: string; status?: MessageStatus },
+  ): MessageWithAttachments | null;
+  appendMessageRunItem(
+    messageId: string,
+    sessionId: string,
+    idx: number,
+    item: ThreadItem,
+  ): void;
+  deleteMessage(id: string): boolean;
+  listQueuedMessages(sessionId: string): MessageWithAttachments[];
+  listSessionsWithQueuedMessages(): string[];
+  dequeueMessage(id: string): MessageWithAttachments | null;
+  createSessionTurn(input: {
+    sessionId: string;
+    userMessageId: string | null;
+    assistantMessageId: string | null;
+  }): SessionTurnRecord;
+  updateSessionTurnStatus(
+    id: string,
+    status: SessionTurnStatus,
+    error?: string | null,
+  ): SessionTurnRecord | null;
+  getSessionTurn(id: string): SessionTurnRecord | null;
+  listSessionTurns(sessionId: string): SessionTurnRecord[];
+  listTurnChangeReviews(turnId: string): TurnChangeReviewRecord[];
+  recordTurnChangeReviews(
+    turnId: string,
+    decision: TurnChangeDecision,
+    hunks: Array<{ filePath: string; hunkIndex: number }>,
+  ): void;
+  searchContent(
+    userId: string,
+    query: string,
+    limit: number,
+  ): SearchResultRecord[];
+  copyMessagesToSession(
+    targetSessionId: string,
+    messages: MessageWithAttachments[],
+  ): void;
+  recordSessionFork(input: {
+    sessionId: string;
+    sourceSessionId: string;
+    sourceMessageId: string;
+  }): SessionForkRecord;
+  getSessionFork(sessionId: string): SessionForkRecord | null;
+  recordMessageUsage(
+    input: Omit<MessageUsageRecord, "messageId" | "createdAt"> & {
+      messageId: string;
+    },
+  ): MessageUsageRecord;
+  getUsageReport(
+    groupBy: UsageGroupBy,
+    filter: { from: string; to: string; userId?: string | null },
+  ): UsageReportRow[];
+  getUserQuota(userId: string): UserQuotaRecord | null;
+  upsertUserQuota(input: Omit<UserQuotaRecord, "updatedAt">): UserQuotaRecord;
+  getUserQuotaUsage(
+    userId: string,
+    window: { hourSince: string; daySince: string },
+  ): UserQuotaUsage;
+  listModelPricing(): ModelPricingRecord[];
+  upsertModelPricing(
+    input: Omit<ModelPricingRecord, "updatedAt">,
+  ): ModelPricingRecord;
+  deleteModelPricing(model: string): boolean;
+  getRunningSessionTurn(sessionId: string): SessionTurnRecord | null;
+  listRunningSessionTurns(): SessionTurnRecord[];
   getDatabasePath(): string;
   getAttachment(id: string): AttachmentRecord | null;
   resetAllSessionThreads(): void;
-  getDeployConfig(): DeployConfigRow | null;
-  saveDeployConfig(input: {
-    config: DeployConfigRow["config"];
+  listDeployTargets(): DeployTargetRow[];
+  getDeployTarget(id: string): DeployTargetRow | null;
+  getDefaultDeployTarget(): DeployTargetRow | null;
+  createDeployTarget(input: {
+    name: string;
+    config: DeployTargetRow["config"];
     apiKey?: string | null;
-  }): DeployConfigRow;
-  getDeployApiKey(): string | null;
+  }): DeployTargetRow;
+  updateDeployTarget(
+    id: string,
+    input: {
+      name?: string;
+      config: DeployTargetRow["config"];
+      apiKey?: string | null;
+    },
+  ): DeployTargetRow | null;
+  deleteDeployTarget(id: string): boolean;
+  setDefaultDeployTarget(id: string): DeployTargetRow | null;
+  getDeployTargetApiKey(id: string): string | null;
+  createDeployment(input: {
+    targetId: string;
+    targetName: string;
+    applicationId: string | null;
+    artifactKey: string | null;
+    commitSha: string | null;
+    userId: string | null;
+    sessionId?: string | null;
+    redeployOf?: string | null;
+  }): DeploymentRecord;
+  updateDeploymentStatus(
+    id: string,
+    status: DeploymentStatus,
+    updates?: { dokployDeploymentId?: string | null; error?: string | null },
+  ): DeploymentRecord | null;
+  getDeployment(id: string): DeploymentRecord | null;
+  listDeployments(targetId: string, limit?: number): DeploymentRecord[];
+  listSessionDeployments(sessionId: string, limit?: number): DeploymentRecord[];
+  listActiveDeployments(): DeploymentRecord[];
+  recordDeployArtifact(input: {
+    key: string;
+    targetId: string | null;
+    size: number;
+    commitSha: string | null;
+  }): void;
+  listDeployArtifacts(): DeployArtifactRecord[];
+  deleteDeployArtifact(key: string): boolean;
+
+  listSessionSecrets(sessionId: string): SessionSecretRecord[];
+  setSessionSecret(input: {
+    sessionId: string;
+    key: string;
+    valueCipher: string;
+    valueIv: string | null;
+    valueTag: string | null;
+    userId: string | null;
+  }): "created" | "updated";
+  deleteSessionSecret(sessionId: string, key: string, userId: string | null): boolean;
+  listSessionSecretAudit(sessionId: string, limit?: number): SessionSecretAuditRecord[];
+
+  upsertSessionService(input: {
+    sessionId: string;
+    dokployAppId: string | null;
+    serviceUrl: string | null;
+    status: SessionServiceRecord["status"];
+    errorMessage?: string | null;
+    stoppedReason?: SessionServiceRecord["stoppedReason"];
+    backend?: SessionServiceRecord["backend"];
+    containerId?: string | null;
+  }): SessionServiceRecord;
+  getSessionService(sessionId: string): SessionServiceRecord | null;
+  deleteSessionService(sessionId: string): boolean;
+  touchSessionService(sessionId: string, at?: string): void;
+  /** Sessions whose running service saw no activity since `before`. */
+  listIdleSessionServices(before: string): string[];
+  updateSessionServiceHealth(
+    sessionId: string,
+    input: {
+      health: SessionServiceRecord["health"];
+      checkedAt: string | null;
+      restartCount: number;
+      lastRestartAt: string | null;
+    },
+  ): void;
+  /** Services the health reconciler looks after: running or failed, with a backend resource. */
+  listMonitoredSessionServices(): string[];
+
+  addAuditEvent(input: Omit<AuditEventRecord, "id" | "createdAt">): AuditEventRecord;
+  listAuditEvents(filter?: AuditEventFilter): AuditEventRecord[];
+
+  createApiToken(input: {
+    userId: string;
+    name: string;
+    tokenHash: string;
+    tokenPrefix: string;
+    scopes: ApiTokenScope[];
+    expiresAt: string | null;
+  }): ApiTokenRecord;
+  listApiTokens(userId: string): ApiTokenRecord[];
+  getApiTokenByHash(tokenHash: string): ApiTokenRecord | null;
+  deleteApiToken(id: string, userId: string): boolean;
+  touchApiToken(id: string, usedAt: string, ip: string | null): void;
+
+  getUserIdentity(provider: string, subject: string): UserIdentityRecord | null;
+  listUserIdentities(userId: string): UserIdentityRecord[];
+  createUserIdentity(input: {
+    userId: string;
+    provider: string;
+    subject: string;
+    email: string | null;
+  }): UserIdentityRecord;
+  touchUserIdentity(id: string, input: { email: string | null; lastLoginAt: string }): void;
+
+  getAppSetting(key: string): string | null;
+  setAppSetting(key: string, value: string): void;
+
+  upsertSessionSettings(input: {
+    sessionId: string;
+    githubRepo?: string | null;
+    customEnvVars?: Record<string, string>;
+    dockerfilePath?: string | null;
+    buildSettings?: Record<string, unknown>;
+    gitRemoteUrl?: string | null;
+    gitBranch?: string | null;
+    autoCommit?: boolean;
+  }): SessionSettingsRecord;
+  getSessionSettings(sessionId: string): SessionSettingsRecord | null;
+  updateSessionAgentSettings(
+    sessionId: string,
+    selection: { provider: string; model: string; reasoningEffort: string },
+  ): SessionSettingsRecord;
+  setSessionDeployTarget(
+    sessionId: string,
+    deployTargetId: string | null,
+  ): SessionSettingsRecord;
 
   createUser(input: {
     username: string;
@@ -65,10 +290,19 @@ interface IDatabase {
   getUserById(id: string): UserRecord | null;
   getUserByUsername(username: string): UserRecord | null;
   listUsers(): UserRecord[];
+  getUserTotp(userId: string): UserTotpRecord | null;
+  updateUserTotp(userId: string, updates: {
+    secret?: string | null;
+    enabledAt?: string | null;
+    lastUsedStep?: number | null;
+    recoveryCodeHashes?: string[];
+  }): void;
 
   createLoginSession(input: {
     userId: string;
     expiresAt: string;
+    impersonatorUserId?: string | null;
+    impersonatorSessionId?: string | null;
   }): LoginSessionRecord;
   getLoginSession(id: string): LoginSessionRecord | null;
   deleteLoginSession(id: string): void;
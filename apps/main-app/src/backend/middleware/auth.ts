@@ -1,10 +1,16 @@
 import type { NextFunction, Request, Response } from "express";
 import database from "../db";
-import type { LoginSessionRecord, UserRecord } from "../types/database";
+import type { ApiTokenRecord, LoginSessionRecord, UserRecord } from "../types/database";
 import {
   getDefaultSessionTtlMs,
   pruneExpiredLoginSessions,
 } from "../services/authService";
+import {
+  apiTokenAllows,
+  authenticateApiToken,
+  isApiToken,
+} from "../services/apiTokenService";
+import { isTwoFactorSetupRequired } from "../services/twoFactorService";
 
 export const SESSION_COOKIE_NAME = "codex_session";
 
@@ -15,6 +21,10 @@ declare global {
     interface Request {
       user?: UserRecord;
       loginSession?: LoginSessionRecord;
+      /** The admin behind an impersonation session; `user` is who they view as. */
+      impersonator?: UserRecord;
+      /** Set instead of `loginSession` for requests made with a personal API token. */
+      apiToken?: ApiTokenRecord;
     }
   }
 }
@@ -51,11 +61,46 @@ function removeInvalidSession(sessionId: string): void {
   }
 }
 
+function readApiToken(req: Request): string | null {
+  const [scheme, token] = (req.headers.authorization ?? "").split(" ");
+  // Other bearer tokens, such as those of session services, are not ours
+  return scheme === "Bearer" && token && isApiToken(token) ? token : null;
+}
+
+function loadUserFromApiToken(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+  token: string,
+): void {
+  const record = authenticateApiToken(token, req.ip ?? null);
+  const user = record ? database.getUserById(record.userId) : null;
+  if (!record || !user) {
+    res.status(401).json({ error: "InvalidApiToken" });
+    return;
+  }
+
+  if (!apiTokenAllows(record, req.method, req.path)) {
+    res.status(403).json({ error: "InsufficientTokenScope" });
+    return;
+  }
+
+  req.user = user;
+  req.apiToken = record;
+  next();
+}
+
 export function loadUserFromSession(
   req: Request,
   res: Response,
   next: NextFunction,
 ): void {
+  const apiToken = readApiToken(req);
+  if (apiToken) {
+    loadUserFromApiToken(req, res, next, apiToken);
+    return;
+  }
+
   const sessionId = req.cookies?.[SESSION_COOKIE_NAME];
   if (!sessionId) {
     pruneExpiredLoginSessionsSafe();
@@ -90,21 +135,48 @@ export function loadUserFromSession(
     return;
   }
 
+  let impersonator: UserRecord | null = null;
+  if (session.impersonatorUserId) {
+    impersonator = database.getUserById(session.impersonatorUserId);
+    // Only someone who is still an admin may keep viewing as another user
+    if (!impersonator?.isAdmin) {
+      clearSessionCookie(res);
+      removeInvalidSession(sessionId);
+      next();
+      return;
+    }
+  }
+
   req.user = user;
   req.loginSession = session;
+  req.impersonator = impersonator ?? undefined;
 
   next();
 }
 
+// Users who must turn on two-factor authentication can only reach sign-in
+// routes, and their API tokens stop working until they do
+function blocksUntilTwoFactorSetup(req: Request): boolean {
+  return (
+    !req.impersonator &&
+    !req.originalUrl.startsWith("/api/auth/") &&
+    isTwoFactorSetupRequired(req.user!)
+  );
+}
+
 export function requireAuth(
   req: Request,
   res: Response,
   next: NextFunction,
 ): void {
-  if (!req.user || !req.loginSession) {
+  if (!req.user || (!req.loginSession && !req.apiToken)) {
     res.status(401).json({ error: "NotAuthenticated" });
     return;
   }
+  if (blocksUntilTwoFactorSetup(req)) {
+    res.status(403).json({ error: "TwoFactorSetupRequired" });
+    return;
+  }
   next();
 }
 
@@ -113,7 +185,7 @@ export function requireAdmin(
   res: Response,
   next: NextFunction,
 ): void {
-  if (!req.user || !req.loginSession) {
+  if (!req.user || (!req.loginSession && !req.apiToken)) {
     res.status(401).json({ error: "NotAuthenticated" });
     return;
   }
@@ -123,6 +195,43 @@ export function requireAdmin(
     return;
   }
 
+  if (blocksUntilTwoFactorSetup(req)) {
+    res.status(403).json({ error: "TwoFactorSetupRequired" });
+    return;
+  }
+
+  next();
+}
+
+/**
+ * Rejects actions an admin must not take on someone else's behalf, such as
+ * changing their password or uploading credentials.
+ */
+export function requireNotImpersonating(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): void {
+  if (req.impersonator) {
+    res.status(403).json({ error: "NotAllowedWhileImpersonating" });
+    return;
+  }
+  next();
+}
+
+/**
+ * Rejects personal API tokens on routes that manage sign-in, tokens and
+ * accounts, which only a browser login session may use.
+ */
+export function requireLoginSession(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): void {
+  if (req.apiToken) {
+    res.status(403).json({ error: "LoginSessionRequired" });
+    return;
+  }
   next();
 }
 
@@ -0,0 +1,89 @@
+import { Router } from "express";
+import { z } from "zod";
+import database from "../db";
+import asyncHandler from "../middleware/asyncHandler";
+import { requireAuth, requireLoginSession, requireNotImpersonating } from "../middleware/auth";
+import { API_TOKEN_SCOPES, createApiToken } from "../services/apiTokenService";
+import { recordAuditEvent } from "../services/auditService";
+import type { ApiTokenRecord, ApiTokenScope } from "../types/database";
+
+const router = Router();
+
+const MAX_TOKENS_PER_USER = 50;
+
+const createTokenSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  scopes: z
+    .array(z.enum(API_TOKEN_SCOPES as [ApiTokenScope, ...ApiTokenScope[]]))
+    .min(1),
+  // null creates a token that does not expire
+  expiresInDays: z.number().int().min(1).max(365).nullable(),
+});
+
+const toPublicToken = ({ userId: _userId, ...token }: ApiTokenRecord) => token;
+
+// Express matches these paths case-insensitively, like the routes below
+router.use("/tokens", requireLoginSession);
+router.use(requireAuth);
+
+router.get(
+  "/tokens",
+  asyncHandler(async (req, res) => {
+    const tokens = database.listApiTokens(req.user!.id).map(toPublicToken);
+    res.json({ tokens });
+  }),
+);
+
+router.post(
+  "/tokens",
+  requireNotImpersonating,
+  asyncHandler(async (req, res) => {
+    const parsed = createTokenSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      res.status(400).json({ error: "InvalidRequest" });
+      return;
+    }
+
+    const userId = req.user!.id;
+    if (database.listApiTokens(userId).length >= MAX_TOKENS_PER_USER) {
+      res.status(400).json({ error: "TooManyTokens" });
+      return;
+    }
+
+    const { record, token } = createApiToken(userId, parsed.data);
+    recordAuditEvent(req, {
+      action: "api_token.create",
+      targetType: "api_token",
+      targetId: record.id,
+      targetLabel: record.name,
+      after: { scopes: record.scopes, expiresAt: record.expiresAt },
+    });
+
+    // The token itself is only ever returned here
+    res.status(201).json({ token: toPublicToken(record), secret: token });
+  }),
+);
+
+router.delete(
+  "/tokens/:tokenId",
+  asyncHandler(async (req, res) => {
+    const userId = req.user!.id;
+    const token = database.listApiTokens(userId).find((entry) => entry.id === req.params.tokenId);
+    if (!token || !database.deleteApiToken(token.id, userId)) {
+      res.status(404).json({ error: "TokenNotFound" });
+      return;
+    }
+
+    recordAuditEvent(req, {
+      action: "api_token.revoke",
+      targetType: "api_token",
+      targetId: token.id,
+      targetLabel: token.name,
+      before: { scopes: token.scopes, expiresAt: token.expiresAt },
+    });
+
+    res.status(204).end();
+  }),
+);
+
+export default router;
@@ -0,0 +1,99 @@
+import { Router } from "express";
+import { z } from "zod";
+import database from "../db";
+import asyncHandler from "../middleware/asyncHandler";
+import { requireAdmin, requireLoginSession } from "../middleware/auth";
+import { toAuditCsv } from "../services/auditService";
+
+const router = Router();
+
+router.use("/audit-events", requireLoginSession);
+router.use(requireAdmin);
+
+const MAX_EXPORT_EVENTS = 10000;
+
+const dayPattern = /^\d{4}-\d{2}-\d{2}$/;
+
+const auditQuerySchema = z.object({
+  action: z.string().trim().min(1).optional(),
+  actorUserId: z.string().trim().min(1).optional(),
+  targetType: z.string().trim().min(1).optional(),
+  // Whole days; `to` is inclusive
+  from: z.string().regex(dayPattern).optional(),
+  to: z.string().regex(dayPattern).optional(),
+  search: z.string().trim().min(1).max(200).optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+const exportQuerySchema = auditQuerySchema
+  .omit({ limit: true, offset: true })
+  .extend({ format: z.enum(["csv", "json"]).default("csv") });
+
+const nextDay = (day: string): string => {
+  const date = new Date(`${day}T00:00:00.000Z`);
+  date.setUTCDate(date.getUTCDate() + 1);
+  return date.toISOString();
+};
+
+const toFilter = (query: z.infer<typeof exportQuerySchema> | z.infer<typeof auditQuerySchema>) => ({
+  action: query.action,
+  actorUserId: query.actorUserId,
+  targetType: query.targetType,
+  from: query.from ? `${query.from}T00:00:00.000Z` : undefined,
+  to: query.to ? nextDay(query.to) : undefined,
+  search: query.search,
+});
+
+router.get(
+  "/audit-events",
+  asyncHandler(async (req, res) => {
+    const parsed = auditQuerySchema.safeParse(req.query ?? {});
+    if (!parsed.success) {
+      res.status(400).json({ error: "InvalidRequest" });
+      return;
+    }
+
+    const { limit, offset } = parsed.data;
+    // One extra row tells whether there is another page
+    const events = database.listAuditEvents({
+      ...toFilter(parsed.data),
+      limit: limit + 1,
+      offset,
+    });
+
+    res.json({ events: events.slice(0, limit), hasMore: events.length > limit });
+  }),
+);
+
+router.get(
+  "/audit-events/export",
+  asyncHandler(async (req, res) => {
+    const parsed = exportQuerySchema.safeParse(req.query ?? {});
+    if (!parsed.success) {
+      res.status(400).json({ error: "InvalidRequest" });
+      return;
+    }
+
+    const events = database.listAuditEvents({
+      ...toFilter(parsed.data),
+      limit: MAX_EXPORT_EVENTS,
+    });
+    const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+    const format = parsed.data.format;
+
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="audit-events-${timestamp}.${format}"`,
+    );
+    if (format === "json") {
+      res.setHeader("Content-Type", "application/json; charset=utf-8");
+      res.send(JSON.stringify(events, null, 2));
+      return;
+    }
+    res.setHeader("Content-Type", "text/csv; charset=utf-8");
+    res.send(toAuditCsv(events));
+  }),
+);
+
+export default router;
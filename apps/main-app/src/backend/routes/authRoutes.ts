@@ -1,4 +1,4 @@
-import { Router } from "express";
+import { Router, type Request, type Response } from "express";
 import { z } from "zod";
 import {
   ensureDefaultAdmin,
@@ -6,22 +6,80 @@ import {
   issueLoginSession,
   pruneExpiredLoginSessions,
   revokeLoginSession,
+  endImpersonationSession,
   validatePasswordStrength,
   verifyPassword,
   hashPassword,
 } from "../services/authService";
-import { requireAuth, setSessionCookie, clearSessionCookie } from "../middleware/auth";
+import {
+  requireAdmin,
+  requireAuth,
+  requireLoginSession,
+  requireNotImpersonating,
+  setSessionCookie,
+  clearSessionCookie,
+  SESSION_COOKIE_OPTIONS,
+} from "../middleware/auth";
+import { recordAuditEvent } from "../services/auditService";
+import {
+  completeSsoLogin,
+  getSsoProvider,
+  isPasswordLoginEnabled,
+  listSsoProviders,
+  setPasswordLoginEnabled,
+  startSsoLogin,
+  takePendingLogin,
+  type SsoProvider,
+} from "../services/ssoService";
+import {
+  attemptLoginChallenge,
+  completeLoginChallenge,
+  createLoginChallenge,
+  disableTwoFactor,
+  enableTwoFactor,
+  getTwoFactorRequirement,
+  getTwoFactorStatus,
+  isTwoFactorRequired,
+  isTwoFactorAvailable,
+  isTwoFactorSetupRequired,
+  regenerateRecoveryCodes,
+  setTwoFactorRequirement,
+  startTwoFactorEnrollment,
+  TWO_FACTOR_REQUIREMENTS,
+  verifyTwoFactorCode,
+  type TwoFactorRequirement,
+} from "../services/twoFactorService";
 import asyncHandler from "../middleware/asyncHandler";
 import database from "../db";
 
 const router = Router();
 
+// Sign-in and account settings are not open to personal API tokens
+router.use("/auth", requireLoginSession);
+
 const loginSchema = z.object({
   username: z.string().trim().min(1, "Username is required").max(120),
   password: z.string().min(1, "Password is required").max(200),
   rememberMe: z.boolean().optional(),
 });
 
+const twoFactorLoginSchema = z.object({
+  challengeToken: z.string().min(1).max(200),
+  code: z.string().trim().min(1).max(32),
+});
+
+const twoFactorCodeSchema = z.object({
+  code: z.string().trim().min(1).max(32),
+});
+
+const twoFactorPolicySchema = z.object({
+  requirement: z.enum(TWO_FACTOR_REQUIREMENTS as [TwoFactorRequirement, ...TwoFactorRequirement[]]),
+});
+
+const ssoSettingsSchema = z.object({
+  passwordLoginEnabled: z.boolean(),
+});
+
 const passwordChangeSchema = z.object({
   currentPassword: z.string().min(1).max(200),
   newPassword: z.string().min(8).max(200),
@@ -35,19 +93,114 @@ type RateLimitEntry = {
 const LOGIN_RATE_LIMIT_MAX = 5;
 const LOGIN_RATE_LIMIT_WINDOW_MS = 60_000;
 const REMEMBER_ME_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const SSO_STATE_COOKIE_NAME = "codex_sso_state";
+const SSO_STATE_TTL_MS = 10 * 60 * 1000;
 
 const loginRateLimits = new Map<string, RateLimitEntry>();
 
-const toPublicUser = (user: { id: string; username: string; isAdmin: boolean; createdAt: string; updatedAt: string }) => ({
+const toPublicUser = (user: { id: string; username: string; isAdmin: boolean; totpEnabledAt: string | null; createdAt: string; updatedAt: string }) => ({
   id: user.id,
   username: user.username,
   isAdmin: user.isAdmin,
+  twoFactorEnabled: Boolean(user.totpEnabledAt),
   createdAt: user.createdAt,
   updatedAt: user.updatedAt,
 });
 
 const getClientKey = (ip: string | undefined): string => ip ?? "unknown";
 
+// GitHub OAuth apps have a single callback, shared by sign-in and repo access
+const getGitHubRedirectUri = (req: Request): string =>
+  process.env.GITHUB_REDIRECT_URI ||
+  `${req.protocol}://${req.get("host")}/api/auth/github/callback`;
+
+const getSsoRedirectUri = (req: Request, provider: SsoProvider): string =>
+  provider.type === "github"
+    ? getGitHubRedirectUri(req)
+    : `${req.protocol}://${req.get("host")}/api/auth/sso/${provider.id}/callback`;
+
+const redirectWithSsoError = (res: Response, message: string) => {
+  res.redirect(`/?sso_error=${encodeURIComponent(message)}`);
+};
+
+/**
+ * Handles the provider's redirect back to us: checks that it belongs to the
+ * sign-in this browser started, then signs the user in or links the account.
+ */
+const finishSsoCallback = async (
+  req: Request,
+  res: Response,
+  pending: NonNullable<ReturnType<typeof takePendingLogin>>,
+) => {
+  const { code, state, error, error_description: errorDescription } = req.query;
+  const expectedState = req.cookies?.[SSO_STATE_COOKIE_NAME];
+  res.clearCookie(SSO_STATE_COOKIE_NAME, SESSION_COOKIE_OPTIONS);
+
+  if (!expectedState || expectedState !== state) {
+    redirectWithSsoError(res, "The sign-in was started in another browser. Please try again.");
+    return;
+  }
+  if (typeof error === "string") {
+    redirectWithSsoError(res, typeof errorDescription === "string" ? errorDescription : error);
+    return;
+  }
+  if (typeof code !== "string" || !code) {
+    redirectWithSsoError(res, "The provider did not return an authorization code.");
+    return;
+  }
+
+  let result: Awaited<ReturnType<typeof completeSsoLogin>>;
+  try {
+    result = await completeSsoLogin(pending, code);
+  } catch (loginError) {
+    console.warn("[codex-webapp] SSO sign-in failed:", loginError);
+    redirectWithSsoError(
+      res,
+      loginError instanceof Error ? loginError.message : "Sign-in failed.",
+    );
+    return;
+  }
+
+  const { user, provider } = result;
+  const target = { targetType: "user", targetId: user.id, targetLabel: user.username };
+  if (result.created) {
+    recordAuditEvent(req, {
+      actor: user,
+      action: "user.create",
+      ...target,
+      after: { isAdmin: user.isAdmin, provider: provider.id },
+    });
+  }
+  if (result.adminChange) {
+    recordAuditEvent(req, {
+      actor: user,
+      action: "user.sso_role_sync",
+      ...target,
+      before: { isAdmin: result.adminChange.before },
+      after: { isAdmin: result.adminChange.after },
+    });
+  }
+  if (result.linked) {
+    recordAuditEvent(req, {
+      action: "user.identity.link",
+      ...target,
+      after: { provider: provider.id },
+    });
+    res.redirect(`/?sso_linked=${encodeURIComponent(provider.id)}`);
+    return;
+  }
+
+  // The sign-in page asks for the code and finishes the sign-in
+  if (user.totpEnabledAt) {
+    res.redirect(`/?two_factor=${encodeURIComponent(createLoginChallenge(user.id))}`);
+    return;
+  }
+
+  const session = issueLoginSession(user.id);
+  setSessionCookie(res, session.id);
+  res.redirect("/");
+};
+
 const isRateLimited = (ip: string | undefined): boolean => {
   const key = getClientKey(ip);
   const entry = loginRateLimits.get(key);
@@ -81,6 +234,11 @@ router.post(
       return;
     }
 
+    if (!isPasswordLoginEnabled()) {
+      res.status(403).json({ error: "PasswordLoginDisabled" });
+      return;
+    }
+
     if (isRateLimited(req.ip)) {
       console.log('[AUTH] Rate limited');
       res.status(429).json({ error: "TooManyAttempts" });
@@ -109,6 +267,11 @@ router.post(
     }
 
     const ttl = rememberMe ? REMEMBER_ME_TTL_MS : undefined;
+    if (user.totpEnabledAt) {
+      res.json({ twoFactorRequired: true, challengeToken: createLoginChallenge(user.id, ttl) });
+      return;
+    }
+
     const session = issueLoginSession(user.id, ttl);
     setSessionCookie(res, session.id, ttl ?? undefined);
 
@@ -120,12 +283,66 @@ router.post(
   }),
 );
 
+router.post(
+  "/auth/login/two-factor",
+  asyncHandler(async (req, res) => {
+    const parsed = twoFactorLoginSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      res.status(400).json({ error: "InvalidRequest" });
+      return;
+    }
+
+    if (isRateLimited(req.ip)) {
+      res.status(429).json({ error: "TooManyAttempts" });
+      return;
+    }
+
+    const { challengeToken, code } = parsed.data;
+    const challenge = attemptLoginChallenge(challengeToken);
+    const user = challenge ? database.getUserById(challenge.userId) : null;
+    if (!challenge || !user) {
+      res.status(401).json({ error: "TwoFactorChallengeExpired" });
+      return;
+    }
+
+    const method = verifyTwoFactorCode(user.id, code);
+    if (!method) {
+      res.status(401).json({ error: "InvalidTwoFactorCode" });
+      return;
+    }
+
+    completeLoginChallenge(challengeToken);
+    if (method === "recovery") {
+      recordAuditEvent(req, {
+        actor: user,
+        action: "user.two_factor.recovery_code_used",
+        targetType: "user",
+        targetId: user.id,
+        targetLabel: user.username,
+      });
+    }
+
+    const session = issueLoginSession(user.id, challenge.sessionTtlMs);
+    setSessionCookie(res, session.id, challenge.sessionTtlMs);
+
+    loginRateLimits.delete(getClientKey(req.ip));
+
+    pruneExpiredLoginSessions();
+
+    res.json({ user: toPublicUser(user) });
+  }),
+);
+
 router.post(
   "/auth/logout",
   requireAuth,
   asyncHandler(async (req, res) => {
     if (req.loginSession) {
       revokeLoginSession(req.loginSession.id);
+      // Logging out while impersonating signs the admin out as well
+      if (req.loginSession.impersonatorSessionId) {
+        revokeLoginSession(req.loginSession.impersonatorSessionId);
+      }
     }
     clearSessionCookie(res);
     res.status(204).end();
@@ -136,13 +353,307 @@ router.get(
   "/auth/me",
   requireAuth,
   asyncHandler(async (req, res) => {
-    res.json({ user: toPublicUser(req.user!) });
+    res.json({
+      user: toPublicUser(req.user!),
+      impersonator: req.impersonator ? toPublicUser(req.impersonator) : null,
+      twoFactorSetupRequired:
+        Boolean(req.loginSession) && !req.impersonator && isTwoFactorSetupRequired(req.user!),
+    });
+  }),
+);
+
+router.post(
+  "/auth/impersonation/end",
+  requireAuth,
+  asyncHandler(async (req, res) => {
+    const session = req.loginSession!;
+    if (!session.impersonatorUserId) {
+      res.status(400).json({ error: "NotImpersonating" });
+      return;
+    }
+
+    recordAuditEvent(req, {
+      action: "impersonation.end",
+      targetType: "user",
+      targetId: req.user!.id,
+      targetLabel: req.user!.username,
+    });
+
+    const adminSession = endImpersonationSession(session);
+    if (!adminSession) {
+      clearSessionCookie(res);
+      res.status(401).json({ error: "NotAuthenticated" });
+      return;
+    }
+
+    setSessionCookie(res, adminSession.id, Date.parse(adminSession.expiresAt) - Date.now());
+    res.json({ user: toPublicUser(req.impersonator!) });
+  }),
+);
+
+router.get(
+  "/auth/two-factor",
+  requireAuth,
+  asyncHandler(async (req, res) => {
+    res.json(getTwoFactorStatus(req.user!));
+  }),
+);
+
+router.post(
+  "/auth/two-factor/setup",
+  requireAuth,
+  requireNotImpersonating,
+  asyncHandler(async (req, res) => {
+    if (req.user!.totpEnabledAt) {
+      res.status(409).json({ error: "TwoFactorAlreadyEnabled" });
+      return;
+    }
+    if (!isTwoFactorAvailable()) {
+      res.status(400).json({ error: "TwoFactorUnavailable" });
+      return;
+    }
+    res.json(await startTwoFactorEnrollment(req.user!));
+  }),
+);
+
+router.post(
+  "/auth/two-factor/enable",
+  requireAuth,
+  requireNotImpersonating,
+  asyncHandler(async (req, res) => {
+    const parsed = twoFactorCodeSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      res.status(400).json({ error: "InvalidRequest" });
+      return;
+    }
+
+    const user = req.user!;
+    if (user.totpEnabledAt) {
+      res.status(409).json({ error: "TwoFactorAlreadyEnabled" });
+      return;
+    }
+
+    const recoveryCodes = enableTwoFactor(user.id, parsed.data.code);
+    if (!recoveryCodes) {
+      res.status(400).json({ error: "InvalidTwoFactorCode" });
+      return;
+    }
+
+    recordAuditEvent(req, {
+      action: "user.two_factor.enable",
+      targetType: "user",
+      targetId: user.id,
+      targetLabel: user.username,
+    });
+
+    // Recovery codes are only ever returned here and on regeneration
+    res.json({ recoveryCodes });
+  }),
+);
+
+router.post(
+  "/auth/two-factor/recovery-codes",
+  requireAuth,
+  requireNotImpersonating,
+  asyncHandler(async (req, res) => {
+    const parsed = twoFactorCodeSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      res.status(400).json({ error: "InvalidRequest" });
+      return;
+    }
+
+    const user = req.user!;
+    if (verifyTwoFactorCode(user.id, parsed.data.code) !== "totp") {
+      res.status(400).json({ error: "InvalidTwoFactorCode" });
+      return;
+    }
+
+    const recoveryCodes = regenerateRecoveryCodes(user.id);
+    recordAuditEvent(req, {
+      action: "user.two_factor.recovery_codes",
+      targetType: "user",
+      targetId: user.id,
+      targetLabel: user.username,
+    });
+
+    res.json({ recoveryCodes });
+  }),
+);
+
+router.post(
+  "/auth/two-factor/disable",
+  requireAuth,
+  requireNotImpersonating,
+  asyncHandler(async (req, res) => {
+    const parsed = twoFactorCodeSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      res.status(400).json({ error: "InvalidRequest" });
+      return;
+    }
+
+    const user = req.user!;
+    if (isTwoFactorRequired(user)) {
+      res.status(403).json({ error: "TwoFactorRequired" });
+      return;
+    }
+    if (!verifyTwoFactorCode(user.id, parsed.data.code)) {
+      res.status(400).json({ error: "InvalidTwoFactorCode" });
+      return;
+    }
+
+    disableTwoFactor(user.id);
+    recordAuditEvent(req, {
+      action: "user.two_factor.disable",
+      targetType: "user",
+      targetId: user.id,
+      targetLabel: user.username,
+    });
+
+    res.status(204).end();
+  }),
+);
+
+router.put(
+  "/auth/two-factor/policy",
+  requireAdmin,
+  requireNotImpersonating,
+  asyncHandler(async (req, res) => {
+    const parsed = twoFactorPolicySchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      res.status(400).json({ error: "InvalidRequest" });
+      return;
+    }
+    // Nobody could comply with a requirement they cannot set up
+    if (parsed.data.requirement !== "off" && !isTwoFactorAvailable()) {
+      res.status(400).json({ error: "TwoFactorUnavailable" });
+      return;
+    }
+
+    const before = getTwoFactorRequirement();
+    setTwoFactorRequirement(parsed.data.requirement);
+    recordAuditEvent(req, {
+      action: "auth.two_factor_policy.update",
+      targetType: "setting",
+      targetId: "two_factor_requirement",
+      before: { requirement: before },
+      after: { requirement: parsed.data.requirement },
+    });
+
+    res.json({ requirement: parsed.data.requirement });
+  }),
+);
+
+router.get(
+  "/auth/sso/providers",
+  asyncHandler(async (req, res) => {
+    const linked = new Set(
+      req.user ? database.listUserIdentities(req.user.id).map((identity) => identity.provider) : [],
+    );
+    res.json({
+      passwordLoginEnabled: isPasswordLoginEnabled(),
+      passwordLoginForced: process.env.FORCE_PASSWORD_LOGIN === "true",
+      providers: listSsoProviders().map((provider) => ({
+        id: provider.id,
+        name: provider.name,
+        type: provider.type,
+        loginUrl: `/api/auth/sso/${provider.id}/login`,
+        linked: linked.has(provider.id),
+      })),
+    });
+  }),
+);
+
+router.put(
+  "/auth/sso/settings",
+  requireAdmin,
+  requireNotImpersonating,
+  asyncHandler(async (req, res) => {
+    const parsed = ssoSettingsSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      res.status(400).json({ error: "InvalidRequest" });
+      return;
+    }
+
+    const { passwordLoginEnabled } = parsed.data;
+    if (!passwordLoginEnabled) {
+      if (listSsoProviders().length === 0) {
+        res.status(400).json({ error: "NoSsoProviders" });
+        return;
+      }
+      // Keeps admins from locking themselves out
+      if (database.listUserIdentities(req.user!.id).length === 0) {
+        res.status(400).json({ error: "LinkSsoAccountFirst" });
+        return;
+      }
+    }
+
+    const before = isPasswordLoginEnabled();
+    setPasswordLoginEnabled(passwordLoginEnabled);
+    recordAuditEvent(req, {
+      action: "auth.password_login.update",
+      targetType: "setting",
+      targetId: "password_login_enabled",
+      before: { enabled: before },
+      after: { enabled: isPasswordLoginEnabled() },
+    });
+
+    res.json({ passwordLoginEnabled: isPasswordLoginEnabled() });
+  }),
+);
+
+// Starts a sign-in; with ?link=true a signed-in user links the account instead
+router.get(
+  "/auth/sso/:providerId/login",
+  asyncHandler(async (req, res) => {
+    const provider = getSsoProvider(req.params.providerId);
+    if (!provider) {
+      res.status(404).json({ error: "UnknownProvider" });
+      return;
+    }
+
+    let linkUserId: string | null = null;
+    if (req.query.link === "true") {
+      if (!req.user || !req.loginSession || req.impersonator) {
+        res.status(401).json({ error: "NotAuthenticated" });
+        return;
+      }
+      linkUserId = req.user.id;
+    }
+
+    let started: Awaited<ReturnType<typeof startSsoLogin>>;
+    try {
+      started = await startSsoLogin(provider, getSsoRedirectUri(req, provider), linkUserId);
+    } catch (error) {
+      console.warn(`[codex-webapp] Unable to start sign-in with ${provider.name}:`, error);
+      redirectWithSsoError(res, `${provider.name} is not reachable right now.`);
+      return;
+    }
+
+    res.cookie(SSO_STATE_COOKIE_NAME, started.state, {
+      ...SESSION_COOKIE_OPTIONS,
+      maxAge: SSO_STATE_TTL_MS,
+    });
+    res.redirect(started.url);
+  }),
+);
+
+router.get(
+  "/auth/sso/:providerId/callback",
+  asyncHandler(async (req, res) => {
+    const { state } = req.query;
+    const pending = typeof state === "string" ? takePendingLogin(state) : null;
+    if (!pending || pending.providerId !== req.params.providerId) {
+      redirectWithSsoError(res, "This sign-in has expired. Please try again.");
+      return;
+    }
+    await finishSsoCallback(req, res, pending);
   }),
 );
 
 router.post(
   "/auth/password",
   requireAuth,
+  requireNotImpersonating,
   asyncHandler(async (req, res) => {
     const parsed = passwordChangeSchema.safeParse(req.body ?? {});
     if (!parsed.success) {
@@ -198,7 +709,7 @@ router.get(
 
     const authUrl = new URL("https://github.com/login/oauth/authorize");
     authUrl.searchParams.set("client_id", clientId);
-    authUrl.searchParams.set("redirect_uri", process.env.GITHUB_REDIRECT_URI || `${req.protocol}://${req.get("host")}/api/auth/github/callback`);
+    authUrl.searchParams.set("redirect_uri", getGitHubRedirectUri(req));
     authUrl.searchParams.set("scope", "repo,user:email");
     authUrl.searchParams.set("state", state);
 
@@ -212,6 +723,13 @@ router.get(
   asyncHandler(async (req, res) => {
     const { code, state } = req.query;
 
+    // Sign-ins with GitHub come back through the same callback
+    const pendingLogin = typeof state === "string" ? takePendingLogin(state) : null;
+    if (pendingLogin) {
+      await finishSsoCallback(req, res, pendingLogin);
+      return;
+    }
+
     if (!code || typeof code !== "string") {
       return res.status(400).send("Missing authorization code");
     }
@@ -248,7 +766,7 @@ router.get(
           client_id: clientId,
           client_secret: clientSecret,
           code,
-          redirect_uri: process.env.GITHUB_REDIRECT_URI || `${req.protocol}://${req.get("host")}/api/auth/github/callback`,
+          redirect_uri: getGitHubRedirectUri(req),
         }),
       });
 
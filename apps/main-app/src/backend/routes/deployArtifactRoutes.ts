@@ -0,0 +1,39 @@
+import { Router, type Request, type Response } from "express";
+import fs from "node:fs";
+import { getArtifactPath, verifyArtifactSignature } from "../services/workspaceArchiveService";
+
+const router = Router();
+
+// Dokploy downloads artifacts without a login and presents a signed, unexpired
+// URL instead. This router is mounted ahead of the others under /api, whose
+// requireAuth and requireAdmin middleware would otherwise reject it.
+router.get("/deploy/artifacts/:key", (req: Request, res: Response) => {
+  const key = req.params.key ?? "";
+  const expires = typeof req.query.expires === "string" ? req.query.expires : "";
+  const signature = typeof req.query.signature === "string" ? req.query.signature : "";
+  if (!req.user?.isAdmin && !verifyArtifactSignature(key, expires, signature)) {
+    res.status(403).json({ error: "Artifact link is invalid or has expired." });
+    return;
+  }
+
+  try {
+    const filePath = getArtifactPath(key);
+    if (!fs.existsSync(filePath)) {
+      res.status(404).json({ error: "Artifact not found." });
+      return;
+    }
+
+    res.setHeader("Content-Type", "application/gzip");
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="${key || "workspace.tar.gz"}"`,
+    );
+    res.sendFile(filePath);
+  } catch (error) {
+    res.status(400).json({
+      error: error instanceof Error ? error.message : "Invalid artifact key.",
+    });
+  }
+});
+
+export default router;
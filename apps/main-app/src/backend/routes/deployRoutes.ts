@@ -1,17 +1,45 @@
 import { Router, type Request, type Response } from "express";
-import fs from "node:fs";
 import { z } from "zod";
 import { database } from "../db";
-import type { DeployConfig, DeployEnvVar } from "../../shared/dokploy";
+import type {
+  DeployConfig,
+  DeployEnvVar,
+  DeployTargetResponse,
+} from "../../shared/dokploy";
+import type { DeployTargetRow } from "../types/database";
 import { createDokployClient } from "../services/dokployClient";
 import { synchronizeDokployApplication } from "../services/dokploySyncService";
+import {
+  ARTIFACT_URL_TTL_MS,
+  deployTarget,
+  redeployArtifact,
+  subscribeToDeployments,
+  toDeploymentResponse,
+} from "../services/deploymentService";
+import { openEventStream } from "../utils/serverSentEvents";
 import {
   createWorkspaceArchive,
-  getArtifactPath,
+  previewWorkspaceArchive,
+  signArtifactUrl,
 } from "../services/workspaceArchiveService";
+import {
+  deleteArtifact,
+  getArtifactStorage,
+  sweepArtifacts,
+} from "../services/artifactRetentionService";
+import {
+  getDefaultServiceBackendKind,
+  getServiceBackend,
+  getServiceBackendSettings,
+  setDefaultServiceBackendKind,
+} from "../services/serviceBackend";
+import { recordAuditEvent } from "../services/auditService";
 import { requireAdmin } from "../middleware/auth";
+import { ensureWorkspaceDirectory } from "../workspaces";
+import { isSigningAvailable } from "../utils/secretVault";
 
 const router = Router();
+
 router.use(requireAdmin);
 
 const envVarSchema = z.object({
@@ -37,6 +65,7 @@ const workspaceSourceSchema = z.object({
   artifactUrl: z.string().optional().nullable(),
   artifactKey: z.string().optional().nullable(),
   expiresAt: z.string().optional().nullable(),
+  commitSha: z.string().optional().nullable(),
 });
 
 const buildSchema = z.object({
@@ -61,6 +90,13 @@ const resourcesSchema = z.object({
   replicas: z.number().int().nullable().optional(),
 });
 
+const archiveRulesSchema = z.object({
+  useGitignore: z.boolean().optional(),
+  useDockerignore: z.boolean().optional(),
+  exclude: z.array(z.string()).optional(),
+  include: z.array(z.string()).optional(),
+});
+
 const configSchema = z.object({
   baseUrl: z.string().trim().min(1),
   authMethod: z.enum(["x-api-key", "authorization"]),
@@ -78,16 +114,52 @@ const configSchema = z.object({
   source: z.discriminatedUnion("type", [gitSourceSchema, workspaceSourceSchema]),
   build: buildSchema.optional(),
   resources: resourcesSchema.optional(),
+  archive: archiveRulesSchema.optional(),
   lastSyncedAt: z.string().optional(),
   apiKey: z.string().optional().nullable(),
 });
 
-const loadConfigOrThrow = (): { config: DeployConfig; hasApiKey: boolean } => {
-  const stored = database.getDeployConfig();
-  if (!stored) {
-    throw new Error("Dokploy configuration is not initialized.");
+const targetNameSchema = z.string().trim().min(1).max(100);
+
+const createTargetSchema = configSchema.extend({
+  name: targetNameSchema,
+});
+
+const updateTargetSchema = configSchema.extend({
+  name: targetNameSchema.optional(),
+});
+
+
+const formatValidationError = (error: z.ZodError): string => {
+  const { formErrors, fieldErrors } = error.flatten();
+  const messages = [...formErrors, ...Object.values(fieldErrors).flat()].filter(
+    (message): message is string => Boolean(message && message.length > 0),
+  );
+  return messages.join("; ") || "Invalid payload";
+};
+
+const findTargetOr404 = (req: Request, res: Response): DeployTargetRow | null => {
+  const target = database.getDeployTarget(req.params.targetId ?? "");
+  if (!target) {
+    res.status(404).json({ error: "Deployment target not found." });
+    return null;
   }
-  return { config: stored.config, hasApiKey: stored.hasApiKey };
+  return target;
+};
+
+const isTargetNameTaken = (name: string, exceptId?: string): boolean => {
+  const normalized = name.trim().toLowerCase();
+  return database
+    .listDeployTargets()
+    .some((target) => target.id !== exceptId && target.name.toLowerCase() === normalized);
+};
+
+const requireApiKey = (target: DeployTargetRow): string => {
+  const apiKey = database.getDeployTargetApiKey(target.id);
+  if (!apiKey) {
+    throw new Error("Dokploy API key is not configured.");
+  }
+  return apiKey;
 };
 
 const maskEnvVars = (env?: DeployEnvVar[]): DeployEnvVar[] | undefined => {
@@ -101,36 +173,41 @@ const maskEnvVars = (env?: DeployEnvVar[]): DeployEnvVar[] | undefined => {
   }));
 };
 
-router.get("/deploy/config", (_req: Request, res: Response) => {
-  const stored = database.getDeployConfig();
-  if (!stored) {
-    res.status(404).json({ error: "Dokploy configuration not found." });
-    return;
-  }
-
-  res.json({
-    ...stored.config,
-    hasApiKey: stored.hasApiKey,
-    env: maskEnvVars(stored.config.env),
-  });
+const toTargetResponse = (target: DeployTargetRow): DeployTargetResponse => ({
+  ...target.config,
+  id: target.id,
+  name: target.name,
+  isDefault: target.isDefault,
+  createdAt: target.createdAt,
+  updatedAt: target.updatedAt,
+  hasApiKey: target.hasApiKey,
+  env: maskEnvVars(target.config.env),
 });
 
-router.put("/deploy/config", (req: Request, res: Response) => {
-  const parsed = configSchema.safeParse(req.body ?? {});
-  if (!parsed.success) {
-    const { formErrors, fieldErrors } = parsed.error.flatten();
-    const messages = [...formErrors, ...Object.values(fieldErrors).flat()].filter(
-      (message) => message && message.length > 0,
-    );
-    res.status(400).json({ error: messages.join("; ") || "Invalid payload" });
-    return;
+// Only the workspace of one of the caller's own sessions can be archived
+const findSessionWorkspaceOr400 = (req: Request, res: Response): string | null => {
+  const sessionId = typeof req.body?.sessionId === "string" ? req.body.sessionId : "";
+  const session = sessionId ? database.getSession(sessionId) : null;
+  if (!session || session.userId !== req.user!.id) {
+    res.status(400).json({ error: "Choose the session whose workspace to upload." });
+    return null;
   }
+  return ensureWorkspaceDirectory(session.id);
+};
+
+const requestOrigin = (req: Request): string => `${req.protocol}://${req.get("host")}`;
 
-  const body = parsed.data;
-  const current = database.getDeployConfig();
+/**
+ * Builds the config to store from a submitted payload. Masked env values the
+ * client did not resend keep their stored value.
+ */
+const buildConfigToSave = (
+  body: z.infer<typeof configSchema>,
+  current?: DeployConfig,
+): DeployConfig => {
   const currentEnvMap = new Map<string, DeployEnvVar>();
-  if (current?.config.env) {
-    current.config.env.forEach((entry) => {
+  if (current?.env) {
+    current.env.forEach((entry) => {
       currentEnvMap.set(entry.key, entry);
     });
   }
@@ -145,14 +222,14 @@ router.put("/deploy/config", (req: Request, res: Response) => {
     return entry;
   });
 
-  const configToSave: DeployConfig = {
+  return {
     baseUrl: body.baseUrl,
     authMethod: body.authMethod,
     projectId: body.projectId,
     environmentId: body.environmentId,
     serverId: body.serverId,
     githubId: body.githubId,
-    applicationId: body.applicationId ?? current?.config.applicationId,
+    applicationId: body.applicationId ?? current?.applicationId,
     appName: body.appName,
     domain: body.domain,
     port: body.port,
@@ -162,61 +239,17 @@ router.put("/deploy/config", (req: Request, res: Response) => {
     source: body.source,
     build: body.build,
     resources: body.resources,
-    lastSyncedAt: body.lastSyncedAt ?? current?.config.lastSyncedAt,
+    archive: body.archive,
+    lastSyncedAt: body.lastSyncedAt ?? current?.lastSyncedAt,
   };
+};
 
-  const saved = database.saveDeployConfig({
-    config: configToSave,
-    apiKey: body.apiKey === undefined ? undefined : body.apiKey,
-  });
-
-  res.json({
-    ...saved.config,
-    hasApiKey: saved.hasApiKey,
-    env: maskEnvVars(saved.config.env),
-  });
-});
-
-router.post("/deploy/test", async (req: Request, res: Response) => {
+const testConnection = async (
+  res: Response,
+  config: DeployConfig,
+  apiKey: string,
+): Promise<void> => {
   try {
-    // Allow testing with unsaved credentials
-    const baseUrlOverride = typeof req.body?.baseUrl === "string" ? req.body.baseUrl : undefined;
-    const authMethodOverride = typeof req.body?.authMethod === "string" ? req.body.authMethod : undefined;
-    const apiKeyOverride = typeof req.body?.apiKey === "string" ? req.body.apiKey : undefined;
-
-    let config: DeployConfig;
-    let apiKey: string;
-
-    if (baseUrlOverride && apiKeyOverride) {
-      // Test with provided credentials (before saving)
-      config = {
-        baseUrl: baseUrlOverride,
-        authMethod: (authMethodOverride as DeployAuthMethod) || "x-api-key",
-        projectId: "",
-        serverId: null,
-        applicationId: null,
-        appName: null,
-        domain: null,
-        port: null,
-        traefikConfig: null,
-        autoDeploy: null,
-        env: [],
-        source: null,
-        build: null,
-        resources: null,
-        lastSyncedAt: null,
-      };
-      apiKey = apiKeyOverride;
-    } else {
-      // Test with saved credentials
-      const stored = loadConfigOrThrow();
-      config = stored.config;
-      apiKey = apiKeyOverride ?? database.getDeployApiKey();
-      if (!apiKey) {
-        throw new Error("Dokploy API key is not configured.");
-      }
-    }
-
     const client = createDokployClient(config, apiKey);
     const result = await client.request({ method: "GET", path: "/project.all" });
     res.json({ ok: true, projects: result });
@@ -226,25 +259,222 @@ router.post("/deploy/test", async (req: Request, res: Response) => {
       error: error instanceof Error ? error.message : "Unable to connect to Dokploy.",
     });
   }
+};
+
+// What the audit log keeps of a target: settings, but only env keys and no API key
+const summarizeTarget = (target: DeployTargetRow) => ({
+  name: target.name,
+  isDefault: target.isDefault,
+  baseUrl: target.config.baseUrl,
+  authMethod: target.config.authMethod,
+  projectId: target.config.projectId ?? null,
+  environmentId: target.config.environmentId ?? null,
+  applicationId: target.config.applicationId ?? null,
+  serverId: target.config.serverId ?? null,
+  appName: target.config.appName ?? null,
+  domain: target.config.domain ?? null,
+  port: target.config.port ?? null,
+  autoDeploy: target.config.autoDeploy ?? null,
+  envKeys: (target.config.env ?? []).map((entry) => entry.key),
+  source: target.config.source,
+  build: target.config.build ?? null,
+  resources: target.config.resources ?? null,
+});
+
+const auditTarget = (
+  req: Request,
+  action: string,
+  target: DeployTargetRow,
+  change: { before?: DeployTargetRow | null; after?: DeployTargetRow | null; apiKeyChanged?: boolean },
+) => {
+  const before = change.before ? summarizeTarget(change.before) : null;
+  const after = change.after ? summarizeTarget(change.after) : null;
+  recordAuditEvent(req, {
+    action,
+    targetType: "deploy_target",
+    targetId: target.id,
+    targetLabel: target.name,
+    before: before && change.apiKeyChanged ? { ...before, apiKey: "previous" } : before,
+    after: after && change.apiKeyChanged ? { ...after, apiKey: "replaced" } : after,
+  });
+};
+
+const readCredentialOverrides = (req: Request) => ({
+  baseUrl: typeof req.body?.baseUrl === "string" ? req.body.baseUrl : undefined,
+  authMethod:
+    req.body?.authMethod === "x-api-key" || req.body?.authMethod === "authorization"
+      ? (req.body.authMethod as DeployConfig["authMethod"])
+      : undefined,
+  apiKey: typeof req.body?.apiKey === "string" ? req.body.apiKey : undefined,
+});
+
+router.get("/deploy/targets", (_req: Request, res: Response) => {
+  res.json({ targets: database.listDeployTargets().map(toTargetResponse) });
+});
+
+router.post("/deploy/targets", (req: Request, res: Response) => {
+  const parsed = createTargetSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    res.status(400).json({ error: formatValidationError(parsed.error) });
+    return;
+  }
+
+  const { name, apiKey, ...body } = parsed.data;
+  if (isTargetNameTaken(name)) {
+    res.status(409).json({ error: `A deployment target named "${name}" already exists.` });
+    return;
+  }
+
+  const created = database.createDeployTarget({
+    name,
+    config: buildConfigToSave(body),
+    apiKey: apiKey ?? undefined,
+  });
+  auditTarget(req, "deploy_target.create", created, { after: created });
+  res.status(201).json(toTargetResponse(created));
+});
+
+router.get("/deploy/targets/:targetId", (req: Request, res: Response) => {
+  const target = findTargetOr404(req, res);
+  if (!target) {
+    return;
+  }
+
+  res.json(toTargetResponse(target));
+});
+
+router.put("/deploy/targets/:targetId", (req: Request, res: Response) => {
+  const target = findTargetOr404(req, res);
+  if (!target) {
+    return;
+  }
+
+  const parsed = updateTargetSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    res.status(400).json({ error: formatValidationError(parsed.error) });
+    return;
+  }
+
+  const { name, apiKey, ...body } = parsed.data;
+  if (name && isTargetNameTaken(name, target.id)) {
+    res.status(409).json({ error: `A deployment target named "${name}" already exists.` });
+    return;
+  }
+
+  const saved = database.updateDeployTarget(target.id, {
+    name,
+    config: buildConfigToSave(body, target.config),
+    apiKey: apiKey === undefined ? undefined : apiKey,
+  });
+  if (!saved) {
+    res.status(404).json({ error: "Deployment target not found." });
+    return;
+  }
+
+  auditTarget(req, "deploy_target.update", saved, {
+    before: target,
+    after: saved,
+    apiKeyChanged: apiKey !== undefined,
+  });
+  res.json(toTargetResponse(saved));
+});
+
+router.delete("/deploy/targets/:targetId", (req: Request, res: Response) => {
+  const target = findTargetOr404(req, res);
+  if (!target) {
+    return;
+  }
+
+  if (target.isDefault) {
+    res.status(409).json({
+      error: "The default deployment target cannot be deleted. Choose another default first.",
+    });
+    return;
+  }
+
+  database.deleteDeployTarget(target.id);
+  auditTarget(req, "deploy_target.delete", target, { before: target });
+  res.status(204).end();
+});
+
+router.post("/deploy/targets/:targetId/default", (req: Request, res: Response) => {
+  const target = findTargetOr404(req, res);
+  if (!target) {
+    return;
+  }
+
+  const updated = database.setDefaultDeployTarget(target.id);
+  if (!updated) {
+    res.status(404).json({ error: "Deployment target not found." });
+    return;
+  }
+
+  auditTarget(req, "deploy_target.set_default", updated, { before: target, after: updated });
+
+  res.json(toTargetResponse(updated));
+});
+
+router.post("/deploy/test", async (req: Request, res: Response) => {
+  // Tests credentials that have not been saved as a target yet
+  const overrides = readCredentialOverrides(req);
+  if (!overrides.baseUrl || !overrides.apiKey) {
+    res.status(400).json({ error: "baseUrl and apiKey are required." });
+    return;
+  }
+
+  await testConnection(
+    res,
+    {
+      baseUrl: overrides.baseUrl,
+      authMethod: overrides.authMethod ?? "x-api-key",
+      source: { type: "git", provider: "github" },
+    },
+    overrides.apiKey,
+  );
+});
+
+router.post("/deploy/targets/:targetId/test", async (req: Request, res: Response) => {
+  const target = findTargetOr404(req, res);
+  if (!target) {
+    return;
+  }
+
+  // Unsaved edits of the connection settings override the stored ones
+  const overrides = readCredentialOverrides(req);
+  const apiKey = overrides.apiKey ?? database.getDeployTargetApiKey(target.id);
+  if (!apiKey) {
+    res.status(400).json({ error: "Dokploy API key is not configured." });
+    return;
+  }
+
+  await testConnection(
+    res,
+    {
+      ...target.config,
+      baseUrl: overrides.baseUrl ?? target.config.baseUrl,
+      authMethod: overrides.authMethod ?? target.config.authMethod,
+    },
+    apiKey,
+  );
 });
 
-router.post("/deploy/sync", async (_req: Request, res: Response) => {
+router.post("/deploy/targets/:targetId/sync", async (req: Request, res: Response) => {
+  const target = findTargetOr404(req, res);
+  if (!target) {
+    return;
+  }
+
   try {
-    const stored = loadConfigOrThrow();
-    const apiKey = database.getDeployApiKey();
-    if (!apiKey) {
-      throw new Error("Dokploy API key is not configured.");
-    }
-    const result = await synchronizeDokployApplication(stored.config, apiKey);
-    const saved = database.saveDeployConfig({
+    const apiKey = requireApiKey(target);
+    const result = await synchronizeDokployApplication(target.config, apiKey);
+    const saved = database.updateDeployTarget(target.id, {
       config: result.config,
     });
+    if (!saved) {
+      throw new Error("Deployment target was deleted during synchronization.");
+    }
 
-    res.json({
-      ...saved.config,
-      hasApiKey: saved.hasApiKey,
-      env: maskEnvVars(saved.config.env),
-    });
+    res.json(toTargetResponse(saved));
   } catch (error) {
     console.error("Failed to synchronize Dokploy application", error);
     res.status(400).json({
@@ -253,25 +483,16 @@ router.post("/deploy/sync", async (_req: Request, res: Response) => {
   }
 });
 
-router.post("/deploy/deploy", async (_req: Request, res: Response) => {
+router.post("/deploy/targets/:targetId/deploy", async (req: Request, res: Response) => {
+  const target = findTargetOr404(req, res);
+  if (!target) {
+    return;
+  }
+
   try {
-    const stored = loadConfigOrThrow();
-    const apiKey = database.getDeployApiKey();
-    if (!apiKey) {
-      throw new Error("Dokploy API key is not configured.");
-    }
-    if (!stored.config.applicationId) {
-      throw new Error("Configure applicationId before triggering a deployment.");
-    }
-    const client = createDokployClient(stored.config, apiKey);
-    const result = await client.request({
-      method: "POST",
-      path: "/application.deploy",
-      body: {
-        applicationId: stored.config.applicationId,
-      },
-    });
-    res.json({ ok: true, result });
+    const apiKey = requireApiKey(target);
+    const deployment = await deployTarget({ target, apiKey, userId: req.user!.id });
+    res.json({ ok: true, deployment: toDeploymentResponse(deployment) });
   } catch (error) {
     console.error("Failed to trigger Dokploy deployment", error);
     res.status(400).json({
@@ -280,14 +501,79 @@ router.post("/deploy/deploy", async (_req: Request, res: Response) => {
   }
 });
 
-router.get("/deploy/projects", async (_req: Request, res: Response) => {
-  try {
-    const stored = loadConfigOrThrow();
-    const apiKey = database.getDeployApiKey();
-    if (!apiKey) {
-      throw new Error("Dokploy API key is not configured.");
+router.get("/deploy/targets/:targetId/deployments", (req: Request, res: Response) => {
+  const target = findTargetOr404(req, res);
+  if (!target) {
+    return;
+  }
+
+  res.json({
+    deployments: database.listDeployments(target.id).map(toDeploymentResponse),
+  });
+});
+
+// Streams the deployment history of a target: a `deployments` snapshot, then
+// a `deployment` event for every change.
+router.get("/deploy/targets/:targetId/deployments/events", (req: Request, res: Response) => {
+  const target = findTargetOr404(req, res);
+  if (!target) {
+    return;
+  }
+
+  const stream = openEventStream(req, res);
+  stream.send("deployments", database.listDeployments(target.id).map(toDeploymentResponse));
+  const unsubscribe = subscribeToDeployments((deployment) => {
+    if (deployment.targetId === target.id) {
+      stream.send("deployment", toDeploymentResponse(deployment));
     }
-    const client = createDokployClient(stored.config, apiKey);
+  });
+  stream.onClose(unsubscribe);
+});
+
+router.post(
+  "/deploy/targets/:targetId/deployments/:deploymentId/redeploy",
+  async (req: Request, res: Response) => {
+    const target = findTargetOr404(req, res);
+    if (!target) {
+      return;
+    }
+
+    const deployment = database.getDeployment(req.params.deploymentId ?? "");
+    if (!deployment || deployment.targetId !== target.id) {
+      res.status(404).json({ error: "Deployment not found." });
+      return;
+    }
+
+    try {
+      const apiKey = requireApiKey(target);
+      const result = await redeployArtifact({
+        target,
+        apiKey,
+        userId: req.user!.id,
+        deployment,
+        origin: requestOrigin(req),
+      });
+      res.json({
+        deployment: toDeploymentResponse(result.deployment),
+        config: toTargetResponse(result.target),
+      });
+    } catch (error) {
+      console.error("Failed to redeploy earlier artifact", error);
+      res.status(400).json({
+        error: error instanceof Error ? error.message : "Redeploy failed.",
+      });
+    }
+  },
+);
+
+router.get("/deploy/targets/:targetId/projects", async (req: Request, res: Response) => {
+  const target = findTargetOr404(req, res);
+  if (!target) {
+    return;
+  }
+
+  try {
+    const client = createDokployClient(target.config, requireApiKey(target));
     const projects = await client.request({ method: "GET", path: "/project.all" });
     res.json({ projects });
   } catch (error) {
@@ -298,14 +584,14 @@ router.get("/deploy/projects", async (_req: Request, res: Response) => {
   }
 });
 
-router.get("/deploy/applications", async (req: Request, res: Response) => {
+router.get("/deploy/targets/:targetId/applications", async (req: Request, res: Response) => {
+  const target = findTargetOr404(req, res);
+  if (!target) {
+    return;
+  }
+
   try {
-    const stored = loadConfigOrThrow();
-    const apiKey = database.getDeployApiKey();
-    if (!apiKey) {
-      throw new Error("Dokploy API key is not configured.");
-    }
-    const client = createDokployClient(stored.config, apiKey);
+    const client = createDokployClient(target.config, requireApiKey(target));
     const projects = await client.request<any[]>({ method: "GET", path: "/project.all" });
     const projectId = typeof req.query.projectId === "string" ? req.query.projectId : undefined;
 
@@ -327,7 +613,12 @@ router.get("/deploy/applications", async (req: Request, res: Response) => {
   }
 });
 
-router.get("/deploy/environments", async (req: Request, res: Response) => {
+router.get("/deploy/targets/:targetId/environments", async (req: Request, res: Response) => {
+  const target = findTargetOr404(req, res);
+  if (!target) {
+    return;
+  }
+
   try {
     const projectId = typeof req.query.projectId === "string" ? req.query.projectId : undefined;
     console.log('[DEPLOY] Fetching environments for projectId:', projectId);
@@ -337,13 +628,7 @@ router.get("/deploy/environments", async (req: Request, res: Response) => {
       return;
     }
 
-    const stored = loadConfigOrThrow();
-    const apiKey = database.getDeployApiKey();
-    if (!apiKey) {
-      throw new Error("Dokploy API key is not configured.");
-    }
-
-    const client = createDokployClient(stored.config, apiKey);
+    const client = createDokployClient(target.config, requireApiKey(target));
 
     // Fetch all projects and find the matching one
     const projects = await client.request<any[]>({
@@ -386,15 +671,14 @@ router.get("/deploy/environments", async (req: Request, res: Response) => {
   }
 });
 
-router.get("/deploy/github-providers", async (_req: Request, res: Response) => {
-  try {
-    const stored = loadConfigOrThrow();
-    const apiKey = database.getDeployApiKey();
-    if (!apiKey) {
-      throw new Error("Dokploy API key is not configured.");
-    }
+router.get("/deploy/targets/:targetId/github-providers", async (req: Request, res: Response) => {
+  const target = findTargetOr404(req, res);
+  if (!target) {
+    return;
+  }
 
-    const client = createDokployClient(stored.config, apiKey);
+  try {
+    const client = createDokployClient(target.config, requireApiKey(target));
 
     // Try to fetch GitHub providers
     const providers = await client.request<any[]>({
@@ -419,43 +703,96 @@ router.get("/deploy/github-providers", async (_req: Request, res: Response) => {
   }
 });
 
-router.post("/deploy/upload", async (req: Request, res: Response) => {
+// Lists the files an upload would pack. Unsaved `archive` rules from the
+// request body take precedence over the target's saved ones.
+router.post("/deploy/targets/:targetId/upload/preview", async (req: Request, res: Response) => {
+  const target = findTargetOr404(req, res);
+  if (!target) {
+    return;
+  }
+
+  const parsedRules = archiveRulesSchema.optional().safeParse(req.body?.archive);
+  if (!parsedRules.success) {
+    res.status(400).json({ error: formatValidationError(parsedRules.error) });
+    return;
+  }
+
+  const workspaceRoot = findSessionWorkspaceOr400(req, res);
+  if (!workspaceRoot) {
+    return;
+  }
+
   try {
-    const stored = loadConfigOrThrow();
-    const workspaceRoot =
-      typeof req.body?.workspaceRoot === "string" && req.body.workspaceRoot.trim().length > 0
-        ? req.body.workspaceRoot.trim()
-        : undefined;
+    const preview = await previewWorkspaceArchive({
+      workspaceRoot,
+      rules: parsedRules.data ?? target.config.archive,
+    });
+    res.json(preview);
+  } catch (error) {
+    console.error("Failed to preview workspace archive", error);
+    res.status(400).json({
+      error: error instanceof Error ? error.message : "Archive preview failed.",
+    });
+  }
+});
 
-    const archive = await createWorkspaceArchive({ workspaceRoot });
+router.post("/deploy/targets/:targetId/upload", async (req: Request, res: Response) => {
+  const target = findTargetOr404(req, res);
+  if (!target) {
+    return;
+  }
+
+  // Dokploy needs a signed link to fetch the archive
+  if (!isSigningAvailable()) {
+    res.status(400).json({
+      error: "Set CODEX_WEBAPP_SECRET on the server before uploading workspaces.",
+    });
+    return;
+  }
+
+  const workspaceRoot = findSessionWorkspaceOr400(req, res);
+  if (!workspaceRoot) {
+    return;
+  }
+
+  try {
+    const archive = await createWorkspaceArchive({
+      workspaceRoot,
+      rules: target.config.archive,
+    });
     const now = new Date();
-    const expiresAt = new Date(now.getTime() + 24 * 60 * 60 * 1000);
-    const origin = `${req.protocol}://${req.get("host")}`;
-    const artifactUrl = `${origin}/api/deploy/artifacts/${archive.key}`;
+    const expiresAt = new Date(now.getTime() + ARTIFACT_URL_TTL_MS);
+    const artifactUrl = signArtifactUrl(requestOrigin(req), archive.key, expiresAt);
+    database.recordDeployArtifact({
+      key: archive.key,
+      targetId: target.id,
+      size: archive.size,
+      commitSha: archive.commitSha,
+    });
 
     const updatedConfig: DeployConfig = {
-      ...stored.config,
+      ...target.config,
       source: {
         type: "workspace",
         artifactKey: archive.key,
         artifactUrl,
         lastUploadedAt: now.toISOString(),
         expiresAt: expiresAt.toISOString(),
+        commitSha: archive.commitSha,
       },
     };
 
-    const saved = database.saveDeployConfig({ config: updatedConfig });
+    const saved = database.updateDeployTarget(target.id, { config: updatedConfig });
+    if (!saved) {
+      throw new Error("Deployment target was deleted during the upload.");
+    }
 
     res.json({
       artifactKey: archive.key,
       artifactUrl,
       size: archive.size,
       expiresAt: expiresAt.toISOString(),
-      config: {
-        ...saved.config,
-        hasApiKey: saved.hasApiKey,
-        env: maskEnvVars(saved.config.env),
-      },
+      config: toTargetResponse(saved),
     });
   } catch (error) {
     console.error("Failed to upload workspace archive", error);
@@ -465,25 +802,75 @@ router.post("/deploy/upload", async (req: Request, res: Response) => {
   }
 });
 
-router.get("/deploy/artifacts/:key", (req: Request, res: Response) => {
+router.get("/deploy/artifacts", async (_req: Request, res: Response) => {
   try {
-    const filePath = getArtifactPath(req.params.key ?? "");
-    if (!fs.existsSync(filePath)) {
+    res.json(await getArtifactStorage());
+  } catch (error) {
+    console.error("Failed to read deploy artifact storage", error);
+    res.status(400).json({
+      error: error instanceof Error ? error.message : "Unable to read artifact storage.",
+    });
+  }
+});
+
+router.post("/deploy/artifacts/sweep", async (_req: Request, res: Response) => {
+  try {
+    res.json(await sweepArtifacts());
+  } catch (error) {
+    console.error("Failed to sweep deploy artifacts", error);
+    res.status(400).json({
+      error: error instanceof Error ? error.message : "Artifact cleanup failed.",
+    });
+  }
+});
+
+router.delete("/deploy/artifacts/:key", async (req: Request, res: Response) => {
+  try {
+    const deleted = await deleteArtifact(req.params.key ?? "");
+    if (!deleted) {
       res.status(404).json({ error: "Artifact not found." });
       return;
     }
-
-    res.setHeader("Content-Type", "application/gzip");
-    res.setHeader(
-      "Content-Disposition",
-      `attachment; filename="${req.params.key ?? "workspace.tar.gz"}"`,
-    );
-    res.sendFile(filePath);
+    res.status(204).end();
   } catch (error) {
-    res.status(400).json({
-      error: error instanceof Error ? error.message : "Invalid artifact key.",
+    res.status(409).json({
+      error: error instanceof Error ? error.message : "Unable to delete the artifact.",
     });
   }
 });
 
+const serviceBackendSchema = z.object({
+  backend: z.enum(["dokploy", "docker"]),
+});
+
+// Backend new session services are created on; existing ones keep theirs
+router.get("/deploy/service-backend", async (_req: Request, res: Response) => {
+  res.json(await getServiceBackendSettings());
+});
+
+router.put("/deploy/service-backend", async (req: Request, res: Response) => {
+  const parsed = serviceBackendSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    res.status(400).json({ error: "Unknown service backend." });
+    return;
+  }
+
+  const unavailableReason = await getServiceBackend(parsed.data.backend).checkAvailable();
+  if (unavailableReason) {
+    res.status(400).json({ error: unavailableReason });
+    return;
+  }
+
+  const before = getDefaultServiceBackendKind();
+  setDefaultServiceBackendKind(parsed.data.backend);
+  recordAuditEvent(req, {
+    action: "service_backend.update",
+    targetType: "setting",
+    targetId: "session_service_backend",
+    before: { backend: before },
+    after: { backend: parsed.data.backend },
+  });
+  res.json(await getServiceBackendSettings());
+});
+
 export default router;
@@ -0,0 +1,30 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import asyncHandler from '../middleware/asyncHandler';
+import { requireAuth } from '../middleware/auth';
+import { MAX_SEARCH_RESULTS, searchUserContent } from '../services/searchService';
+
+const router = Router();
+
+router.use(requireAuth);
+
+const searchQuerySchema = z.object({
+  q: z.string().trim().max(200, 'Search query is too long').default(''),
+  limit: z.coerce.number().int().min(1).max(MAX_SEARCH_RESULTS).optional()
+});
+
+router.get(
+  '/search',
+  asyncHandler(async (req, res) => {
+    const query = searchQuerySchema.safeParse(req.query ?? {});
+    if (!query.success) {
+      res.status(400).json({ error: query.error.issues[0]?.message ?? 'Invalid search query' });
+      return;
+    }
+
+    const results = searchUserContent(req.user!.id, query.data.q, query.data.limit);
+    res.json({ results });
+  })
+);
+
+export default router;
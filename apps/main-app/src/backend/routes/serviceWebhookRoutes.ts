@@ -7,6 +7,7 @@ import {
   extractTokenFromHeader,
 } from "../services/sessionTokenService";
 import { messageToResponse } from "../types/api";
+import { recordServiceActivity } from "../services/serviceIdleService";
 import type { WebhookMessagePayload } from "@codex-webapp/shared";
 
 const router = Router();
@@ -95,6 +96,7 @@ router.post(
       payload.content,
       attachmentInputs,
     );
+    recordServiceActivity(sessionId);
 
     // Update message with items and responder info
     if (payload.items.length > 0 || payload.responderProvider) {
@@ -4,15 +4,46 @@ import { Router, type Request, type Response } from 'express';
 import { z } from 'zod';
 import database from '../db';
 import { codexManager } from '../codexManager';
+import {
+  applyAgentSelectionUpdates,
+  getCodexMetaForSelection,
+  getDefaultAgentSelection,
+  resolveAgentSelection,
+  type AgentSelection,
+  type CodexProvider
+} from '../settings';
+import { getAgentManager } from '../services/agentRegistry';
 import asyncHandler from '../middleware/asyncHandler';
 import { DEFAULT_SESSION_TITLE } from '../config/sessions';
 import { handleSessionMessageRequest } from '../services/sessionMessageService';
+import { forkSessionFromMessage } from '../services/sessionForkService';
+import {
+  acceptTurnChanges,
+  getTurnDiff,
+  revertTurnChanges,
+  type TurnChangeSelection,
+  type TurnReviewResult
+} from '../services/turnReviewService';
+import {
+  cancelTurnJob,
+  getActiveTurnJob,
+  getTurnJob,
+  pipeTurnToResponse,
+  replayStoredTurn,
+} from '../services/turnService';
 import { ensureWorkspaceDirectory, getWorkspaceDirectory } from '../workspaces';
 import { messageToResponse, toSessionResponse } from '../types/api';
+import type { MessageWithAttachments, SessionTurnRecord } from '../types/database';
 import { requireAuth } from '../middleware/auth';
-import { createService } from '../services/serviceManager';
+import { assertCanCreateService, createService } from '../services/serviceManager';
 import { exportAuthFilesAsEnvVars } from '../services/userAuthManager';
-import { decryptSecret } from '../utils/secretVault';
+import {
+  assertSecretStorageAvailable,
+  isValidSecretKey,
+  listSessionSecrets,
+  saveSessionSecrets
+} from '../services/sessionSecretService';
+import { isEncryptionAvailable } from '../utils/secretVault';
 
 const router = Router();
 router.use(requireAuth);
@@ -142,12 +173,38 @@ const createSessionSchema = z.object({
   title: titleSchema.optional(),
   githubRepo: z.string().trim().optional(),
   customEnvVars: z.record(z.string()).optional(),
+  // Stored encrypted and never returned, unlike customEnvVars
+  secretEnvVars: z.record(z.string()).optional(),
   dockerfilePath: z.string().trim().optional(),
   buildSettings: z.record(z.unknown()).optional(),
   gitRemoteUrl: z.string().trim().optional(),
   gitBranch: z.string().trim().optional(),
+  provider: z.enum(['CodexSDK', 'ClaudeCodeSDK', 'DroidCLI', 'CopilotCLI', 'GeminiSDK']).optional(),
+  model: z.string().trim().min(1).optional(),
+  reasoningEffort: z.enum(['low', 'medium', 'high']).optional(),
+  deployTargetId: z.string().trim().min(1).optional(),
 });
 
+const sessionMetaUpdateSchema = z
+  .object({
+    model: z
+      .string()
+      .trim()
+      .min(1)
+      .optional(),
+    reasoningEffort: z.enum(['low', 'medium', 'high']).optional(),
+    provider: z.enum(['CodexSDK', 'ClaudeCodeSDK', 'DroidCLI', 'CopilotCLI', 'GeminiSDK']).optional()
+  })
+  .refine(
+    (value) =>
+      value.model !== undefined ||
+      value.reasoningEffort !== undefined ||
+      value.provider !== undefined,
+    {
+      message: 'Provide a model, reasoningEffort, or provider to update.'
+    }
+  );
+
 const updateTitleSchema = z.object({
   title: titleSchema.optional()
 });
@@ -160,6 +217,24 @@ const updateAutoCommitSchema = z.object({
   enabled: z.boolean()
 });
 
+const updateDeployTargetSchema = z.object({
+  // null switches the session back to the default target
+  targetId: z.string().trim().min(1).nullable()
+});
+
+const updateSecretsSchema = z.object({
+  // The full set: stored keys that are left out are deleted. Entries without
+  // a value keep their stored value.
+  secrets: z
+    .array(
+      z.object({
+        key: z.string().trim().min(1),
+        value: z.string().optional()
+      })
+    )
+    .max(200)
+});
+
 const autoTitleSchema = z.object({
   messages: z
     .array(z.any())
@@ -167,6 +242,25 @@ const autoTitleSchema = z.object({
     .max(400, 'Conversation is too long to summarize automatically.'),
 });
 
+const queuedMessageUpdateSchema = z.object({
+  content: z.string().trim().min(1, 'Message cannot be empty').max(4000, 'Message is too long')
+});
+
+const turnStreamQuerySchema = z.object({
+  after: z.coerce.number().int().min(-1).optional()
+});
+
+const turnChangeSelectionSchema = z.object({
+  files: z
+    .array(
+      z.object({
+        path: z.string().min(1).max(500),
+        hunks: z.array(z.number().int().min(0)).min(1).optional()
+      })
+    )
+    .min(1)
+});
+
 const filePathQuerySchema = z.object({
   path: z
     .string()
@@ -199,6 +293,47 @@ const findSessionOr404 = (sessionId: string, req: Request, res: Response) => {
   return session;
 };
 
+const findQueuedMessage = (
+  sessionId: string,
+  messageId: string,
+  res: Response
+): MessageWithAttachments | null => {
+  const message = database.getMessage(messageId);
+  if (!message || message.sessionId !== sessionId) {
+    res.status(404).json({ error: 'Message not found' });
+    return null;
+  }
+  if (message.status !== 'queued') {
+    res.status(409).json({ error: 'Only queued messages can be changed' });
+    return null;
+  }
+  return message;
+};
+
+const findTurnOr404 = (
+  sessionId: string,
+  turnId: string,
+  res: Response
+): SessionTurnRecord | null => {
+  const turn = database.getSessionTurn(turnId);
+  if (!turn || turn.sessionId !== sessionId) {
+    res.status(404).json({ error: 'Turn not found' });
+    return null;
+  }
+  return turn;
+};
+
+const forgetAgentSession = (provider: CodexProvider, sessionId: string) => {
+  try {
+    getAgentManager(provider).forgetSession(sessionId);
+  } catch (error) {
+    console.warn(
+      `[codex-webapp] Unable to reset ${provider} state for session ${sessionId}:`,
+      error instanceof Error ? error.message : error
+    );
+  }
+};
+
 router.get(
   '/sessions',
   asyncHandler(async (req, res) => {
@@ -221,6 +356,42 @@ router.post(
     const body = createSessionSchema.parse(req.body);
     const title = body.title ?? DEFAULT_SESSION_TITLE;
 
+    // Snapshot the agent selection so later changes to the global defaults
+    // don't affect this session.
+    let agentSelection: AgentSelection;
+    try {
+      agentSelection = applyAgentSelectionUpdates(getDefaultAgentSelection(), {
+        provider: body.provider,
+        model: body.model,
+        reasoningEffort: body.reasoningEffort
+      }).selection;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Invalid agent selection';
+      return res.status(400).json({ error: message });
+    }
+
+    if (body.deployTargetId && !database.getDeployTarget(body.deployTargetId)) {
+      return res.status(400).json({ error: 'Deployment target not found' });
+    }
+
+    const invalidSecretKey = Object.keys(body.secretEnvVars ?? {}).find(
+      (key) => !isValidSecretKey(key)
+    );
+    if (invalidSecretKey) {
+      return res
+        .status(400)
+        .json({ error: `"${invalidSecretKey}" is not a valid environment variable name.` });
+    }
+
+    if (Object.keys(body.secretEnvVars ?? {}).length > 0) {
+      try {
+        assertSecretStorageAvailable();
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unable to store secrets';
+        return res.status(400).json({ error: message });
+      }
+    }
+
     const session = database.createSession(title, req.user!.id);
 
     // Prepare session settings
@@ -289,44 +460,40 @@ router.post(
       });
     }
 
+    database.updateSessionAgentSettings(session.id, agentSelection);
+    if (body.secretEnvVars) {
+      saveSessionSecrets(
+        session.id,
+        req.user!.id,
+        Object.entries(body.secretEnvVars).map(([key, value]) => ({ key, value }))
+      );
+    }
+    if (body.deployTargetId) {
+      database.setSessionDeployTarget(session.id, body.deployTargetId);
+    }
+
     // Auto-create service if repo or dockerfile is provided
     const shouldCreateService = !!(gitRemoteUrl || body.dockerfilePath);
 
     // Automatically create service if configured
     if (shouldCreateService) {
       try {
-        // Get global deploy config
-        const deployConfigRow = database.getDeployConfig();
-        if (deployConfigRow) {
-          const apiKey = deployConfigRow.config.apiKey
-            ? decryptSecret(
-                deployConfigRow.config.apiKey.cipher,
-                deployConfigRow.config.apiKey.iv,
-                deployConfigRow.config.apiKey.tag,
-              )
-            : null;
-
-          if (apiKey) {
-            // Get session settings
-            const settings = database.getSessionSettings(session.id);
-
-            if (settings) {
-              // Export auth files as env vars
-              const authEnvVars = exportAuthFilesAsEnvVars(req.user!.id);
-
-              // Create service asynchronously (don't wait for completion)
-              createService({
-                sessionId: session.id,
-                settings,
-                userId: req.user!.id,
-                globalConfig: deployConfigRow.config,
-                apiKey,
-                authEnvVars,
-              }).catch((error) => {
-                console.error(`Failed to auto-create service for session ${session.id}:`, error);
-              });
-            }
-          }
+        assertCanCreateService(session.id);
+        const settings = database.getSessionSettings(session.id);
+
+        if (settings) {
+          // Export auth files as env vars
+          const authEnvVars = exportAuthFilesAsEnvVars(req.user!.id);
+
+          // Create service asynchronously (don't wait for completion)
+          createService({
+            sessionId: session.id,
+            settings,
+            userId: req.user!.id,
+            authEnvVars,
+          }).catch((error) => {
+            console.error(`Failed to auto-create service for session ${session.id}:`, error);
+          });
         }
       } catch (error) {
         // Log error but don't fail session creation
@@ -368,6 +535,113 @@ router.get(
   })
 );
 
+router.get(
+  '/sessions/:id/secrets',
+  asyncHandler(async (req, res) => {
+    const session = findSessionOr404(req.params.id, req, res);
+    if (!session) {
+      return;
+    }
+
+    res.json({
+      secrets: listSessionSecrets(session.id),
+      encryptionAvailable: isEncryptionAvailable()
+    });
+  })
+);
+
+router.put(
+  '/sessions/:id/secrets',
+  asyncHandler(async (req, res) => {
+    const session = findSessionOr404(req.params.id, req, res);
+    if (!session) {
+      return;
+    }
+
+    const body = updateSecretsSchema.parse(req.body ?? {});
+    try {
+      const secrets = saveSessionSecrets(session.id, req.user!.id, body.secrets, {
+        replace: true
+      });
+      res.json({ secrets });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unable to save secrets';
+      res.status(400).json({ error: message });
+    }
+  })
+);
+
+router.get(
+  '/sessions/:id/secrets/audit',
+  asyncHandler(async (req, res) => {
+    const session = findSessionOr404(req.params.id, req, res);
+    if (!session) {
+      return;
+    }
+
+    res.json({ entries: database.listSessionSecretAudit(session.id) });
+  })
+);
+
+router.get(
+  '/sessions/:id/meta',
+  asyncHandler(async (req, res) => {
+    const session = findSessionOr404(req.params.id, req, res);
+    if (!session) {
+      return;
+    }
+
+    const selection = resolveAgentSelection(database.getSessionSettings(session.id));
+    res.json(getCodexMetaForSelection(selection));
+  })
+);
+
+router.patch(
+  '/sessions/:id/meta',
+  asyncHandler(async (req, res) => {
+    const session = findSessionOr404(req.params.id, req, res);
+    if (!session) {
+      return;
+    }
+
+    const body = sessionMetaUpdateSchema.safeParse(req.body ?? {});
+    if (!body.success) {
+      const { formErrors, fieldErrors } = body.error.flatten();
+      const messages = [...formErrors, ...Object.values(fieldErrors).flat()].filter(
+        (message) => message && message.length > 0
+      );
+      res.status(400).json({ error: messages.join('; ') || 'Invalid meta payload.' });
+      return;
+    }
+
+    const previous = resolveAgentSelection(database.getSessionSettings(session.id));
+
+    let result: ReturnType<typeof applyAgentSelectionUpdates>;
+    try {
+      result = applyAgentSelectionUpdates(previous, body.data);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unable to update session settings';
+      res.status(400).json({ error: message });
+      return;
+    }
+
+    const { selection, modelChanged, providerChanged } = result;
+    database.updateSessionAgentSettings(session.id, selection);
+
+    if (providerChanged) {
+      // Threads are provider specific; the next turn starts a fresh one.
+      forgetAgentSession(previous.provider, session.id);
+      if (session.codexThreadId) {
+        database.updateSessionThreadId(session.id, null);
+      }
+    } else if (modelChanged) {
+      forgetAgentSession(selection.provider, session.id);
+    }
+
+    res.json(getCodexMetaForSelection(selection));
+  })
+);
+
 router.patch(
   '/sessions/:id',
   asyncHandler(async (req, res) => {
@@ -451,6 +725,25 @@ router.post(
   })
 );
 
+router.put(
+  '/sessions/:id/deploy-target',
+  asyncHandler(async (req, res) => {
+    const session = findSessionOr404(req.params.id, req, res);
+    if (!session) {
+      return;
+    }
+
+    const body = updateDeployTargetSchema.parse(req.body ?? {});
+    if (body.targetId && !database.getDeployTarget(body.targetId)) {
+      res.status(404).json({ error: 'Deployment target not found' });
+      return;
+    }
+
+    const updated = database.setSessionDeployTarget(session.id, body.targetId);
+    res.json({ settings: updated });
+  })
+);
+
 router.delete(
   '/sessions/:id',
   asyncHandler(async (req, res) => {
@@ -501,6 +794,206 @@ router.post(
   })
 );
 
+router.patch(
+  '/sessions/:id/messages/:messageId',
+  asyncHandler(async (req, res) => {
+    const session = findSessionOr404(req.params.id, req, res);
+    if (!session) {
+      return;
+    }
+
+    const body = queuedMessageUpdateSchema.parse(req.body ?? {});
+    const message = findQueuedMessage(session.id, req.params.messageId, res);
+    if (!message) {
+      return;
+    }
+
+    const updated = database.updateMessage(message.id, { content: body.content });
+    if (!updated) {
+      res.status(500).json({ error: 'Unable to update message' });
+      return;
+    }
+
+    res.json({ message: messageToResponse(updated) });
+  })
+);
+
+router.delete(
+  '/sessions/:id/messages/:messageId',
+  asyncHandler(async (req, res) => {
+    const session = findSessionOr404(req.params.id, req, res);
+    if (!session) {
+      return;
+    }
+
+    const message = findQueuedMessage(session.id, req.params.messageId, res);
+    if (!message) {
+      return;
+    }
+
+    database.deleteMessage(message.id);
+    res.status(204).end();
+  })
+);
+
+router.post(
+  '/sessions/:id/messages/:messageId/fork',
+  asyncHandler(async (req, res) => {
+    const session = findSessionOr404(req.params.id, req, res);
+    if (!session) {
+      return;
+    }
+
+    const result = await forkSessionFromMessage(
+      session,
+      req.params.messageId,
+      req.user!.id
+    );
+    if (!result.success) {
+      res.status(result.status).json({ error: result.error });
+      return;
+    }
+
+    res.status(201).json({
+      session: toSessionResponse(result.session),
+      draft: result.draft
+    });
+  })
+);
+
+router.get(
+  '/sessions/:id/turns/current',
+  asyncHandler(async (req, res) => {
+    const session = findSessionOr404(req.params.id, req, res);
+    if (!session) {
+      return;
+    }
+
+    const turn = database.getRunningSessionTurn(session.id);
+    res.json({ turn });
+  })
+);
+
+router.post(
+  '/sessions/:id/turns/current/cancel',
+  asyncHandler(async (req, res) => {
+    const session = findSessionOr404(req.params.id, req, res);
+    if (!session) {
+      return;
+    }
+
+    const job = getActiveTurnJob(session.id);
+    if (!job || !cancelTurnJob(job)) {
+      res.status(404).json({ error: 'No turn is running for this session' });
+      return;
+    }
+
+    res.status(202).json({ turnId: job.id });
+  })
+);
+
+router.get(
+  '/sessions/:id/turns/:turnId/stream',
+  asyncHandler(async (req, res) => {
+    const session = findSessionOr404(req.params.id, req, res);
+    if (!session) {
+      return;
+    }
+
+    const query = turnStreamQuerySchema.safeParse(req.query ?? {});
+    if (!query.success) {
+      res.status(400).json({ error: 'Invalid stream cursor' });
+      return;
+    }
+
+    const job = getTurnJob(req.params.turnId);
+    if (job && job.sessionId === session.id) {
+      pipeTurnToResponse(res, job, query.data.after ?? -1);
+      return;
+    }
+
+    const turn = database.getSessionTurn(req.params.turnId);
+    if (!turn || turn.sessionId !== session.id) {
+      res.status(404).json({ error: 'Turn not found' });
+      return;
+    }
+
+    replayStoredTurn(res, turn);
+  })
+);
+
+router.get(
+  '/sessions/:id/turns',
+  asyncHandler(async (req, res) => {
+    const session = findSessionOr404(req.params.id, req, res);
+    if (!session) {
+      return;
+    }
+
+    res.json({ turns: database.listSessionTurns(session.id) });
+  })
+);
+
+router.get(
+  '/sessions/:id/turns/:turnId/diff',
+  asyncHandler(async (req, res) => {
+    const session = findSessionOr404(req.params.id, req, res);
+    if (!session) {
+      return;
+    }
+
+    const turn = findTurnOr404(session.id, req.params.turnId, res);
+    if (!turn) {
+      return;
+    }
+
+    res.json({ diff: await getTurnDiff(session.id, turn.id) });
+  })
+);
+
+const turnReviewHandler = (
+  review: (
+    sessionId: string,
+    turnId: string,
+    selection: TurnChangeSelection
+  ) => Promise<TurnReviewResult>
+) =>
+  asyncHandler(async (req, res) => {
+    const session = findSessionOr404(req.params.id, req, res);
+    if (!session) {
+      return;
+    }
+
+    const turn = findTurnOr404(session.id, req.params.turnId, res);
+    if (!turn) {
+      return;
+    }
+
+    const parsed = turnChangeSelectionSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Select at least one file to review' });
+      return;
+    }
+
+    const result = await review(session.id, turn.id, parsed.data.files);
+    if (!result.success) {
+      res.status(result.status).json({ error: result.error });
+      return;
+    }
+
+    res.json({ diff: result.diff });
+  });
+
+router.post(
+  '/sessions/:id/turns/:turnId/accept',
+  turnReviewHandler(acceptTurnChanges)
+);
+
+router.post(
+  '/sessions/:id/turns/:turnId/revert',
+  turnReviewHandler(revertTurnChanges)
+);
+
 router.get(
   '/sessions/:id/files',
   asyncHandler(async (req, res) => {
@@ -1,8 +1,10 @@
 import { Router } from "express";
+import { z } from "zod";
 import database from "../db";
 import asyncHandler from "../middleware/asyncHandler";
 import { requireAuth } from "../middleware/auth";
 import {
+  assertCanCreateService,
   createService,
   getServiceStatus,
   stopService,
@@ -12,52 +14,44 @@ import {
   getDeploymentLogs,
 } from "../services/serviceManager";
 import { exportAuthFilesAsEnvVars } from "../services/userAuthManager";
-import { decryptSecret } from "../utils/secretVault";
+import { subscribeToDeployments, toDeploymentResponse } from "../services/deploymentService";
+import {
+  createLogFilter,
+  readServiceLogSnapshot,
+  streamServiceLogs,
+} from "../services/serviceLogStream";
+import { recordServiceActivity, wakeIdleService } from "../services/serviceIdleService";
+import { openEventStream } from "../utils/serverSentEvents";
 
 const router = Router();
 router.use(requireAuth);
 
-/**
- * Helper to get global deploy config and API key
- */
-const getDeployConfigAndKey = (): {
-  config: any;
-  apiKey: string;
-} => {
-  const deployConfigRow = database.getDeployConfig();
-  console.log('[DEPLOY-CONFIG] Row:', deployConfigRow);
-
-  if (!deployConfigRow) {
-    throw new Error("Deploy configuration not found. Please configure Dokploy in admin settings.");
-  }
-
-  console.log('[DEPLOY-CONFIG] Has cipher?', Boolean(deployConfigRow.apiKeyCipher));
-  console.log('[DEPLOY-CONFIG] Has IV?', Boolean(deployConfigRow.apiKeyIv));
-  console.log('[DEPLOY-CONFIG] Has tag?', Boolean(deployConfigRow.apiKeyTag));
-
-  let apiKey: string | null = null;
-
-  if (deployConfigRow.apiKeyCipher) {
-    // If we have IV and tag, use AES decryption
-    if (deployConfigRow.apiKeyIv && deployConfigRow.apiKeyTag) {
-      apiKey = decryptSecret(
-        deployConfigRow.apiKeyCipher,
-        deployConfigRow.apiKeyIv,
-        deployConfigRow.apiKeyTag,
-      );
-    } else {
-      // Fallback: base64 decode
-      apiKey = Buffer.from(deployConfigRow.apiKeyCipher, "base64").toString("utf8");
-    }
+const booleanFlag = z
+  .enum(["true", "false", "1", "0"])
+  .transform((value) => value === "true" || value === "1");
+
+const logQuerySchema = z.object({
+  source: z.enum(["service", "deployment"]).default("service"),
+  follow: booleanFlag.optional(),
+  tail: z.coerce.number().int().min(0).optional(),
+  // Comma separated, e.g. `levels=error,warn`
+  levels: z
+    .string()
+    .optional()
+    .transform((value) => (value ? value.split(",").filter(Boolean) : undefined))
+    .pipe(z.array(z.enum(["error", "warn", "info", "debug"])).optional()),
+  pattern: z.string().optional(),
+  ignoreCase: booleanFlag.optional(),
+});
+
+const parseLogQuery = (query: unknown) => {
+  const parsed = logQuerySchema.safeParse(query ?? {});
+  if (!parsed.success) {
+    throw new Error(parsed.error.issues[0]?.message ?? "Invalid log query.");
   }
-
-  console.log('[DEPLOY-CONFIG] Decrypted API key?', Boolean(apiKey));
-
-  if (!apiKey) {
-    throw new Error("Dokploy API key not configured.");
-  }
-
-  return { config: deployConfigRow.config, apiKey };
+  // Fails early on an overlong pattern
+  createLogFilter(parsed.data);
+  return parsed.data;
 };
 
 /**
@@ -74,6 +68,18 @@ const verifySessionOwnership = (sessionId: string, userId: string) => {
   return session;
 };
 
+// GET /api/deploy-targets
+// Lists the deployment targets a session can use, without their settings.
+router.get("/deploy-targets", (_req, res) => {
+  const targets = database.listDeployTargets().map((target) => ({
+    id: target.id,
+    name: target.name,
+    isDefault: target.isDefault,
+  }));
+
+  res.json({ targets });
+});
+
 // POST /api/sessions/:id/service/create
 router.post(
   "/sessions/:id/service/create",
@@ -93,8 +99,8 @@ router.post(
       return;
     }
 
-    // Get global deploy config
-    const { config, apiKey } = getDeployConfigAndKey();
+    // Fails early when the service backend is not set up
+    assertCanCreateService(sessionId);
 
     // Export auth files as env vars
     const authEnvVars = exportAuthFilesAsEnvVars(userId);
@@ -104,8 +110,6 @@ router.post(
       sessionId,
       settings,
       userId,
-      globalConfig: config,
-      apiKey,
       authEnvVars,
     }).catch((error) => {
       console.error(`Failed to create service for session ${sessionId}:`, error);
@@ -134,6 +138,25 @@ router.get(
   }),
 );
 
+// POST /api/sessions/:id/service/activity
+// Sent while the session is open. A service stopped for being idle is
+// started again.
+router.post(
+  "/sessions/:id/service/activity",
+  asyncHandler(async (req, res) => {
+    const sessionId = req.params.id;
+    const userId = req.user!.id;
+
+    verifySessionOwnership(sessionId, userId);
+
+    recordServiceActivity(sessionId);
+    const woken = await wakeIdleService(sessionId);
+    const status = await getServiceStatus(sessionId);
+
+    res.json({ woken, status: status ?? { status: "not_found" } });
+  }),
+);
+
 // GET /api/sessions/:id/service/logs
 router.get(
   "/sessions/:id/service/logs",
@@ -143,14 +166,85 @@ router.get(
 
     verifySessionOwnership(sessionId, userId);
 
-    const { config, apiKey } = getDeployConfigAndKey();
-
-    const logs = await getServiceLogs(sessionId, config, apiKey);
+    const logs = await getServiceLogs(sessionId);
 
     res.json({ logs });
   }),
 );
 
+// GET /api/sessions/:id/service/logs/stream
+// Server-sent events: `lines` with matching log lines, `log-error` when
+// the backend cannot be reached, and `end` once the stream is over. Without
+// `follow` it ends after the existing lines.
+router.get(
+  "/sessions/:id/service/logs/stream",
+  asyncHandler(async (req, res) => {
+    const sessionId = req.params.id;
+    const userId = req.user!.id;
+
+    verifySessionOwnership(sessionId, userId);
+
+    let query;
+    try {
+      query = parseLogQuery(req.query);
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : "Invalid log query." });
+      return;
+    }
+
+    const stream = openEventStream(req, res);
+    const stop = streamServiceLogs({
+      sessionId,
+      query,
+      onLines: (lines) => stream.send("lines", lines),
+      onError: (message) => stream.send("log-error", { error: message }),
+      onEnd: (reason) => {
+        stream.send("end", { reason });
+        res.end();
+      },
+    });
+    stream.onClose(stop);
+  }),
+);
+
+// GET /api/sessions/:id/service/logs/download
+// The current logs as a text file, with the same filters as the stream.
+router.get(
+  "/sessions/:id/service/logs/download",
+  asyncHandler(async (req, res) => {
+    const sessionId = req.params.id;
+    const userId = req.user!.id;
+
+    verifySessionOwnership(sessionId, userId);
+
+    let query;
+    try {
+      query = parseLogQuery(req.query);
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : "Invalid log query." });
+      return;
+    }
+
+    const snapshot = await readServiceLogSnapshot({
+      sessionId,
+      source: query.source,
+    });
+    const filter = createLogFilter(query);
+    const text = snapshot.lines
+      .filter(filter)
+      .map((line) => line.text)
+      .join("\n");
+
+    const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+    res.setHeader("Content-Type", "text/plain; charset=utf-8");
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="${sessionId}-${query.source}-logs-${timestamp}.txt"`,
+    );
+    res.send(text.length > 0 ? `${text}\n` : "");
+  }),
+);
+
 // GET /api/sessions/:id/service/deployment-logs
 router.get(
   "/sessions/:id/service/deployment-logs",
@@ -160,14 +254,52 @@ router.get(
 
     verifySessionOwnership(sessionId, userId);
 
-    const { config, apiKey } = getDeployConfigAndKey();
-
-    const result = await getDeploymentLogs(sessionId, config, apiKey);
+    const result = await getDeploymentLogs(sessionId);
 
     res.json(result);
   }),
 );
 
+// GET /api/sessions/:id/service/deployments
+router.get(
+  "/sessions/:id/service/deployments",
+  asyncHandler(async (req, res) => {
+    const sessionId = req.params.id;
+    const userId = req.user!.id;
+
+    verifySessionOwnership(sessionId, userId);
+
+    res.json({
+      deployments: database.listSessionDeployments(sessionId).map(toDeploymentResponse),
+    });
+  }),
+);
+
+// GET /api/sessions/:id/service/deployments/events
+// Server-sent events: a `deployments` snapshot, then a `deployment` event
+// whenever a deployment of the session changes status.
+router.get(
+  "/sessions/:id/service/deployments/events",
+  asyncHandler(async (req, res) => {
+    const sessionId = req.params.id;
+    const userId = req.user!.id;
+
+    verifySessionOwnership(sessionId, userId);
+
+    const stream = openEventStream(req, res);
+    stream.send(
+      "deployments",
+      database.listSessionDeployments(sessionId).map(toDeploymentResponse),
+    );
+    const unsubscribe = subscribeToDeployments((deployment) => {
+      if (deployment.sessionId === sessionId) {
+        stream.send("deployment", toDeploymentResponse(deployment));
+      }
+    });
+    stream.onClose(unsubscribe);
+  }),
+);
+
 // POST /api/sessions/:id/service/start
 router.post(
   "/sessions/:id/service/start",
@@ -177,9 +309,7 @@ router.post(
 
     verifySessionOwnership(sessionId, userId);
 
-    const { config, apiKey } = getDeployConfigAndKey();
-
-    await startService(sessionId, config, apiKey);
+    await startService(sessionId);
 
     res.json({ message: "Service started" });
   }),
@@ -194,9 +324,7 @@ router.post(
 
     verifySessionOwnership(sessionId, userId);
 
-    const { config, apiKey } = getDeployConfigAndKey();
-
-    await stopService(sessionId, config, apiKey);
+    await stopService(sessionId);
 
     res.json({ message: "Service stopped" });
   }),
@@ -211,9 +339,7 @@ router.delete(
 
     verifySessionOwnership(sessionId, userId);
 
-    const { config, apiKey } = getDeployConfigAndKey();
-
-    await deleteService(sessionId, config, apiKey);
+    await deleteService(sessionId);
 
     res.status(204).end();
   }),
@@ -0,0 +1,78 @@
+import { Router } from "express";
+import { z } from "zod";
+import database from "../db";
+import asyncHandler from "../middleware/asyncHandler";
+import { requireAdmin } from "../middleware/auth";
+import { buildUsageReport } from "../services/usageService";
+
+const router = Router();
+
+router.use(requireAdmin);
+
+const dayPattern = /^\d{4}-\d{2}-\d{2}$/;
+
+const usageQuerySchema = z
+  .object({
+    groupBy: z.enum(["user", "session", "provider", "day"]).default("user"),
+    from: z.string().regex(dayPattern).optional(),
+    to: z.string().regex(dayPattern).optional(),
+    userId: z.string().trim().min(1).optional(),
+  })
+  .refine((query) => !query.from || !query.to || query.from <= query.to, {
+    message: "from must not be after to",
+  });
+
+const pricingSchema = z.object({
+  inputPerMillion: z.number().min(0),
+  cachedInputPerMillion: z.number().min(0).nullable().default(null),
+  outputPerMillion: z.number().min(0),
+});
+
+router.get(
+  "/usage",
+  asyncHandler(async (req, res) => {
+    const parsed = usageQuerySchema.safeParse(req.query ?? {});
+    if (!parsed.success) {
+      res.status(400).json({ error: "InvalidRequest" });
+      return;
+    }
+
+    res.json(buildUsageReport(parsed.data));
+  }),
+);
+
+router.get(
+  "/usage/pricing",
+  asyncHandler(async (_req, res) => {
+    res.json({ pricing: database.listModelPricing() });
+  }),
+);
+
+router.put(
+  "/usage/pricing/:model",
+  asyncHandler(async (req, res) => {
+    const model = req.params.model.trim();
+    const parsed = pricingSchema.safeParse(req.body ?? {});
+    if (!model || !parsed.success) {
+      res.status(400).json({ error: "InvalidRequest" });
+      return;
+    }
+
+    const pricing = database.upsertModelPricing({ model, ...parsed.data });
+    res.json({ pricing });
+  }),
+);
+
+router.delete(
+  "/usage/pricing/:model",
+  asyncHandler(async (req, res) => {
+    if (!database.deleteModelPricing(req.params.model)) {
+      res.status(404).json({ error: "PricingNotFound" });
+      return;
+    }
+
+    res.status(204).end();
+  }),
+);
+
+export default router;
@@ -2,11 +2,20 @@ import { Router } from "express";
 import { z } from "zod";
 import database from "../db";
 import asyncHandler from "../middleware/asyncHandler";
-import { requireAdmin } from "../middleware/auth";
+import { requireAdmin, requireLoginSession, requireNotImpersonating } from "../middleware/auth";
 import { decryptSecret, encryptSecret } from "../utils/secretVault";
+import { recordAuditEvent } from "../services/auditService";
+
+const auditTarget = (user: { id: string; username: string }, provider: string, fileName: string) => ({
+  targetType: "auth_file",
+  targetId: user.id,
+  targetLabel: `${user.username}: ${provider}/${fileName}`,
+});
 
 const router = Router();
 
+router.use("/users", requireLoginSession);
+
 const providerSchema = z.enum(["codex", "claude", "droid", "copilot"]);
 const fileNameSchema = z
   .string()
@@ -44,6 +53,7 @@ router.get(
 
 router.put(
   "/users/:id/auth-files/:provider/:fileName",
+  requireNotImpersonating,
   asyncHandler(async (req, res) => {
     const user = database.getUserById(req.params.id);
     if (!user) {
@@ -90,6 +100,11 @@ router.put(
       encryptedContent = Buffer.from(rawContent, "utf8").toString("base64");
     }
 
+    const existing = database.getUserAuthFile({
+      userId: user.id,
+      provider: providerParse.data,
+      fileName: fileNameParse.data,
+    });
     const record = database.upsertUserAuthFile({
       userId: user.id,
       provider: providerParse.data,
@@ -98,6 +113,10 @@ router.put(
       encryptedIv,
       encryptedTag,
     });
+    recordAuditEvent(req, {
+      action: existing ? "auth_file.update" : "auth_file.create",
+      ...auditTarget(user, record.provider, record.fileName),
+    });
 
     res.json({
       file: {
@@ -113,6 +132,7 @@ router.put(
 
 router.get(
   "/users/:id/auth-files/:provider/:fileName",
+  requireNotImpersonating,
   asyncHandler(async (req, res) => {
     const user = database.getUserById(req.params.id);
     if (!user) {
@@ -149,6 +169,12 @@ router.get(
       return;
     }
 
+    // Reading the decrypted credentials is as sensitive as changing them
+    recordAuditEvent(req, {
+      action: "auth_file.view",
+      ...auditTarget(user, record.provider, record.fileName),
+    });
+
     res.json({
       file: {
         provider: record.provider,
@@ -162,6 +188,7 @@ router.get(
 
 router.delete(
   "/users/:id/auth-files/:provider/:fileName",
+  requireNotImpersonating,
   asyncHandler(async (req, res) => {
     const user = database.getUserById(req.params.id);
     if (!user) {
@@ -187,6 +214,11 @@ router.delete(
       return;
     }
 
+    recordAuditEvent(req, {
+      action: "auth_file.delete",
+      ...auditTarget(user, providerParse.data, fileNameParse.data),
+    });
+
     res.status(204).end();
   }),
 );
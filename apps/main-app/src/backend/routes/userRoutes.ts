@@ -2,14 +2,22 @@ import { Router } from "express";
 import { z } from "zod";
 import database from "../db";
 import asyncHandler from "../middleware/asyncHandler";
-import { requireAdmin, setSessionCookie } from "../middleware/auth";
+import {
+  requireAdmin,
+  requireLoginSession,
+  requireNotImpersonating,
+  setSessionCookie,
+} from "../middleware/auth";
 import {
   findUserByUsername,
   hashPassword,
   listUsers as listAllUsers,
   validatePasswordStrength,
-  issueLoginSession,
+  issueImpersonationSession,
 } from "../services/authService";
+import { getUserQuotaStatus, updateUserQuota } from "../services/quotaService";
+import { recordAuditEvent } from "../services/auditService";
+import { disableTwoFactor } from "../services/twoFactorService";
 
 const router = Router();
 
@@ -24,16 +32,26 @@ const updateUserSchema = z.object({
   isAdmin: z.boolean().optional(),
 });
 
+const quotaLimitSchema = z.number().int().min(1).nullable();
+
+const updateQuotaSchema = z.object({
+  turnsPerHour: quotaLimitSchema,
+  tokensPerDay: quotaLimitSchema,
+  concurrentTurns: quotaLimitSchema,
+});
+
 const toPublicUser = (user: {
   id: string;
   username: string;
   isAdmin: boolean;
+  totpEnabledAt: string | null;
   createdAt: string;
   updatedAt: string;
 }) => ({
   id: user.id,
   username: user.username,
   isAdmin: user.isAdmin,
+  twoFactorEnabled: Boolean(user.totpEnabledAt),
   createdAt: user.createdAt,
   updatedAt: user.updatedAt,
 });
@@ -42,6 +60,7 @@ function ensureAnotherAdminExists(excludeUserId?: string): boolean {
   return listAllUsers().some((user) => user.isAdmin && user.id !== excludeUserId);
 }
 
+router.use("/users", requireLoginSession);
 router.use(requireAdmin);
 
 router.get(
@@ -79,6 +98,13 @@ router.post(
 
     const passwordHash = await hashPassword(password);
     const user = database.createUser({ username, passwordHash, isAdmin });
+    recordAuditEvent(req, {
+      action: "user.create",
+      targetType: "user",
+      targetId: user.id,
+      targetLabel: user.username,
+      after: { isAdmin: user.isAdmin },
+    });
 
     res.status(201).json({ user: toPublicUser(user) });
   }),
@@ -112,6 +138,11 @@ router.put(
       return;
     }
 
+    if (parsed.data.password && req.impersonator) {
+      res.status(403).json({ error: "NotAllowedWhileImpersonating" });
+      return;
+    }
+
     const updates: { passwordHash?: string; isAdmin?: boolean } = {};
 
     if (parsed.data.password) {
@@ -140,6 +171,15 @@ router.put(
       return;
     }
 
+    recordAuditEvent(req, {
+      action: "user.update",
+      targetType: "user",
+      targetId: updated.id,
+      targetLabel: updated.username,
+      before: { isAdmin: user.isAdmin, passwordChanged: false },
+      after: { isAdmin: updated.isAdmin, passwordChanged: Boolean(updates.passwordHash) },
+    });
+
     res.json({ user: toPublicUser(updated) });
   }),
 );
@@ -164,12 +204,94 @@ router.delete(
       return;
     }
 
+    recordAuditEvent(req, {
+      action: "user.delete",
+      targetType: "user",
+      targetId: user.id,
+      targetLabel: user.username,
+      before: { isAdmin: user.isAdmin },
+    });
+
+    res.status(204).end();
+  }),
+);
+
+router.get(
+  "/users/:id/quota",
+  asyncHandler(async (req, res) => {
+    const user = database.getUserById(req.params.id);
+    if (!user) {
+      res.status(404).json({ error: "UserNotFound" });
+      return;
+    }
+
+    res.json(getUserQuotaStatus(user.id));
+  }),
+);
+
+router.put(
+  "/users/:id/quota",
+  asyncHandler(async (req, res) => {
+    const parsed = updateQuotaSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      res.status(400).json({ error: "InvalidRequest" });
+      return;
+    }
+
+    const user = database.getUserById(req.params.id);
+    if (!user) {
+      res.status(404).json({ error: "UserNotFound" });
+      return;
+    }
+
+    const before = getUserQuotaStatus(user.id).limits;
+    const updated = updateUserQuota(user.id, parsed.data);
+    recordAuditEvent(req, {
+      action: "user.quota.update",
+      targetType: "user",
+      targetId: user.id,
+      targetLabel: user.username,
+      before,
+      after: updated.limits,
+    });
+
+    res.json(updated);
+  }),
+);
+
+// For users who lost their authenticator app and recovery codes
+router.delete(
+  "/users/:id/two-factor",
+  requireNotImpersonating,
+  asyncHandler(async (req, res) => {
+    const user = database.getUserById(req.params.id);
+    if (!user) {
+      res.status(404).json({ error: "UserNotFound" });
+      return;
+    }
+
+    if (!user.totpEnabledAt) {
+      res.status(400).json({ error: "TwoFactorNotEnabled" });
+      return;
+    }
+
+    disableTwoFactor(user.id);
+    recordAuditEvent(req, {
+      action: "user.two_factor.reset",
+      targetType: "user",
+      targetId: user.id,
+      targetLabel: user.username,
+      before: { twoFactorEnabled: true },
+      after: { twoFactorEnabled: false },
+    });
+
     res.status(204).end();
   }),
 );
 
 router.post(
   "/users/:id/impersonate",
+  requireNotImpersonating,
   asyncHandler(async (req, res) => {
     const user = database.getUserById(req.params.id);
     if (!user) {
@@ -177,8 +299,21 @@ router.post(
       return;
     }
 
-    const session = issueLoginSession(user.id);
-    setSessionCookie(res, session.id);
+    if (user.id === req.user!.id) {
+      res.status(400).json({ error: "CannotImpersonateSelf" });
+      return;
+    }
+
+    recordAuditEvent(req, {
+      action: "impersonation.start",
+      targetType: "user",
+      targetId: user.id,
+      targetLabel: user.username,
+    });
+
+    // The admin's own session stays, so ending the impersonation returns to it
+    const session = issueImpersonationSession(req.loginSession!, user.id);
+    setSessionCookie(res, session.id, Date.parse(session.expiresAt) - Date.now());
 
     res.json({ user: toPublicUser(user) });
   }),
@@ -12,6 +12,7 @@ import {
 } from "../workspaces";
 import { toSessionResponse } from "../types/api";
 import { requireAuth } from "../middleware/auth";
+import { recordAuditEvent } from "../services/auditService";
 
 const router = Router();
 
@@ -181,6 +182,14 @@ router.post(
     }
 
     codexManager.forgetSession(session.id);
+    recordAuditEvent(req, {
+      action: "workspace.path.update",
+      targetType: "session",
+      targetId: session.id,
+      targetLabel: session.title,
+      before: { path: session.workspacePath },
+      after: { path: updated.workspacePath },
+    });
 
     res.json({
       workspace: describeWorkspace(updated.id, updated.workspacePath),
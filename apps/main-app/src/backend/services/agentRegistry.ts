@@ -0,0 +1,26 @@
+import { codexManager } from "../codexManager";
+import { claudeManager } from "../claudeManager";
+import { droidCliManager } from "../droidCliManager";
+import { getCopilotCliManager } from "../copilotCliManager";
+import type IAgent from "../interfaces/IAgent";
+import type { CodexProvider } from "../settings";
+
+/**
+ * Returns the agent implementation backing the given provider.
+ */
+export function getAgentManager(provider: CodexProvider): IAgent {
+  switch (provider) {
+    case 'CodexSDK':
+      return codexManager;
+    case 'ClaudeCodeSDK':
+      return claudeManager;
+    case 'DroidCLI':
+      return droidCliManager;
+    case 'CopilotCLI':
+      return getCopilotCliManager();
+    case 'GeminiSDK':
+      throw new Error('GeminiSDK provider is not yet implemented');
+    default:
+      return codexManager;
+  }
+}
@@ -0,0 +1,85 @@
+import crypto from "node:crypto";
+import database from "../db";
+import type { ApiTokenRecord, ApiTokenScope } from "../types/database";
+
+/**
+ * API Token Service
+ * Personal access tokens that let scripts call the REST API with an
+ * `Authorization: Bearer` header instead of a login cookie. Tokens are only
+ * shown once; the database keeps a SHA-256 hash of them.
+ */
+
+export const API_TOKEN_SCOPES: ApiTokenScope[] = ["read", "sessions", "deploy"];
+
+// Tells personal tokens apart from the session tokens services send
+export const API_TOKEN_PREFIX = "cxp_";
+
+const TOKEN_BYTES = 32;
+const DISPLAY_PREFIX_LENGTH = API_TOKEN_PREFIX.length + 6;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Last use is written at most this often per token
+const TOUCH_INTERVAL_MS = 60 * 1000;
+
+// Case-insensitive like Express routing, so no spelling of the path skips it
+const DEPLOY_PATH = /^\/api\/(deploy|sessions\/[^/]+\/deploy-target)(\/|$)/i;
+
+const hashToken = (token: string): string =>
+  crypto.createHash("sha256").update(token).digest("hex");
+
+export function isApiToken(value: string): boolean {
+  return value.startsWith(API_TOKEN_PREFIX);
+}
+
+export function createApiToken(
+  userId: string,
+  input: { name: string; scopes: ApiTokenScope[]; expiresInDays: number | null },
+): { record: ApiTokenRecord; token: string } {
+  const token = `${API_TOKEN_PREFIX}${crypto.randomBytes(TOKEN_BYTES).toString("base64url")}`;
+  const record = database.createApiToken({
+    userId,
+    name: input.name,
+    tokenHash: hashToken(token),
+    tokenPrefix: token.slice(0, DISPLAY_PREFIX_LENGTH),
+    scopes: API_TOKEN_SCOPES.filter((scope) => input.scopes.includes(scope)),
+    expiresAt:
+      input.expiresInDays === null
+        ? null
+        : new Date(Date.now() + input.expiresInDays * DAY_MS).toISOString(),
+  });
+  return { record, token };
+}
+
+/**
+ * Looks up the token and records its use. Returns null for unknown and
+ * expired tokens.
+ */
+export function authenticateApiToken(token: string, ip: string | null): ApiTokenRecord | null {
+  const record = database.getApiTokenByHash(hashToken(token));
+  if (!record) {
+    return null;
+  }
+
+  const now = Date.now();
+  if (record.expiresAt && Date.parse(record.expiresAt) <= now) {
+    return null;
+  }
+
+  if (!record.lastUsedAt || now - Date.parse(record.lastUsedAt) >= TOUCH_INTERVAL_MS) {
+    const usedAt = new Date(now).toISOString();
+    database.touchApiToken(record.id, usedAt, ip);
+    return { ...record, lastUsedAt: usedAt, lastUsedIp: ip };
+  }
+  return record;
+}
+
+/**
+ * Whether the token's scopes cover the request. Any scope allows reading;
+ * changes need `deploy` for deployment targets and `sessions` elsewhere.
+ * Routes closed to tokens altogether use `requireLoginSession`.
+ */
+export function apiTokenAllows(record: ApiTokenRecord, method: string, path: string): boolean {
+  if (method === "GET" || method === "HEAD") {
+    return record.scopes.length > 0;
+  }
+  return record.scopes.includes(DEPLOY_PATH.test(path) ? "deploy" : "sessions");
+}
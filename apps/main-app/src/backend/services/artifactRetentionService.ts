@@ -0,0 +1,221 @@
+import database from "../db";
+import type {
+  ArtifactRetentionPolicy,
+  ArtifactStorageResponse,
+  ArtifactSweepResponse,
+  DeployArtifactResponse,
+} from "../../shared/dokploy";
+import { listArtifactFiles, removeArtifact } from "./workspaceArchiveService";
+
+/**
+ * Artifact Retention Service
+ * Keeps var/deploy-artifacts from growing without bound. Archives are kept
+ * per target up to a count, an age and a total size; archives a target still
+ * points at or an unfinished deployment needs are never removed.
+ */
+
+const readLimit = (name: string, fallback: number): number => {
+  const raw = Number.parseInt(process.env[name] ?? "", 10);
+  return Number.isFinite(raw) && raw >= 0 ? raw : fallback;
+};
+
+const policy: ArtifactRetentionPolicy = {
+  keepPerTarget: readLimit("DEPLOY_ARTIFACT_KEEP_PER_TARGET", 5),
+  maxAgeDays: readLimit("DEPLOY_ARTIFACT_MAX_AGE_DAYS", 30),
+  maxTotalBytes: readLimit("DEPLOY_ARTIFACT_MAX_TOTAL_MB", 2048) * 1024 * 1024,
+  sweepIntervalMinutes: readLimit("DEPLOY_ARTIFACT_SWEEP_INTERVAL_MINUTES", 60),
+};
+
+let lastSweepAt: string | null = null;
+let sweeping: Promise<ArtifactSweepResponse> | null = null;
+
+const collectInUseKeys = (): Set<string> => {
+  const keys = new Set<string>();
+  for (const target of database.listDeployTargets()) {
+    if (target.config.source.type === "workspace" && target.config.source.artifactKey) {
+      keys.add(target.config.source.artifactKey);
+    }
+  }
+  for (const deployment of database.listActiveDeployments()) {
+    if (deployment.artifactKey) {
+      keys.add(deployment.artifactKey);
+    }
+  }
+  return keys;
+};
+
+/**
+ * Joins the archives on disk with their recorded targets. Archives uploaded
+ * before uploads were recorded have no target and use the file time.
+ */
+const loadArtifacts = async (): Promise<DeployArtifactResponse[]> => {
+  const files = await listArtifactFiles();
+  const inUse = collectInUseKeys();
+  const records = new Map(database.listDeployArtifacts().map((record) => [record.key, record]));
+  const onDisk = new Set(files.map((file) => file.key));
+
+  // Rows whose archive was removed by hand
+  for (const key of records.keys()) {
+    if (!onDisk.has(key)) {
+      database.deleteDeployArtifact(key);
+    }
+  }
+
+  return files
+    .map((file) => {
+      const record = records.get(file.key);
+      return {
+        key: file.key,
+        size: file.size,
+        createdAt: record?.createdAt ?? file.modifiedAt,
+        targetId: record?.targetId ?? null,
+        targetName: record?.targetName ?? null,
+        commitSha: record?.commitSha ?? null,
+        inUse: inUse.has(file.key),
+      };
+    })
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+const toStorageResponse = (artifacts: DeployArtifactResponse[]): ArtifactStorageResponse => ({
+  policy,
+  totalBytes: artifacts.reduce((total, artifact) => total + artifact.size, 0),
+  artifacts,
+  lastSweepAt,
+});
+
+export async function getArtifactStorage(): Promise<ArtifactStorageResponse> {
+  return toStorageResponse(await loadArtifacts());
+}
+
+/** Picks the archives the policy no longer keeps, with the rule that dropped each. */
+const selectExpired = (artifacts: DeployArtifactResponse[]): Map<string, string> => {
+  const removals = new Map<string, string>();
+  const removable = artifacts.filter((artifact) => !artifact.inUse);
+
+  if (policy.keepPerTarget > 0) {
+    const seenPerTarget = new Map<string, number>();
+    // Newest first, so every target keeps its latest archives
+    for (const artifact of artifacts) {
+      if (!artifact.targetId) {
+        continue;
+      }
+      const seen = (seenPerTarget.get(artifact.targetId) ?? 0) + 1;
+      seenPerTarget.set(artifact.targetId, seen);
+      if (seen > policy.keepPerTarget && !artifact.inUse) {
+        removals.set(artifact.key, `more than ${policy.keepPerTarget} for its target`);
+      }
+    }
+  }
+
+  if (policy.maxAgeDays > 0) {
+    const cutoff = new Date(Date.now() - policy.maxAgeDays * 24 * 60 * 60 * 1000).toISOString();
+    for (const artifact of removable) {
+      if (!removals.has(artifact.key) && artifact.createdAt < cutoff) {
+        removals.set(artifact.key, `older than ${policy.maxAgeDays} days`);
+      }
+    }
+  }
+
+  if (policy.maxTotalBytes > 0) {
+    let totalBytes = artifacts
+      .filter((artifact) => !removals.has(artifact.key))
+      .reduce((total, artifact) => total + artifact.size, 0);
+    const oldestFirst = [...removable].reverse();
+    for (const artifact of oldestFirst) {
+      if (totalBytes <= policy.maxTotalBytes) {
+        break;
+      }
+      if (!removals.has(artifact.key)) {
+        removals.set(artifact.key, "storage limit exceeded");
+        totalBytes -= artifact.size;
+      }
+    }
+  }
+
+  return removals;
+};
+
+const runSweep = async (): Promise<ArtifactSweepResponse> => {
+  const artifacts = await loadArtifacts();
+  const removals = selectExpired(artifacts);
+  const removed: ArtifactSweepResponse["removed"] = [];
+
+  for (const artifact of artifacts) {
+    const reason = removals.get(artifact.key);
+    if (!reason) {
+      continue;
+    }
+    try {
+      await removeArtifact(artifact.key);
+      database.deleteDeployArtifact(artifact.key);
+      removed.push({ key: artifact.key, size: artifact.size, reason });
+    } catch (error) {
+      console.warn(
+        `[codex-webapp] Unable to remove deploy artifact ${artifact.key}:`,
+        error instanceof Error ? error.message : error,
+      );
+    }
+  }
+
+  lastSweepAt = new Date().toISOString();
+  const remaining = artifacts.filter(
+    (artifact) => !removed.some((entry) => entry.key === artifact.key),
+  );
+  return {
+    removed,
+    freedBytes: removed.reduce((total, entry) => total + entry.size, 0),
+    storage: toStorageResponse(remaining),
+  };
+};
+
+/** Applies the retention policy now. Concurrent calls share one sweep. */
+export function sweepArtifacts(): Promise<ArtifactSweepResponse> {
+  if (!sweeping) {
+    sweeping = runSweep().finally(() => {
+      sweeping = null;
+    });
+  }
+  return sweeping;
+}
+
+/**
+ * Removes one archive. Returns false when it does not exist; archives still
+ * in use are refused.
+ */
+export async function deleteArtifact(key: string): Promise<boolean> {
+  const exists = (await listArtifactFiles()).some((file) => file.key === key);
+  if (!exists) {
+    return false;
+  }
+  if (collectInUseKeys().has(key)) {
+    throw new Error("The artifact is still used by a deployment target.");
+  }
+  await removeArtifact(key);
+  database.deleteDeployArtifact(key);
+  return true;
+}
+
+export function startArtifactSweeper(): void {
+  if (policy.sweepIntervalMinutes <= 0) {
+    return;
+  }
+
+  const sweep = () => {
+    sweepArtifacts()
+      .then((result) => {
+        if (result.removed.length > 0) {
+          console.log(
+            `[codex-webapp] Removed ${result.removed.length} deploy artifact(s), freeing ${result.freedBytes} bytes`,
+          );
+        }
+      })
+      .catch((error) => {
+        console.warn("[codex-webapp] Deploy artifact sweep failed:", error);
+      });
+  };
+
+  sweep();
+  const timer = setInterval(sweep, policy.sweepIntervalMinutes * 60 * 1000);
+  timer.unref?.();
+}
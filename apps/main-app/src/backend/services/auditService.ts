@@ -0,0 +1,103 @@
+import type { Request } from "express";
+import database from "../db";
+import type { AuditEventRecord } from "../types/database";
+
+/**
+ * Audit Service
+ * Records administrative and security-relevant actions in the append-only
+ * audit log. Recording never fails the request it belongs to.
+ */
+
+type AuditSummary = Record<string, unknown>;
+
+export type AuditEventInput = {
+  /** Who acted, when it is not the signed-in user, e.g. during sign-in. */
+  actor?: { id: string; username: string } | null;
+  action: string;
+  targetType?: string;
+  targetId?: string | null;
+  targetLabel?: string | null;
+  before?: AuditSummary | null;
+  after?: AuditSummary | null;
+};
+
+const sameValue = (left: unknown, right: unknown): boolean =>
+  JSON.stringify(left) === JSON.stringify(right);
+
+/** Keeps only the fields that differ when both summaries are given. */
+const changedFields = (
+  before: AuditSummary | null,
+  after: AuditSummary | null,
+): { before: AuditSummary | null; after: AuditSummary | null } => {
+  if (!before || !after) {
+    return { before, after };
+  }
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  const changedBefore: AuditSummary = {};
+  const changedAfter: AuditSummary = {};
+  for (const key of keys) {
+    if (!sameValue(before[key], after[key])) {
+      changedBefore[key] = before[key] ?? null;
+      changedAfter[key] = after[key] ?? null;
+    }
+  }
+  return { before: changedBefore, after: changedAfter };
+};
+
+export function recordAuditEvent(req: Request, event: AuditEventInput): void {
+  // While impersonating, the admin is the actor and acts as the viewed user
+  const actor = event.actor ?? req.impersonator ?? req.user ?? null;
+  const actingAs = req.impersonator ? req.user ?? null : null;
+  const { before, after } = changedFields(event.before ?? null, event.after ?? null);
+
+  try {
+    database.addAuditEvent({
+      actorUserId: actor?.id ?? null,
+      actorUsername: actor?.username ?? null,
+      actingAsUserId: actingAs?.id ?? null,
+      actingAsUsername: actingAs?.username ?? null,
+      action: event.action,
+      targetType: event.targetType ?? null,
+      targetId: event.targetId ?? null,
+      targetLabel: event.targetLabel ?? null,
+      ip: req.ip ?? null,
+      before,
+      after,
+    });
+  } catch (error) {
+    console.error(`[codex-webapp] Unable to record audit event ${event.action}:`, error);
+  }
+}
+
+const CSV_COLUMNS: Array<[string, (event: AuditEventRecord) => unknown]> = [
+  ["createdAt", (event) => event.createdAt],
+  ["action", (event) => event.action],
+  ["actor", (event) => event.actorUsername ?? event.actorUserId],
+  ["actingAs", (event) => event.actingAsUsername ?? event.actingAsUserId],
+  ["targetType", (event) => event.targetType],
+  ["targetId", (event) => event.targetId],
+  ["target", (event) => event.targetLabel],
+  ["ip", (event) => event.ip],
+  ["before", (event) => (event.before ? JSON.stringify(event.before) : null)],
+  ["after", (event) => (event.after ? JSON.stringify(event.after) : null)],
+];
+
+const toCsvCell = (value: unknown): string => {
+  if (value === null || value === undefined) {
+    return "";
+  }
+  let text = String(value);
+  // Keep spreadsheets from evaluating cells as formulas
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function toAuditCsv(events: AuditEventRecord[]): string {
+  const lines = [
+    CSV_COLUMNS.map(([name]) => name).join(","),
+    ...events.map((event) => CSV_COLUMNS.map(([, read]) => toCsvCell(read(event))).join(",")),
+  ];
+  return `${lines.join("\r\n")}\r\n`;
+}
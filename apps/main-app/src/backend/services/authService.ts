@@ -8,6 +8,7 @@ const scrypt = promisify(crypto.scrypt);
 const SALT_LENGTH_BYTES = 16;
 const KEY_LENGTH_BYTES = 64;
 const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const IMPERSONATION_TTL_MS = 60 * 60 * 1000;
 const DEFAULT_ADMIN_USERNAME = "etdofresh";
 const TEMP_PASSWORD_BYTES = 12;
 
@@ -113,6 +114,45 @@ export function issueLoginSession(
   return database.createLoginSession({ userId, expiresAt });
 }
 
+/**
+ * Issues a session in which the admin of `adminSession` views the app as
+ * another user. It never outlives the admin's own session, which is kept so
+ * that ending the impersonation can return to it.
+ */
+export function issueImpersonationSession(
+  adminSession: LoginSessionRecord,
+  userId: string,
+): LoginSessionRecord {
+  const expiresAt = Math.min(
+    Date.now() + IMPERSONATION_TTL_MS,
+    Date.parse(adminSession.expiresAt),
+  );
+  return database.createLoginSession({
+    userId,
+    expiresAt: new Date(expiresAt).toISOString(),
+    impersonatorUserId: adminSession.userId,
+    impersonatorSessionId: adminSession.id,
+  });
+}
+
+/**
+ * Ends an impersonation session and returns the admin's own session, or null
+ * when that has expired or was revoked in the meantime.
+ */
+export function endImpersonationSession(
+  session: LoginSessionRecord,
+): LoginSessionRecord | null {
+  database.deleteLoginSession(session.id);
+  if (!session.impersonatorSessionId) {
+    return null;
+  }
+  const adminSession = database.getLoginSession(session.impersonatorSessionId);
+  if (!adminSession || Date.parse(adminSession.expiresAt) <= Date.now()) {
+    return null;
+  }
+  return adminSession;
+}
+
 export function revokeLoginSession(sessionId: string): void {
   database.deleteLoginSession(sessionId);
 }
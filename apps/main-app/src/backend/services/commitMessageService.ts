@@ -1,10 +1,9 @@
 import fs from "fs";
 import path from "path";
-import { codexManager } from "../codexManager";
-import { claudeManager } from "../claudeManager";
-import { droidCliManager } from "../droidCliManager";
-import { getCodexMeta } from "../settings";
+import { getDefaultAgentSelection, type AgentSelection } from "../settings";
 import type { SessionRecord } from "../types/database";
+import { getAgentManager } from "./agentRegistry";
+import { getWorkspaceDiffSummary } from "./gitOperationsService";
 import { synchronizeUserAuthFiles } from "./userAuthManager";
 import { getWorkspaceDirectory } from "../workspaces";
 
@@ -96,10 +95,14 @@ function getWorkspaceContext(workspacePath: string): string {
  */
 export async function generateCommitMessage(
   session: SessionRecord,
+  selection: AgentSelection = getDefaultAgentSelection(),
 ): Promise<string | null> {
   try {
-    const workspacePath = getWorkspaceDirectory(session.id);
-    const workspaceContext = getWorkspaceContext(workspacePath);
+    // Prefer the actual changes; workspaces that are not a git working copy
+    // yet fall back to a listing of their files.
+    const diffSummary = await getWorkspaceDiffSummary(session.id);
+    const workspaceContext =
+      diffSummary ?? getWorkspaceContext(getWorkspaceDirectory(session.id));
 
     if (workspaceContext === 'No files in workspace') {
       console.warn('[commitMessageService] No files in workspace to commit');
@@ -107,7 +110,7 @@ export async function generateCommitMessage(
     }
 
     // Build the prompt based on git-commit.md format
-    const prompt = `Review the workspace files to craft a git commit message automatically.
+    const prompt = `Review the workspace changes to craft a git commit message automatically.
 
 ${workspaceContext}
 
@@ -134,22 +137,14 @@ Subject Line Here
 
 IMPORTANT: Return ONLY the commit message text. Do not include explanations, markdown code fences, or other formatting around it.`;
 
-    const meta = getCodexMeta();
-    const manager = (() => {
-      switch (meta.provider) {
-        case 'ClaudeCodeSDK':
-          return claudeManager;
-        case 'DroidCLI':
-          return droidCliManager;
-        case 'CodexSDK':
-        default:
-          return codexManager;
-      }
-    })();
+    const manager = getAgentManager(selection.provider);
 
     const restoreEnv = applySessionAuthEnv(session);
     try {
-      const message = await manager.generateTitleSuggestion(session, prompt);
+      const message = await manager.generateTitleSuggestion(session, prompt, {
+        model: selection.model,
+        reasoningEffort: selection.reasoningEffort,
+      });
       if (message && message.trim().length > 0) {
         return message.trim();
       }
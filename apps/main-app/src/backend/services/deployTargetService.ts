@@ -0,0 +1,41 @@
+import database from "../db";
+import type { DeployConfig } from "../../shared/dokploy";
+import type { DeployTargetRow } from "../types/database";
+
+/**
+ * Deploy Target Service
+ * Resolves the Dokploy deployment target a session's service runs on. Sessions
+ * without an explicit choice, or whose target was deleted, use the default.
+ */
+
+export type ResolvedDeployTarget = {
+  target: DeployTargetRow;
+  config: DeployConfig;
+  apiKey: string;
+};
+
+export const getSessionDeployTarget = (sessionId: string): DeployTargetRow | null => {
+  const settings = database.getSessionSettings(sessionId);
+  const selected = settings?.deployTargetId
+    ? database.getDeployTarget(settings.deployTargetId)
+    : null;
+  return selected ?? database.getDefaultDeployTarget();
+};
+
+/**
+ * Like `getSessionDeployTarget`, but throws when the target cannot be used
+ * to talk to Dokploy.
+ */
+export const resolveSessionDeployTarget = (sessionId: string): ResolvedDeployTarget => {
+  const target = getSessionDeployTarget(sessionId);
+  if (!target) {
+    throw new Error("No deployment target configured. Please configure Dokploy in admin settings.");
+  }
+
+  const apiKey = database.getDeployTargetApiKey(target.id);
+  if (!apiKey) {
+    throw new Error(`Dokploy API key not configured for deployment target "${target.name}".`);
+  }
+
+  return { target, config: target.config, apiKey };
+};
@@ -0,0 +1,81 @@
+import database from "../db";
+import type { DeploymentRecord } from "../types/database";
+import {
+  isDeploymentFinished,
+  subscribeToDeployments,
+  toDeploymentResponse,
+} from "./deploymentService";
+import { getDeploymentLogs } from "./serviceManager";
+import { websocketBridge } from "./websocketBridge";
+
+/**
+ * Deployment Notifier
+ * Relays the status of deployments that belong to a session: every change is
+ * pushed to the session's websocket clients, and the outcome is posted into
+ * the conversation together with the end of the build log.
+ */
+
+const LOG_TAIL_LINES = 40;
+
+const tailLines = (text: string, count: number): string =>
+  text.trimEnd().split(/\r?\n/).slice(-count).join("\n");
+
+const readLogTail = async (deployment: DeploymentRecord): Promise<string | null> => {
+  try {
+    const { logs } = await getDeploymentLogs(
+      deployment.sessionId!,
+      deployment.dokployDeploymentId ?? undefined,
+    );
+    return logs.trim().length > 0 ? tailLines(logs, LOG_TAIL_LINES) : null;
+  } catch (error) {
+    console.warn(
+      `[codex-webapp] Unable to read logs of deployment ${deployment.id}:`,
+      error instanceof Error ? error.message : error,
+    );
+    return null;
+  }
+};
+
+const postOutcome = async (deployment: DeploymentRecord): Promise<void> => {
+  const sessionId = deployment.sessionId!;
+  if (!database.getSession(sessionId)) {
+    return;
+  }
+
+  const lines =
+    deployment.status === "succeeded"
+      ? [`Deployment to ${deployment.targetName} succeeded.`]
+      : [
+          `Deployment to ${deployment.targetName} failed.`,
+          ...(deployment.error ? [`Error: ${deployment.error}`] : []),
+        ];
+
+  const logTail = await readLogTail(deployment);
+  if (logTail) {
+    lines.push("", "Last lines of the build log:", "```", logTail, "```");
+  }
+
+  database.addMessage(sessionId, "system", lines.join("\n"));
+};
+
+export function startDeploymentNotifications(): void {
+  subscribeToDeployments((deployment) => {
+    if (!deployment.sessionId) {
+      return;
+    }
+
+    websocketBridge.broadcastDeploymentUpdate(
+      deployment.sessionId,
+      toDeploymentResponse(deployment),
+    );
+
+    if (isDeploymentFinished(deployment)) {
+      postOutcome(deployment).catch((error) => {
+        console.warn(
+          `[codex-webapp] Unable to report deployment ${deployment.id} to its session:`,
+          error,
+        );
+      });
+    }
+  });
+}
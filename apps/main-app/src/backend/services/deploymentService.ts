@@ -0,0 +1,327 @@
+import { EventEmitter } from "node:events";
+import fs from "node:fs";
+import database from "../db";
+import type { DeployConfig, DeploymentResponse, DeploymentStatus } from "../../shared/dokploy";
+import type { DeployTargetRow, DeploymentRecord } from "../types/database";
+import { createDokployClient } from "./dokployClient";
+import { synchronizeDokployApplication } from "./dokploySyncService";
+import { getArtifactPath, signArtifactUrl } from "./workspaceArchiveService";
+
+/**
+ * Deployment Service
+ * Triggers Dokploy deployments of a deploy target, records them in the
+ * deployment history and follows each one until Dokploy reports whether it
+ * succeeded. Every status change is published to subscribers. Earlier
+ * workspace artifacts can be deployed again to roll back.
+ */
+
+const POLL_INTERVAL_MS = 5000;
+const TRACK_TIMEOUT_MS = 30 * 60 * 1000;
+export const ARTIFACT_URL_TTL_MS = 24 * 60 * 60 * 1000;
+
+type DokployDeployment = {
+  deploymentId: string;
+  status?: string;
+  createdAt?: string;
+  errorMessage?: string | null;
+};
+
+const trackedDeployments = new Set<string>();
+const deploymentEvents = new EventEmitter();
+deploymentEvents.setMaxListeners(0);
+
+export const isDeploymentFinished = (deployment: DeploymentRecord): boolean =>
+  deployment.status === "succeeded" || deployment.status === "failed";
+
+/**
+ * Calls `listener` with the new state of a deployment whenever one is
+ * created or changes status. Returns the unsubscribe function.
+ */
+export function subscribeToDeployments(
+  listener: (deployment: DeploymentRecord) => void,
+): () => void {
+  deploymentEvents.on("update", listener);
+  return () => {
+    deploymentEvents.off("update", listener);
+  };
+}
+
+const publish = (deployment: DeploymentRecord | null): DeploymentRecord | null => {
+  if (deployment) {
+    deploymentEvents.emit("update", deployment);
+  }
+  return deployment;
+};
+
+const setDeploymentStatus = (
+  id: string,
+  status: DeploymentStatus,
+  updates?: { dokployDeploymentId?: string | null; error?: string | null },
+): DeploymentRecord | null => publish(database.updateDeploymentStatus(id, status, updates));
+
+const listDokployDeployments = async (
+  config: DeployConfig,
+  apiKey: string,
+  applicationId: string,
+): Promise<DokployDeployment[]> => {
+  const client = createDokployClient(config, apiKey);
+  const application = await client.request<{ deployments?: DokployDeployment[] }>({
+    method: "GET",
+    path: "/application.one",
+    query: { applicationId },
+  });
+  return application.deployments ?? [];
+};
+
+const toDeploymentStatus = (dokployStatus: string | undefined): DeploymentStatus => {
+  switch (dokployStatus) {
+    case "done":
+      return "succeeded";
+    case "error":
+      return "failed";
+    default:
+      return "running";
+  }
+};
+
+/**
+ * Finds the Dokploy deployment behind a history entry: the one already linked
+ * to it, else the newest one Dokploy did not list before the trigger (or, with
+ * no such list after a restart, the newest one started after the trigger).
+ */
+const matchDokployDeployment = (
+  record: DeploymentRecord,
+  deployments: DokployDeployment[],
+  knownIds: Set<string> | null,
+): DokployDeployment | null => {
+  if (record.dokployDeploymentId) {
+    return (
+      deployments.find((entry) => entry.deploymentId === record.dokployDeploymentId) ?? null
+    );
+  }
+
+  const triggeredAt = new Date(record.createdAt).getTime();
+  const candidates = deployments.filter((entry) =>
+    knownIds
+      ? !knownIds.has(entry.deploymentId)
+      : entry.createdAt !== undefined && new Date(entry.createdAt).getTime() >= triggeredAt,
+  );
+  candidates.sort(
+    (a, b) => new Date(b.createdAt ?? 0).getTime() - new Date(a.createdAt ?? 0).getTime(),
+  );
+  return candidates[0] ?? null;
+};
+
+const trackDeployment = (deploymentId: string, knownIds: Set<string> | null): void => {
+  if (trackedDeployments.has(deploymentId)) {
+    return;
+  }
+  trackedDeployments.add(deploymentId);
+
+  const poll = async () => {
+    const record = database.getDeployment(deploymentId);
+    if (!record || (record.status !== "pending" && record.status !== "running")) {
+      trackedDeployments.delete(deploymentId);
+      return;
+    }
+
+    const target = record.targetId ? database.getDeployTarget(record.targetId) : null;
+    const apiKey = target ? database.getDeployTargetApiKey(target.id) : null;
+    if (!target || !apiKey || !record.applicationId) {
+      setDeploymentStatus(deploymentId, "failed", {
+        error: "The deployment target is no longer available.",
+      });
+      trackedDeployments.delete(deploymentId);
+      return;
+    }
+
+    try {
+      const deployments = await listDokployDeployments(
+        target.config,
+        apiKey,
+        record.applicationId,
+      );
+      const match = matchDokployDeployment(record, deployments, knownIds);
+      if (match) {
+        const status = toDeploymentStatus(match.status);
+        if (status !== record.status || match.deploymentId !== record.dokployDeploymentId) {
+          setDeploymentStatus(deploymentId, status, {
+            dokployDeploymentId: match.deploymentId,
+            error:
+              status === "failed"
+                ? match.errorMessage || "Dokploy reported a failed deployment."
+                : null,
+          });
+        }
+        if (status !== "running") {
+          trackedDeployments.delete(deploymentId);
+          return;
+        }
+      }
+    } catch (error) {
+      console.warn(
+        `[codex-webapp] Unable to check status of deployment ${deploymentId}:`,
+        error instanceof Error ? error.message : error,
+      );
+    }
+
+    if (Date.now() - new Date(record.createdAt).getTime() > TRACK_TIMEOUT_MS) {
+      setDeploymentStatus(deploymentId, "failed", {
+        error: "Timed out waiting for Dokploy to finish the deployment.",
+      });
+      trackedDeployments.delete(deploymentId);
+      return;
+    }
+
+    setTimeout(() => void poll(), POLL_INTERVAL_MS);
+  };
+
+  setTimeout(() => void poll(), POLL_INTERVAL_MS);
+};
+
+/**
+ * Deploys a Dokploy application with the credentials of `target`, records
+ * the deployment and starts following it. Resolves once Dokploy accepted the
+ * request; the final status is published later.
+ */
+export async function deployApplication(options: {
+  target: DeployTargetRow;
+  apiKey: string;
+  applicationId: string;
+  userId: string | null;
+  sessionId?: string | null;
+  redeployOf?: string | null;
+}): Promise<DeploymentRecord> {
+  const { target, apiKey, applicationId } = options;
+
+  let knownIds: Set<string> | null = null;
+  try {
+    const existing = await listDokployDeployments(target.config, apiKey, applicationId);
+    knownIds = new Set(existing.map((entry) => entry.deploymentId));
+  } catch (error) {
+    console.warn(
+      "[codex-webapp] Unable to list Dokploy deployments before deploying:",
+      error instanceof Error ? error.message : error,
+    );
+  }
+
+  // Only the target's own application is built from its uploaded artifact
+  const source = target.config.source;
+  const fromArtifact =
+    source.type === "workspace" && applicationId === target.config.applicationId;
+  const record = database.createDeployment({
+    targetId: target.id,
+    targetName: target.name,
+    applicationId,
+    artifactKey: fromArtifact ? source.artifactKey ?? null : null,
+    commitSha: fromArtifact ? source.commitSha ?? null : null,
+    userId: options.userId,
+    sessionId: options.sessionId ?? null,
+    redeployOf: options.redeployOf ?? null,
+  });
+  publish(record);
+
+  try {
+    const client = createDokployClient(target.config, apiKey);
+    await client.request({
+      method: "POST",
+      path: "/application.deploy",
+      body: { applicationId },
+    });
+  } catch (error) {
+    setDeploymentStatus(record.id, "failed", {
+      error: error instanceof Error ? error.message : "Deployment failed.",
+    });
+    throw error;
+  }
+
+  const running = setDeploymentStatus(record.id, "running") ?? record;
+  trackDeployment(record.id, knownIds);
+  return running;
+}
+
+/** Deploys the target's configured application. */
+export async function deployTarget(options: {
+  target: DeployTargetRow;
+  apiKey: string;
+  userId: string | null;
+  redeployOf?: string | null;
+}): Promise<DeploymentRecord> {
+  const applicationId = options.target.config.applicationId;
+  if (!applicationId) {
+    throw new Error("Configure applicationId before triggering a deployment.");
+  }
+  return deployApplication({ ...options, applicationId });
+}
+
+export const isArtifactAvailable = (artifactKey: string | null): boolean => {
+  if (!artifactKey) {
+    return false;
+  }
+  try {
+    return fs.existsSync(getArtifactPath(artifactKey));
+  } catch {
+    return false;
+  }
+};
+
+export const toDeploymentResponse = (deployment: DeploymentRecord): DeploymentResponse => ({
+  ...deployment,
+  canRedeploy: isArtifactAvailable(deployment.artifactKey),
+});
+
+/**
+ * Points the target's application at the artifact of an earlier deployment
+ * and deploys it again.
+ */
+export async function redeployArtifact(options: {
+  target: DeployTargetRow;
+  apiKey: string;
+  userId: string | null;
+  deployment: DeploymentRecord;
+  /** Origin the new signed artifact URL is built on. */
+  origin: string;
+}): Promise<{ deployment: DeploymentRecord; target: DeployTargetRow }> {
+  const { deployment } = options;
+  if (!deployment.artifactKey || !isArtifactAvailable(deployment.artifactKey)) {
+    throw new Error("The artifact of this deployment is no longer available.");
+  }
+
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + ARTIFACT_URL_TTL_MS);
+  const config: DeployConfig = {
+    ...options.target.config,
+    source: {
+      type: "workspace",
+      artifactKey: deployment.artifactKey,
+      artifactUrl: signArtifactUrl(options.origin, deployment.artifactKey, expiresAt),
+      lastUploadedAt: now.toISOString(),
+      expiresAt: expiresAt.toISOString(),
+      commitSha: deployment.commitSha,
+    },
+  };
+
+  const synced = await synchronizeDokployApplication(config, options.apiKey);
+  const target = database.updateDeployTarget(options.target.id, { config: synced.config });
+  if (!target) {
+    throw new Error("Deployment target was deleted during the redeploy.");
+  }
+
+  const created = await deployTarget({
+    target,
+    apiKey: options.apiKey,
+    userId: options.userId,
+    redeployOf: deployment.id,
+  });
+  return { deployment: created, target };
+}
+
+/**
+ * Status tracking does not survive a restart; pick the unfinished
+ * deployments up again.
+ */
+export function resumeDeploymentTracking(): void {
+  for (const deployment of database.listActiveDeployments()) {
+    trackDeployment(deployment.id, null);
+  }
+}
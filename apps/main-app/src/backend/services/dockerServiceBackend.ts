@@ -0,0 +1,250 @@
+import { spawn } from "node:child_process";
+import fs from "node:fs";
+import path from "node:path";
+import type { SessionServiceRecord } from "../types/database";
+import type {
+  BackendServiceState,
+  BuildLogs,
+  CreateBackendServiceOptions,
+  SessionServiceBackend,
+} from "./serviceBackend";
+
+/**
+ * Docker Service Backend
+ * Runs each session service as a container on the machine of the main app,
+ * built from Dockerfile.container-app with the local `docker` CLI. Meant for
+ * small setups and development without a Dokploy server.
+ */
+
+const DOCKERFILE = "Dockerfile.container-app";
+const CONTAINER_PORT = 3001;
+const COMMAND_TIMEOUT_MS = 2 * 60 * 1000;
+const BUILD_TIMEOUT_MS = 30 * 60 * 1000;
+const LOG_TAIL_LINES = 2000;
+
+const dockerPath = () => process.env.DOCKER_PATH || "docker";
+const imageName = () => process.env.LOCAL_DOCKER_IMAGE || "codex-webapp-container-app";
+const bindAddress = () => process.env.LOCAL_DOCKER_BIND_ADDRESS || "127.0.0.1";
+const publicHost = () => process.env.LOCAL_DOCKER_PUBLIC_HOST || "localhost";
+
+const containerName = (sessionId: string) => `codex-session-${sessionId}`;
+
+// Build output of the last service creation per session; lost on restart
+const buildLogs = new Map<string, BuildLogs>();
+
+/**
+ * Runs the docker CLI and resolves with its output. Values of `env` are
+ * handed over through the environment so they never show up in arguments.
+ */
+function runDocker(
+  args: string[],
+  options: {
+    env?: Record<string, string>;
+    timeoutMs?: number;
+    onOutput?: (chunk: string) => void;
+  } = {},
+): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(dockerPath(), args, {
+      env: { ...process.env, ...options.env },
+      stdio: ["ignore", "pipe", "pipe"],
+      windowsHide: true,
+    });
+
+    let output = "";
+    let stderr = "";
+    const timer = setTimeout(() => child.kill(), options.timeoutMs ?? COMMAND_TIMEOUT_MS);
+
+    child.stdout.on("data", (chunk: Buffer) => {
+      output += chunk.toString();
+      options.onOutput?.(chunk.toString());
+    });
+    child.stderr.on("data", (chunk: Buffer) => {
+      output += chunk.toString();
+      stderr += chunk.toString();
+      options.onOutput?.(chunk.toString());
+    });
+    child.on("error", (error) => {
+      clearTimeout(timer);
+      reject(new Error(`Failed to run docker: ${error.message}`));
+    });
+    child.on("close", (code) => {
+      clearTimeout(timer);
+      if (code === 0) {
+        resolve(output);
+        return;
+      }
+      reject(new Error(stderr.trim() || `docker ${args[0]} exited with code ${code}`));
+    });
+  });
+}
+
+/** Directory holding Dockerfile.container-app: the env setting, else the first parent of the working directory with it. */
+const findBuildContext = (): string => {
+  const configured = process.env.LOCAL_DOCKER_BUILD_CONTEXT;
+  if (configured) {
+    return path.resolve(configured);
+  }
+  let directory = process.cwd();
+  while (true) {
+    if (fs.existsSync(path.join(directory, DOCKERFILE))) {
+      return directory;
+    }
+    const parent = path.dirname(directory);
+    if (parent === directory) {
+      throw new Error(`${DOCKERFILE} not found; set LOCAL_DOCKER_BUILD_CONTEXT.`);
+    }
+    directory = parent;
+  }
+};
+
+/**
+ * Localhost inside the container is the container itself, so the main app is
+ * reached through the Docker host unless LOCAL_DOCKER_MAIN_APP_URL says otherwise.
+ */
+const toContainerEnv = (env: Record<string, string>): Record<string, string> => {
+  const mainAppUrl =
+    process.env.LOCAL_DOCKER_MAIN_APP_URL ||
+    (env.MAIN_APP_URL ?? "").replace(/\/\/(localhost|127\.0\.0\.1)\b/, "//host.docker.internal");
+  if (!mainAppUrl) {
+    return env;
+  }
+  return {
+    ...env,
+    MAIN_APP_URL: mainAppUrl,
+    MAIN_APP_WS_URL: mainAppUrl.replace(/^http/, "ws"),
+  };
+};
+
+const readServiceUrl = async (name: string): Promise<string> => {
+  const output = await runDocker(["port", name, `${CONTAINER_PORT}/tcp`]);
+  const port = /:(\d+)\s*$/m.exec(output.split("\n")[0] ?? "")?.[1];
+  if (!port) {
+    throw new Error(`Container ${name} does not publish port ${CONTAINER_PORT}.`);
+  }
+  return `http://${publicHost()}:${port}`;
+};
+
+const containerOf = (service: SessionServiceRecord): string =>
+  service.containerId ?? containerName(service.sessionId);
+
+async function create(options: CreateBackendServiceOptions) {
+  const { sessionId } = options;
+  const name = containerName(sessionId);
+  const env = toContainerEnv(options.env);
+  const log: BuildLogs = { logs: "", status: "running" };
+  buildLogs.set(sessionId, log);
+
+  try {
+    const context = findBuildContext();
+    console.log(`[SERVICE] Building ${imageName()} from ${context} for session ${sessionId}`);
+    await runDocker(
+      ["build", "-f", path.join(context, DOCKERFILE), "-t", imageName(), context],
+      {
+        timeoutMs: BUILD_TIMEOUT_MS,
+        onOutput: (chunk) => {
+          log.logs += chunk;
+        },
+      },
+    );
+
+    // A container left over from an earlier attempt would block the name
+    await runDocker(["rm", "-f", name]).catch(() => undefined);
+
+    const containerId = (
+      await runDocker(
+        [
+          "run",
+          "--detach",
+          "--name",
+          name,
+          "--label",
+          `codex-webapp.session=${sessionId}`,
+          "--add-host",
+          "host.docker.internal:host-gateway",
+          "--publish",
+          `${bindAddress()}::${CONTAINER_PORT}`,
+          ...Object.keys(env).flatMap((key) => ["--env", key]),
+          imageName(),
+        ],
+        { env },
+      )
+    ).trim();
+
+    log.status = "done";
+    return { serviceUrl: await readServiceUrl(name), containerId };
+  } catch (error) {
+    log.status = "error";
+    log.logs += `\n${error instanceof Error ? error.message : String(error)}\n`;
+    throw error;
+  }
+}
+
+// `docker inspect` states
+const CONTAINER_STATES: Record<string, BackendServiceState> = {
+  created: "creating",
+  restarting: "creating",
+  running: "running",
+  paused: "stopped",
+  exited: "stopped",
+  dead: "error",
+};
+
+export const dockerServiceBackend: SessionServiceBackend = {
+  kind: "docker",
+  label: "Local Docker",
+
+  async checkAvailable() {
+    try {
+      findBuildContext();
+      await runDocker(["version", "--format", "{{.Server.Version}}"]);
+      return null;
+    } catch (error) {
+      return error instanceof Error ? error.message : "Docker is not available.";
+    }
+  },
+
+  assertCanCreate() {
+    findBuildContext();
+  },
+
+  create,
+
+  async start(service) {
+    const name = containerOf(service);
+    await runDocker(["start", name]);
+    // The host port is picked again on every start
+    return readServiceUrl(name);
+  },
+
+  async stop(service) {
+    await runDocker(["stop", containerOf(service)]);
+  },
+
+  async delete(service) {
+    buildLogs.delete(service.sessionId);
+    await runDocker(["rm", "--force", containerOf(service)]);
+  },
+
+  async getLogs(service) {
+    return runDocker(["logs", "--tail", String(LOG_TAIL_LINES), containerOf(service)]);
+  },
+
+  async getBuildLogs(service) {
+    return buildLogs.get(service.sessionId) ?? { logs: "No build logs available", status: "none" };
+  },
+
+  async getState(service) {
+    try {
+      const state = (
+        await runDocker(["inspect", "--format", "{{.State.Status}}", containerOf(service)])
+      ).trim();
+      return CONTAINER_STATES[state] ?? "error";
+    } catch (error) {
+      if (error instanceof Error && /no such (object|container)/i.test(error.message)) {
+        return "missing";
+      }
+      throw error;
+    }
+  },
+};
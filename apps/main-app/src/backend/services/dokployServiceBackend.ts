@@ -0,0 +1,345 @@
+import database from "../db";
+import type { SessionServiceRecord } from "../types/database";
+import { createDokployClient } from "./dokployClient";
+import { deployApplication } from "./deploymentService";
+import { resolveSessionDeployTarget } from "./deployTargetService";
+import type {
+  BackendServiceState,
+  CreateBackendServiceOptions,
+  SessionServiceBackend,
+} from "./serviceBackend";
+
+/**
+ * Dokploy Service Backend
+ * Runs each session service as a Dokploy application built from
+ * Dockerfile.container-app, on the session's deployment target.
+ */
+
+const sessionClient = (sessionId: string) => {
+  const { config, apiKey } = resolveSessionDeployTarget(sessionId);
+  return { client: createDokployClient(config, apiKey), config };
+};
+
+const requireApplicationId = (service: SessionServiceRecord): string => {
+  if (!service.dokployAppId) {
+    throw new Error("Service not found");
+  }
+  return service.dokployAppId;
+};
+
+async function create(options: CreateBackendServiceOptions) {
+  const { sessionId, env } = options;
+  const { client, config: globalConfig } = sessionClient(sessionId);
+
+  // Get or create environment ID for the project
+  // If not configured, query Dokploy for environments and use the first one
+  let environmentId: string | undefined = globalConfig.environmentId;
+
+  if (!environmentId) {
+    console.log('[SERVICE] No environmentId in config, querying Dokploy for environments...');
+    try {
+      const environments = await client.request<any[]>({
+        method: "GET",
+        path: `/project.${globalConfig.projectId}.getEnvironments`,
+      });
+      if (environments && environments.length > 0) {
+        environmentId = environments[0].environmentId;
+        console.log(`[SERVICE] Using first environment: ${environmentId}`);
+      }
+    } catch (error) {
+      console.error('[SERVICE] Failed to query environments:', error);
+      console.log('[SERVICE] Will attempt to create application without environmentId');
+    }
+  }
+
+  // Create application in Dokploy
+  const createBody: Record<string, unknown> = {
+    name: sessionId,
+    appName: sessionId,
+    projectId: globalConfig.projectId,
+  };
+
+  // Only add environmentId if we have one
+  if (environmentId) {
+    createBody.environmentId = environmentId;
+  }
+
+  if (globalConfig.serverId) {
+    createBody.serverId = globalConfig.serverId;
+  }
+
+  console.log('[SERVICE] Creating Dokploy application with body:', JSON.stringify(createBody, null, 2));
+
+  const result = await client.request<{
+    applicationId?: string;
+    app?: { applicationId?: string };
+  }>({
+    method: "POST",
+    path: "/application.create",
+    body: createBody,
+  });
+
+  const applicationId = result?.applicationId ?? result?.app?.applicationId;
+
+  if (!applicationId) {
+    throw new Error("Dokploy did not return an applicationId");
+  }
+
+  // Convert env vars to Dokploy format
+  const envString = Object.entries(env)
+    .map(([key, value]) => `${key}=${value}`)
+    .join("\n");
+
+  // Update environment variables
+  await client.request({
+    method: "POST",
+    path: "/application.saveEnvironment",
+    body: {
+      applicationId,
+      env: envString,
+      buildArgs: "",
+    },
+  });
+
+  // Always configure container-app from codex-webapp repository
+  // The user's repo URL is passed as GITHUB_REPO_URL env var
+  console.log('[SERVICE] Configuring container-app from codex-webapp repository');
+
+  await client.request({
+    method: "POST",
+    path: "/application.saveGithubProvider",
+    body: {
+      applicationId,
+      owner: "ETdoFresh",
+      repository: "codex-webapp",
+      githubId: globalConfig.githubId || null,
+      branch: "main",
+      buildPath: "", // Use root of repo to access full monorepo structure
+    },
+  });
+
+  // Use Dockerfile build type pointing to root-level container-app Dockerfile
+  await client.request({
+    method: "POST",
+    path: "/application.saveBuildType",
+    body: {
+      applicationId,
+      buildType: "dockerfile",
+      dockerfile: "Dockerfile.container-app", // Root-level Dockerfile for monorepo build
+      dockerContextPath: "./",
+      dockerBuildStage: "",
+    },
+  });
+
+  // Configure general settings
+  await client.request({
+    method: "POST",
+    path: "/application.update",
+    body: {
+      applicationId,
+      name: sessionId,
+      appName: sessionId,
+      autoDeploy: false,
+    },
+  });
+
+  // Configure domain with HTTPS and Let's Encrypt
+  const domainHost = process.env.DOKPLOY_DOMAIN_HOST || "codex-webapp.etdofresh.com";
+  console.log(`[SERVICE] Creating domain for ${sessionId} on ${domainHost}`);
+
+  await client.request({
+    method: "POST",
+    path: "/domain.create",
+    body: {
+      host: domainHost,
+      path: `/${sessionId}`,
+      port: 3001, // container-app runs on port 3001
+      https: true,
+      certificateType: "letsencrypt",
+      applicationId,
+      domainType: "application",
+      stripPath: true,
+    },
+  });
+
+  // Generate service URL with the configured domain
+  return {
+    serviceUrl: `https://${domainHost}/${sessionId}`,
+    dokployAppId: applicationId,
+  };
+}
+
+async function getBuildLogs(service: SessionServiceRecord, deploymentId?: string) {
+  const applicationId = requireApplicationId(service);
+  const { client } = sessionClient(service.sessionId);
+
+  // Get application details including deployments
+  const appData = await client.request<{
+    deployments?: Array<{
+      deploymentId: string;
+      status: string;
+      logPath?: string;
+      createdAt: string;
+    }>;
+  }>({
+    method: "GET",
+    path: "/application.one",
+    query: {
+      applicationId,
+    },
+  });
+
+  // Get the most recent deployment
+  const deployments = appData.deployments || [];
+  if (deployments.length === 0) {
+    return { logs: "No deployments found", status: "none" };
+  }
+
+  // Sort by creation date to get the latest
+  const latestDeployment =
+    deployments.find((deployment) => deployment.deploymentId === deploymentId) ??
+    deployments.sort(
+      (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+    )[0];
+
+  // Try to fetch deployment logs
+  try {
+    const logsData = await client.request<{ logs?: string }>({
+      method: "GET",
+      path: "/deployment.logs",
+      query: {
+        deploymentId: latestDeployment.deploymentId,
+      },
+    });
+
+    return {
+      logs: logsData?.logs || "Logs not available yet",
+      status: latestDeployment.status,
+      deploymentId: latestDeployment.deploymentId,
+    };
+  } catch (error) {
+    // Deployment logs endpoint often returns 404, fallback to logPath info
+    return {
+      logs: `Deployment ${latestDeployment.status}. Log path: ${latestDeployment.logPath || "Not available"}`,
+      status: latestDeployment.status,
+      deploymentId: latestDeployment.deploymentId,
+    };
+  }
+}
+
+// Dokploy reports the state of the application's last deployment
+const APPLICATION_STATES: Record<string, BackendServiceState> = {
+  idle: "stopped",
+  running: "creating",
+  done: "running",
+  error: "error",
+};
+
+export const dokployServiceBackend: SessionServiceBackend = {
+  kind: "dokploy",
+  label: "Dokploy",
+
+  async checkAvailable() {
+    const target = database.getDefaultDeployTarget();
+    if (!target) {
+      return "No deployment target configured.";
+    }
+    return database.getDeployTargetApiKey(target.id)
+      ? null
+      : `Dokploy API key not configured for deployment target "${target.name}".`;
+  },
+
+  assertCanCreate(sessionId) {
+    resolveSessionDeployTarget(sessionId);
+  },
+
+  create,
+
+  async deploy(service, userId) {
+    // Its progress is reported to the session
+    const { target, apiKey } = resolveSessionDeployTarget(service.sessionId);
+    await deployApplication({
+      target,
+      apiKey,
+      applicationId: requireApplicationId(service),
+      userId,
+      sessionId: service.sessionId,
+    });
+  },
+
+  async start(service) {
+    const { client } = sessionClient(service.sessionId);
+    await client.request({
+      method: "POST",
+      path: "/application.start",
+      body: {
+        applicationId: requireApplicationId(service),
+      },
+    });
+  },
+
+  async stop(service) {
+    const { client } = sessionClient(service.sessionId);
+    await client.request({
+      method: "POST",
+      path: "/application.stop",
+      body: {
+        applicationId: requireApplicationId(service),
+      },
+    });
+  },
+
+  async delete(service) {
+    if (!service.dokployAppId) {
+      return;
+    }
+    const { client } = sessionClient(service.sessionId);
+    await client.request({
+      method: "DELETE",
+      path: "/application.delete",
+      body: {
+        applicationId: service.dokployAppId,
+      },
+    });
+  },
+
+  async getLogs(service) {
+    const { client } = sessionClient(service.sessionId);
+    const logs = await client.request<{ logs?: string }>({
+      method: "GET",
+      path: "/application.logs",
+      query: {
+        applicationId: requireApplicationId(service),
+      },
+    });
+    return logs?.logs || "";
+  },
+
+  getBuildLogs,
+
+  async getState(service) {
+    if (!service.dokployAppId) {
+      return "missing";
+    }
+    const { client } = sessionClient(service.sessionId);
+    let application: { applicationStatus?: string } | null;
+    try {
+      application = await client.request<{ applicationStatus?: string } | null>({
+        method: "GET",
+        path: "/application.one",
+        query: {
+          applicationId: service.dokployAppId,
+        },
+      });
+    } catch (error) {
+      if (error instanceof Error && error.message.includes("status 404")) {
+        return "missing";
+      }
+      throw error;
+    }
+    if (!application) {
+      return "missing";
+    }
+    return APPLICATION_STATES[application.applicationStatus ?? ""] ?? "error";
+  },
+};
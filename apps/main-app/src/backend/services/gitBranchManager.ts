@@ -1,5 +1,10 @@
 import database from "../db";
 import type { SessionSettingsRecord } from "../types/database";
+import {
+  commitAndPushWorkspace,
+  deleteRemoteBranch,
+  isGitHubRemote,
+} from "./gitOperationsService";
 
 /**
  * Git Branch Manager Service
@@ -119,8 +124,9 @@ export async function ensureBranchForSession(
       }
     }
 
-    // For auto-generated branches (session/<id>), create on GitHub
-    if (!settings.gitBranch) {
+    // For auto-generated branches (session/<id>), create on GitHub. Branches
+    // on other remotes are created by the first push from the workspace.
+    if (!settings.gitBranch && isGitHubRemote(settings.gitRemoteUrl)) {
       const token = database.getGitHubOAuthToken(userId);
       if (!token) {
         return {
@@ -378,63 +384,24 @@ async function createGitHubBranch(
 }
 
 /**
- * Pushes workspace changes to the session's Git branch.
- * This would typically:
- * 1. Stage all changes in the workspace
- * 2. Create a commit
- * 3. Push to the remote branch
- *
- * Note: This is a placeholder for future implementation.
- * Actual implementation would require:
- * - Git CLI access or a Git library (e.g., simple-git)
- * - Workspace file system access
- * - Handling Git credentials
+ * Pushes workspace changes to the session's Git branch by committing them in
+ * the workspace's working copy.
  */
 export async function pushWorkspaceToBranch(
   sessionId: string,
   userId: string,
   commitMessage?: string,
 ): Promise<{ success: boolean; error?: string }> {
-  try {
-    const settings = database.getSessionSettings(sessionId);
-    if (!settings?.gitBranch || !settings?.gitRemoteUrl) {
-      return {
-        success: false,
-        error: "Session does not have Git configuration",
-      };
-    }
-
-    const token = database.getGitHubOAuthToken(userId);
-    if (!token) {
-      return {
-        success: false,
-        error: "GitHub not connected",
-      };
-    }
-
-    // TODO: Implement actual Git operations
-    // This would require:
-    // 1. Access to the workspace directory
-    // 2. Git CLI or library integration
-    // 3. Staging, committing, and pushing changes
-
-    console.warn("pushWorkspaceToBranch: Not yet implemented");
-
-    return {
-      success: false,
-      error: "Git synchronization not yet implemented",
-    };
-  } catch (error) {
-    console.error("Error pushing workspace to branch:", error);
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : "Failed to push to branch",
-    };
-  }
+  const result = await commitAndPushWorkspace(
+    sessionId,
+    userId,
+    commitMessage || "Update workspace",
+  );
+  return result.success ? { success: true } : { success: false, error: result.error };
 }
 
 /**
- * Deletes a session's branch from GitHub if it's an auto-generated branch.
+ * Deletes a session's branch from its remote if it's an auto-generated branch.
  * User-created branches are NOT deleted.
  */
 export async function deleteSessionBranch(
@@ -452,6 +419,10 @@ export async function deleteSessionBranch(
       return { success: true }; // User branch, don't delete
     }
 
+    if (!isGitHubRemote(settings.gitRemoteUrl)) {
+      return await deleteRemoteBranch(sessionId, userId);
+    }
+
     const token = database.getGitHubOAuthToken(userId);
     if (!token) {
       return {
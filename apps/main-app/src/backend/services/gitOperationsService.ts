@@ -1,462 +1,503 @@
+import { spawn } from "child_process";
 import fs from "fs";
 import path from "path";
 import database from "../db";
-import { getWorkspaceDirectory } from "../workspaces";
-
-type GitHubTreeEntry = {
-  path: string;
-  mode: "100644" | "100755" | "040000" | "160000" | "120000";
-  type: "blob" | "tree" | "commit";
-  sha?: string;
-  content?: string;
-  url?: string;
-};
-
-type GitHubTreeResponse = {
-  sha: string;
-  url: string;
-  tree: GitHubTreeEntry[];
-  truncated: boolean;
-};
+import { ensureWorkspaceDirectory, getWorkspaceDirectory } from "../workspaces";
 
 /**
- * Recursively gets all files in a directory, excluding certain patterns
+ * Git Operations Service
+ * Keeps session workspaces as git working copies of their remote branch,
+ * driving the `git` binary. GitHub remotes authenticate with the user's OAuth
+ * token; other remotes use credentials from the URL or the server's own git
+ * configuration (SSH keys, credential helpers).
  */
-function getAllFilesInDirectory(dirPath: string, baseDir: string = dirPath): string[] {
-  const files: string[] = [];
 
-  try {
-    const entries = fs.readdirSync(dirPath, { withFileTypes: true });
+const GIT_TIMEOUT_MS = 5 * 60 * 1000;
+const TOKEN_ENV_VAR = "CODEX_WEBAPP_GIT_TOKEN";
 
-    for (const entry of entries) {
-      const fullPath = path.join(dirPath, entry.name);
-      const relativePath = path.relative(baseDir, fullPath);
+// Answers credential prompts from the environment so the token never shows
+// up in process arguments or in the repository's config.
+const TOKEN_CREDENTIAL_HELPER = `!f() { echo username=x-access-token; echo "password=$${TOKEN_ENV_VAR}"; }; f`;
 
-      // Skip hidden files/directories and common ignore patterns
-      if (entry.name.startsWith('.')) {
-        continue;
-      }
-      if (entry.name === 'node_modules' || entry.name === '__pycache__') {
-        continue;
-      }
+// App-managed files (attachments, stream logs) live under .codex/ and must
+// never be committed.
+const INTERNAL_EXCLUDES = [".codex/"];
 
-      if (entry.isDirectory()) {
-        files.push(...getAllFilesInDirectory(fullPath, baseDir));
-      } else if (entry.isFile()) {
-        files.push(relativePath);
-      }
-    }
-  } catch (error) {
-    console.error(`Error reading directory ${dirPath}:`, error);
-  }
+type RepositoryContext = {
+  workspacePath: string;
+  remoteUrl: string;
+  branch: string;
+  token: string | null;
+};
 
-  return files;
-}
+type GitResult<T extends object = object> =
+  | ({ success: true } & T)
+  | { success: false; error: string };
 
 /**
- * Clones repository contents into the workspace
+ * Whether the remote is an HTTPS GitHub URL, the only kind the user's GitHub
+ * OAuth token can authenticate.
  */
-export async function cloneRepositoryToWorkspace(
-  sessionId: string,
-  userId: string,
-): Promise<{ success: boolean; error?: string; filesCloned?: number }> {
+export function isGitHubRemote(remoteUrl: string): boolean {
   try {
-    const session = database.getSession(sessionId);
-    if (!session) {
-      return { success: false, error: 'Session not found' };
-    }
+    const url = new URL(remoteUrl);
+    return (
+      (url.protocol === "https:" || url.protocol === "http:") &&
+      url.hostname.toLowerCase() === "github.com"
+    );
+  } catch {
+    return false;
+  }
+}
 
-    const settings = database.getSessionSettings(sessionId);
-    if (!settings?.gitRemoteUrl || !settings?.gitBranch) {
-      return { success: false, error: 'Session does not have Git configuration' };
-    }
+const redactSecrets = (text: string, token: string | null): string => {
+  let redacted = text.replace(/(\w+:\/\/)[^/@\s]+@/g, "$1***@");
+  if (token) {
+    redacted = redacted.split(token).join("***");
+  }
+  return redacted;
+};
 
-    const token = database.getGitHubOAuthToken(userId);
-    if (!token) {
-      return { success: false, error: 'GitHub not connected' };
-    }
+/**
+ * Runs a git command and resolves with its stdout, trimmed unless `raw` is
+ * set. Credentials for HTTPS remotes come from `token`, which never appears
+ * in arguments or errors.
+ */
+export function runGit(
+  args: string[],
+  options: { cwd: string; token?: string | null; raw?: boolean },
+): Promise<string> {
+  const token = options.token ?? null;
+  const credentialArgs = token
+    ? ["-c", "credential.helper=", "-c", `credential.helper=${TOKEN_CREDENTIAL_HELPER}`]
+    : [];
+
+  return new Promise((resolve, reject) => {
+    const child = spawn("git", [...credentialArgs, ...args], {
+      cwd: options.cwd,
+      env: {
+        ...process.env,
+        GIT_TERMINAL_PROMPT: "0",
+        ...(token ? { [TOKEN_ENV_VAR]: token } : {}),
+      },
+      stdio: ["ignore", "pipe", "pipe"],
+      windowsHide: true,
+    });
+
+    let stdout = "";
+    let stderr = "";
+    const timer = setTimeout(() => child.kill(), GIT_TIMEOUT_MS);
+
+    child.stdout.on("data", (chunk: Buffer) => {
+      stdout += chunk.toString();
+    });
+    child.stderr.on("data", (chunk: Buffer) => {
+      stderr += chunk.toString();
+    });
+    child.on("error", (error) => {
+      clearTimeout(timer);
+      reject(new Error(`Failed to run git: ${error.message}`));
+    });
+    child.on("close", (code) => {
+      clearTimeout(timer);
+      if (code === 0) {
+        resolve(options.raw ? stdout : stdout.trim());
+        return;
+      }
+      const details = stderr.trim() || `git ${args[0]} exited with code ${code}`;
+      reject(new Error(redactSecrets(details, token)));
+    });
+  });
+}
 
-    // Parse repo owner and name from URL
-    const repoMatch = settings.gitRemoteUrl.match(
-      /github\.com[/:]([^/]+)\/([^/.]+)/,
-    );
-    if (!repoMatch) {
-      return { success: false, error: 'Invalid GitHub repository URL' };
-    }
+const git = (context: RepositoryContext, args: string[]): Promise<string> =>
+  runGit(args, { cwd: context.workspacePath, token: context.token });
 
-    const [, owner, repo] = repoMatch;
-    const repoName = repo.replace(/\.git$/, '');
-    const branch = settings.gitBranch;
+const isGitRepository = (workspacePath: string): boolean =>
+  fs.existsSync(path.join(workspacePath, ".git"));
 
-    console.log(`[clone-repo] Cloning ${owner}/${repoName}:${branch} to workspace ${sessionId}`);
+const errorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : "Unknown error";
 
-    // Get the branch ref to get the commit SHA
-    const refResponse = await fetch(
-      `https://api.github.com/repos/${owner}/${repoName}/git/refs/heads/${branch}`,
-      {
-        headers: {
-          Authorization: `Bearer ${token.accessToken}`,
-          Accept: 'application/vnd.github.v3+json',
-        },
-      },
-    );
+function resolveRepositoryContext(
+  sessionId: string,
+  userId: string,
+): GitResult<{ context: RepositoryContext }> {
+  const session = database.getSession(sessionId);
+  if (!session) {
+    return { success: false, error: "Session not found" };
+  }
+
+  const settings = database.getSessionSettings(sessionId);
+  if (!settings?.gitRemoteUrl || !settings?.gitBranch) {
+    return { success: false, error: "Session does not have Git configuration" };
+  }
 
-    if (!refResponse.ok) {
-      const errorText = await refResponse.text();
-      console.error('[clone-repo] Failed to get branch ref:', errorText);
-      return { success: false, error: `Failed to get branch: ${refResponse.status}` };
+  let token: string | null = null;
+  if (isGitHubRemote(settings.gitRemoteUrl)) {
+    const stored = database.getGitHubOAuthToken(userId);
+    if (!stored) {
+      return { success: false, error: "GitHub not connected" };
     }
+    token = stored.accessToken;
+  }
 
-    const refData = (await refResponse.json()) as {
-      object: { sha: string };
-    };
-    const commitSha = refData.object.sha;
-
-    // Get the tree for this commit (recursive to get all files)
-    const treeResponse = await fetch(
-      `https://api.github.com/repos/${owner}/${repoName}/git/trees/${commitSha}?recursive=1`,
-      {
-        headers: {
-          Authorization: `Bearer ${token.accessToken}`,
-          Accept: 'application/vnd.github.v3+json',
-        },
-      },
-    );
+  return {
+    success: true,
+    context: {
+      workspacePath: ensureWorkspaceDirectory(sessionId),
+      remoteUrl: settings.gitRemoteUrl,
+      branch: settings.gitBranch,
+      token,
+    },
+  };
+}
 
-    if (!treeResponse.ok) {
-      const errorText = await treeResponse.text();
-      console.error('[clone-repo] Failed to get tree:', errorText);
-      return { success: false, error: 'Failed to get repository tree' };
-    }
+function excludeInternalFiles(workspacePath: string): void {
+  const excludePath = path.join(workspacePath, ".git", "info", "exclude");
+  fs.mkdirSync(path.dirname(excludePath), { recursive: true });
+  const existing = fs.existsSync(excludePath)
+    ? fs.readFileSync(excludePath, "utf-8")
+    : "";
+  const lines = existing.split(/\r?\n/);
+  const missing = INTERNAL_EXCLUDES.filter((entry) => !lines.includes(entry));
+  if (missing.length > 0) {
+    const prefix = existing.length > 0 && !existing.endsWith("\n") ? "\n" : "";
+    fs.appendFileSync(excludePath, `${prefix}${missing.join("\n")}\n`);
+  }
+}
 
-    const treeData = (await treeResponse.json()) as GitHubTreeResponse;
+/**
+ * Initializes the working copy if needed and points `origin` at the
+ * session's remote.
+ */
+async function ensureRepository(context: RepositoryContext): Promise<void> {
+  if (!isGitRepository(context.workspacePath)) {
+    await git(context, ["init"]);
+  }
+  excludeInternalFiles(context.workspacePath);
+
+  const remotes = (await git(context, ["remote"])).split(/\r?\n/);
+  await git(
+    context,
+    remotes.includes("origin")
+      ? ["remote", "set-url", "origin", context.remoteUrl]
+      : ["remote", "add", "origin", context.remoteUrl],
+  );
+}
 
-    const workspacePath = getWorkspaceDirectory(sessionId);
+/** Returns the remote's default branch, or null for an empty repository. */
+async function getRemoteDefaultBranch(
+  context: RepositoryContext,
+): Promise<string | null> {
+  const output = await git(context, ["ls-remote", "--symref", "origin", "HEAD"]);
+  const match = output.match(/^ref: refs\/heads\/(\S+)\s+HEAD/m);
+  return match ? match[1] : null;
+}
 
-    // Download all blobs and write to workspace
-    let filesCloned = 0;
-    for (const item of treeData.tree) {
-      // Only process blobs (files), not trees (directories)
-      if (item.type !== 'blob') {
-        continue;
-      }
+async function remoteBranchExists(
+  context: RepositoryContext,
+  branch: string,
+): Promise<boolean> {
+  const output = await git(context, [
+    "ls-remote",
+    "--heads",
+    "origin",
+    `refs/heads/${branch}`,
+  ]);
+  return output.length > 0;
+}
 
-      // Get the blob content
-      const blobResponse = await fetch(
-        `https://api.github.com/repos/${owner}/${repoName}/git/blobs/${item.sha}`,
-        {
-          headers: {
-            Authorization: `Bearer ${token.accessToken}`,
-            Accept: 'application/vnd.github.v3+json',
-          },
-        },
-      );
-
-      if (!blobResponse.ok) {
-        console.warn(`[clone-repo] Failed to get blob for ${item.path}, skipping`);
-        continue;
-      }
+async function fetchRemoteBranch(
+  context: RepositoryContext,
+  branch: string,
+): Promise<string> {
+  await git(context, [
+    "fetch",
+    "origin",
+    `+refs/heads/${branch}:refs/remotes/origin/${branch}`,
+  ]);
+  return `origin/${branch}`;
+}
 
-      const blobData = (await blobResponse.json()) as {
-        content: string;
-        encoding: string;
-        sha: string;
-      };
+/**
+ * Puts the session branch on top of its remote counterpart, or of the
+ * remote's default branch when the session branch was not pushed yet.
+ * `checkout` replaces the working tree with the branch contents; `adopt`
+ * keeps the files on disk so they show up as changes against the branch.
+ * Returns whether the branch already exists on the remote.
+ */
+async function attachToRemoteBranch(
+  context: RepositoryContext,
+  mode: "checkout" | "adopt",
+): Promise<boolean> {
+  const exists = await remoteBranchExists(context, context.branch);
+  const baseBranch = exists
+    ? context.branch
+    : await getRemoteDefaultBranch(context);
+
+  if (!baseBranch) {
+    // Empty remote: the branch is created by the first push.
+    await git(context, ["symbolic-ref", "HEAD", `refs/heads/${context.branch}`]);
+    return false;
+  }
 
-      // Decode the content (it's base64 encoded)
-      const content = Buffer.from(blobData.content, 'base64').toString('utf-8');
+  const startPoint = await fetchRemoteBranch(context, baseBranch);
+  if (mode === "checkout") {
+    await git(context, ["checkout", "-f", "-B", context.branch, startPoint]);
+  } else {
+    await git(context, ["update-ref", `refs/heads/${context.branch}`, startPoint]);
+    await git(context, ["symbolic-ref", "HEAD", `refs/heads/${context.branch}`]);
+    await git(context, ["reset", "--mixed", "--quiet"]);
+  }
+  return exists;
+}
 
-      // Write to workspace
-      const filePath = path.join(workspacePath, item.path);
-      const fileDir = path.dirname(filePath);
+async function pushBranch(
+  context: RepositoryContext,
+  options: { force?: boolean } = {},
+): Promise<void> {
+  await git(context, [
+    "push",
+    ...(options.force ? ["--force"] : []),
+    "--set-upstream",
+    "origin",
+    `HEAD:refs/heads/${context.branch}`,
+  ]);
+}
 
-      // Ensure directory exists
-      if (!fs.existsSync(fileDir)) {
-        fs.mkdirSync(fileDir, { recursive: true });
-      }
+async function hasCommits(context: RepositoryContext): Promise<boolean> {
+  try {
+    await git(context, ["rev-parse", "--verify", "--quiet", "HEAD"]);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Clones the session's branch into its workspace. A branch that does not
+ * exist on the remote yet is created from the default branch and pushed.
+ */
+export async function cloneRepositoryToWorkspace(
+  sessionId: string,
+  userId: string,
+): Promise<{ success: boolean; error?: string; filesCloned?: number }> {
+  const resolved = resolveRepositoryContext(sessionId, userId);
+  if (!resolved.success) {
+    return resolved;
+  }
+  const { context } = resolved;
 
-      fs.writeFileSync(filePath, content, 'utf-8');
-      filesCloned++;
+  try {
+    console.log(`[clone-repo] Checking out ${context.branch} into workspace ${sessionId}`);
+    await ensureRepository(context);
+    const existed = await attachToRemoteBranch(context, "checkout");
+    if (!existed && (await hasCommits(context))) {
+      await pushBranch(context);
     }
 
-    console.log(`[clone-repo] Successfully cloned ${filesCloned} files to workspace`);
+    const trackedFiles = await git(context, ["ls-files"]);
+    const filesCloned = trackedFiles ? trackedFiles.split(/\r?\n/).length : 0;
+    console.log(`[clone-repo] Workspace ${sessionId} has ${filesCloned} tracked files`);
     return { success: true, filesCloned };
   } catch (error) {
-    console.error('Error cloning repository to workspace:', error);
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error',
-    };
+    console.error("Error cloning repository to workspace:", error);
+    return { success: false, error: errorMessage(error) };
   }
 }
 
 /**
- * Commits and pushes changes to GitHub using the API
+ * Moves a copied working copy (e.g. a forked session) onto the session's own
+ * branch, keeping its files, history and uncommitted changes, and publishes
+ * the branch.
  */
-export async function commitAndPushToGitHub(
+export async function branchWorkspaceFromCurrentState(
   sessionId: string,
   userId: string,
-  commitMessage: string,
-): Promise<{ success: boolean; error?: string; commitSha?: string }> {
-  try {
-    const session = database.getSession(sessionId);
-    if (!session) {
-      return { success: false, error: 'Session not found' };
-    }
+): Promise<{ success: boolean; error?: string }> {
+  const resolved = resolveRepositoryContext(sessionId, userId);
+  if (!resolved.success) {
+    return resolved;
+  }
+  const { context } = resolved;
 
-    const settings = database.getSessionSettings(sessionId);
-    if (!settings?.gitRemoteUrl || !settings?.gitBranch) {
-      return { success: false, error: 'Session does not have Git configuration' };
+  try {
+    if (!isGitRepository(context.workspacePath)) {
+      await ensureRepository(context);
+      await attachToRemoteBranch(context, "adopt");
+      return { success: true };
     }
 
-    const token = database.getGitHubOAuthToken(userId);
-    if (!token) {
-      return { success: false, error: 'GitHub not connected' };
+    await ensureRepository(context);
+    if (await hasCommits(context)) {
+      await git(context, ["checkout", "-B", context.branch]);
+      // The branch was just created for this session, so nothing on the
+      // remote can be lost by replacing it.
+      await pushBranch(context, { force: true });
+    } else {
+      await git(context, ["symbolic-ref", "HEAD", `refs/heads/${context.branch}`]);
     }
+    return { success: true };
+  } catch (error) {
+    console.error(`Error moving workspace ${sessionId} to its branch:`, error);
+    return { success: false, error: errorMessage(error) };
+  }
+}
 
-    // Parse repo owner and name from URL
-    const repoMatch = settings.gitRemoteUrl.match(
-      /github\.com[/:]([^/]+)\/([^/.]+)/,
-    );
-    if (!repoMatch) {
-      return { success: false, error: 'Invalid GitHub repository URL' };
-    }
+/**
+ * Whether the workspace has uncommitted changes. Workspaces that are not a
+ * working copy yet count as changed; committing adopts them.
+ */
+export async function hasWorkspaceChanges(sessionId: string): Promise<boolean> {
+  const workspacePath = getWorkspaceDirectory(sessionId);
+  if (!isGitRepository(workspacePath)) {
+    return true;
+  }
 
-    const [, owner, repo] = repoMatch;
-    const repoName = repo.replace(/\.git$/, '');
-    const branch = settings.gitBranch;
+  try {
+    excludeInternalFiles(workspacePath);
+    const status = await runGit(["status", "--porcelain"], { cwd: workspacePath });
+    return status.length > 0;
+  } catch (error) {
+    console.warn(`[git] Failed to read status of workspace ${sessionId}:`, error);
+    return true;
+  }
+}
 
-    const workspacePath = getWorkspaceDirectory(sessionId);
+const MAX_DIFF_SUMMARY_LENGTH = 8000;
 
-    // Get the current branch ref
-    const refResponse = await fetch(
-      `https://api.github.com/repos/${owner}/${repoName}/git/refs/heads/${branch}`,
-      {
-        headers: {
-          Authorization: `Bearer ${token.accessToken}`,
-          Accept: 'application/vnd.github.v3+json',
-        },
-      },
-    );
+/**
+ * Describes the uncommitted changes of a working copy (status, stats and the
+ * start of the diff), or returns null when the workspace is not a repository.
+ */
+export async function getWorkspaceDiffSummary(
+  sessionId: string,
+): Promise<string | null> {
+  const workspacePath = getWorkspaceDirectory(sessionId);
+  if (!isGitRepository(workspacePath)) {
+    return null;
+  }
 
-    if (!refResponse.ok) {
-      const errorText = await refResponse.text();
-      console.error('Failed to get branch ref:', errorText);
-      return { success: false, error: `Failed to get branch: ${refResponse.status}` };
+  try {
+    excludeInternalFiles(workspacePath);
+    await runGit(["add", "--all", "--intent-to-add"], { cwd: workspacePath });
+    const status = await runGit(["status", "--short"], { cwd: workspacePath });
+    if (!status) {
+      return null;
     }
+    const stat = await runGit(["diff", "--stat"], { cwd: workspacePath });
+    const diff = await runGit(["diff"], { cwd: workspacePath });
+    const summary = `=== git status ===\n${status}\n\n=== git diff --stat ===\n${stat}\n\n=== git diff ===\n${diff}`;
+    return summary.length > MAX_DIFF_SUMMARY_LENGTH
+      ? `${summary.slice(0, MAX_DIFF_SUMMARY_LENGTH)}\n…(diff truncated)`
+      : summary;
+  } catch (error) {
+    console.warn(`[git] Failed to summarize changes of workspace ${sessionId}:`, error);
+    return null;
+  }
+}
 
-    const refData = (await refResponse.json()) as {
-      object: { sha: string; type: string };
-    };
-    const parentCommitSha = refData.object.sha;
-
-    // Get the parent commit's tree
-    const commitResponse = await fetch(
-      `https://api.github.com/repos/${owner}/${repoName}/git/commits/${parentCommitSha}`,
-      {
-        headers: {
-          Authorization: `Bearer ${token.accessToken}`,
-          Accept: 'application/vnd.github.v3+json',
-        },
-      },
-    );
-
-    if (!commitResponse.ok) {
-      return { success: false, error: 'Failed to get parent commit' };
-    }
+const isRejectedPush = (error: unknown): boolean =>
+  /\[rejected\]|non-fast-forward|fetch first/i.test(errorMessage(error));
 
-    const commitData = (await commitResponse.json()) as {
-      tree: { sha: string };
-    };
-    const baseTreeSha = commitData.tree.sha;
-
-    // Fetch the base tree to detect deletions
-    const baseTreeResponse = await fetch(
-      `https://api.github.com/repos/${owner}/${repoName}/git/trees/${baseTreeSha}?recursive=1`,
-      {
-        headers: {
-          Authorization: `Bearer ${token.accessToken}`,
-          Accept: 'application/vnd.github.v3+json',
-        },
-      },
-    );
+/**
+ * Commits all workspace changes on the session branch and pushes them.
+ * A push rejected because the remote moved on is retried once after
+ * rebasing onto it.
+ */
+export async function commitAndPushWorkspace(
+  sessionId: string,
+  userId: string,
+  commitMessage: string,
+): Promise<{
+  success: boolean;
+  error?: string;
+  commitSha?: string;
+  noChanges?: boolean;
+}> {
+  const resolved = resolveRepositoryContext(sessionId, userId);
+  if (!resolved.success) {
+    return resolved;
+  }
+  const { context } = resolved;
+  const user = database.getUserById(userId);
+  const authorName = user?.username ?? "codex-webapp";
 
-    if (!baseTreeResponse.ok) {
-      return { success: false, error: 'Failed to get base tree' };
+  try {
+    if (!isGitRepository(context.workspacePath)) {
+      await ensureRepository(context);
+      await attachToRemoteBranch(context, "adopt");
+    } else {
+      await ensureRepository(context);
     }
 
-    const baseTreeData = (await baseTreeResponse.json()) as {
-      tree: Array<{ path: string; type: string; sha: string; mode: string }>;
-    };
-
-    // Get all files in workspace
-    const workspaceFiles = new Set(getAllFilesInDirectory(workspacePath));
-    console.log(`[auto-commit] Found ${workspaceFiles.size} files in workspace`);
-
-    // Track files in base tree
-    const baseTreeFiles = new Set(
-      baseTreeData.tree
-        .filter((entry) => entry.type === 'blob')
-        .map((entry) => entry.path)
-    );
-
-    // Create blobs and tree entries for all workspace files
-    const treeEntries: GitHubTreeEntry[] = [];
-    const failedFiles: string[] = [];
-
-    for (const file of workspaceFiles) {
-      const filePath = path.join(workspacePath, file);
-      const content = fs.readFileSync(filePath, 'utf-8');
-
-      // Create blob
-      const blobResponse = await fetch(
-        `https://api.github.com/repos/${owner}/${repoName}/git/blobs`,
-        {
-          method: 'POST',
-          headers: {
-            Authorization: `Bearer ${token.accessToken}`,
-            Accept: 'application/vnd.github.v3+json',
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            content: content,
-            encoding: 'utf-8',
-          }),
-        },
-      );
-
-      if (!blobResponse.ok) {
-        const errorText = await blobResponse.text();
-        console.error(`[auto-commit] Failed to create blob for ${file}:`, {
-          status: blobResponse.status,
-          statusText: blobResponse.statusText,
-          error: errorText,
-        });
-        failedFiles.push(file);
-        continue;
-      }
-
-      const blobData = (await blobResponse.json()) as { sha: string };
-
-      treeEntries.push({
-        path: file.replace(/\\/g, '/'), // Normalize path separators
-        mode: '100644',
-        type: 'blob',
-        sha: blobData.sha,
-      });
+    await git(context, ["add", "--all"]);
+    const staged = await git(context, ["status", "--porcelain"]);
+    if (!staged) {
+      return { success: true, noChanges: true };
     }
 
-    // Detect and mark deleted files
-    const deletedFiles: string[] = [];
-    for (const baseFile of baseTreeFiles) {
-      if (!workspaceFiles.has(baseFile)) {
-        deletedFiles.push(baseFile);
-        treeEntries.push({
-          path: baseFile.replace(/\\/g, '/'),
-          mode: '100644',
-          type: 'blob',
-          sha: null as any, // null sha marks file for deletion
-        });
+    await git(context, [
+      "-c",
+      `user.name=${authorName}`,
+      "-c",
+      `user.email=${authorName}@users.noreply.codex-webapp`,
+      "commit",
+      "--quiet",
+      "-m",
+      commitMessage,
+    ]);
+
+    try {
+      await pushBranch(context);
+    } catch (error) {
+      if (!isRejectedPush(error)) {
+        throw error;
       }
+      const upstream = await fetchRemoteBranch(context, context.branch);
+      try {
+        await git(context, ["rebase", upstream]);
+      } catch (rebaseError) {
+        await git(context, ["rebase", "--abort"]).catch(() => undefined);
+        throw new Error(
+          `The remote branch has diverged and could not be rebased automatically: ${errorMessage(rebaseError)}`,
+        );
+      }
+      await pushBranch(context);
     }
 
-    if (deletedFiles.length > 0) {
-      console.log(`[auto-commit] Detected ${deletedFiles.length} deleted files:`, deletedFiles);
-    }
-
-    if (treeEntries.length === 0) {
-      console.error(`[auto-commit] No blobs created. Failed files:`, failedFiles);
-      return { success: false, error: `Failed to create blobs for files: ${failedFiles.join(', ')}` };
-    }
-
-    if (failedFiles.length > 0) {
-      console.warn(`[auto-commit] Some files failed to create blobs:`, failedFiles);
-    }
-
-    console.log(`[auto-commit] Created ${treeEntries.length} tree entries for commit`);
-
-    // Create a new tree
-    const treeResponse = await fetch(
-      `https://api.github.com/repos/${owner}/${repoName}/git/trees`,
-      {
-        method: 'POST',
-        headers: {
-          Authorization: `Bearer ${token.accessToken}`,
-          Accept: 'application/vnd.github.v3+json',
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          base_tree: baseTreeSha,
-          tree: treeEntries,
-        }),
-      },
-    );
-
-    if (!treeResponse.ok) {
-      const errorText = await treeResponse.text();
-      console.error('Failed to create tree:', errorText);
-      return { success: false, error: 'Failed to create tree' };
-    }
-
-    const treeData = (await treeResponse.json()) as { sha: string };
-
-    // Create a commit
-    const newCommitResponse = await fetch(
-      `https://api.github.com/repos/${owner}/${repoName}/git/commits`,
-      {
-        method: 'POST',
-        headers: {
-          Authorization: `Bearer ${token.accessToken}`,
-          Accept: 'application/vnd.github.v3+json',
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          message: commitMessage,
-          tree: treeData.sha,
-          parents: [parentCommitSha],
-        }),
-      },
-    );
-
-    if (!newCommitResponse.ok) {
-      const errorText = await newCommitResponse.text();
-      console.error('Failed to create commit:', errorText);
-      return { success: false, error: 'Failed to create commit' };
-    }
+    const commitSha = await git(context, ["rev-parse", "HEAD"]);
+    console.log(`Successfully committed and pushed to ${context.branch} - ${commitSha}`);
+    return { success: true, commitSha };
+  } catch (error) {
+    console.error("Error committing and pushing workspace:", error);
+    return { success: false, error: errorMessage(error) };
+  }
+}
 
-    const newCommitData = (await newCommitResponse.json()) as { sha: string };
-    const newCommitSha = newCommitData.sha;
-
-    // Update the branch reference
-    const updateRefResponse = await fetch(
-      `https://api.github.com/repos/${owner}/${repoName}/git/refs/heads/${branch}`,
-      {
-        method: 'PATCH',
-        headers: {
-          Authorization: `Bearer ${token.accessToken}`,
-          Accept: 'application/vnd.github.v3+json',
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          sha: newCommitSha,
-          force: false,
-        }),
-      },
-    );
+/**
+ * Deletes a branch from the session's remote using its working copy. Used
+ * for remotes that are not managed through the GitHub API.
+ */
+export async function deleteRemoteBranch(
+  sessionId: string,
+  userId: string,
+): Promise<{ success: boolean; error?: string }> {
+  const resolved = resolveRepositoryContext(sessionId, userId);
+  if (!resolved.success) {
+    return resolved;
+  }
+  const { context } = resolved;
 
-    if (!updateRefResponse.ok) {
-      const errorText = await updateRefResponse.text();
-      console.error('Failed to update branch:', errorText);
-      return { success: false, error: 'Failed to push commit' };
+  try {
+    await ensureRepository(context);
+    if (await remoteBranchExists(context, context.branch)) {
+      await git(context, ["push", "origin", "--delete", context.branch]);
     }
-
-    console.log(`Successfully committed and pushed to ${owner}/${repoName}:${branch} - ${newCommitSha}`);
-    return { success: true, commitSha: newCommitSha };
+    return { success: true };
   } catch (error) {
-    console.error('Error committing and pushing to GitHub:', error);
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error',
-    };
+    console.error(`Error deleting remote branch of session ${sessionId}:`, error);
+    return { success: false, error: errorMessage(error) };
   }
 }
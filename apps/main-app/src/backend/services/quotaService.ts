@@ -0,0 +1,137 @@
+import database from "../db";
+import type { UserQuotaLimits, UserQuotaUsage } from "../types/database";
+
+/**
+ * Quota Service
+ * Per-user limits on agent turns, so a single user cannot exhaust the API
+ * budget shared through the server's provider keys.
+ */
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export type QuotaLimit = keyof UserQuotaLimits;
+
+export type QuotaViolation = {
+  limit: QuotaLimit;
+  error: string;
+  /** Seconds until the limit may allow a new turn; null when unknown. */
+  retryAfterSeconds: number | null;
+};
+
+export type UserQuotaStatus = {
+  limits: UserQuotaLimits;
+  usage: UserQuotaUsage;
+};
+
+const UNLIMITED: UserQuotaLimits = {
+  turnsPerHour: null,
+  tokensPerDay: null,
+  concurrentTurns: null,
+};
+
+export function getUserQuotaStatus(
+  userId: string,
+  now: number = Date.now(),
+): UserQuotaStatus {
+  const quota = database.getUserQuota(userId);
+  const usage = database.getUserQuotaUsage(userId, {
+    hourSince: new Date(now - HOUR_MS).toISOString(),
+    daySince: new Date(now - DAY_MS).toISOString(),
+  });
+
+  return {
+    limits: quota
+      ? {
+          turnsPerHour: quota.turnsPerHour,
+          tokensPerDay: quota.tokensPerDay,
+          concurrentTurns: quota.concurrentTurns,
+        }
+      : UNLIMITED,
+    usage,
+  };
+}
+
+export function updateUserQuota(
+  userId: string,
+  limits: UserQuotaLimits,
+): UserQuotaStatus {
+  database.upsertUserQuota({ userId, ...limits });
+  return getUserQuotaStatus(userId);
+}
+
+const secondsUntil = (
+  since: string | null,
+  windowMs: number,
+  now: number,
+): number | null => {
+  if (!since) {
+    return null;
+  }
+  const expiresAt = Date.parse(since) + windowMs;
+  return Number.isNaN(expiresAt)
+    ? null
+    : Math.max(1, Math.ceil((expiresAt - now) / 1000));
+};
+
+const describeWait = (seconds: number | null): string => {
+  if (seconds === null) {
+    return "Try again later.";
+  }
+  const minutes = Math.ceil(seconds / 60);
+  if (minutes < 90) {
+    return `Try again in ${minutes} minute${minutes === 1 ? "" : "s"}.`;
+  }
+  const hours = Math.ceil(minutes / 60);
+  return `Try again in ${hours} hours.`;
+};
+
+/**
+ * Checks whether the user may send another message. `startsTurn` is false for
+ * messages that will be queued behind a running turn, which do not count
+ * against the concurrency limit. `fromQueue` is set when a queued message is
+ * about to start, so it is not counted twice against the hourly limit.
+ */
+export function checkTurnQuota(
+  userId: string,
+  options: { startsTurn: boolean; fromQueue?: boolean },
+): QuotaViolation | null {
+  const now = Date.now();
+  const { limits, usage } = getUserQuotaStatus(userId, now);
+
+  if (
+    options.startsTurn &&
+    limits.concurrentTurns !== null &&
+    usage.runningTurns >= limits.concurrentTurns
+  ) {
+    return {
+      limit: "concurrentTurns",
+      error: `You already have ${usage.runningTurns} agent turns running, the most allowed at once. Wait for one to finish or stop it.`,
+      retryAfterSeconds: null,
+    };
+  }
+
+  if (
+    limits.turnsPerHour !== null &&
+    usage.turnsLastHour + usage.queuedMessages - (options.fromQueue ? 1 : 0) >=
+      limits.turnsPerHour
+  ) {
+    const retryAfterSeconds = secondsUntil(usage.oldestTurnInHourAt, HOUR_MS, now);
+    return {
+      limit: "turnsPerHour",
+      error: `You have reached your limit of ${limits.turnsPerHour} agent turns per hour. ${describeWait(retryAfterSeconds)}`,
+      retryAfterSeconds,
+    };
+  }
+
+  if (limits.tokensPerDay !== null && usage.tokensLastDay >= limits.tokensPerDay) {
+    const retryAfterSeconds = secondsUntil(usage.oldestUsageInDayAt, DAY_MS, now);
+    return {
+      limit: "tokensPerDay",
+      error: `You have used your limit of ${limits.tokensPerDay.toLocaleString("en-US")} tokens for the last 24 hours. ${describeWait(retryAfterSeconds)}`,
+      retryAfterSeconds,
+    };
+  }
+
+  return null;
+}
@@ -0,0 +1,62 @@
+import database from "../db";
+import type { SearchResultRecord } from "../types/database";
+
+/**
+ * Search Service
+ * Turns free-form user input into FTS5 queries over the caller's sessions.
+ */
+
+export const MAX_SEARCH_RESULTS = 50;
+
+/**
+ * Quotes every term so user input is never parsed as FTS5 syntax; the last
+ * term matches as a prefix to support search-as-you-type.
+ */
+const toMatchExpression = (query: string): string | null => {
+  const terms = query
+    .split(/\s+/)
+    .filter((term) => term.length > 0)
+    .map((term) => `"${term.replace(/"/g, '""')}"`);
+
+  if (terms.length === 0) {
+    return null;
+  }
+
+  terms[terms.length - 1] = `${terms[terms.length - 1]}*`;
+  return terms.join(" ");
+};
+
+/**
+ * Returns the best matches for `query`, at most one per message (or per
+ * session for title matches).
+ */
+export function searchUserContent(
+  userId: string,
+  query: string,
+  limit = MAX_SEARCH_RESULTS,
+): SearchResultRecord[] {
+  const expression = toMatchExpression(query);
+  if (!expression) {
+    return [];
+  }
+
+  // A message can match on its content and on several run items; fetch extra
+  // rows so deduplication still fills the page.
+  const rows = database.searchContent(userId, expression, limit * 4);
+  const seen = new Set<string>();
+  const results: SearchResultRecord[] = [];
+
+  for (const row of rows) {
+    const key = row.messageId ?? `session:${row.sessionId}`;
+    if (seen.has(key)) {
+      continue;
+    }
+    seen.add(key);
+    results.push(row);
+    if (results.length >= limit) {
+      break;
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,93 @@
+import database from "../db";
+import type {
+  SessionServiceBackendKind,
+  SessionServiceBackendSettings,
+} from "../../shared/dokploy";
+import type { SessionServiceRecord, SessionSettingsRecord } from "../types/database";
+import { dockerServiceBackend } from "./dockerServiceBackend";
+import { dokployServiceBackend } from "./dokployServiceBackend";
+
+/**
+ * Service Backend
+ * What a session service runs on. The service manager only talks to this
+ * interface; each service remembers the backend it was created on, and the
+ * admin picks the one new services use.
+ */
+
+export type CreateBackendServiceOptions = {
+  sessionId: string;
+  userId: string;
+  settings: SessionSettingsRecord;
+  env: Record<string, string>;
+};
+
+export type CreatedBackendService = {
+  serviceUrl: string;
+  dokployAppId?: string | null;
+  containerId?: string | null;
+};
+
+/** What the backend reports about a service, "missing" when it is gone. */
+export type BackendServiceState = "creating" | "running" | "stopped" | "error" | "missing";
+
+export type BuildLogs = { logs: string; status: string; deploymentId?: string };
+
+export interface SessionServiceBackend {
+  readonly kind: SessionServiceBackendKind;
+  readonly label: string;
+  /** Resolves to why the backend cannot be used, or null. */
+  checkAvailable(): Promise<string | null>;
+  /** Throws when a service for the session cannot be created. */
+  assertCanCreate(sessionId: string): void;
+  create(options: CreateBackendServiceOptions): Promise<CreatedBackendService>;
+  /** Builds and starts a service after its record was stored, if that is a separate step. */
+  deploy?(service: SessionServiceRecord, userId: string): Promise<void>;
+  /** Resolves to the new service URL when it changed. */
+  start(service: SessionServiceRecord): Promise<string | void>;
+  stop(service: SessionServiceRecord): Promise<void>;
+  delete(service: SessionServiceRecord): Promise<void>;
+  getLogs(service: SessionServiceRecord): Promise<string>;
+  getBuildLogs(service: SessionServiceRecord, deploymentId?: string): Promise<BuildLogs>;
+  getState(service: SessionServiceRecord): Promise<BackendServiceState>;
+}
+
+const SETTING_KEY = "session_service_backend";
+
+const backends: Record<SessionServiceBackendKind, SessionServiceBackend> = {
+  dokploy: dokployServiceBackend,
+  docker: dockerServiceBackend,
+};
+
+const isBackendKind = (value: string | null | undefined): value is SessionServiceBackendKind =>
+  value === "dokploy" || value === "docker";
+
+export const getServiceBackend = (kind: SessionServiceBackendKind): SessionServiceBackend =>
+  backends[kind];
+
+/**
+ * Backend new services are created on: the admin setting, else
+ * SESSION_SERVICE_BACKEND, else Dokploy.
+ */
+export const getDefaultServiceBackendKind = (): SessionServiceBackendKind => {
+  const stored = database.getAppSetting(SETTING_KEY);
+  if (isBackendKind(stored)) {
+    return stored;
+  }
+  const fromEnv = process.env.SESSION_SERVICE_BACKEND;
+  return isBackendKind(fromEnv) ? fromEnv : "dokploy";
+};
+
+export const setDefaultServiceBackendKind = (kind: SessionServiceBackendKind): void => {
+  database.setAppSetting(SETTING_KEY, kind);
+};
+
+export async function getServiceBackendSettings(): Promise<SessionServiceBackendSettings> {
+  const options = await Promise.all(
+    Object.values(backends).map(async (backend) => ({
+      kind: backend.kind,
+      label: backend.label,
+      unavailableReason: await backend.checkAvailable(),
+    })),
+  );
+  return { backend: getDefaultServiceBackendKind(), backends: options };
+}
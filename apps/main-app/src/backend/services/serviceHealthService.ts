@@ -0,0 +1,224 @@
+import database from "../db";
+import type { SessionServiceRecord } from "../types/database";
+import { inspectService, isServiceBusy, restartService } from "./serviceManager";
+
+/**
+ * Service Health Service
+ * Reconciles the stored status of session services with reality. Each
+ * running service is asked about through its backend and the container-app's
+ * /health route; services that crashed are marked as failed and restarted,
+ * waiting longer after every restart, until the restart limit is reached.
+ * Services that are being started or stopped, e.g. by the idle monitor, are
+ * left alone.
+ */
+
+const readLimit = (name: string, fallback: number): number => {
+  const raw = Number.parseInt(process.env[name] ?? "", 10);
+  return Number.isFinite(raw) && raw >= 0 ? raw : fallback;
+};
+
+// 0 disables the checks
+const checkIntervalSeconds = readLimit("SESSION_SERVICE_HEALTH_CHECK_SECONDS", 60);
+const maxRestarts = readLimit("SESSION_SERVICE_MAX_RESTARTS", 5);
+const restartBackoffSeconds = readLimit("SESSION_SERVICE_RESTART_BACKOFF_SECONDS", 30);
+
+const MAX_BACKOFF_MS = 30 * 60 * 1000;
+const HEALTH_TIMEOUT_MS = 5000;
+// A (re)started service gets this long to come up before /health counts
+const STARTUP_GRACE_MS = 2 * 60 * 1000;
+// Failed checks in a row before a service counts as crashed
+const FAILURE_THRESHOLD = 2;
+// Healthy this long after a restart and the restart count starts over
+const RESTART_RESET_MS = 15 * 60 * 1000;
+
+const consecutiveFailures = new Map<string, number>();
+
+type CheckResult = { healthy: true } | { healthy: false; reason: string; restartable: boolean };
+
+const checkHealthRoute = async (serviceUrl: string): Promise<string | null> => {
+  try {
+    const response = await fetch(`${serviceUrl.replace(/\/$/, "")}/health`, {
+      headers: { accept: "application/json" },
+      signal: AbortSignal.timeout(HEALTH_TIMEOUT_MS),
+    });
+    return response.ok ? null : `Health check returned ${response.status}`;
+  } catch (error) {
+    return `Health check failed: ${error instanceof Error ? error.message : "unknown error"}`;
+  }
+};
+
+const checkService = async (service: SessionServiceRecord): Promise<CheckResult | null> => {
+  const state = await inspectService(service.sessionId);
+  switch (state) {
+    case "creating":
+      // Still building or booting; nothing to judge yet
+      return null;
+    case "missing":
+      return {
+        healthy: false,
+        reason: "The service no longer exists on its backend.",
+        restartable: false,
+      };
+    case "stopped":
+      return { healthy: false, reason: "The service stopped unexpectedly.", restartable: true };
+    case "error":
+      return { healthy: false, reason: "The service crashed.", restartable: true };
+    case "running":
+      break;
+  }
+
+  const startedAt = Date.parse(service.lastRestartAt ?? service.updatedAt);
+  if (!service.serviceUrl || Date.now() - startedAt < STARTUP_GRACE_MS) {
+    return { healthy: true };
+  }
+  const failure = await checkHealthRoute(service.serviceUrl);
+  return failure ? { healthy: false, reason: failure, restartable: true } : { healthy: true };
+};
+
+const backoffMs = (restartCount: number): number =>
+  Math.min(restartBackoffSeconds * 1000 * 2 ** Math.max(restartCount - 1, 0), MAX_BACKOFF_MS);
+
+const markFailed = (service: SessionServiceRecord, errorMessage: string): void => {
+  database.upsertSessionService({
+    sessionId: service.sessionId,
+    dokployAppId: service.dokployAppId,
+    serviceUrl: service.serviceUrl,
+    status: "error",
+    errorMessage,
+  });
+};
+
+const isMonitored = (service: SessionServiceRecord | null): service is SessionServiceRecord =>
+  service !== null &&
+  (service.status === "running" || service.status === "error") &&
+  !isServiceBusy(service.sessionId);
+
+async function reconcileService(sessionId: string, now: number): Promise<void> {
+  const service = database.getSessionService(sessionId);
+  if (!isMonitored(service)) {
+    return;
+  }
+
+  const result = await checkService(service);
+  // A service stopped while it was checked looks crashed
+  const current = database.getSessionService(sessionId);
+  if (!result || !isMonitored(current) || current.status !== service.status) {
+    return;
+  }
+  const checkedAt = new Date(now).toISOString();
+
+  if (result.healthy) {
+    consecutiveFailures.delete(sessionId);
+    const stable =
+      !service.lastRestartAt || now - Date.parse(service.lastRestartAt) >= RESTART_RESET_MS;
+    database.updateSessionServiceHealth(sessionId, {
+      health: "healthy",
+      checkedAt,
+      restartCount: stable ? 0 : service.restartCount,
+      lastRestartAt: stable ? null : service.lastRestartAt,
+    });
+    if (service.status === "error") {
+      database.upsertSessionService({
+        sessionId,
+        dokployAppId: service.dokployAppId,
+        serviceUrl: service.serviceUrl,
+        status: "running",
+        errorMessage: null,
+      });
+    }
+    return;
+  }
+
+  const failures = (consecutiveFailures.get(sessionId) ?? 0) + 1;
+  consecutiveFailures.set(sessionId, failures);
+  database.updateSessionServiceHealth(sessionId, {
+    health: "unhealthy",
+    checkedAt,
+    restartCount: service.restartCount,
+    lastRestartAt: service.lastRestartAt,
+  });
+  if (failures < FAILURE_THRESHOLD && result.restartable) {
+    return;
+  }
+
+  if (!result.restartable) {
+    markFailed(service, result.reason);
+    return;
+  }
+  if (service.restartCount >= maxRestarts) {
+    markFailed(
+      service,
+      `${result.reason} Gave up after ${service.restartCount} automatic restarts.`,
+    );
+    return;
+  }
+
+  const lastRestartAt = service.lastRestartAt ? Date.parse(service.lastRestartAt) : 0;
+  if (now - lastRestartAt < backoffMs(service.restartCount)) {
+    markFailed(service, `${result.reason} Restarting soon.`);
+    return;
+  }
+
+  console.warn(
+    `[codex-webapp] Restarting service of session ${sessionId} (${service.restartCount + 1}/${maxRestarts}): ${result.reason}`,
+  );
+  let restarted = true;
+  try {
+    if (!(await restartService(sessionId))) {
+      // Stopped or deleted before the restart got its turn
+      consecutiveFailures.delete(sessionId);
+      return;
+    }
+  } catch (error) {
+    restarted = false;
+    markFailed(
+      service,
+      `${result.reason} Restart failed: ${error instanceof Error ? error.message : "unknown error"}`,
+    );
+  }
+  consecutiveFailures.delete(sessionId);
+  database.updateSessionServiceHealth(sessionId, {
+    health: restarted ? null : "unhealthy",
+    checkedAt,
+    restartCount: service.restartCount + 1,
+    lastRestartAt: checkedAt,
+  });
+}
+
+export async function reconcileServices(): Promise<void> {
+  const now = Date.now();
+  for (const sessionId of database.listMonitoredSessionServices()) {
+    try {
+      await reconcileService(sessionId, now);
+    } catch (error) {
+      console.warn(
+        `[codex-webapp] Health check of session ${sessionId} failed:`,
+        error instanceof Error ? error.message : error,
+      );
+    }
+  }
+}
+
+export function startServiceHealthMonitor(): void {
+  if (checkIntervalSeconds <= 0) {
+    return;
+  }
+
+  let checking = false;
+  const check = () => {
+    if (checking) {
+      return;
+    }
+    checking = true;
+    reconcileServices()
+      .catch((error) => {
+        console.warn("[codex-webapp] Service health check failed:", error);
+      })
+      .finally(() => {
+        checking = false;
+      });
+  };
+
+  const timer = setInterval(check, checkIntervalSeconds * 1000);
+  timer.unref?.();
+}
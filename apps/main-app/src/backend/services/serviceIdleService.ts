@@ -0,0 +1,119 @@
+import database from "../db";
+import { startService, stopService } from "./serviceManager";
+
+/**
+ * Service Idle Service
+ * Stops session services nobody used for a while and starts them again when
+ * the session is opened. Activity is recorded from messages, websocket
+ * traffic and the open session in the browser.
+ */
+
+const readMinutes = (name: string, fallback: number): number => {
+  const raw = Number.parseInt(process.env[name] ?? "", 10);
+  return Number.isFinite(raw) && raw >= 0 ? raw : fallback;
+};
+
+// 0 disables the idle stop
+const idleMinutes = readMinutes("SESSION_SERVICE_IDLE_MINUTES", 120);
+const checkIntervalMinutes = readMinutes("SESSION_SERVICE_IDLE_CHECK_MINUTES", 5);
+
+// Activity is written at most this often per session
+const ACTIVITY_WRITE_INTERVAL_MS = 60 * 1000;
+
+const lastRecorded = new Map<string, number>();
+const waking = new Map<string, Promise<boolean>>();
+
+export function recordServiceActivity(sessionId: string): void {
+  const now = Date.now();
+  const previous = lastRecorded.get(sessionId);
+  if (previous !== undefined && now - previous < ACTIVITY_WRITE_INTERVAL_MS) {
+    return;
+  }
+  lastRecorded.set(sessionId, now);
+  try {
+    database.touchSessionService(sessionId, new Date(now).toISOString());
+  } catch (error) {
+    console.warn(
+      `[codex-webapp] Unable to record activity for session ${sessionId}:`,
+      error instanceof Error ? error.message : error,
+    );
+  }
+}
+
+/**
+ * Starts the session's service again if it was stopped for being idle.
+ * Resolves to whether it was started. Services stopped by hand stay stopped.
+ */
+export function wakeIdleService(sessionId: string): Promise<boolean> {
+  const pending = waking.get(sessionId);
+  if (pending) {
+    return pending;
+  }
+
+  const wake = (async () => {
+    const service = database.getSessionService(sessionId);
+    if (!service || service.status !== "stopped" || service.stoppedReason !== "idle") {
+      return false;
+    }
+    await startService(sessionId);
+    console.log(`[codex-webapp] Started idle service of session ${sessionId} again`);
+    return true;
+  })().finally(() => {
+    waking.delete(sessionId);
+  });
+
+  waking.set(sessionId, wake);
+  return wake;
+}
+
+export async function stopIdleServices(): Promise<string[]> {
+  if (idleMinutes <= 0) {
+    return [];
+  }
+
+  const cutoff = new Date(Date.now() - idleMinutes * 60 * 1000).toISOString();
+  const stopped: string[] = [];
+  for (const sessionId of database.listIdleSessionServices(cutoff)) {
+    try {
+      await stopService(sessionId, "idle");
+      stopped.push(sessionId);
+    } catch (error) {
+      console.warn(
+        `[codex-webapp] Unable to stop idle service of session ${sessionId}:`,
+        error instanceof Error ? error.message : error,
+      );
+    }
+  }
+  return stopped;
+}
+
+export function startIdleServiceMonitor(): void {
+  if (idleMinutes <= 0 || checkIntervalMinutes <= 0) {
+    return;
+  }
+
+  let checking = false;
+  const check = () => {
+    if (checking) {
+      return;
+    }
+    checking = true;
+    stopIdleServices()
+      .then((stopped) => {
+        if (stopped.length > 0) {
+          console.log(
+            `[codex-webapp] Stopped ${stopped.length} session service(s) idle for ${idleMinutes} minutes`,
+          );
+        }
+      })
+      .catch((error) => {
+        console.warn("[codex-webapp] Idle service check failed:", error);
+      })
+      .finally(() => {
+        checking = false;
+      });
+  };
+
+  const timer = setInterval(check, checkIntervalMinutes * 60 * 1000);
+  timer.unref?.();
+}
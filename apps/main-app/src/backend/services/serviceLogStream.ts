@@ -0,0 +1,199 @@
+import type {
+  ServiceLogLevel,
+  ServiceLogLine,
+  ServiceLogQuery,
+} from "../../shared/dokploy";
+import { getDeploymentLogs, getServiceLogs } from "./serviceManager";
+
+/**
+ * Service Log Stream
+ * Tails the logs of a session service. Backends only hand out complete
+ * snapshots, so they are polled and each new snapshot is compared with the
+ * previous one to find the lines that were appended.
+ */
+
+const POLL_INTERVAL_MS = 2000;
+const MAX_TAIL_LINES = 5000;
+const MAX_PATTERN_LENGTH = 200;
+
+// Earliest keyword wins, so "INFO: 0 errors" counts as info
+const LEVEL_PATTERN =
+  /\b(?:(?<error>error|err|fatal|panic|critical|crit|exception)|(?<warn>warn|warning)|(?<info>info|notice)|(?<debug>debug|trace|verbose))\b/i;
+
+export const detectLogLevel = (line: string): ServiceLogLevel | null => {
+  const groups = LEVEL_PATTERN.exec(line)?.groups;
+  if (!groups) {
+    return null;
+  }
+  const level = (["error", "warn", "info", "debug"] as const).find((name) => groups[name]);
+  return level ?? null;
+};
+
+/**
+ * Builds the line filter of a query. The pattern is matched as plain text;
+ * running user-supplied regular expressions on the server on every poll
+ * would let one pattern stall it. Throws when the pattern is too long.
+ */
+export const createLogFilter = (
+  query: Pick<ServiceLogQuery, "levels" | "pattern" | "ignoreCase">,
+): ((line: ServiceLogLine) => boolean) => {
+  const levels = query.levels && query.levels.length > 0 ? new Set(query.levels) : null;
+  if (query.pattern && query.pattern.length > MAX_PATTERN_LENGTH) {
+    throw new Error(`Filter pattern must be at most ${MAX_PATTERN_LENGTH} characters.`);
+  }
+  const ignoreCase = query.ignoreCase ?? false;
+  const pattern = query.pattern
+    ? ignoreCase
+      ? query.pattern.toLowerCase()
+      : query.pattern
+    : null;
+
+  return (line) =>
+    (!levels || (line.level !== null && levels.has(line.level))) &&
+    (!pattern || (ignoreCase ? line.text.toLowerCase() : line.text).includes(pattern));
+};
+
+const splitLines = (text: string): string[] => {
+  const lines = text.replace(/\r\n/g, "\n").split("\n");
+  if (lines[lines.length - 1] === "") {
+    lines.pop();
+  }
+  return lines;
+};
+
+type LogCursor = {
+  /** Number of lines in the previous snapshot. */
+  count: number;
+  /** Its last lines, at most MAX_TAIL_LINES. */
+  lines: string[];
+};
+
+/**
+ * Number of lines at the start of `next` that were already sent. Usually the
+ * log only grew, so the previous line count is where the new lines begin.
+ * When the previous lines are no longer there (a backend that returns only
+ * the last lines, or a truncated or rotated log), the longest end of the
+ * previous snapshot that `next` starts with counts as sent; without one all
+ * of `next` is new.
+ */
+const countSentLines = (previous: LogCursor, next: string[]): number => {
+  const { count, lines } = previous;
+  const offset = count - lines.length;
+  if (next.length >= count && lines.every((line, index) => next[offset + index] === line)) {
+    return count;
+  }
+
+  for (let start = 0; start < lines.length; start += 1) {
+    const overlap = lines.length - start;
+    if (overlap > next.length) {
+      continue;
+    }
+    let matches = true;
+    for (let index = 0; index < overlap; index += 1) {
+      if (next[index] !== lines[start + index]) {
+        matches = false;
+        break;
+      }
+    }
+    if (matches) {
+      return overlap;
+    }
+  }
+  return 0;
+};
+
+const toLogLines = (lines: string[]): ServiceLogLine[] =>
+  lines.map((text) => ({ text, level: detectLogLevel(text) }));
+
+type LogSnapshot = {
+  lines: ServiceLogLine[];
+  /** Set once a deployment log can no longer grow. */
+  finished: boolean;
+};
+
+export async function readServiceLogSnapshot(options: {
+  sessionId: string;
+  source: ServiceLogQuery["source"];
+}): Promise<LogSnapshot> {
+  const { sessionId } = options;
+  if (options.source === "deployment") {
+    const result = await getDeploymentLogs(sessionId);
+    return {
+      lines: toLogLines(splitLines(result.logs)),
+      finished: result.status === "done" || result.status === "error" || result.status === "none",
+    };
+  }
+  const logs = await getServiceLogs(sessionId);
+  return { lines: toLogLines(splitLines(logs)), finished: false };
+}
+
+/**
+ * Sends the last `tail` matching lines, then, when following, the lines that
+ * appear later. Returns the function that stops following.
+ */
+export function streamServiceLogs(options: {
+  sessionId: string;
+  query: ServiceLogQuery;
+  onLines: (lines: ServiceLogLine[]) => void;
+  onEnd: (reason: "complete" | "finished") => void;
+  onError: (message: string) => void;
+}): () => void {
+  const { query } = options;
+  const filter = createLogFilter(query);
+  const tail = Math.min(Math.max(query.tail ?? 200, 0), MAX_TAIL_LINES);
+  let previous: LogCursor = { count: 0, lines: [] };
+  let stopped = false;
+  let timer: NodeJS.Timeout | null = null;
+  let first = true;
+
+  const poll = async () => {
+    try {
+      const snapshot = await readServiceLogSnapshot({ ...options, source: query.source });
+      if (stopped) {
+        return;
+      }
+
+      const texts = snapshot.lines.map((line) => line.text);
+      const added = first ? snapshot.lines : snapshot.lines.slice(countSentLines(previous, texts));
+      previous = { count: texts.length, lines: texts.slice(-MAX_TAIL_LINES) };
+
+      let matching = added.filter(filter);
+      if (first) {
+        matching = tail > 0 ? matching.slice(-tail) : [];
+        first = false;
+      }
+      if (matching.length > 0) {
+        options.onLines(matching);
+      }
+
+      if (!query.follow) {
+        options.onEnd("complete");
+        return;
+      }
+      if (snapshot.finished) {
+        options.onEnd("finished");
+        return;
+      }
+    } catch (error) {
+      if (stopped) {
+        return;
+      }
+      options.onError(error instanceof Error ? error.message : "Unable to read logs.");
+      if (!query.follow) {
+        options.onEnd("complete");
+        return;
+      }
+    }
+
+    timer = setTimeout(() => void poll(), POLL_INTERVAL_MS);
+  };
+
+  void poll();
+
+  return () => {
+    stopped = true;
+    if (timer) {
+      clearTimeout(timer);
+    }
+  };
+}
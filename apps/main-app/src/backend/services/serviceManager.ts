@@ -1,15 +1,18 @@
 import database from "../db";
-import { createDokployClient } from "./dokployClient";
-import type { DeployConfig } from "../../shared/dokploy";
-import type { SessionSettingsRecord } from "../types/database";
+import type { SessionServiceRecord, SessionSettingsRecord } from "../types/database";
 import { generateSessionToken } from "./sessionTokenService";
+import { getSessionSecretEnv } from "./sessionSecretService";
+import {
+  getDefaultServiceBackendKind,
+  getServiceBackend,
+  type BackendServiceState,
+  type BuildLogs,
+} from "./serviceBackend";
 
 type CreateServiceOptions = {
   sessionId: string;
   settings: SessionSettingsRecord;
   userId: string;
-  globalConfig: DeployConfig;
-  apiKey: string;
   authEnvVars: Record<string, string>;
 };
 
@@ -17,15 +20,81 @@ type ServiceStatus = {
   status: "creating" | "running" | "stopped" | "error";
   url?: string;
   error?: string;
+  stoppedReason?: "manual" | "idle";
+  backend?: SessionServiceRecord["backend"];
+  health?: "healthy" | "unhealthy";
+  healthCheckedAt?: string;
+  restartCount?: number;
 };
 
+const requireService = (sessionId: string): SessionServiceRecord => {
+  const service = database.getSessionService(sessionId);
+  if (!service || (!service.dokployAppId && !service.containerId)) {
+    throw new Error("Service not found");
+  }
+  return service;
+};
+
+const backendOf = (service: SessionServiceRecord) => getServiceBackend(service.backend);
+
+// A service started by hand gets a fresh set of automatic restarts
+const resetServiceHealth = (sessionId: string) =>
+  database.updateSessionServiceHealth(sessionId, {
+    health: null,
+    checkedAt: null,
+    restartCount: 0,
+    lastRestartAt: null,
+  });
+
+// Start, stop and delete of one service run one after another, so the idle
+// and health monitors never act on a service another operation is changing
+const serviceOperations = new Map<string, Promise<unknown>>();
+
+const runExclusive = <T>(sessionId: string, operation: () => Promise<T>): Promise<T> => {
+  const previous = serviceOperations.get(sessionId) ?? Promise.resolve();
+  const run = previous.then(operation, operation);
+  const settled = run.catch(() => undefined);
+  serviceOperations.set(sessionId, settled);
+  void settled.then(() => {
+    if (serviceOperations.get(sessionId) === settled) {
+      serviceOperations.delete(sessionId);
+    }
+  });
+  return run;
+};
+
+/** Whether a start, stop or delete of the session's service is under way. */
+export const isServiceBusy = (sessionId: string): boolean => serviceOperations.has(sessionId);
+
+const startExisting = async (service: SessionServiceRecord): Promise<void> => {
+  const serviceUrl = await backendOf(service).start(service);
+
+  database.upsertSessionService({
+    sessionId: service.sessionId,
+    dokployAppId: service.dokployAppId,
+    serviceUrl: serviceUrl || service.serviceUrl,
+    status: "running",
+    errorMessage: null,
+  });
+};
+
+/**
+ * Throws when a service for the session cannot be created on the current
+ * backend, e.g. because no deployment target is configured
+ */
+export function assertCanCreateService(sessionId: string): void {
+  getServiceBackend(getDefaultServiceBackendKind()).assertCanCreate(sessionId);
+}
+
 /**
- * Creates a new Dokploy application service for a session
+ * Creates a new service for a session on the backend selected in the admin
+ * settings
  */
 export async function createService(
   options: CreateServiceOptions,
 ): Promise<void> {
-  const { sessionId, settings, userId, globalConfig, apiKey, authEnvVars } = options;
+  const { sessionId, settings, userId, authEnvVars } = options;
+  const backend = getServiceBackend(getDefaultServiceBackendKind());
 
   try {
     // Update service status to "creating"
@@ -35,77 +104,20 @@ export async function createService(
       serviceUrl: null,
       status: "creating",
       errorMessage: null,
+      backend: backend.kind,
+      containerId: null,
     });
-
-    const client = createDokployClient(globalConfig, apiKey);
+    resetServiceHealth(sessionId);
 
     // Parse settings
     const customEnvVars = JSON.parse(settings.customEnvVars) as Record<
       string,
       string
     >;
-    const buildSettings = JSON.parse(settings.buildSettings) as Record<
-      string,
-      unknown
-    >;
 
     // Generate session token for service authentication
     const sessionToken = generateSessionToken(sessionId, userId);
 
-    // Get or create environment ID for the project
-    // If not configured, query Dokploy for environments and use the first one
-    let environmentId: string | undefined = globalConfig.environmentId;
-
-    if (!environmentId) {
-      console.log('[SERVICE] No environmentId in config, querying Dokploy for environments...');
-      try {
-        const environments = await client.request<any[]>({
-          method: "GET",
-          path: `/project.${globalConfig.projectId}.getEnvironments`,
-        });
-        if (environments && environments.length > 0) {
-          environmentId = environments[0].environmentId;
-          console.log(`[SERVICE] Using first environment: ${environmentId}`);
-        }
-      } catch (error) {
-        console.error('[SERVICE] Failed to query environments:', error);
-        console.log('[SERVICE] Will attempt to create application without environmentId');
-      }
-    }
-
-    // Create application in Dokploy
-    const createBody: Record<string, unknown> = {
-      name: sessionId,
-      appName: sessionId,
-      projectId: globalConfig.projectId,
-    };
-
-    // Only add environmentId if we have one
-    if (environmentId) {
-      createBody.environmentId = environmentId;
-    }
-
-    if (globalConfig.serverId) {
-      createBody.serverId = globalConfig.serverId;
-    }
-
-    console.log('[SERVICE] Creating Dokploy application with body:', JSON.stringify(createBody, null, 2));
-
-    const result = await client.request<{
-      applicationId?: string;
-      app?: { applicationId?: string };
-    }>({
-      method: "POST",
-      path: "/application.create",
-      body: createBody,
-    });
-
-    const applicationId = result?.applicationId ?? result?.app?.applicationId;
-
-    if (!applicationId) {
-      throw new Error("Dokploy did not return an applicationId");
-    }
-
     // Determine main app URL
     const mainAppUrl = process.env.MAIN_APP_URL || "http://localhost:3000";
     const mainAppWsUrl = process.env.MAIN_APP_WS_URL || mainAppUrl.replace(/^http/, "ws");
@@ -119,6 +131,7 @@ export async function createService(
       WORKSPACE_PATH: "/workspace",
       ...authEnvVars,
       ...customEnvVars,
+      ...getSessionSecretEnv(sessionId),
     };
 
     // Add GitHub repository URL if provided
@@ -126,103 +139,19 @@ export async function createService(
       envVars.GITHUB_REPO_URL = settings.githubRepo;
     }
 
-    // Convert env vars to Dokploy format
-    const envString = Object.entries(envVars)
-      .map(([key, value]) => `${key}=${value}`)
-      .join("\n");
-
-    // Update environment variables
-    await client.request({
-      method: "POST",
-      path: "/application.saveEnvironment",
-      body: {
-        applicationId,
-        env: envString,
-        buildArgs: "",
-      },
-    });
-
-    // Always configure container-app from codex-webapp repository
-    // The user's repo URL is passed as GITHUB_REPO_URL env var (set above)
-    console.log('[SERVICE] Configuring container-app from codex-webapp repository');
-
-    await client.request({
-      method: "POST",
-      path: "/application.saveGithubProvider",
-      body: {
-        applicationId,
-        owner: "ETdoFresh",
-        repository: "codex-webapp",
-        githubId: globalConfig.githubId || null,
-        branch: "main",
-        buildPath: "", // Use root of repo to access full monorepo structure
-      },
-    });
-
-    // Use Dockerfile build type pointing to root-level container-app Dockerfile
-    await client.request({
-      method: "POST",
-      path: "/application.saveBuildType",
-      body: {
-        applicationId,
-        buildType: "dockerfile",
-        dockerfile: "Dockerfile.container-app", // Root-level Dockerfile for monorepo build
-        dockerContextPath: "./",
-        dockerBuildStage: "",
-      },
-    });
-
-    // Configure general settings
-    await client.request({
-      method: "POST",
-      path: "/application.update",
-      body: {
-        applicationId,
-        name: sessionId,
-        appName: sessionId,
-        autoDeploy: false,
-      },
-    });
-
-    // Configure domain with HTTPS and Let's Encrypt
-    const domainHost = process.env.DOKPLOY_DOMAIN_HOST || "codex-webapp.etdofresh.com";
-    console.log(`[SERVICE] Creating domain for ${sessionId} on ${domainHost}`);
-
-    await client.request({
-      method: "POST",
-      path: "/domain.create",
-      body: {
-        host: domainHost,
-        path: `/${sessionId}`,
-        port: 3001, // container-app runs on port 3001
-        https: true,
-        certificateType: "letsencrypt",
-        applicationId,
-        domainType: "application",
-        stripPath: true,
-      },
-    });
-
-    // Generate service URL with the configured domain
-    const serviceUrl = `https://${domainHost}/${sessionId}`;
+    const created = await backend.create({ sessionId, userId, settings, env: envVars });
 
     // Update service record with success
-    database.upsertSessionService({
+    const service = database.upsertSessionService({
       sessionId,
-      dokployAppId: applicationId,
-      serviceUrl,
+      dokployAppId: created.dokployAppId ?? null,
+      serviceUrl: created.serviceUrl,
       status: "running",
       errorMessage: null,
+      containerId: created.containerId ?? null,
     });
 
-    // Deploy the application
-    await client.request({
-      method: "POST",
-      path: "/application.deploy",
-      body: {
-        applicationId,
-      },
-    });
+    await backend.deploy?.(service, userId);
   } catch (error) {
     const errorMessage =
       error instanceof Error ? error.message : "Unknown error";
@@ -252,188 +181,111 @@ export async function getServiceStatus(
     status: service.status,
     url: service.serviceUrl || undefined,
     error: service.errorMessage || undefined,
+    stoppedReason: service.stoppedReason ?? undefined,
+    backend: service.backend,
+    health: service.health ?? undefined,
+    healthCheckedAt: service.healthCheckedAt ?? undefined,
+    restartCount: service.restartCount,
   };
 }
 
 /**
- * Stops a running service
+ * Asks the service's backend what state the service is really in
  */
-export async function stopService(
-  sessionId: string,
-  globalConfig: DeployConfig,
-  apiKey: string,
-): Promise<void> {
+export async function inspectService(sessionId: string): Promise<BackendServiceState> {
   const service = database.getSessionService(sessionId);
-  if (!service || !service.dokployAppId) {
-    throw new Error("Service not found");
+  if (!service || (!service.dokployAppId && !service.containerId)) {
+    return "missing";
   }
-
-  const client = createDokployClient(globalConfig, apiKey);
-
-  await client.request({
-    method: "POST",
-    path: "/application.stop",
-    body: {
-      applicationId: service.dokployAppId,
-    },
-  });
-
-  database.upsertSessionService({
-    sessionId,
-    dokployAppId: service.dokployAppId,
-    serviceUrl: service.serviceUrl,
-    status: "stopped",
-    errorMessage: null,
-  });
+  return backendOf(service).getState(service);
 }
 
 /**
- * Starts a stopped service
+ * Stops a running service. Services stopped for being idle are started
+ * again when the session is opened.
  */
-export async function startService(
+export async function stopService(
   sessionId: string,
-  globalConfig: DeployConfig,
-  apiKey: string,
+  reason: "manual" | "idle" = "manual",
 ): Promise<void> {
-  const service = database.getSessionService(sessionId);
-  if (!service || !service.dokployAppId) {
-    throw new Error("Service not found");
-  }
+  await runExclusive(sessionId, async () => {
+    const service = requireService(sessionId);
 
-  const client = createDokployClient(globalConfig, apiKey);
+    await backendOf(service).stop(service);
 
-  await client.request({
-    method: "POST",
-    path: "/application.start",
-    body: {
-      applicationId: service.dokployAppId,
-    },
+    database.upsertSessionService({
+      sessionId,
+      dokployAppId: service.dokployAppId,
+      serviceUrl: service.serviceUrl,
+      status: "stopped",
+      errorMessage: null,
+      stoppedReason: reason,
+    });
   });
+}
 
-  database.upsertSessionService({
-    sessionId,
-    dokployAppId: service.dokployAppId,
-    serviceUrl: service.serviceUrl,
-    status: "running",
-    errorMessage: null,
+/**
+ * Starts a stopped service
+ */
+export async function startService(sessionId: string): Promise<void> {
+  await runExclusive(sessionId, async () => {
+    await startExisting(requireService(sessionId));
+    resetServiceHealth(sessionId);
   });
 }
 
 /**
- * Deletes a service from Dokploy
+ * Starts a crashed service again, unless it was stopped or deleted in the
+ * meantime. Resolves to whether it was started.
  */
-export async function deleteService(
-  sessionId: string,
-  globalConfig: DeployConfig,
-  apiKey: string,
-): Promise<void> {
-  const service = database.getSessionService(sessionId);
-  if (!service || !service.dokployAppId) {
-    return;
-  }
-
-  const client = createDokployClient(globalConfig, apiKey);
-
-  await client.request({
-    method: "DELETE",
-    path: "/application.delete",
-    body: {
-      applicationId: service.dokployAppId,
-    },
+export async function restartService(sessionId: string): Promise<boolean> {
+  return runExclusive(sessionId, async () => {
+    const service = database.getSessionService(sessionId);
+    if (!service || (service.status !== "running" && service.status !== "error")) {
+      return false;
+    }
+    await startExisting(requireService(sessionId));
+    return true;
   });
-
-  database.deleteSessionService(sessionId);
 }
 
 /**
- * Gets logs for a service
+ * Deletes a service from its backend
  */
-export async function getServiceLogs(
-  sessionId: string,
-  globalConfig: DeployConfig,
-  apiKey: string,
-): Promise<string> {
-  const service = database.getSessionService(sessionId);
-  if (!service || !service.dokployAppId) {
-    throw new Error("Service not found");
-  }
+export async function deleteService(sessionId: string): Promise<void> {
+  await runExclusive(sessionId, async () => {
+    const service = database.getSessionService(sessionId);
+    if (!service) {
+      return;
+    }
 
-  const client = createDokployClient(globalConfig, apiKey);
+    if (service.dokployAppId || service.containerId) {
+      await backendOf(service).delete(service);
+    }
 
-  const logs = await client.request<{ logs?: string }>({
-    method: "GET",
-    path: "/application.logs",
-    query: {
-      applicationId: service.dokployAppId,
-    },
+    database.deleteSessionService(sessionId);
   });
+}
 
-  return logs?.logs || "";
+/**
+ * Gets logs for a service
+ */
+export async function getServiceLogs(sessionId: string): Promise<string> {
+  const service = requireService(sessionId);
+  return backendOf(service).getLogs(service);
 }
 
 /**
- * Gets deployment build logs for a service
+ * Gets build logs for a service, of the given Dokploy deployment or else the
+ * latest build
  */
 export async function getDeploymentLogs(
   sessionId: string,
-  globalConfig: DeployConfig,
-  apiKey: string,
-): Promise<{ logs: string; status: string; deploymentId?: string }> {
+  deploymentId?: string,
+): Promise<BuildLogs> {
   const service = database.getSessionService(sessionId);
-  if (!service || !service.dokployAppId) {
+  if (!service) {
     throw new Error("Service not found");
   }
-
-  const client = createDokployClient(globalConfig, apiKey);
-
-  // Get application details including deployments
-  const appData = await client.request<{
-    deployments?: Array<{
-      deploymentId: string;
-      status: string;
-      logPath?: string;
-      createdAt: string;
-    }>;
-  }>({
-    method: "GET",
-    path: "/application.one",
-    query: {
-      applicationId: service.dokployAppId,
-    },
-  });
-
-  // Get the most recent deployment
-  const deployments = appData.deployments || [];
-  if (deployments.length === 0) {
-    return { logs: "No deployments found", status: "none" };
-  }
-
-  // Sort by creation date to get the latest
-  const latestDeployment = deployments.sort(
-    (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-  )[0];
-
-  // Try to fetch deployment logs
-  try {
-    const logsData = await client.request<{ logs?: string }>({
-      method: "GET",
-      path: "/deployment.logs",
-      query: {
-        deploymentId: latestDeployment.deploymentId,
-      },
-    });
-
-    return {
-      logs: logsData?.logs || "Logs not available yet",
-      status: latestDeployment.status,
-      deploymentId: latestDeployment.deploymentId,
-    };
-  } catch (error) {
-    // Deployment logs endpoint often returns 404, fallback to logPath info
-    return {
-      logs: `Deployment ${latestDeployment.status}. Log path: ${latestDeployment.logPath || "Not available"}`,
-      status: latestDeployment.status,
-      deploymentId: latestDeployment.deploymentId,
-    };
-  }
+  return backendOf(service).getBuildLogs(service, deploymentId);
 }
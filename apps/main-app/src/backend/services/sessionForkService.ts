@@ -0,0 +1,158 @@
+import fs from "node:fs";
+import path from "node:path";
+import database from "../db";
+import { resolveAgentSelection } from "../settings";
+import { ensureWorkspaceDirectory, getWorkspaceDirectory } from "../workspaces";
+import type { SessionRecord } from "../types/database";
+import { ensureBranchForSession } from "./gitBranchManager";
+import { branchWorkspaceFromCurrentState } from "./gitOperationsService";
+import { copySessionSecrets } from "./sessionSecretService";
+
+/**
+ * Session Fork Service
+ * Branches a conversation from an earlier user message into a new session.
+ */
+
+export type SessionForkResult =
+  | {
+      success: true;
+      session: SessionRecord;
+      /** Content of the message the fork starts from, for editing and resending. */
+      draft: string;
+    }
+  | {
+      success: false;
+      status: number;
+      error: string;
+    };
+
+const parseJsonObject = <T extends Record<string, unknown>>(
+  value: string | null | undefined,
+): T => {
+  try {
+    const parsed = JSON.parse(value || "{}");
+    return parsed && typeof parsed === "object" ? (parsed as T) : ({} as T);
+  } catch {
+    return {} as T;
+  }
+};
+
+/**
+ * Copies the source workspace into the fork. Stream debug logs are named
+ * after the source session and are not carried over.
+ */
+function copyWorkspace(sourceSessionId: string, targetSessionId: string): void {
+  const sourceDirectory = getWorkspaceDirectory(sourceSessionId);
+  const targetDirectory = ensureWorkspaceDirectory(targetSessionId);
+  if (!fs.existsSync(sourceDirectory)) {
+    return;
+  }
+
+  const logsDirectory = path.join(sourceDirectory, ".codex", "logs");
+  fs.cpSync(sourceDirectory, targetDirectory, {
+    recursive: true,
+    filter: (source) =>
+      source !== logsDirectory && !source.startsWith(`${logsDirectory}${path.sep}`),
+  });
+}
+
+/**
+ * Creates a new session holding the conversation that preceded `messageId`.
+ * The workspace is copied in its current state, repository-backed sessions
+ * get their own branch, and the fork starts without an agent thread so its
+ * first turn is seeded with the copied history.
+ */
+export async function forkSessionFromMessage(
+  source: SessionRecord,
+  messageId: string,
+  userId: string,
+): Promise<SessionForkResult> {
+  const messages = database.listMessages(source.id);
+  const forkIndex = messages.findIndex((message) => message.id === messageId);
+  const forkMessage = forkIndex >= 0 ? messages[forkIndex] : null;
+
+  if (!forkMessage) {
+    return { success: false, status: 404, error: "Message not found" };
+  }
+  if (forkMessage.role !== "user" || forkMessage.status === "queued") {
+    return {
+      success: false,
+      status: 400,
+      error: "Conversations can only be forked from a sent user message",
+    };
+  }
+
+  const history = messages
+    .slice(0, forkIndex)
+    .filter(
+      (message) =>
+        message.status !== "queued" && message.status !== "in_progress",
+    );
+
+  const sourceSettings = database.getSessionSettings(source.id);
+  const session = database.createSession(`${source.title} (fork)`, userId);
+
+  let gitBranch: string | null = null;
+  if (sourceSettings?.gitRemoteUrl) {
+    const branchResult = await ensureBranchForSession(session.id, userId, {
+      gitRemoteUrl: sourceSettings.gitRemoteUrl,
+      gitBranch: null,
+    });
+    if (!branchResult.success) {
+      database.deleteSession(session.id);
+      return {
+        success: false,
+        status: 400,
+        error: branchResult.error || "Failed to create branch for fork",
+      };
+    }
+    gitBranch = branchResult.branchName;
+  }
+
+  try {
+    copyWorkspace(source.id, session.id);
+  } catch (error) {
+    console.error(`[fork] Failed to copy workspace of ${source.id}:`, error);
+    database.deleteSession(session.id);
+    return { success: false, status: 500, error: "Failed to copy workspace" };
+  }
+
+  database.upsertSessionSettings({
+    sessionId: session.id,
+    githubRepo: sourceSettings?.githubRepo ?? null,
+    customEnvVars: parseJsonObject<Record<string, string>>(
+      sourceSettings?.customEnvVars,
+    ),
+    dockerfilePath: sourceSettings?.dockerfilePath ?? null,
+    buildSettings: parseJsonObject(sourceSettings?.buildSettings),
+    gitRemoteUrl: sourceSettings?.gitRemoteUrl ?? null,
+    gitBranch,
+    autoCommit: sourceSettings?.autoCommit ?? true,
+  });
+  copySessionSecrets(source.id, session.id, userId);
+
+  if (gitBranch) {
+    const branchResult = await branchWorkspaceFromCurrentState(session.id, userId);
+    if (!branchResult.success) {
+      // The fork stays usable; its first commit retries publishing the branch.
+      console.warn(`[fork] Failed to move workspace to ${gitBranch}: ${branchResult.error}`);
+    }
+  }
+  database.updateSessionAgentSettings(
+    session.id,
+    resolveAgentSelection(sourceSettings),
+  );
+
+  database.copyMessagesToSession(session.id, history);
+  database.recordSessionFork({
+    sessionId: session.id,
+    sourceSessionId: source.id,
+    sourceMessageId: forkMessage.id,
+  });
+
+  return {
+    success: true,
+    session: database.getSession(session.id) ?? session,
+    draft: forkMessage.content,
+  };
+}
@@ -1,13 +1,10 @@
 import fs from "node:fs";
 import path from "node:path";
-import { randomUUID } from "node:crypto";
 import type { Request, Response } from "express";
 import type { ThreadItem, Usage } from "@openai/codex-sdk";
 import { z } from "zod";
 import database from "../db";
-import { codexManager } from "../codexManager";
-import { claudeManager } from "../claudeManager";
-import { getCodexMeta, type CodexProvider } from "../settings";
+import { resolveAgentSelection, type AgentSelection } from "../settings";
 import {
   allowedImageMimeTypes,
   MAX_ATTACHMENTS_PER_MESSAGE,
@@ -18,31 +15,30 @@ import { saveAttachmentsToWorkspace } from "../utils/attachments";
 import { ensureWorkspaceDirectory } from "../workspaces";
 import type { IncomingAttachment, MessageResponse } from "../types/api";
 import { messageToResponse, toSessionResponse } from "../types/api";
-import type { SessionRecord } from "../types/database";
+import type { MessageWithAttachments, SessionRecord } from "../types/database";
 import { getStreamEventTimeout, recordStreamDebugEvent } from "./streamDebug";
+import { recordServiceActivity } from "./serviceIdleService";
+import { getSessionSecretEnv } from "./sessionSecretService";
 import type IAgent from "../interfaces/IAgent";
-import { droidCliManager } from "../droidCliManager";
-import { getCopilotCliManager } from "../copilotCliManager";
+import { getAgentManager } from "./agentRegistry";
 import { synchronizeUserAuthFiles } from "./userAuthManager";
 import { generateCommitMessage } from "./commitMessageService";
-import { commitAndPushToGitHub } from "./gitOperationsService";
-
-function getAgentManager(provider: CodexProvider): IAgent {
-  switch (provider) {
-    case 'CodexSDK':
-      return codexManager;
-    case 'ClaudeCodeSDK':
-      return claudeManager;
-    case 'DroidCLI':
-      return droidCliManager;
-    case 'CopilotCLI':
-      return getCopilotCliManager();
-    case 'GeminiSDK':
-      throw new Error('GeminiSDK provider is not yet implemented');
-    default:
-      return codexManager;
-  }
-}
+import { commitAndPushWorkspace, hasWorkspaceChanges } from "./gitOperationsService";
+import { recordTurnUsage } from "./usageService";
+import { checkTurnQuota } from "./quotaService";
+import { captureTurnSnapshot } from "./turnReviewService";
+import {
+  getActiveTurnJob,
+  pipeTurnToResponse,
+  startTurnJob,
+  type SessionTurnJob,
+  type TurnEmitter,
+  type TurnOutcome,
+  type TurnStreamEvent,
+} from "./turnService";
+
+// Stored in place of the text when a message only carries images.
+const IMAGE_ONLY_MESSAGE_CONTENT = "(Image attachment)";
 
 const CODING_AGENT_INSTRUCTIONS = [
   "You are the Codex WebApp agent operating inside a Windows-based workspace.",
@@ -104,105 +100,39 @@ const ensureMessagePayloadValid = (payload: ParsedMessagePayload): void => {
   }
 };
 
-export async function handleSessionMessageRequest(
-  req: Request,
-  res: Response,
-  session: SessionRecord,
-): Promise<void> {
-  const payload = parseMessagePayload(req);
-
-  try {
-    ensureMessagePayloadValid(payload);
-  } catch (error) {
-    const message =
-      error instanceof Error ? error.message : "Invalid message payload.";
-    res.status(400).json({ error: message });
-    return;
-  }
-
-  let savedAttachmentInputs;
-  try {
-    savedAttachmentInputs = saveAttachmentsToWorkspace(
-      session.id,
-      payload.attachments,
-    );
-  } catch (error) {
-    const message =
-      error instanceof Error ? error.message : "Unable to process attachments";
-    res.status(400).json({ error: message });
-    return;
-  }
-
-  const storedContent =
-    payload.content.length > 0
-      ? payload.content
-      : payload.attachments.length > 0
-        ? "(Image attachment)"
-        : "";
-
-  const userMessage = database.addMessage(
-    session.id,
-    "user",
-    storedContent,
-    savedAttachmentInputs,
-  );
-  const turnMeta = getCodexMeta();
-  const agentManager = getAgentManager(turnMeta.provider);
-  const responderInfo = {
-    provider: turnMeta.provider,
-    model: turnMeta.model,
-    reasoningEffort: turnMeta.reasoningEffort,
-  };
-
-  const workspaceDirectory = ensureWorkspaceDirectory(session.id);
-  session.workspacePath = workspaceDirectory;
-  const normalizedWorkspaceDirectory = workspaceDirectory.replace(/\\/g, "/");
-
-  if (
-    !session.titleLocked &&
-    session.title === DEFAULT_SESSION_TITLE &&
-    storedContent.length > 0
-  ) {
-    const inferredTitle =
-      storedContent.length > 60
-        ? `${storedContent.slice(0, 60).trim()}…`
-        : storedContent;
-    const updated = database.updateSessionTitle(session.id, inferredTitle);
-    if (updated) {
-      session.title = updated.title;
-      session.updatedAt = updated.updatedAt;
-    }
-  }
-
-  const userRequest =
-    payload.content.length > 0
-      ? payload.content
-      : userMessage.attachments.length > 0
-        ? "The user provided image attachments."
-        : "";
-
-  let codexInput =
-    `${CODING_AGENT_INSTRUCTIONS}\n\nCurrent workspace directory: ${normalizedWorkspaceDirectory}\n\nUser request:\n${userRequest}`.trimEnd();
-
-  if (userMessage.attachments.length > 0) {
-    const attachmentSummary = userMessage.attachments
-      .map((attachment, index) => {
-        const workspaceRelativePath = attachment.relativePath;
-        const absolutePath = path
-          .resolve(workspaceDirectory, attachment.relativePath)
-          .replace(/\\/g, "/");
-        return `${index + 1}. ${attachment.filename} (workspace path: ${workspaceRelativePath}; absolute path: ${absolutePath})`;
-      })
-      .join("\n");
-    codexInput += `\n\nAttachments:\n${attachmentSummary}`;
-  }
+type AgentTurnContext = {
+  turnId: string;
+  session: SessionRecord;
+  userMessage: MessageWithAttachments;
+  assistantMessage: MessageWithAttachments;
+  agentManager: IAgent;
+  turnMeta: AgentSelection;
+  codexInput: string;
+  workspaceDirectory: string;
+  signal: AbortSignal;
+};
 
-  res.status(201);
-  res.setHeader("Content-Type", "application/x-ndjson; charset=utf-8");
-  res.setHeader("Cache-Control", "no-cache");
-  res.setHeader("Connection", "keep-alive");
-  res.setHeader("X-Accel-Buffering", "no");
-  res.flushHeaders?.();
+/**
+ * Drives a single agent run and publishes its progress as stream events.
+ * Completed items are persisted as they arrive so a crashed or abandoned
+ * client never loses output. Aborting `signal` stops the agent and keeps the
+ * partial output as an interrupted message.
+ */
+async function runAgentTurn(
+  context: AgentTurnContext,
+  emit: TurnEmitter,
+): Promise<TurnOutcome> {
+  const {
+    turnId,
+    session,
+    userMessage,
+    assistantMessage,
+    agentManager,
+    turnMeta,
+    codexInput,
+    workspaceDirectory,
+    signal,
+  } = context;
 
   const streamDebugLogPath = path.join(
     workspaceDirectory,
@@ -225,18 +155,16 @@ export async function handleSessionMessageRequest(
     }
   };
 
-  let clientAborted = false;
-  let responseFinished = false;
-  let stopIterator: (() => void) | null = null;
+  let stopIterator: (() => Promise<void>) | null = null;
 
-  const stopStreamIterator = () => {
+  const stopStreamIterator = async () => {
     if (!stopIterator) {
       return;
     }
     const stopper = stopIterator;
     stopIterator = null;
     try {
-      stopper();
+      await stopper();
     } catch (error) {
       appendDebugLog({
         type: "iterator_stop_failed",
@@ -245,45 +173,18 @@ export async function handleSessionMessageRequest(
     }
   };
 
-  req.on("aborted", () => {
-    clientAborted = true;
-    appendDebugLog({ type: "client_aborted" });
-    stopStreamIterator();
-  });
-  res.on("finish", () => {
-    responseFinished = true;
-    appendDebugLog({ type: "response_finished" });
-  });
-  req.on("close", () => {
-    if (!responseFinished && !res.writableEnded) {
-      appendDebugLog({ type: "client_closed_before_finish" });
-    } else {
-      appendDebugLog({ type: "client_closed_after_finish" });
-    }
-    if (!responseFinished) {
-      stopStreamIterator();
-    }
-  });
-
-  const writeEvent = (event: unknown) => {
+  const writeEvent = (event: TurnStreamEvent) => {
     recordStreamDebugEvent({
       sessionId: session.id,
-      type: (event as { type?: unknown })?.type,
+      type: event.type,
     });
     appendDebugLog(event);
-    if (res.writableEnded) {
-      return;
-    }
-    res.write(`${JSON.stringify(event)}\n`);
-    const flush = (res as Response & { flush?: () => void }).flush;
-    flush?.call(res);
+    emit(event);
   };
 
-  const userMessagePayload = messageToResponse(userMessage);
-  writeEvent({ type: "user_message", message: userMessagePayload });
+  writeEvent({ type: "user_message", message: messageToResponse(userMessage) });
 
-  const assistantTemporaryId = `temp-${randomUUID()}`;
-  const assistantCreatedAt = new Date().toISOString();
+  const assistantMessageId = assistantMessage.id;
 
   const itemOrder: string[] = [];
   const itemMap = new Map<string, ThreadItem>();
@@ -299,15 +200,17 @@ export async function handleSessionMessageRequest(
 
   const sendSnapshot = () => {
     const snapshot: MessageResponse = {
-      id: assistantTemporaryId,
+      id: assistantMessageId,
       role: "assistant",
       content: assistantText,
-      createdAt: assistantCreatedAt,
+      status: "in_progress",
+      createdAt: assistantMessage.createdAt,
       attachments: [],
       items: snapshotItems(),
-      responderProvider: responderInfo.provider,
-      responderModel: responderInfo.model,
-      responderReasoningEffort: responderInfo.reasoningEffort,
+      responderProvider: turnMeta.provider,
+      responderModel: turnMeta.model,
+      responderReasoningEffort: turnMeta.reasoningEffort,
+      usage: null,
     };
     writeEvent({ type: "assistant_message_snapshot", message: snapshot });
   };
@@ -330,26 +233,25 @@ export async function handleSessionMessageRequest(
   };
 
   sendSnapshot();
+  await captureTurnSnapshot(session.id, turnId, "before");
 
   try {
-    if (!session.userId) {
-      res.status(500).json({ error: "Session missing owner" });
-      return;
-    }
-
-    const authContext = synchronizeUserAuthFiles(session.userId);
+    const authContext = synchronizeUserAuthFiles(session.userId!);
     const { events } = await agentManager.runTurnStreamed(
       session,
       codexInput,
       {
-        env: authContext.env,
+        env: { ...authContext.env, ...getSessionSecretEnv(session.id) },
+        model: turnMeta.model,
+        reasoningEffort: turnMeta.reasoningEffort,
+        signal,
       },
     );
     const iterator = events[Symbol.asyncIterator]();
 
-    stopIterator = () => {
+    stopIterator = async () => {
       if (typeof iterator.return === "function") {
-        iterator.return(undefined).catch(() => {
+        await iterator.return(undefined).catch(() => {
           // Swallow return errors; iterator is best-effort stopped.
         });
       }
@@ -360,24 +262,42 @@ export async function handleSessionMessageRequest(
     let agentResponseCompleted = false;
 
     const timeoutSymbol = Symbol("stream timeout");
+    const abortSymbol = Symbol("turn aborted");
+    const abortPromise = new Promise<typeof abortSymbol>((resolve) => {
+      if (signal.aborted) {
+        resolve(abortSymbol);
+        return;
+      }
+      signal.addEventListener("abort", () => resolve(abortSymbol), {
+        once: true,
+      });
+    });
 
     const nextEvent = async (): Promise<
-      IteratorResult<unknown, unknown> | typeof timeoutSymbol
+      IteratorResult<unknown, unknown> | typeof timeoutSymbol | typeof abortSymbol
     > => {
       let timer: NodeJS.Timeout | null = null;
       const waitMs = agentResponseCompleted ? postResponseTimeoutMs : baseTimeoutMs;
       const timeoutPromise = new Promise<typeof timeoutSymbol>((resolve) => {
         timer = setTimeout(() => resolve(timeoutSymbol), waitMs);
       });
-      const result = await Promise.race([iterator.next(), timeoutPromise]);
+      const result = await Promise.race([
+        iterator.next(),
+        timeoutPromise,
+        abortPromise,
+      ]);
       if (timer) {
         clearTimeout(timer);
       }
       return result;
     };
 
-    while (!clientAborted) {
+    while (true) {
       const result = await nextEvent();
+      if (result === abortSymbol) {
+        break;
+      }
+
       if (result === timeoutSymbol) {
         if (agentResponseCompleted) {
           break;
@@ -426,8 +346,15 @@ export async function handleSessionMessageRequest(
         handleItemEvent(typedEvent.item);
         if (event.type === "item.completed") {
           completedItems.push(typedEvent.item);
+          database.appendMessageRunItem(
+            assistantMessageId,
+            session.id,
+            completedItems.length - 1,
+            typedEvent.item,
+          );
           if (typedEvent.item.type === "agent_message") {
             agentResponseCompleted = true;
+            database.updateMessage(assistantMessageId, { content: assistantText });
           }
         }
         sendSnapshot();
@@ -482,13 +409,47 @@ export async function handleSessionMessageRequest(
         continue;
       }
 
-      writeEvent(result.value);
+      writeEvent(result.value as TurnStreamEvent);
     }
   } catch (error) {
     streamError =
       error instanceof Error ? error : new Error("Codex execution failed");
   } finally {
-    stopStreamIterator();
+    if (signal.aborted) {
+      // The agents kill their process as soon as the signal aborts, which
+      // settles the pending read. Wait for the stream to close so the next
+      // queued turn does not start while the agent is still editing the
+      // workspace.
+      await stopStreamIterator();
+    } else {
+      void stopStreamIterator();
+    }
+  }
+
+  await captureTurnSnapshot(session.id, turnId, "after");
+
+  if (signal.aborted) {
+    // The agent may not have reached a resumable state, so the next turn
+    // starts from a fresh in-memory thread (the stored thread id is kept).
+    agentManager.forgetSession(session.id);
+    recordTurnUsage(session, assistantMessageId, turnMeta, usage);
+    const interruptedMessage =
+      database.updateMessage(assistantMessageId, {
+        content: assistantText,
+        status: "interrupted",
+      }) ?? { ...assistantMessage, content: assistantText, status: "interrupted" };
+    const latestSession = database.getSession(session.id) ?? session;
+
+    writeEvent({
+      type: "assistant_message_final",
+      temporaryId: assistantMessageId,
+      message: messageToResponse(interruptedMessage),
+      session: toSessionResponse(latestSession),
+      usage,
+    });
+    writeEvent({ type: "done" });
+    appendDebugLog({ type: "turn_finished", status: "cancelled" });
+    return { status: "cancelled" };
   }
 
   const hasAssistantContent =
@@ -500,32 +461,29 @@ export async function handleSessionMessageRequest(
       database.updateSessionThreadId(session.id, null);
       session.codexThreadId = null;
     }
+    database.deleteMessage(assistantMessageId);
     writeEvent({
       type: "error",
       message: streamError.message,
-      temporaryId: assistantTemporaryId,
+      temporaryId: assistantMessageId,
     });
     writeEvent({ type: "done" });
-    if (!clientAborted && !res.writableEnded) {
-      res.end();
-    }
-    return;
+    appendDebugLog({ type: "turn_finished", status: "failed" });
+    return { status: "failed", error: streamError.message };
   }
 
-  const assistantMessage = database.addMessage(
-    session.id,
-    "assistant",
-    assistantText,
-    [],
-    completedItems,
-    responderInfo,
-  );
+  recordTurnUsage(session, assistantMessageId, turnMeta, usage);
+  const finalMessage =
+    database.updateMessage(assistantMessageId, {
+      content: assistantText,
+      status: "completed",
+    }) ?? { ...assistantMessage, content: assistantText, status: "completed" };
   const latestSession = database.getSession(session.id) ?? session;
 
   writeEvent({
     type: "assistant_message_final",
-    temporaryId: assistantTemporaryId,
-    message: messageToResponse(assistantMessage),
+    temporaryId: assistantMessageId,
+    message: messageToResponse(finalMessage),
     session: toSessionResponse(latestSession),
     usage,
   });
@@ -533,11 +491,17 @@ export async function handleSessionMessageRequest(
   // Auto-commit if enabled
   const settings = database.getSessionSettings(session.id);
   if (settings?.autoCommit && session.userId) {
+    const userId = session.userId;
     void (async () => {
       try {
         console.log(`[auto-commit] Starting auto-commit for session ${session.id}`);
 
-        const commitMessage = await generateCommitMessage(session);
+        if (!(await hasWorkspaceChanges(session.id))) {
+          console.log(`[auto-commit] No workspace changes to commit`);
+          return;
+        }
+
+        const commitMessage = await generateCommitMessage(session, turnMeta);
         if (!commitMessage) {
           console.log(`[auto-commit] No commit message generated (no changes or not a git repo)`);
           return;
@@ -545,13 +509,15 @@ export async function handleSessionMessageRequest(
 
         console.log(`[auto-commit] Generated commit message: ${commitMessage.split('\n')[0]}`);
 
-        const result = await commitAndPushToGitHub(
+        const result = await commitAndPushWorkspace(
           session.id,
-          session.userId,
+          userId,
           commitMessage,
         );
 
-        if (result.success) {
+        if (result.success && result.noChanges) {
+          console.log(`[auto-commit] No workspace changes to commit`);
+        } else if (result.success) {
           console.log(`[auto-commit] Successfully committed: ${result.commitSha}`);
         } else {
           console.error(`[auto-commit] Failed: ${result.error}`);
@@ -568,17 +534,326 @@ export async function handleSessionMessageRequest(
       database.updateSessionThreadId(session.id, null);
       session.codexThreadId = null;
     }
+    // The partial assistant message was kept, so the error is reported
+    // without a temporaryId that would remove it on the client.
     writeEvent({
       type: "error",
       message: streamError.message,
-      temporaryId: assistantTemporaryId,
     });
   }
 
   writeEvent({ type: "done" });
-  const endedByServer = !res.writableEnded;
-  if (endedByServer) {
-    res.end();
+  appendDebugLog({ type: "turn_finished", status: streamError ? "failed" : "completed" });
+  return streamError
+    ? { status: "failed", error: streamError.message }
+    : { status: "completed" };
+}
+
+export async function handleSessionMessageRequest(
+  req: Request,
+  res: Response,
+  session: SessionRecord,
+): Promise<void> {
+  const payload = parseMessagePayload(req);
+
+  try {
+    ensureMessagePayloadValid(payload);
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : "Invalid message payload.";
+    res.status(400).json({ error: message });
+    return;
+  }
+
+  if (!session.userId) {
+    res.status(500).json({ error: "Session missing owner" });
+    return;
+  }
+
+  // Messages sent while the agent is busy wait their turn instead of running
+  // concurrently on the same thread.
+  const shouldQueue =
+    getActiveTurnJob(session.id) !== null ||
+    database.listQueuedMessages(session.id).length > 0;
+
+  const quotaViolation = checkTurnQuota(session.userId, {
+    startsTurn: !shouldQueue,
+  });
+  if (quotaViolation) {
+    if (quotaViolation.retryAfterSeconds !== null) {
+      res.setHeader("Retry-After", String(quotaViolation.retryAfterSeconds));
+    }
+    res.status(429).json({
+      error: quotaViolation.error,
+      limit: quotaViolation.limit,
+      retryAfterSeconds: quotaViolation.retryAfterSeconds,
+    });
+    return;
+  }
+
+  let savedAttachmentInputs;
+  try {
+    savedAttachmentInputs = saveAttachmentsToWorkspace(
+      session.id,
+      payload.attachments,
+    );
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : "Unable to process attachments";
+    res.status(400).json({ error: message });
+    return;
+  }
+
+  const storedContent =
+    payload.content.length > 0
+      ? payload.content
+      : payload.attachments.length > 0
+        ? IMAGE_ONLY_MESSAGE_CONTENT
+        : "";
+
+  const userMessage = database.addMessage(
+    session.id,
+    "user",
+    storedContent,
+    savedAttachmentInputs,
+    [],
+    undefined,
+    shouldQueue ? "queued" : "completed",
+  );
+  recordServiceActivity(session.id);
+
+  if (shouldQueue) {
+    if (!getActiveTurnJob(session.id)) {
+      dispatchNextQueuedMessage(session.id);
+    }
+    res.status(202).json({ message: messageToResponse(userMessage) });
+    return;
+  }
+
+  const job = startAgentTurn(session, userMessage);
+
+  res.status(201);
+  res.setHeader("X-Turn-Id", job.id);
+  pipeTurnToResponse(res, job);
+}
+
+/**
+ * Forked sessions start without an agent thread; until one exists, the
+ * conversation carried over from the source session is replayed as context.
+ */
+function buildForkedHistory(
+  sessionId: string,
+  userMessage: MessageWithAttachments,
+): string {
+  if (!database.getSessionFork(sessionId)) {
+    return "";
+  }
+
+  const transcript = database
+    .listMessages(sessionId)
+    .filter(
+      (message) =>
+        message.id !== userMessage.id &&
+        message.role !== "system" &&
+        message.status !== "queued" &&
+        message.status !== "in_progress" &&
+        message.createdAt <= userMessage.createdAt &&
+        message.content.trim().length > 0,
+    )
+    .map(
+      (message) =>
+        `${message.role === "user" ? "User" : "Assistant"}: ${message.content.trim()}`,
+    );
+
+  if (transcript.length === 0) {
+    return "";
+  }
+
+  return `\n\nConversation so far:\n${transcript.join("\n\n")}`;
+}
+
+/**
+ * Creates the assistant placeholder and turn record for a saved user message
+ * and starts the agent run in the background.
+ */
+function startAgentTurn(
+  session: SessionRecord,
+  userMessage: MessageWithAttachments,
+): SessionTurnJob {
+  const turnMeta = resolveAgentSelection(
+    database.getSessionSettings(session.id),
+  );
+  const agentManager = getAgentManager(turnMeta.provider);
+
+  const workspaceDirectory = ensureWorkspaceDirectory(session.id);
+  session.workspacePath = workspaceDirectory;
+  const normalizedWorkspaceDirectory = workspaceDirectory.replace(/\\/g, "/");
+
+  const storedContent = userMessage.content;
+  if (
+    !session.titleLocked &&
+    session.title === DEFAULT_SESSION_TITLE &&
+    storedContent.length > 0
+  ) {
+    const inferredTitle =
+      storedContent.length > 60
+        ? `${storedContent.slice(0, 60).trim()}…`
+        : storedContent;
+    const updated = database.updateSessionTitle(session.id, inferredTitle);
+    if (updated) {
+      session.title = updated.title;
+      session.updatedAt = updated.updatedAt;
+    }
+  }
+
+  const hasTypedContent =
+    storedContent.length > 0 &&
+    !(
+      storedContent === IMAGE_ONLY_MESSAGE_CONTENT &&
+      userMessage.attachments.length > 0
+    );
+  const userRequest = hasTypedContent
+    ? storedContent
+    : userMessage.attachments.length > 0
+      ? "The user provided image attachments."
+      : "";
+
+  const seededHistory = session.codexThreadId
+    ? ""
+    : buildForkedHistory(session.id, userMessage);
+
+  let codexInput =
+    `${CODING_AGENT_INSTRUCTIONS}\n\nCurrent workspace directory: ${normalizedWorkspaceDirectory}${seededHistory}\n\nUser request:\n${userRequest}`.trimEnd();
+
+  if (userMessage.attachments.length > 0) {
+    const attachmentSummary = userMessage.attachments
+      .map((attachment, index) => {
+        const workspaceRelativePath = attachment.relativePath;
+        const absolutePath = path
+          .resolve(workspaceDirectory, attachment.relativePath)
+          .replace(/\\/g, "/");
+        return `${index + 1}. ${attachment.filename} (workspace path: ${workspaceRelativePath}; absolute path: ${absolutePath})`;
+      })
+      .join("\n");
+    codexInput += `\n\nAttachments:\n${attachmentSummary}`;
+  }
+
+  const assistantMessage = database.addMessage(
+    session.id,
+    "assistant",
+    "",
+    [],
+    [],
+    turnMeta,
+    "in_progress",
+  );
+  const turn = database.createSessionTurn({
+    sessionId: session.id,
+    userMessageId: userMessage.id,
+    assistantMessageId: assistantMessage.id,
+  });
+
+  return startTurnJob(
+    turn,
+    (emit, signal) =>
+      runAgentTurn(
+        {
+          turnId: turn.id,
+          session,
+          userMessage,
+          assistantMessage,
+          agentManager,
+          turnMeta,
+          codexInput,
+          workspaceDirectory,
+          signal,
+        },
+        emit,
+      ),
+    () => dispatchNextQueuedMessage(session.id),
+  );
+}
+
+// Used when the quota does not say when it will allow another turn
+const QUEUE_QUOTA_RETRY_SECONDS = 30;
+
+// Sessions whose queue waits for the owner's quota to allow another turn
+const queueRetryTimers = new Map<string, NodeJS.Timeout>();
+
+function scheduleQueueRetry(sessionId: string, delaySeconds: number): void {
+  if (queueRetryTimers.has(sessionId)) {
+    return;
+  }
+
+  const timer = setTimeout(() => {
+    queueRetryTimers.delete(sessionId);
+    try {
+      dispatchNextQueuedMessage(sessionId);
+    } catch (error) {
+      console.error(`[turns] Failed to retry queue for ${sessionId}:`, error);
+    }
+  }, delaySeconds * 1000);
+  timer.unref();
+  queueRetryTimers.set(sessionId, timer);
+}
+
+/**
+ * Starts a turn for the oldest queued message of a session, if the session is
+ * idle and the owner's quota allows it. Otherwise the message stays queued and
+ * the queue is retried later. Returns the started job, or null when nothing
+ * was dispatched.
+ */
+export function dispatchNextQueuedMessage(
+  sessionId: string,
+): SessionTurnJob | null {
+  if (getActiveTurnJob(sessionId)) {
+    return null;
+  }
+
+  const session = database.getSession(sessionId);
+  if (!session?.userId) {
+    return null;
+  }
+
+  const queuedMessages = database.listQueuedMessages(sessionId);
+  if (queuedMessages.length === 0) {
+    return null;
+  }
+
+  const quotaViolation = checkTurnQuota(session.userId, {
+    startsTurn: true,
+    fromQueue: true,
+  });
+  if (quotaViolation) {
+    console.log(
+      `[turns] Queue for ${sessionId} is waiting for quota: ${quotaViolation.error}`,
+    );
+    scheduleQueueRetry(
+      sessionId,
+      quotaViolation.retryAfterSeconds ?? QUEUE_QUOTA_RETRY_SECONDS,
+    );
+    return null;
+  }
+
+  for (const queued of queuedMessages) {
+    const userMessage = database.dequeueMessage(queued.id);
+    if (userMessage) {
+      return startAgentTurn(session, userMessage);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Resumes queues left behind by a server restart.
+ */
+export function resumeQueuedMessages(): void {
+  for (const sessionId of database.listSessionsWithQueuedMessages()) {
+    try {
+      dispatchNextQueuedMessage(sessionId);
+    } catch (error) {
+      console.error(`[turns] Failed to resume queue for ${sessionId}:`, error);
+    }
   }
-  appendDebugLog({ type: "server_closed", clientAborted, endedByServer });
 }
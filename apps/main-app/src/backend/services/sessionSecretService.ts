@@ -0,0 +1,132 @@
+import database from "../db";
+import { decryptSecret, encryptSecret, isEncryptionAvailable } from "../utils/secretVault";
+
+/**
+ * Session Secret Service
+ * Secret env vars of a session. Values are stored encrypted, never returned
+ * by the API, and only decrypted to hand them to the session's service
+ * container and agent runs. Every change is recorded with the user who made it.
+ */
+
+const SECRET_KEY_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+export type SessionSecretSummary = {
+  key: string;
+  masked: true;
+  updatedAt: string;
+  updatedBy: string | null;
+};
+
+export type SessionSecretChange = {
+  key: string;
+  /** Omitted to keep the stored value. */
+  value?: string;
+};
+
+export const isValidSecretKey = (key: string): boolean => SECRET_KEY_PATTERN.test(key);
+
+/**
+ * Throws unless secret values can be stored encrypted. Without
+ * CODEX_WEBAPP_SECRET they would end up readable in the database.
+ */
+export function assertSecretStorageAvailable(): void {
+  if (!isEncryptionAvailable()) {
+    throw new Error("Set CODEX_WEBAPP_SECRET on the server before storing secrets.");
+  }
+}
+
+export function listSessionSecrets(sessionId: string): SessionSecretSummary[] {
+  return database.listSessionSecrets(sessionId).map((secret) => ({
+    key: secret.key,
+    masked: true,
+    updatedAt: secret.updatedAt,
+    updatedBy: secret.updatedByUsername,
+  }));
+}
+
+const storeSecret = (
+  sessionId: string,
+  key: string,
+  value: string,
+  userId: string | null,
+): void => {
+  assertSecretStorageAvailable();
+  const encrypted = encryptSecret(value)!;
+  database.setSessionSecret({
+    sessionId,
+    key,
+    valueCipher: encrypted.cipherText,
+    valueIv: encrypted.iv,
+    valueTag: encrypted.tag,
+    userId,
+  });
+};
+
+/**
+ * Applies the submitted secrets. Entries with a value are stored; with
+ * `replace`, stored keys missing from `changes` are deleted.
+ */
+export function saveSessionSecrets(
+  sessionId: string,
+  userId: string | null,
+  changes: SessionSecretChange[],
+  options: { replace?: boolean } = {},
+): SessionSecretSummary[] {
+  const invalid = changes.find((change) => !isValidSecretKey(change.key));
+  if (invalid) {
+    throw new Error(`"${invalid.key}" is not a valid environment variable name.`);
+  }
+  if (changes.some((change) => change.value !== undefined)) {
+    assertSecretStorageAvailable();
+  }
+
+  const existing = new Set(database.listSessionSecrets(sessionId).map((secret) => secret.key));
+  for (const change of changes) {
+    if (change.value !== undefined) {
+      storeSecret(sessionId, change.key, change.value, userId);
+    } else if (!existing.has(change.key)) {
+      throw new Error(`Provide a value for the new secret "${change.key}".`);
+    }
+  }
+
+  if (options.replace) {
+    const kept = new Set(changes.map((change) => change.key));
+    for (const key of existing) {
+      if (!kept.has(key)) {
+        database.deleteSessionSecret(sessionId, key, userId);
+      }
+    }
+  }
+
+  return listSessionSecrets(sessionId);
+}
+
+/** Decrypted secrets as env vars. Secrets that fail to decrypt are skipped. */
+export function getSessionSecretEnv(sessionId: string): Record<string, string> {
+  const env: Record<string, string> = {};
+  for (const secret of database.listSessionSecrets(sessionId)) {
+    try {
+      const value = decryptSecret(secret.valueCipher, secret.valueIv, secret.valueTag);
+      if (value !== null) {
+        env[secret.key] = value;
+      }
+    } catch (error) {
+      console.warn(
+        `[codex-webapp] Unable to decrypt secret ${secret.key} of session ${sessionId}:`,
+        error instanceof Error ? error.message : error,
+      );
+    }
+  }
+  return env;
+}
+
+/** Copies the secrets of one session to another, e.g. to a fork. */
+export function copySessionSecrets(
+  sourceSessionId: string,
+  targetSessionId: string,
+  userId: string | null,
+): void {
+  for (const [key, value] of Object.entries(getSessionSecretEnv(sourceSessionId))) {
+    storeSecret(targetSessionId, key, value, userId);
+  }
+}
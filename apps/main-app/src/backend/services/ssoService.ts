@@ -0,0 +1,517 @@
+import crypto from "node:crypto";
+import jwt from "jsonwebtoken";
+import database from "../db";
+import type { UserRecord } from "../types/database";
+import { hashPassword, sanitizeUsername } from "./authService";
+
+/**
+ * SSO Service
+ * Sign-in with GitHub and OpenID Connect providers configured in the
+ * environment. Users are created on their first sign-in, and their admin flag
+ * can follow group or organization membership at the provider.
+ */
+
+export type SsoProvider = {
+  /** `github`, or the id listed in OIDC_PROVIDERS. */
+  id: string;
+  name: string;
+  type: "github" | "oidc";
+  clientId: string;
+  clientSecret: string;
+  /** Issuer URL of an OIDC provider. */
+  issuer: string | null;
+  scopes: string;
+  /** ID token or userinfo claim that lists the user's groups. */
+  groupsClaim: string;
+  /** Members of these groups (GitHub: `org` or `org/team`) are admins; empty leaves the flag alone. */
+  adminGroups: string[];
+  /** Only members of these groups may sign in; empty allows everyone. */
+  allowedGroups: string[];
+};
+
+type PendingLogin = {
+  providerId: string;
+  redirectUri: string;
+  codeVerifier: string;
+  nonce: string;
+  /** Set when a signed-in user links an account instead of signing in. */
+  linkUserId: string | null;
+  expiresAt: number;
+};
+
+type SsoProfile = {
+  subject: string;
+  preferredUsername: string | null;
+  email: string | null;
+  groups: string[];
+};
+
+type OidcJwk = crypto.JsonWebKey & { kid?: string; use?: string };
+
+type OidcMetadata = {
+  discovery: {
+    issuer: string;
+    authorization_endpoint: string;
+    token_endpoint: string;
+    jwks_uri: string;
+    userinfo_endpoint?: string;
+  };
+  keys: OidcJwk[];
+  fetchedAt: number;
+};
+
+export type SsoLoginResult = {
+  user: UserRecord;
+  provider: SsoProvider;
+  created: boolean;
+  linked: boolean;
+  /** Admin flag before and after it was synced from the provider's groups. */
+  adminChange: { before: boolean; after: boolean } | null;
+};
+
+const PASSWORD_LOGIN_SETTING = "password_login_enabled";
+const PENDING_LOGIN_TTL_MS = 10 * 60 * 1000;
+const METADATA_TTL_MS = 60 * 60 * 1000;
+const GITHUB_API_URL = "https://api.github.com";
+const ID_TOKEN_ALGORITHMS: jwt.Algorithm[] = ["RS256", "RS384", "RS512", "PS256", "ES256", "ES384"];
+
+// Off unless enabled, and then only for providers limited to allowed groups,
+// so not everyone with an account at the provider can sign up
+const autoProvision = process.env.SSO_AUTO_PROVISION === "true";
+
+const pendingLogins = new Map<string, PendingLogin>();
+const metadataCache = new Map<string, OidcMetadata>();
+let providers: SsoProvider[] | null = null;
+
+const readList = (value: string | undefined): string[] =>
+  (value ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+
+const loadProviders = (): SsoProvider[] => {
+  const loaded: SsoProvider[] = [];
+
+  const githubClientId = process.env.GITHUB_CLIENT_ID;
+  const githubClientSecret = process.env.GITHUB_CLIENT_SECRET;
+  if (process.env.GITHUB_LOGIN_ENABLED === "true" && githubClientId && githubClientSecret) {
+    loaded.push({
+      id: "github",
+      name: "GitHub",
+      type: "github",
+      clientId: githubClientId,
+      clientSecret: githubClientSecret,
+      issuer: null,
+      scopes: "read:user user:email read:org",
+      groupsClaim: "",
+      adminGroups: readList(process.env.GITHUB_ADMIN_ORGS),
+      allowedGroups: readList(process.env.GITHUB_ALLOWED_ORGS),
+    });
+  }
+
+  for (const id of readList(process.env.OIDC_PROVIDERS)) {
+    const prefix = `OIDC_${id.toUpperCase().replace(/-/g, "_")}`;
+    const issuer = process.env[`${prefix}_ISSUER`];
+    const clientId = process.env[`${prefix}_CLIENT_ID`];
+    const clientSecret = process.env[`${prefix}_CLIENT_SECRET`];
+    if (id === "github" || !/^[a-z0-9-]+$/.test(id) || !issuer || !clientId || !clientSecret) {
+      console.warn(
+        `[codex-webapp] Skipping OIDC provider '${id}': use a lowercase id and set ${prefix}_ISSUER, ${prefix}_CLIENT_ID and ${prefix}_CLIENT_SECRET`,
+      );
+      continue;
+    }
+    loaded.push({
+      id,
+      name: process.env[`${prefix}_NAME`] || id,
+      type: "oidc",
+      clientId,
+      clientSecret,
+      issuer: issuer.replace(/\/$/, ""),
+      scopes: process.env[`${prefix}_SCOPES`] || "openid profile email",
+      groupsClaim: process.env[`${prefix}_GROUPS_CLAIM`] || "groups",
+      adminGroups: readList(process.env[`${prefix}_ADMIN_GROUPS`]),
+      allowedGroups: readList(process.env[`${prefix}_ALLOWED_GROUPS`]),
+    });
+  }
+
+  return loaded;
+};
+
+export function listSsoProviders(): SsoProvider[] {
+  providers ??= loadProviders();
+  return providers;
+}
+
+export function getSsoProvider(id: string): SsoProvider | null {
+  return listSsoProviders().find((provider) => provider.id === id) ?? null;
+}
+
+/** Password sign-in can be turned off by admins; FORCE_PASSWORD_LOGIN turns it back on. */
+export function isPasswordLoginEnabled(): boolean {
+  if (process.env.FORCE_PASSWORD_LOGIN === "true") {
+    return true;
+  }
+  return database.getAppSetting(PASSWORD_LOGIN_SETTING) !== "false";
+}
+
+export function setPasswordLoginEnabled(enabled: boolean): void {
+  database.setAppSetting(PASSWORD_LOGIN_SETTING, String(enabled));
+}
+
+const fetchJson = async <T>(url: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    throw new Error(`${new URL(url).host} returned ${response.status}`);
+  }
+  return (await response.json()) as T;
+};
+
+const loadOidcMetadata = async (
+  provider: SsoProvider,
+  refresh = false,
+): Promise<OidcMetadata> => {
+  const cached = metadataCache.get(provider.id);
+  if (cached && !refresh && Date.now() - cached.fetchedAt < METADATA_TTL_MS) {
+    return cached;
+  }
+
+  const discovery = await fetchJson<OidcMetadata["discovery"]>(
+    `${provider.issuer}/.well-known/openid-configuration`,
+  );
+  const { keys } = await fetchJson<{ keys: OidcJwk[] }>(discovery.jwks_uri);
+  const metadata = { discovery, keys, fetchedAt: Date.now() };
+  metadataCache.set(provider.id, metadata);
+  return metadata;
+};
+
+const prunePendingLogins = (now: number) => {
+  for (const [state, pending] of pendingLogins) {
+    if (pending.expiresAt <= now) {
+      pendingLogins.delete(state);
+    }
+  }
+};
+
+/**
+ * Starts a sign-in at the provider. Returns the URL to send the browser to
+ * and the state that has to come back with the callback.
+ */
+export async function startSsoLogin(
+  provider: SsoProvider,
+  redirectUri: string,
+  linkUserId: string | null,
+): Promise<{ url: string; state: string }> {
+  const now = Date.now();
+  prunePendingLogins(now);
+
+  const state = crypto.randomBytes(24).toString("base64url");
+  const codeVerifier = crypto.randomBytes(32).toString("base64url");
+  const nonce = crypto.randomBytes(16).toString("base64url");
+  pendingLogins.set(state, {
+    providerId: provider.id,
+    redirectUri,
+    codeVerifier,
+    nonce,
+    linkUserId,
+    expiresAt: now + PENDING_LOGIN_TTL_MS,
+  });
+
+  if (provider.type === "github") {
+    const url = new URL("https://github.com/login/oauth/authorize");
+    url.searchParams.set("client_id", provider.clientId);
+    url.searchParams.set("redirect_uri", redirectUri);
+    url.searchParams.set("scope", provider.scopes);
+    url.searchParams.set("state", state);
+    url.searchParams.set("allow_signup", "false");
+    return { url: url.toString(), state };
+  }
+
+  const { discovery } = await loadOidcMetadata(provider);
+  const url = new URL(discovery.authorization_endpoint);
+  url.searchParams.set("response_type", "code");
+  url.searchParams.set("client_id", provider.clientId);
+  url.searchParams.set("redirect_uri", redirectUri);
+  url.searchParams.set("scope", provider.scopes);
+  url.searchParams.set("state", state);
+  url.searchParams.set("nonce", nonce);
+  url.searchParams.set(
+    "code_challenge",
+    crypto.createHash("sha256").update(codeVerifier).digest("base64url"),
+  );
+  url.searchParams.set("code_challenge_method", "S256");
+  return { url: url.toString(), state };
+}
+
+/** Removes and returns the sign-in started with `state`, if it is still valid. */
+export function takePendingLogin(state: string): PendingLogin | null {
+  const pending = pendingLogins.get(state) ?? null;
+  pendingLogins.delete(state);
+  return pending && pending.expiresAt > Date.now() ? pending : null;
+}
+
+const fetchGitHubProfile = async (
+  provider: SsoProvider,
+  pending: PendingLogin,
+  code: string,
+): Promise<SsoProfile> => {
+  const tokenData = await fetchJson<{
+    access_token?: string;
+    error?: string;
+    error_description?: string;
+  }>("https://github.com/login/oauth/access_token", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Accept: "application/json" },
+    body: JSON.stringify({
+      client_id: provider.clientId,
+      client_secret: provider.clientSecret,
+      code,
+      redirect_uri: pending.redirectUri,
+    }),
+  });
+  if (!tokenData.access_token) {
+    throw new Error(
+      `GitHub sign-in failed: ${tokenData.error_description || tokenData.error || "no access token"}`,
+    );
+  }
+
+  const github = <T>(path: string) =>
+    fetchJson<T>(`${GITHUB_API_URL}${path}`, {
+      headers: {
+        Authorization: `Bearer ${tokenData.access_token}`,
+        Accept: "application/vnd.github+json",
+        "User-Agent": "codex-webapp",
+      },
+    });
+
+  const account = await github<{ id: number; login: string; email: string | null }>("/user");
+  let groups: string[] = [];
+  if (provider.adminGroups.length > 0 || provider.allowedGroups.length > 0) {
+    const [orgs, teams] = await Promise.all([
+      github<Array<{ login: string }>>("/user/orgs?per_page=100"),
+      github<Array<{ slug: string; organization: { login: string } }>>("/user/teams?per_page=100"),
+    ]);
+    groups = [
+      ...orgs.map((org) => org.login),
+      ...teams.map((team) => `${team.organization.login}/${team.slug}`),
+    ];
+  }
+
+  return {
+    subject: String(account.id),
+    preferredUsername: account.login,
+    email: account.email,
+    groups,
+  };
+};
+
+const findSigningKey = (keys: OidcJwk[], kid: string | undefined): OidcJwk | undefined =>
+  keys.find((key) => (!kid || key.kid === kid) && (!key.use || key.use === "sig"));
+
+const verifyIdToken = async (
+  provider: SsoProvider,
+  idToken: string,
+  nonce: string,
+): Promise<jwt.JwtPayload> => {
+  const decoded = jwt.decode(idToken, { complete: true });
+  if (!decoded || typeof decoded.payload === "string") {
+    throw new Error(`${provider.name} returned an invalid ID token`);
+  }
+
+  let metadata = await loadOidcMetadata(provider);
+  let jwk = findSigningKey(metadata.keys, decoded.header.kid);
+  if (!jwk) {
+    // The provider may have rotated its keys since they were cached
+    metadata = await loadOidcMetadata(provider, true);
+    jwk = findSigningKey(metadata.keys, decoded.header.kid);
+  }
+  if (!jwk) {
+    throw new Error(`${provider.name} signed the ID token with an unknown key`);
+  }
+
+  const claims = jwt.verify(idToken, crypto.createPublicKey({ key: jwk, format: "jwk" }), {
+    algorithms: ID_TOKEN_ALGORITHMS,
+    audience: provider.clientId,
+    issuer: metadata.discovery.issuer,
+  }) as jwt.JwtPayload;
+  if (claims.nonce !== nonce || !claims.sub) {
+    throw new Error(`The ID token from ${provider.name} does not belong to this sign-in`);
+  }
+  return claims;
+};
+
+const readGroups = (claims: Record<string, unknown>, claim: string): string[] => {
+  const value = claims[claim];
+  if (Array.isArray(value)) {
+    return value.filter((entry): entry is string => typeof entry === "string");
+  }
+  return typeof value === "string" ? readList(value) : [];
+};
+
+const fetchOidcProfile = async (
+  provider: SsoProvider,
+  pending: PendingLogin,
+  code: string,
+): Promise<SsoProfile> => {
+  const { discovery } = await loadOidcMetadata(provider);
+  const response = await fetch(discovery.token_endpoint, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/x-www-form-urlencoded",
+      Accept: "application/json",
+    },
+    body: new URLSearchParams({
+      grant_type: "authorization_code",
+      code,
+      redirect_uri: pending.redirectUri,
+      client_id: provider.clientId,
+      client_secret: provider.clientSecret,
+      code_verifier: pending.codeVerifier,
+    }),
+  });
+  const tokens = (await response.json().catch(() => ({}))) as {
+    id_token?: string;
+    access_token?: string;
+    error?: string;
+    error_description?: string;
+  };
+  if (!response.ok || !tokens.id_token) {
+    throw new Error(
+      `Sign-in with ${provider.name} failed: ${tokens.error_description || tokens.error || response.status}`,
+    );
+  }
+
+  let claims: Record<string, unknown> = await verifyIdToken(provider, tokens.id_token, pending.nonce);
+  // Many providers only put groups and profile details in the userinfo response
+  if (discovery.userinfo_endpoint && tokens.access_token && !(provider.groupsClaim in claims)) {
+    const userinfo = await fetchJson<Record<string, unknown>>(discovery.userinfo_endpoint, {
+      headers: { Authorization: `Bearer ${tokens.access_token}`, Accept: "application/json" },
+    });
+    if (userinfo.sub === claims.sub) {
+      claims = { ...userinfo, ...claims };
+    }
+  }
+
+  return {
+    subject: String(claims.sub),
+    preferredUsername:
+      typeof claims.preferred_username === "string" ? claims.preferred_username : null,
+    email: typeof claims.email === "string" ? claims.email : null,
+    groups: readGroups(claims, provider.groupsClaim),
+  };
+};
+
+const isMemberOf = (groups: string[], wanted: string[]): boolean => {
+  const memberships = new Set(groups.map((group) => group.toLowerCase()));
+  return wanted.some((group) => memberships.has(group.toLowerCase()));
+};
+
+const provisionUser = async (provider: SsoProvider, profile: SsoProfile): Promise<UserRecord> => {
+  const fallback = `${provider.id}-user`;
+  const base =
+    sanitizeUsername(profile.preferredUsername ?? profile.email?.split("@")[0] ?? fallback)
+      .replace(/[^a-z0-9._-]+/g, "-")
+      .replace(/^-+|-+$/g, "")
+      .slice(0, 60) || fallback;
+  let username = base;
+  for (let suffix = 2; database.getUserByUsername(username); suffix += 1) {
+    username = `${base}-${suffix}`;
+  }
+
+  // Nobody knows this password; the user signs in through the provider
+  const passwordHash = await hashPassword(crypto.randomBytes(32).toString("base64url"));
+  return database.createUser({ username, passwordHash, isAdmin: false });
+};
+
+const syncAdminFlag = (
+  provider: SsoProvider,
+  user: UserRecord,
+  groups: string[],
+): SsoLoginResult["adminChange"] => {
+  if (provider.adminGroups.length === 0) {
+    return null;
+  }
+  const isAdmin = isMemberOf(groups, provider.adminGroups);
+  if (isAdmin === user.isAdmin) {
+    return null;
+  }
+  const anotherAdmin = database
+    .listUsers()
+    .some((entry) => entry.isAdmin && entry.id !== user.id);
+  if (!isAdmin && !anotherAdmin) {
+    return null;
+  }
+  database.updateUser(user.id, { isAdmin });
+  return { before: user.isAdmin, after: isAdmin };
+};
+
+/**
+ * Finishes a sign-in with the code from the provider's callback: finds the
+ * linked user or creates one, and syncs their admin flag.
+ */
+export async function completeSsoLogin(
+  pending: PendingLogin,
+  code: string,
+): Promise<SsoLoginResult> {
+  const provider = getSsoProvider(pending.providerId);
+  if (!provider) {
+    throw new Error("This sign-in provider is no longer configured.");
+  }
+
+  const profile =
+    provider.type === "github"
+      ? await fetchGitHubProfile(provider, pending, code)
+      : await fetchOidcProfile(provider, pending, code);
+
+  if (provider.allowedGroups.length > 0 && !isMemberOf(profile.groups, provider.allowedGroups)) {
+    throw new Error(`Your ${provider.name} account is not allowed to sign in here.`);
+  }
+
+  const identity = database.getUserIdentity(provider.id, profile.subject);
+  const lastLoginAt = new Date().toISOString();
+
+  if (pending.linkUserId) {
+    const user = database.getUserById(pending.linkUserId);
+    if (!user) {
+      throw new Error("The account to link no longer exists.");
+    }
+    if (identity && identity.userId !== user.id) {
+      throw new Error(`This ${provider.name} account is already linked to another user.`);
+    }
+    const linked =
+      identity ??
+      database.createUserIdentity({
+        userId: user.id,
+        provider: provider.id,
+        subject: profile.subject,
+        email: profile.email,
+      });
+    database.touchUserIdentity(linked.id, { email: profile.email, lastLoginAt });
+    return { user, provider, created: false, linked: true, adminChange: null };
+  }
+
+  let user = identity ? database.getUserById(identity.userId) : null;
+  let created = false;
+  if (!user) {
+    if (!autoProvision || provider.allowedGroups.length === 0) {
+      throw new Error(`No account is linked to this ${provider.name} sign-in. Ask an admin for access.`);
+    }
+    user = await provisionUser(provider, profile);
+    created = true;
+  }
+
+  const linked =
+    identity ??
+    database.createUserIdentity({
+      userId: user.id,
+      provider: provider.id,
+      subject: profile.subject,
+      email: profile.email,
+    });
+  database.touchUserIdentity(linked.id, { email: profile.email, lastLoginAt });
+
+  const adminChange = syncAdminFlag(provider, user, profile.groups);
+  if (adminChange) {
+    user = database.getUserById(user.id) ?? user;
+  }
+  return { user, provider, created, linked: false, adminChange };
+}
@@ -1,9 +1,7 @@
 import { DEFAULT_SESSION_TITLE } from "../config/sessions";
-import { codexManager } from "../codexManager";
-import { claudeManager } from "../claudeManager";
-import { getCodexMeta } from "../settings";
+import { getDefaultAgentSelection, type AgentSelection } from "../settings";
 import type { SessionRecord } from "../types/database";
-import { droidCliManager } from "../droidCliManager";
+import { getAgentManager } from "./agentRegistry";
 import { synchronizeUserAuthFiles } from "./userAuthManager";
 
 const MAX_TITLE_LENGTH = 80;
@@ -178,7 +176,7 @@ const heuristicTitleFromMessages = (
 export async function generateSessionTitle(
   session: SessionRecord,
   messages: unknown[],
-  options?: { fallback?: string },
+  options?: { fallback?: string; selection?: AgentSelection },
 ): Promise<string> {
   const fallbackTitle =
     options?.fallback?.trim() ?? session.title ?? DEFAULT_SESSION_TITLE;
@@ -192,23 +190,17 @@ export async function generateSessionTitle(
 
   if (serialized.length > 0) {
     try {
-      const meta = getCodexMeta();
-      const manager = (() => {
-        switch (meta.provider) {
-          case 'ClaudeCodeSDK':
-            return claudeManager;
-          case 'DroidCLI':
-            return droidCliManager;
-          case 'CodexSDK':
-          default:
-            return codexManager;
-        }
-      })();
+      const selection = options?.selection ?? getDefaultAgentSelection();
+      const manager = getAgentManager(selection.provider);
       const restoreEnv = applySessionAuthEnv(session);
       try {
         const suggestion = await manager.generateTitleSuggestion(
           session,
           serialized,
+          {
+            model: selection.model,
+            reasoningEffort: selection.reasoningEffort,
+          },
         );
         if (suggestion && suggestion.trim().length > 0) {
           return clampTitle(suggestion, fallbackTitle);
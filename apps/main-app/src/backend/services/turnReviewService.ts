@@ -0,0 +1,444 @@
+import { randomUUID } from "crypto";
+import fs from "fs";
+import path from "path";
+import database from "../db";
+import type { TurnChangeDecision } from "../types/database";
+import { getWorkspaceDirectory } from "../workspaces";
+import { runGit } from "./gitOperationsService";
+import { getActiveTurnJob } from "./turnService";
+
+/**
+ * Turn Review Service
+ * Snapshots the workspace before and after every agent turn into a private
+ * repository under .codex/, so the changes of a turn can be reviewed as a
+ * diff and reverted file by file or hunk by hunk. This works whether or not
+ * the workspace itself is a git working copy, and never touches its history.
+ */
+
+const SNAPSHOT_REPOSITORY = path.join(".codex", "snapshots.git");
+
+// Larger patches are not sent to the browser; the file can still be
+// reviewed and reverted as a whole.
+const MAX_DISPLAYED_FILE_PATCH_LENGTH = 256 * 1024;
+
+export type TurnSnapshotPhase = "before" | "after";
+
+export type TurnDiffHunk = {
+  index: number;
+  header: string;
+  /** Patch lines including their leading " ", "+", "-" or "\" marker. */
+  lines: string[];
+  decision: TurnChangeDecision | null;
+};
+
+export type TurnDiffFile = {
+  path: string;
+  status: "added" | "modified" | "deleted";
+  binary: boolean;
+  /** True when the patch is too large to display; `hunks` is then empty. */
+  truncated: boolean;
+  additions: number;
+  deletions: number;
+  hunks: TurnDiffHunk[];
+  /** Decision shared by every hunk of the file, null when undecided or mixed. */
+  decision: TurnChangeDecision | null;
+};
+
+export type TurnDiff = {
+  turnId: string;
+  /** False while the turn is running or when it predates snapshots. */
+  available: boolean;
+  files: TurnDiffFile[];
+};
+
+/** Files to act on; omitting `hunks` selects the whole file. */
+export type TurnChangeSelection = Array<{ path: string; hunks?: number[] }>;
+
+export type TurnReviewResult =
+  | { success: true; diff: TurnDiff }
+  | { success: false; status: number; error: string };
+
+type ParsedHunk = {
+  header: string;
+  lines: string[];
+};
+
+type ParsedFilePatch = {
+  path: string;
+  status: TurnDiffFile["status"];
+  binary: boolean;
+  headerLines: string[];
+  hunks: ParsedHunk[];
+  /** Complete patch of the file, as produced by git. */
+  text: string;
+};
+
+const snapshotRef = (turnId: string, phase: TurnSnapshotPhase): string =>
+  `refs/turns/${turnId}/${phase}`;
+
+const snapshotGit = (
+  workspacePath: string,
+  args: string[],
+  options: { raw?: boolean } = {},
+): Promise<string> =>
+  runGit(
+    [
+      "--git-dir",
+      path.join(workspacePath, SNAPSHOT_REPOSITORY),
+      "--work-tree",
+      workspacePath,
+      ...args,
+    ],
+    { cwd: workspacePath, raw: options.raw },
+  );
+
+async function ensureSnapshotRepository(workspacePath: string): Promise<void> {
+  const gitDir = path.join(workspacePath, SNAPSHOT_REPOSITORY);
+  if (!fs.existsSync(path.join(gitDir, "HEAD"))) {
+    fs.mkdirSync(gitDir, { recursive: true });
+    await runGit(["init", "--bare", "--quiet", gitDir], { cwd: workspacePath });
+  }
+
+  const excludePath = path.join(gitDir, "info", "exclude");
+  fs.mkdirSync(path.dirname(excludePath), { recursive: true });
+  fs.writeFileSync(excludePath, ".codex/\n");
+}
+
+/**
+ * Records the workspace state at the start or end of a turn. Review is a
+ * convenience, so failures are logged and never fail the turn.
+ */
+export async function captureTurnSnapshot(
+  sessionId: string,
+  turnId: string,
+  phase: TurnSnapshotPhase,
+): Promise<void> {
+  const workspacePath = getWorkspaceDirectory(sessionId);
+  try {
+    await ensureSnapshotRepository(workspacePath);
+    await snapshotGit(workspacePath, ["add", "--all"]);
+    const tree = await snapshotGit(workspacePath, ["write-tree"]);
+    await snapshotGit(workspacePath, ["update-ref", snapshotRef(turnId, phase), tree]);
+  } catch (error) {
+    console.warn(
+      `[turn-review] Failed to snapshot workspace ${sessionId} ${phase} turn ${turnId}:`,
+      error,
+    );
+  }
+}
+
+const unquoteGitPath = (value: string): string =>
+  value.replace(/\\([0-7]{3}|.)/g, (_match, escaped: string) => {
+    if (escaped.length === 3) {
+      return String.fromCharCode(parseInt(escaped, 8));
+    }
+    return escaped === "t" ? "\t" : escaped === "n" ? "\n" : escaped;
+  });
+
+/** Reads the path from a `diff --git a/<path> b/<path>` line (renames are disabled). */
+const parseDiffPath = (line: string): string => {
+  const paths = line.slice("diff --git ".length);
+  if (paths.startsWith('"')) {
+    const match = paths.match(/^"a\/((?:[^"\\]|\\.)*)"/);
+    return match ? unquoteGitPath(match[1]) : paths;
+  }
+  return paths.slice(2, 2 + (paths.length - 5) / 2);
+};
+
+function parsePatch(output: string): ParsedFilePatch[] {
+  return output
+    .split(/^(?=diff --git )/m)
+    .filter((section) => section.startsWith("diff --git "))
+    .map((section) => {
+      const text = section.endsWith("\n") ? section : `${section}\n`;
+      const lines = text.slice(0, -1).split("\n");
+      const firstHunk = lines.findIndex((line) => line.startsWith("@@"));
+      const headerLines = firstHunk === -1 ? lines : lines.slice(0, firstHunk);
+
+      const hunks: ParsedHunk[] = [];
+      for (const line of firstHunk === -1 ? [] : lines.slice(firstHunk)) {
+        if (line.startsWith("@@")) {
+          hunks.push({ header: line, lines: [] });
+        } else {
+          hunks[hunks.length - 1].lines.push(line);
+        }
+      }
+
+      return {
+        path: parseDiffPath(lines[0]),
+        status: headerLines.some((line) => line.startsWith("new file mode"))
+          ? "added"
+          : headerLines.some((line) => line.startsWith("deleted file mode"))
+            ? "deleted"
+            : "modified",
+        binary: headerLines.some(
+          (line) => line === "GIT binary patch" || line.startsWith("Binary files "),
+        ),
+        headerLines,
+        hunks,
+        text,
+      };
+    });
+}
+
+const isWholeFilePatch = (file: ParsedFilePatch): boolean =>
+  file.binary || file.hunks.length === 0 || file.text.length > MAX_DISPLAYED_FILE_PATCH_LENGTH;
+
+/** Indices that can be decided on individually; whole-file patches use 0. */
+const reviewUnits = (file: ParsedFilePatch): number[] =>
+  isWholeFilePatch(file) ? [0] : file.hunks.map((_hunk, index) => index);
+
+async function readTurnPatch(
+  workspacePath: string,
+  turnId: string,
+): Promise<ParsedFilePatch[] | null> {
+  if (!fs.existsSync(path.join(workspacePath, SNAPSHOT_REPOSITORY, "HEAD"))) {
+    return null;
+  }
+
+  const before = snapshotRef(turnId, "before");
+  const after = snapshotRef(turnId, "after");
+  try {
+    for (const ref of [before, after]) {
+      await snapshotGit(workspacePath, ["rev-parse", "--verify", "--quiet", ref]);
+    }
+  } catch {
+    return null;
+  }
+
+  const output = await snapshotGit(
+    workspacePath,
+    [
+      "-c",
+      "core.quotePath=false",
+      "diff",
+      "--no-color",
+      "--no-ext-diff",
+      "--no-renames",
+      "--binary",
+      "--full-index",
+      before,
+      after,
+    ],
+    { raw: true },
+  );
+  return parsePatch(output);
+}
+
+const reviewKey = (filePath: string, hunkIndex: number): string =>
+  `${filePath}\u0000${hunkIndex}`;
+
+function toTurnDiff(turnId: string, files: ParsedFilePatch[] | null): TurnDiff {
+  if (!files) {
+    return { turnId, available: false, files: [] };
+  }
+
+  const decisions = new Map(
+    database
+      .listTurnChangeReviews(turnId)
+      .map((review) => [reviewKey(review.filePath, review.hunkIndex), review.decision]),
+  );
+
+  return {
+    turnId,
+    available: true,
+    files: files.map((file) => {
+      const wholeFile = isWholeFilePatch(file);
+      const unitDecisions = reviewUnits(file).map(
+        (index) => decisions.get(reviewKey(file.path, index)) ?? null,
+      );
+      const changedLines = file.hunks.flatMap((hunk) => hunk.lines);
+
+      return {
+        path: file.path,
+        status: file.status,
+        binary: file.binary,
+        truncated: wholeFile && !file.binary && file.hunks.length > 0,
+        additions: changedLines.filter((line) => line.startsWith("+")).length,
+        deletions: changedLines.filter((line) => line.startsWith("-")).length,
+        hunks: wholeFile
+          ? []
+          : file.hunks.map((hunk, index) => ({
+              index,
+              header: hunk.header,
+              lines: hunk.lines,
+              decision: unitDecisions[index],
+            })),
+        decision: unitDecisions.every((decision) => decision === unitDecisions[0])
+          ? unitDecisions[0]
+          : null,
+      };
+    }),
+  };
+}
+
+export async function getTurnDiff(
+  sessionId: string,
+  turnId: string,
+): Promise<TurnDiff> {
+  const files = await readTurnPatch(getWorkspaceDirectory(sessionId), turnId);
+  return toTurnDiff(turnId, files);
+}
+
+type ResolvedSelection = Array<{ file: ParsedFilePatch; hunkIndices: number[] }>;
+
+function resolveSelection(
+  files: ParsedFilePatch[],
+  selection: TurnChangeSelection,
+): { success: true; resolved: ResolvedSelection } | { success: false; error: string } {
+  const resolved: ResolvedSelection = [];
+  for (const entry of selection) {
+    const file = files.find((candidate) => candidate.path === entry.path);
+    if (!file) {
+      return { success: false, error: `This turn did not change ${entry.path}` };
+    }
+
+    const units = reviewUnits(file);
+    const hunkIndices =
+      entry.hunks && !isWholeFilePatch(file) ? [...new Set(entry.hunks)] : units;
+    if (hunkIndices.some((index) => !units.includes(index))) {
+      return { success: false, error: `Unknown hunk selected in ${entry.path}` };
+    }
+    resolved.push({ file, hunkIndices });
+  }
+  return { success: true, resolved };
+}
+
+async function loadSelection(
+  sessionId: string,
+  turnId: string,
+  selection: TurnChangeSelection,
+): Promise<
+  | { success: true; workspacePath: string; files: ParsedFilePatch[]; resolved: ResolvedSelection }
+  | { success: false; status: number; error: string }
+> {
+  const workspacePath = getWorkspaceDirectory(sessionId);
+  const files = await readTurnPatch(workspacePath, turnId);
+  if (!files) {
+    return {
+      success: false,
+      status: 409,
+      error: "No snapshot of this turn is available for review",
+    };
+  }
+
+  const result = resolveSelection(files, selection);
+  return result.success
+    ? { success: true, workspacePath, files, resolved: result.resolved }
+    : { success: false, status: 400, error: result.error };
+}
+
+const listRevertedKeys = (turnId: string): Set<string> =>
+  new Set(
+    database
+      .listTurnChangeReviews(turnId)
+      .filter((review) => review.decision === "reverted")
+      .map((review) => reviewKey(review.filePath, review.hunkIndex)),
+  );
+
+const toReviewEntries = (resolved: ResolvedSelection) =>
+  resolved.flatMap(({ file, hunkIndices }) =>
+    hunkIndices.map((hunkIndex) => ({ filePath: file.path, hunkIndex })),
+  );
+
+/**
+ * Marks changes as accepted. Acceptance only records the decision; the
+ * workspace already contains the changes.
+ */
+export async function acceptTurnChanges(
+  sessionId: string,
+  turnId: string,
+  selection: TurnChangeSelection,
+): Promise<TurnReviewResult> {
+  const loaded = await loadSelection(sessionId, turnId, selection);
+  if (!loaded.success) {
+    return loaded;
+  }
+
+  const reverted = listRevertedKeys(turnId);
+  database.recordTurnChangeReviews(
+    turnId,
+    "accepted",
+    toReviewEntries(loaded.resolved).filter(
+      (entry) => !reverted.has(reviewKey(entry.filePath, entry.hunkIndex)),
+    ),
+  );
+  return { success: true, diff: toTurnDiff(turnId, loaded.files) };
+}
+
+/**
+ * Restores the selected changes of a turn to their state before the turn by
+ * applying the reverse patch to the workspace. Fails without touching any
+ * file when a selected change was modified afterwards.
+ */
+export async function revertTurnChanges(
+  sessionId: string,
+  turnId: string,
+  selection: TurnChangeSelection,
+): Promise<TurnReviewResult> {
+  if (getActiveTurnJob(sessionId)) {
+    return {
+      success: false,
+      status: 409,
+      error: "Wait for the running turn to finish before reverting changes",
+    };
+  }
+
+  const loaded = await loadSelection(sessionId, turnId, selection);
+  if (!loaded.success) {
+    return loaded;
+  }
+
+  const reverted = listRevertedKeys(turnId);
+  const pending = loaded.resolved
+    .map(({ file, hunkIndices }) => ({
+      file,
+      hunkIndices: hunkIndices.filter(
+        (index) => !reverted.has(reviewKey(file.path, index)),
+      ),
+    }))
+    .filter(({ hunkIndices }) => hunkIndices.length > 0);
+
+  if (pending.length > 0) {
+    const patch = pending
+      .map(({ file, hunkIndices }) =>
+        isWholeFilePatch(file) || hunkIndices.length === file.hunks.length
+          ? file.text
+          : [
+              ...file.headerLines,
+              ...hunkIndices.flatMap((index) => [
+                file.hunks[index].header,
+                ...file.hunks[index].lines,
+              ]),
+              "",
+            ].join("\n"),
+      )
+      .join("");
+
+    const patchPath = path.join(
+      loaded.workspacePath,
+      SNAPSHOT_REPOSITORY,
+      `revert-${randomUUID()}.patch`,
+    );
+    fs.writeFileSync(patchPath, patch);
+    try {
+      try {
+        await snapshotGit(loaded.workspacePath, ["apply", "--reverse", "--check", patchPath]);
+      } catch (error) {
+        return {
+          success: false,
+          status: 409,
+          error: `The selected changes were modified after this turn and cannot be reverted: ${
+            error instanceof Error ? error.message : "patch does not apply"
+          }`,
+        };
+      }
+      await snapshotGit(loaded.workspacePath, ["apply", "--reverse", patchPath]);
+    } finally {
+      fs.rmSync(patchPath, { force: true });
+    }
+  }
+
+  database.recordTurnChangeReviews(turnId, "reverted", toReviewEntries(pending));
+  return { success: true, diff: toTurnDiff(turnId, loaded.files) };
+}
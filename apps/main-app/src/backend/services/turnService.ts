@@ -0,0 +1,304 @@
+import type { Response } from "express";
+import database from "../db";
+import { messageToResponse, toSessionResponse } from "../types/api";
+import type { SessionTurnRecord, SessionTurnStatus } from "../types/database";
+
+export type TurnStreamEvent = { type: string } & Record<string, unknown>;
+
+type BufferedTurnEvent = {
+  seq: number;
+  event: TurnStreamEvent;
+};
+
+type TurnListener = (entry: BufferedTurnEvent) => void;
+
+export type TurnOutcome = {
+  status: Exclude<SessionTurnStatus, "running">;
+  error?: string | null;
+};
+
+export type TurnEmitter = (event: TurnStreamEvent) => void;
+
+export type SessionTurnJob = {
+  id: string;
+  sessionId: string;
+  status: SessionTurnStatus;
+  events: BufferedTurnEvent[];
+  nextSeq: number;
+  listeners: Set<TurnListener>;
+  abortController: AbortController;
+};
+
+// Finished jobs stay in memory for a while so late subscribers can replay
+// the live event log; afterwards the stream is rebuilt from the database.
+const FINISHED_TURN_RETENTION_MS = 10 * 60 * 1000;
+
+const jobs = new Map<string, SessionTurnJob>();
+const activeTurnsBySession = new Map<string, string>();
+
+export const getTurnJob = (turnId: string): SessionTurnJob | null =>
+  jobs.get(turnId) ?? null;
+
+export const getActiveTurnJob = (sessionId: string): SessionTurnJob | null => {
+  const turnId = activeTurnsBySession.get(sessionId);
+  return turnId ? getTurnJob(turnId) : null;
+};
+
+const emitTurnEvent = (job: SessionTurnJob, event: TurnStreamEvent) => {
+  const seq = job.nextSeq;
+  job.nextSeq += 1;
+  const entry: BufferedTurnEvent = {
+    seq,
+    event: { ...event, turnId: job.id, seq },
+  };
+
+  // Snapshots carry the full assistant state, so only the latest one needs
+  // to be kept for replay.
+  if (event.type === "assistant_message_snapshot") {
+    job.events = job.events.filter(
+      (buffered) => buffered.event.type !== "assistant_message_snapshot",
+    );
+  }
+  job.events.push(entry);
+
+  for (const listener of [...job.listeners]) {
+    listener(entry);
+  }
+};
+
+const finishTurnJob = (job: SessionTurnJob, outcome: TurnOutcome) => {
+  if (job.status !== "running") {
+    return;
+  }
+
+  const lastEvent = job.events[job.events.length - 1]?.event;
+  if (lastEvent?.type !== "done") {
+    emitTurnEvent(job, { type: "done" });
+  }
+
+  job.status = outcome.status;
+  job.listeners.clear();
+  database.updateSessionTurnStatus(job.id, outcome.status, outcome.error ?? null);
+  if (activeTurnsBySession.get(job.sessionId) === job.id) {
+    activeTurnsBySession.delete(job.sessionId);
+  }
+
+  const timer = setTimeout(() => {
+    jobs.delete(job.id);
+  }, FINISHED_TURN_RETENTION_MS);
+  timer.unref?.();
+};
+
+/**
+ * Runs an agent turn detached from any HTTP request. The runner publishes
+ * stream events through `emit`; clients subscribe and unsubscribe freely
+ * without affecting the run. `onFinish` runs once the session is idle again.
+ */
+export function startTurnJob(
+  record: SessionTurnRecord,
+  run: (emit: TurnEmitter, signal: AbortSignal) => Promise<TurnOutcome>,
+  onFinish?: (job: SessionTurnJob) => void,
+): SessionTurnJob {
+  const job: SessionTurnJob = {
+    id: record.id,
+    sessionId: record.sessionId,
+    status: "running",
+    events: [],
+    nextSeq: 0,
+    listeners: new Set(),
+    abortController: new AbortController(),
+  };
+
+  jobs.set(job.id, job);
+  activeTurnsBySession.set(job.sessionId, job.id);
+
+  const emit: TurnEmitter = (event) => {
+    if (job.status === "running") {
+      emitTurnEvent(job, event);
+    }
+  };
+
+  void (async () => {
+    try {
+      const outcome = await run(emit, job.abortController.signal);
+      finishTurnJob(job, outcome);
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Agent turn failed";
+      console.error(`[turns] Turn ${job.id} crashed:`, error);
+      emit({ type: "error", message });
+      finishTurnJob(job, { status: "failed", error: message });
+    }
+
+    try {
+      onFinish?.(job);
+    } catch (error) {
+      console.error(`[turns] Follow-up for turn ${job.id} failed:`, error);
+    }
+  })();
+
+  return job;
+}
+
+/**
+ * Requests cancellation of a running turn. The runner stops the agent and
+ * persists the partial output; returns false when the turn already ended.
+ */
+export function cancelTurnJob(job: SessionTurnJob): boolean {
+  if (job.status !== "running" || job.abortController.signal.aborted) {
+    return false;
+  }
+  job.abortController.abort();
+  return true;
+}
+
+/**
+ * Replays buffered events newer than `afterSeq` and, while the turn is still
+ * running, forwards new ones. Returns an unsubscribe function.
+ */
+export function subscribeToTurn(
+  job: SessionTurnJob,
+  afterSeq: number,
+  listener: TurnListener,
+): () => void {
+  for (const entry of job.events) {
+    if (entry.seq > afterSeq) {
+      listener(entry);
+    }
+  }
+
+  if (job.status !== "running") {
+    return () => {};
+  }
+
+  job.listeners.add(listener);
+  return () => {
+    job.listeners.delete(listener);
+  };
+}
+
+const prepareNdjsonResponse = (res: Response) => {
+  if (res.headersSent) {
+    return;
+  }
+  res.setHeader("Content-Type", "application/x-ndjson; charset=utf-8");
+  res.setHeader("Cache-Control", "no-cache");
+  res.setHeader("Connection", "keep-alive");
+  res.setHeader("X-Accel-Buffering", "no");
+  res.flushHeaders?.();
+};
+
+const writeNdjson = (res: Response, event: unknown) => {
+  if (res.writableEnded) {
+    return;
+  }
+  res.write(`${JSON.stringify(event)}\n`);
+  const flush = (res as Response & { flush?: () => void }).flush;
+  flush?.call(res);
+};
+
+/**
+ * Streams a turn job as NDJSON. Disconnecting only detaches this response;
+ * the turn keeps running on the server.
+ */
+export function pipeTurnToResponse(
+  res: Response,
+  job: SessionTurnJob,
+  afterSeq = -1,
+): void {
+  prepareNdjsonResponse(res);
+
+  let unsubscribe: () => void = () => {};
+  const detach = () => {
+    unsubscribe();
+  };
+
+  res.on("close", detach);
+
+  unsubscribe = subscribeToTurn(job, afterSeq, (entry) => {
+    writeNdjson(res, entry.event);
+    if (entry.event.type === "done") {
+      detach();
+      if (!res.writableEnded) {
+        res.end();
+      }
+    }
+  });
+
+  // Defensive: a finished job always ends with "done", but never leave the
+  // response hanging if the buffer was empty.
+  if (job.status !== "running" && !res.writableEnded) {
+    res.end();
+  }
+}
+
+/**
+ * Rebuilds the stream of a turn that is no longer held in memory from the
+ * persisted messages.
+ */
+export function replayStoredTurn(res: Response, record: SessionTurnRecord): void {
+  prepareNdjsonResponse(res);
+
+  const userMessage = record.userMessageId
+    ? database.getMessage(record.userMessageId)
+    : null;
+  if (userMessage) {
+    writeNdjson(res, {
+      type: "user_message",
+      message: messageToResponse(userMessage),
+      turnId: record.id,
+    });
+  }
+
+  const assistantMessage = record.assistantMessageId
+    ? database.getMessage(record.assistantMessageId)
+    : null;
+  const session = database.getSession(record.sessionId);
+
+  if (assistantMessage && session) {
+    writeNdjson(res, {
+      type: "assistant_message_final",
+      temporaryId: assistantMessage.id,
+      message: messageToResponse(assistantMessage),
+      session: toSessionResponse(session),
+      usage: null,
+      turnId: record.id,
+    });
+  } else if (record.error) {
+    writeNdjson(res, {
+      type: "error",
+      message: record.error,
+      turnId: record.id,
+    });
+  }
+
+  writeNdjson(res, { type: "done", turnId: record.id });
+  res.end();
+}
+
+/**
+ * Turns cannot survive a server restart; close out the ones that were
+ * running and keep whatever output was already persisted.
+ */
+export function recoverInterruptedTurns(): void {
+  for (const turn of database.listRunningSessionTurns()) {
+    if (turn.assistantMessageId) {
+      const message = database.getMessage(turn.assistantMessageId);
+      if (message) {
+        const hasContent =
+          message.content.trim().length > 0 || message.items.length > 0;
+        if (hasContent) {
+          database.updateMessage(message.id, { status: "completed" });
+        } else {
+          database.deleteMessage(message.id);
+        }
+      }
+    }
+
+    database.updateSessionTurnStatus(
+      turn.id,
+      "failed",
+      "The server restarted before this turn finished.",
+    );
+  }
+}
@@ -0,0 +1,298 @@
+import crypto from "node:crypto";
+import QRCode from "qrcode";
+import database from "../db";
+import type { UserRecord } from "../types/database";
+import { isEncryptionAvailable } from "../utils/secretVault";
+
+/**
+ * Two-Factor Service
+ * TOTP codes (RFC 6238) from authenticator apps as a second sign-in step,
+ * one-time recovery codes for lost devices, and the admin setting that
+ * makes two-factor authentication mandatory.
+ */
+
+export type TwoFactorRequirement = "off" | "admins" | "all";
+
+export const TWO_FACTOR_REQUIREMENTS: TwoFactorRequirement[] = ["off", "admins", "all"];
+
+type LoginChallenge = {
+  userId: string;
+  /** Lifetime of the login session once the code is accepted. */
+  sessionTtlMs: number | undefined;
+  attempts: number;
+  expiresAt: number;
+};
+
+const REQUIREMENT_SETTING = "two_factor_requirement";
+const ISSUER = process.env.TOTP_ISSUER || "Codex WebApp";
+const SECRET_BYTES = 20;
+const STEP_SECONDS = 30;
+const CODE_DIGITS = 6;
+// Codes from the previous and next step are accepted for clock drift
+const ALLOWED_DRIFT_STEPS = 1;
+const RECOVERY_CODE_COUNT = 10;
+const CHALLENGE_TTL_MS = 5 * 60 * 1000;
+const CHALLENGE_MAX_ATTEMPTS = 5;
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+const loginChallenges = new Map<string, LoginChallenge>();
+
+const encodeBase32 = (buffer: Buffer): string => {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+};
+
+const decodeBase32 = (input: string): Buffer => {
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of input.replace(/=+$/, "").toUpperCase()) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      continue;
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+};
+
+const generateCode = (key: Buffer, step: number): string => {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = crypto.createHmac("sha1", key).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** CODE_DIGITS).padStart(CODE_DIGITS, "0");
+};
+
+/**
+ * Returns the time step the code belongs to, or null when it does not match.
+ * Steps up to `lastUsedStep` are skipped so a code cannot be used twice.
+ */
+const matchTotpCode = (
+  secret: string,
+  code: string,
+  lastUsedStep: number | null,
+): number | null => {
+  const normalized = code.replace(/\s+/g, "");
+  if (!new RegExp(`^\\d{${CODE_DIGITS}}$`).test(normalized)) {
+    return null;
+  }
+
+  const key = decodeBase32(secret);
+  const currentStep = Math.floor(Date.now() / 1000 / STEP_SECONDS);
+  for (let step = currentStep - ALLOWED_DRIFT_STEPS; step <= currentStep + ALLOWED_DRIFT_STEPS; step += 1) {
+    if (lastUsedStep !== null && step <= lastUsedStep) {
+      continue;
+    }
+    if (crypto.timingSafeEqual(Buffer.from(generateCode(key, step)), Buffer.from(normalized))) {
+      return step;
+    }
+  }
+  return null;
+};
+
+const hashRecoveryCode = (code: string): string =>
+  crypto
+    .createHash("sha256")
+    .update(code.toLowerCase().replace(/[^a-z0-9]/g, ""))
+    .digest("hex");
+
+const generateRecoveryCodes = (): string[] =>
+  Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = crypto.randomBytes(5).toString("hex");
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+
+export function getTwoFactorRequirement(): TwoFactorRequirement {
+  const value = database.getAppSetting(REQUIREMENT_SETTING);
+  return TWO_FACTOR_REQUIREMENTS.includes(value as TwoFactorRequirement)
+    ? (value as TwoFactorRequirement)
+    : "off";
+}
+
+export function setTwoFactorRequirement(requirement: TwoFactorRequirement): void {
+  database.setAppSetting(REQUIREMENT_SETTING, requirement);
+}
+
+export function isTwoFactorRequired(user: Pick<UserRecord, "isAdmin">): boolean {
+  const requirement = getTwoFactorRequirement();
+  return requirement === "all" || (requirement === "admins" && user.isAdmin);
+}
+
+/**
+ * Secrets are only stored encrypted, so two-factor authentication needs
+ * CODEX_WEBAPP_SECRET.
+ */
+export const isTwoFactorAvailable = (): boolean => isEncryptionAvailable();
+
+/** Whether the user has to turn on two-factor authentication before using the app. */
+export function isTwoFactorSetupRequired(user: UserRecord): boolean {
+  return !user.totpEnabledAt && isTwoFactorRequired(user);
+}
+
+export function getTwoFactorStatus(user: UserRecord) {
+  const totp = database.getUserTotp(user.id);
+  return {
+    enabled: Boolean(user.totpEnabledAt),
+    enabledAt: user.totpEnabledAt,
+    recoveryCodesRemaining: user.totpEnabledAt ? totp?.recoveryCodeHashes.length ?? 0 : 0,
+    required: isTwoFactorRequired(user),
+    requirement: getTwoFactorRequirement(),
+    available: isTwoFactorAvailable(),
+  };
+}
+
+/**
+ * Creates a new secret for the user to add to their authenticator app. It
+ * takes effect once `enableTwoFactor` receives a code generated from it.
+ */
+export async function startTwoFactorEnrollment(
+  user: UserRecord,
+): Promise<{ secret: string; otpauthUrl: string; qrCode: string }> {
+  const secret = encodeBase32(crypto.randomBytes(SECRET_BYTES));
+  database.updateUserTotp(user.id, {
+    secret,
+    enabledAt: null,
+    lastUsedStep: null,
+    recoveryCodeHashes: [],
+  });
+
+  const label = encodeURIComponent(`${ISSUER}:${user.username}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer: ISSUER,
+    algorithm: "SHA1",
+    digits: String(CODE_DIGITS),
+    period: String(STEP_SECONDS),
+  });
+  const otpauthUrl = `otpauth://totp/${label}?${params.toString()}`;
+  const qrCode = await QRCode.toDataURL(otpauthUrl, { margin: 1, width: 220 });
+  return { secret, otpauthUrl, qrCode };
+}
+
+/**
+ * Turns on two-factor authentication when the code matches the secret being
+ * enrolled. Returns the recovery codes, which are only shown once.
+ */
+export function enableTwoFactor(userId: string, code: string): string[] | null {
+  const totp = database.getUserTotp(userId);
+  if (!totp?.secret || totp.enabledAt) {
+    return null;
+  }
+
+  const step = matchTotpCode(totp.secret, code, null);
+  if (step === null) {
+    return null;
+  }
+
+  const recoveryCodes = generateRecoveryCodes();
+  database.updateUserTotp(userId, {
+    enabledAt: new Date().toISOString(),
+    lastUsedStep: step,
+    recoveryCodeHashes: recoveryCodes.map(hashRecoveryCode),
+  });
+  return recoveryCodes;
+}
+
+/** Checks a code from the authenticator app or, failing that, an unused recovery code. */
+export function verifyTwoFactorCode(userId: string, code: string): "totp" | "recovery" | null {
+  const totp = database.getUserTotp(userId);
+  if (!totp?.secret || !totp.enabledAt) {
+    return null;
+  }
+
+  const step = matchTotpCode(totp.secret, code, totp.lastUsedStep);
+  if (step !== null) {
+    database.updateUserTotp(userId, { lastUsedStep: step });
+    return "totp";
+  }
+
+  const hash = hashRecoveryCode(code);
+  if (!totp.recoveryCodeHashes.includes(hash)) {
+    return null;
+  }
+  database.updateUserTotp(userId, {
+    recoveryCodeHashes: totp.recoveryCodeHashes.filter((entry) => entry !== hash),
+  });
+  return "recovery";
+}
+
+export function regenerateRecoveryCodes(userId: string): string[] {
+  const recoveryCodes = generateRecoveryCodes();
+  database.updateUserTotp(userId, { recoveryCodeHashes: recoveryCodes.map(hashRecoveryCode) });
+  return recoveryCodes;
+}
+
+export function disableTwoFactor(userId: string): void {
+  database.updateUserTotp(userId, {
+    secret: null,
+    enabledAt: null,
+    lastUsedStep: null,
+    recoveryCodeHashes: [],
+  });
+}
+
+const pruneLoginChallenges = (now: number) => {
+  for (const [token, challenge] of loginChallenges) {
+    if (challenge.expiresAt <= now) {
+      loginChallenges.delete(token);
+    }
+  }
+};
+
+/** Starts the second sign-in step for a user whose first factor checked out. */
+export function createLoginChallenge(userId: string, sessionTtlMs?: number): string {
+  const now = Date.now();
+  pruneLoginChallenges(now);
+
+  const token = crypto.randomBytes(24).toString("base64url");
+  loginChallenges.set(token, {
+    userId,
+    sessionTtlMs,
+    attempts: 0,
+    expiresAt: now + CHALLENGE_TTL_MS,
+  });
+  return token;
+}
+
+/**
+ * Counts an attempt at the challenge and returns it while it is valid. The
+ * challenge is dropped after too many attempts, so the password has to be
+ * entered again.
+ */
+export function attemptLoginChallenge(token: string): LoginChallenge | null {
+  const challenge = loginChallenges.get(token);
+  if (!challenge) {
+    return null;
+  }
+
+  challenge.attempts += 1;
+  if (challenge.expiresAt <= Date.now() || challenge.attempts > CHALLENGE_MAX_ATTEMPTS) {
+    loginChallenges.delete(token);
+    return null;
+  }
+  return challenge;
+}
+
+export function completeLoginChallenge(token: string): void {
+  loginChallenges.delete(token);
+}
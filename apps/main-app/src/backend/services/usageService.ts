@@ -0,0 +1,143 @@
+import type { Usage } from "@openai/codex-sdk";
+import database from "../db";
+import type { AgentSelection } from "../settings";
+import type {
+  SessionRecord,
+  UsageGroupBy,
+  UsageReportRow,
+} from "../types/database";
+
+/**
+ * Usage Service
+ * Records the token usage of agent turns and aggregates it into cost reports.
+ */
+
+export const DEFAULT_USAGE_REPORT_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type NormalizedUsage = {
+  inputTokens: number;
+  cachedInputTokens: number;
+  outputTokens: number;
+};
+
+export type UsageTotals = Omit<UsageReportRow, "groupKey" | "label">;
+
+export type UsageReport = {
+  groupBy: UsageGroupBy;
+  /** First day of the report (inclusive, UTC). */
+  from: string;
+  /** Last day of the report (inclusive, UTC). */
+  to: string;
+  rows: UsageReportRow[];
+  totals: UsageTotals;
+};
+
+const toTokenCount = (value: unknown): number =>
+  typeof value === "number" && Number.isFinite(value) && value > 0
+    ? Math.round(value)
+    : 0;
+
+/**
+ * Brings agent usage into one shape. Claude reports cache reads and writes
+ * next to `input_tokens`, so they are folded in to match Codex, where input
+ * tokens already include the cached ones.
+ */
+export function normalizeUsage(usage: Usage): NormalizedUsage | null {
+  if (!usage || typeof usage !== "object") {
+    return null;
+  }
+
+  const record = usage as Record<string, unknown>;
+  const cacheReads = toTokenCount(record.cache_read_input_tokens);
+  const cacheWrites = toTokenCount(record.cache_creation_input_tokens);
+  const normalized: NormalizedUsage = {
+    inputTokens: toTokenCount(record.input_tokens) + cacheReads + cacheWrites,
+    cachedInputTokens: toTokenCount(record.cached_input_tokens) + cacheReads,
+    outputTokens: toTokenCount(record.output_tokens),
+  };
+
+  const isEmpty =
+    normalized.inputTokens === 0 &&
+    normalized.cachedInputTokens === 0 &&
+    normalized.outputTokens === 0;
+  return isEmpty ? null : normalized;
+}
+
+/**
+ * Stores the usage of a turn on its assistant message. Accounting must never
+ * fail a turn, so errors are only logged.
+ */
+export function recordTurnUsage(
+  session: SessionRecord,
+  messageId: string,
+  turnMeta: AgentSelection,
+  usage: Usage,
+): void {
+  const normalized = normalizeUsage(usage);
+  if (!normalized) {
+    return;
+  }
+
+  try {
+    database.recordMessageUsage({
+      messageId,
+      sessionId: session.id,
+      userId: session.userId,
+      provider: turnMeta.provider,
+      model: turnMeta.model,
+      ...normalized,
+    });
+  } catch (error) {
+    console.error(`[usage] Failed to record usage for message ${messageId}:`, error);
+  }
+}
+
+const toDay = (date: Date): string => date.toISOString().slice(0, 10);
+
+/**
+ * Aggregates usage between two UTC days (inclusive). Defaults to the last
+ * {@link DEFAULT_USAGE_REPORT_DAYS} days.
+ */
+export function buildUsageReport(options: {
+  groupBy: UsageGroupBy;
+  from?: string;
+  to?: string;
+  userId?: string | null;
+}): UsageReport {
+  const to = options.to ?? toDay(new Date());
+  const from =
+    options.from ??
+    toDay(new Date(Date.parse(to) - (DEFAULT_USAGE_REPORT_DAYS - 1) * DAY_MS));
+
+  const rows = database.getUsageReport(options.groupBy, {
+    from: `${from}T00:00:00.000Z`,
+    to: new Date(Date.parse(to) + DAY_MS).toISOString(),
+    userId: options.userId ?? null,
+  });
+  if (options.groupBy === "day") {
+    rows.sort((left, right) => right.groupKey.localeCompare(left.groupKey));
+  }
+
+  const totals = rows.reduce<UsageTotals>(
+    (sum, row) => ({
+      turns: sum.turns + row.turns,
+      inputTokens: sum.inputTokens + row.inputTokens,
+      cachedInputTokens: sum.cachedInputTokens + row.cachedInputTokens,
+      outputTokens: sum.outputTokens + row.outputTokens,
+      cost: sum.cost + row.cost,
+      unpricedTurns: sum.unpricedTurns + row.unpricedTurns,
+    }),
+    {
+      turns: 0,
+      inputTokens: 0,
+      cachedInputTokens: 0,
+      outputTokens: 0,
+      cost: 0,
+      unpricedTurns: 0,
+    },
+  );
+
+  return { groupBy: options.groupBy, from, to, rows, totals };
+}
@@ -2,7 +2,9 @@ import type { Server as HttpServer } from "node:http";
 import { WebSocketServer, WebSocket } from "ws";
 import { parse as parseUrl } from "node:url";
 import { validateSessionToken } from "./sessionTokenService";
+import { recordServiceActivity } from "./serviceIdleService";
 import type { StreamChunk } from "@codex-webapp/shared";
+import type { DeploymentResponse } from "../../shared/dokploy";
 
 type ClientConnection = {
   ws: WebSocket;
@@ -129,6 +131,8 @@ class WebSocketBridgeService {
    * Handle incoming message from a client
    */
   private handleMessage(client: ClientConnection, message: any): void {
+    recordServiceActivity(client.sessionId);
+
     // If this is a service sending a stream chunk, broadcast to all clients watching this session
     if (client.isService && message.type === "stream_chunk") {
       this.broadcastToSession(client.sessionId, message, client.ws);
@@ -174,6 +178,17 @@ class WebSocketBridgeService {
     });
   }
 
+  /**
+   * Public method to tell clients of a session that one of its deployments
+   * changed status
+   */
+  broadcastDeploymentUpdate(sessionId: string, deployment: DeploymentResponse): void {
+    this.broadcastToSession(sessionId, {
+      type: "deployment_status",
+      deployment,
+    });
+  }
+
   /**
    * Close all connections and shut down the WebSocket server
    */
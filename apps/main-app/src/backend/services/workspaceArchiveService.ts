@@ -3,12 +3,23 @@ import fs from "node:fs";
 import fsPromises from "node:fs/promises";
 import path from "node:path";
 import { fileURLToPath } from "node:url";
+import { runGit } from "./gitOperationsService";
+import { DATA_DIR, DATABASE_PATH } from "../db";
+import { DEFAULT_WORKSPACE_ROOT } from "../workspaces";
+import { signValue, verifySignature } from "../utils/secretVault";
+import {
+  compileIgnorePattern,
+  isPathIgnored,
+  mayReincludeBelow,
+  parseIgnoreFile,
+  type IgnoreRule,
+} from "../utils/ignorePatterns";
+import type { ArchivePreviewResponse, DeployArchiveRules } from "../../shared/dokploy";
 
 const servicesDir = path.dirname(fileURLToPath(import.meta.url));
 const backendRoot = path.resolve(servicesDir, "..");
 const srcRoot = path.resolve(backendRoot, "..");
 const projectRoot = path.resolve(srcRoot, "..");
-const defaultRoot = projectRoot;
 const artifactsDir = path.join(projectRoot, "var", "deploy-artifacts");
 
 fs.mkdirSync(artifactsDir, { recursive: true });
@@ -20,31 +31,231 @@ const sanitizeKey = (key: string): string => {
   return key;
 };
 
-const TAR_EXCLUDES = [".git", "node_modules", "dist", "var", "workspaces", ".cache"];
+// Applied before the workspace's ignore files; `include` patterns can override them
+const DEFAULT_EXCLUDES = [
+  ".git/",
+  ".codex/",
+  "node_modules/",
+  "dist/",
+  ".cache/",
+  "/var/",
+  "/workspaces/",
+  ".env",
+  ".env.*",
+  "!.env.example",
+];
 
-export const createWorkspaceArchive = async (options?: {
-  workspaceRoot?: string;
+// Server state that no rule can put into an archive: the database with its
+// journal files, other data, and every session's workspace
+const SERVER_DATA_DIRS = [DATA_DIR, path.join(projectRoot, "var"), artifactsDir].map((dir) =>
+  path.resolve(dir),
+);
+const workspacesRoot = path.resolve(DEFAULT_WORKSPACE_ROOT);
+
+const isWithin = (candidate: string, directory: string): boolean =>
+  candidate === directory || candidate.startsWith(`${directory}${path.sep}`);
+
+const isServerData = (absolutePath: string): boolean =>
+  absolutePath.startsWith(path.resolve(DATABASE_PATH)) ||
+  SERVER_DATA_DIRS.some((dir) => isWithin(absolutePath, dir)) ||
+  absolutePath === workspacesRoot;
+
+type ArchiveEntry = { path: string; size: number };
+
+const readIgnoreFile = async (filePath: string): Promise<string | null> => {
+  try {
+    return await fsPromises.readFile(filePath, "utf8");
+  } catch {
+    return null;
+  }
+};
+
+/** HEAD commit of the archived directory, when it is a git working copy. */
+const readCommitSha = async (workspaceRoot: string): Promise<string | null> => {
+  try {
+    return await runGit(["rev-parse", "--verify", "HEAD"], { cwd: workspaceRoot });
+  } catch {
+    return null;
+  }
+};
+
+const resolveWorkspaceRoot = (workspaceRoot: string): string => {
+  const resolved = path.resolve(workspaceRoot);
+  if (
+    SERVER_DATA_DIRS.some((dir) => isWithin(resolved, dir) || isWithin(dir, resolved)) ||
+    isWithin(workspacesRoot, resolved)
+  ) {
+    throw new Error("This directory contains server data and cannot be archived.");
+  }
+  return resolved;
+};
+
+/**
+ * .gitignore rules of the directories between the repository top level and
+ * `workspaceRoot`, relative to that top level, plus the path of the root
+ * below it. Nothing when the root is not inside a git working copy.
+ */
+const collectParentGitRules = async (
+  workspaceRoot: string,
+): Promise<{ rules: IgnoreRule[]; rootPath: string }> => {
+  const parents: string[] = [];
+  let directory = workspaceRoot;
+  let topLevel: string | null = null;
+  while (true) {
+    if (await fsPromises.stat(path.join(directory, ".git")).catch(() => null)) {
+      topLevel = directory;
+      break;
+    }
+    const parent = path.dirname(directory);
+    if (parent === directory) {
+      break;
+    }
+    directory = parent;
+    parents.unshift(directory);
+  }
+  if (!topLevel || topLevel === workspaceRoot) {
+    return { rules: [], rootPath: "" };
+  }
+
+  const toPosix = (value: string) => value.split(path.sep).join("/");
+  const rules: IgnoreRule[] = [];
+  for (const parent of parents) {
+    const content = await readIgnoreFile(path.join(parent, ".gitignore"));
+    if (content) {
+      rules.push(...parseIgnoreFile(content, { base: toPosix(path.relative(topLevel, parent)) }));
+    }
+  }
+  return { rules, rootPath: toPosix(path.relative(topLevel, workspaceRoot)) };
+};
+
+/**
+ * Lists the files an archive of `workspaceRoot` contains. Rules apply in
+ * order, last match wins: .gitignore files of parent directories up to the
+ * repository top level, defaults, .gitignore files (nested ones below their
+ * directory), the root .dockerignore, the target's `exclude` and finally its
+ * `include` patterns. Server data is left out whatever the rules say.
+ */
+const collectArchiveEntries = async (
+  workspaceRoot: string,
+  archiveRules: DeployArchiveRules = {},
+): Promise<ArchiveEntry[]> => {
+  const stats = await fsPromises.stat(workspaceRoot).catch(() => null);
+  if (!stats?.isDirectory()) {
+    throw new Error(`Workspace directory not found: ${workspaceRoot}`);
+  }
+
+  const useGitignore = archiveRules.useGitignore ?? true;
+  const parentGit = useGitignore
+    ? await collectParentGitRules(workspaceRoot)
+    : { rules: [], rootPath: "" };
+  const inParent = (relativePath: string) =>
+    parentGit.rootPath ? `${parentGit.rootPath}/${relativePath}` : relativePath;
+  const dockerRules: IgnoreRule[] = [];
+  if (archiveRules.useDockerignore ?? true) {
+    const content = await readIgnoreFile(path.join(workspaceRoot, ".dockerignore"));
+    if (content) {
+      dockerRules.push(...parseIgnoreFile(content, { anchored: true }));
+    }
+  }
+  const overrideRules = [
+    ...parseIgnoreFile((archiveRules.exclude ?? []).join("\n")),
+    ...(archiveRules.include ?? [])
+      .map((pattern) => pattern.trim().replace(/^!/, ""))
+      .filter((pattern) => pattern.length > 0)
+      .map((pattern) => compileIgnorePattern(`!${pattern}`))
+      .filter((rule): rule is IgnoreRule => rule !== null),
+  ];
+
+  const entries: ArchiveEntry[] = [];
+
+  // `gitRules` holds the default and .gitignore rules that apply in `directory`
+  const walk = async (directory: string, gitRules: IgnoreRule[], inherited: boolean) => {
+    const absolute = path.join(workspaceRoot, directory);
+
+    let scopedRules = gitRules;
+    if (useGitignore) {
+      const content = await readIgnoreFile(path.join(absolute, ".gitignore"));
+      if (content) {
+        scopedRules = [...gitRules, ...parseIgnoreFile(content, { base: directory })];
+      }
+    }
+    const rules = [...scopedRules, ...dockerRules, ...overrideRules];
+
+    const dirents = await fsPromises.readdir(absolute, { withFileTypes: true });
+    dirents.sort((a, b) => a.name.localeCompare(b.name));
+    for (const dirent of dirents) {
+      const relativePath = directory ? `${directory}/${dirent.name}` : dirent.name;
+      if (isServerData(path.join(workspaceRoot, relativePath))) {
+        continue;
+      }
+      const isIgnored = (isDirectory: boolean) =>
+        isPathIgnored(
+          rules,
+          relativePath,
+          isDirectory,
+          isPathIgnored(parentGit.rules, inParent(relativePath), isDirectory, inherited),
+        );
+      if (dirent.isDirectory()) {
+        const ignored = isIgnored(true);
+        if (
+          !ignored ||
+          mayReincludeBelow(rules, relativePath) ||
+          mayReincludeBelow(parentGit.rules, inParent(relativePath))
+        ) {
+          await walk(relativePath, scopedRules, ignored);
+        }
+      } else if (dirent.isFile() || dirent.isSymbolicLink()) {
+        if (!isIgnored(false)) {
+          const fileStats = await fsPromises.lstat(path.join(workspaceRoot, relativePath));
+          entries.push({ path: relativePath, size: fileStats.size });
+        }
+      }
+    }
+  };
+
+  await walk("", parseIgnoreFile(DEFAULT_EXCLUDES.join("\n")), false);
+  return entries;
+};
+
+/** Lists what `createWorkspaceArchive` would pack, without writing anything. */
+export const previewWorkspaceArchive = async (options: {
+  workspaceRoot: string;
+  rules?: DeployArchiveRules;
+}): Promise<ArchivePreviewResponse> => {
+  const root = resolveWorkspaceRoot(options.workspaceRoot);
+  const files = await collectArchiveEntries(root, options.rules);
+  return {
+    root,
+    files,
+    fileCount: files.length,
+    totalBytes: files.reduce((total, file) => total + file.size, 0),
+  };
+};
+
+export const createWorkspaceArchive = async (options: {
+  workspaceRoot: string;
+  rules?: DeployArchiveRules;
 }): Promise<{
   key: string;
   path: string;
   size: number;
+  commitSha: string | null;
 }> => {
-  const workspaceRoot = options?.workspaceRoot
-    ? path.resolve(options.workspaceRoot)
-    : defaultRoot;
+  const workspaceRoot = resolveWorkspaceRoot(options.workspaceRoot);
+  const entries = await collectArchiveEntries(workspaceRoot, options.rules);
+  if (entries.length === 0) {
+    throw new Error("No files left to archive after applying the ignore rules.");
+  }
 
   const timestamp = Date.now();
   const key = `workspace-${timestamp}.tar.gz`;
   const outputPath = path.join(artifactsDir, key);
 
-  const args = ["-czf", outputPath];
-  TAR_EXCLUDES.forEach((exclude) => {
-    args.push("--exclude", exclude);
-  });
-  args.push("-C", workspaceRoot, ".");
+  // The file list goes through stdin, NUL separated, so any file name is safe
+  const args = ["-czf", outputPath, "-C", workspaceRoot, "--no-recursion", "--null", "-T", "-"];
 
   await new Promise<void>((resolve, reject) => {
-    const tar = spawn("tar", args, { stdio: "ignore" });
+    const tar = spawn("tar", args, { stdio: ["pipe", "ignore", "ignore"] });
     tar.on("error", (error) => reject(error));
     tar.on("exit", (code) => {
       if (code === 0) {
@@ -53,10 +264,13 @@ export const createWorkspaceArchive = async (options?: {
         reject(new Error(`tar exited with code ${code}`));
       }
     });
+    tar.stdin.on("error", () => undefined);
+    tar.stdin.end(entries.map((entry) => `${entry.path}\0`).join(""));
   });
 
   const stats = await fsPromises.stat(outputPath);
-  return { key, path: outputPath, size: stats.size }; 
+  const commitSha = await readCommitSha(workspaceRoot);
+  return { key, path: outputPath, size: stats.size, commitSha };
 };
 
 export const getArtifactPath = (key: string): string => {
@@ -68,3 +282,46 @@ export const removeArtifact = async (key: string): Promise<void> => {
   const artifactPath = getArtifactPath(key);
   await fsPromises.rm(artifactPath, { force: true });
 };
+
+/**
+ * Download URL for an artifact that stops working at `expiresAt`. Dokploy
+ * fetches the archive anonymously, so the signature is its only credential.
+ */
+export const signArtifactUrl = (origin: string, key: string, expiresAt: Date): string => {
+  const expires = String(expiresAt.getTime());
+  const signature = signValue(`${sanitizeKey(key)}:${expires}`);
+  const query = new URLSearchParams({ expires, signature });
+  return `${origin}/api/deploy/artifacts/${key}?${query.toString()}`;
+};
+
+export const verifyArtifactSignature = (
+  key: string,
+  expires: string,
+  signature: string,
+): boolean => {
+  const expiresAt = Number(expires);
+  if (!Number.isFinite(expiresAt) || expiresAt < Date.now()) {
+    return false;
+  }
+  return verifySignature(`${key}:${expires}`, signature);
+};
+
+/** Archives currently on disk. */
+export const listArtifactFiles = async (): Promise<
+  Array<{ key: string; size: number; modifiedAt: string }>
+> => {
+  const entries = await fsPromises.readdir(artifactsDir, { withFileTypes: true });
+  const files = await Promise.all(
+    entries
+      .filter((entry) => entry.isFile() && /^[a-zA-Z0-9._-]+$/.test(entry.name))
+      .map(async (entry) => {
+        const stats = await fsPromises.stat(path.join(artifactsDir, entry.name));
+        return {
+          key: entry.name,
+          size: stats.size,
+          modifiedAt: stats.mtime.toISOString(),
+        };
+      }),
+  );
+  return files;
+};
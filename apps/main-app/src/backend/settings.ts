@@ -150,22 +150,98 @@ const getDefaultModelForProvider = (provider: CodexProvider): string => {
 let currentModel = getDefaultModelForProvider(currentProvider);
 let currentReasoningEffort = defaultReasoningEffort;
 
-export const getCodexMeta = (): CodexMeta => ({
-  provider: currentProvider,
+export type AgentSelection = {
+  provider: CodexProvider;
+  model: string;
+  reasoningEffort: CodexReasoningEffort;
+};
+
+export type AgentSelectionUpdates = {
+  model?: string;
+  reasoningEffort?: CodexReasoningEffort;
+  provider?: CodexProvider;
+};
+
+const resolveProviderModels = (provider: CodexProvider): string[] => {
+  const list = modelsByProvider[provider];
+  return list && list.length > 0 ? list : availableModels;
+};
+
+const buildCodexMeta = (selection: AgentSelection): CodexMeta => ({
+  provider: selection.provider,
   availableProviders,
-  model: currentModel,
-  reasoningEffort: currentReasoningEffort,
+  model: selection.model,
+  reasoningEffort: selection.reasoningEffort,
   availableModels,
   availableReasoningEfforts,
   modelsByProvider
 });
 
-export const updateCodexMeta = (updates: {
-  model?: string;
-  reasoningEffort?: CodexReasoningEffort;
-  provider?: CodexProvider;
-}): {
-  meta: CodexMeta;
+export const getCodexMeta = (): CodexMeta =>
+  buildCodexMeta({
+    provider: currentProvider,
+    model: currentModel,
+    reasoningEffort: currentReasoningEffort
+  });
+
+/**
+ * Global selection used for new sessions and for sessions that have not
+ * stored their own provider/model/reasoning effort yet.
+ */
+export const getDefaultAgentSelection = (): AgentSelection => ({
+  provider: currentProvider,
+  model: currentModel,
+  reasoningEffort: currentReasoningEffort
+});
+
+export const getCodexMetaForSelection = (selection: AgentSelection): CodexMeta =>
+  buildCodexMeta(selection);
+
+/**
+ * Resolves a stored (possibly partial or stale) selection against the
+ * currently available providers/models. Unknown values fall back to the
+ * global defaults instead of throwing so old sessions keep working.
+ */
+export const resolveAgentSelection = (
+  stored?: {
+    provider?: string | null;
+    model?: string | null;
+    reasoningEffort?: string | null;
+  } | null
+): AgentSelection => {
+  const defaults = getDefaultAgentSelection();
+
+  const provider =
+    stored?.provider && availableProviders.includes(stored.provider as CodexProvider)
+      ? (stored.provider as CodexProvider)
+      : defaults.provider;
+
+  const providerModels = resolveProviderModels(provider);
+  const model =
+    stored?.model && providerModels.includes(stored.model)
+      ? stored.model
+      : provider === defaults.provider && providerModels.includes(defaults.model)
+        ? defaults.model
+        : getDefaultModelForProvider(provider);
+
+  const reasoningEffort =
+    stored?.reasoningEffort &&
+    availableReasoningEfforts.includes(stored.reasoningEffort as CodexReasoningEffort)
+      ? (stored.reasoningEffort as CodexReasoningEffort)
+      : defaults.reasoningEffort;
+
+  return { provider, model, reasoningEffort };
+};
+
+/**
+ * Applies user-requested changes on top of an existing selection. Throws when
+ * a requested provider, model or reasoning effort is not available.
+ */
+export const applyAgentSelectionUpdates = (
+  previous: AgentSelection,
+  updates: AgentSelectionUpdates
+): {
+  selection: AgentSelection;
   modelChanged: boolean;
   reasoningChanged: boolean;
   providerChanged: boolean;
@@ -174,18 +250,9 @@ export const updateCodexMeta = (updates: {
   let reasoningChanged = false;
   let providerChanged = false;
 
-  const resolveProviderModels = (provider: CodexProvider): string[] => {
-    const list = modelsByProvider[provider];
-    return list && list.length > 0 ? list : availableModels;
-  };
-
-  const previousModel = currentModel;
-  const previousProvider = currentProvider;
-  const previousReasoningEffort = currentReasoningEffort;
-
-  let nextProvider = previousProvider;
-  let nextModel = previousModel;
-  let nextReasoningEffort = previousReasoningEffort;
+  let nextProvider = previous.provider;
+  let nextModel = previous.model;
+  let nextReasoningEffort = previous.reasoningEffort;
 
   if (typeof updates.provider === 'string') {
     const proposedProvider = updates.provider as CodexProvider;
@@ -194,7 +261,7 @@ export const updateCodexMeta = (updates: {
     }
 
     nextProvider = proposedProvider;
-    providerChanged = proposedProvider !== previousProvider;
+    providerChanged = proposedProvider !== previous.provider;
   }
 
   if (typeof updates.model === 'string') {
@@ -205,7 +272,7 @@ export const updateCodexMeta = (updates: {
     }
 
     nextModel = candidateModel;
-    modelChanged = candidateModel !== previousModel;
+    modelChanged = candidateModel !== previous.model;
   }
 
   if (typeof updates.reasoningEffort === 'string') {
@@ -215,7 +282,7 @@ export const updateCodexMeta = (updates: {
     }
 
     nextReasoningEffort = proposedEffort;
-    reasoningChanged = proposedEffort !== previousReasoningEffort;
+    reasoningChanged = proposedEffort !== previous.reasoningEffort;
   }
 
   const providerModels = resolveProviderModels(nextProvider);
@@ -223,23 +290,44 @@ export const updateCodexMeta = (updates: {
     const defaultForProvider = getDefaultModelForProvider(nextProvider);
     if (defaultForProvider !== nextModel) {
       nextModel = defaultForProvider;
-      modelChanged = defaultForProvider !== previousModel;
+      modelChanged = defaultForProvider !== previous.model;
     }
   }
 
+  return {
+    selection: {
+      provider: nextProvider,
+      model: nextModel,
+      reasoningEffort: nextReasoningEffort
+    },
+    modelChanged,
+    reasoningChanged,
+    providerChanged
+  };
+};
+
+export const updateCodexMeta = (updates: AgentSelectionUpdates): {
+  meta: CodexMeta;
+  modelChanged: boolean;
+  reasoningChanged: boolean;
+  providerChanged: boolean;
+} => {
+  const { selection, modelChanged, reasoningChanged, providerChanged } =
+    applyAgentSelectionUpdates(getDefaultAgentSelection(), updates);
+
   if (modelChanged) {
-    currentModel = nextModel;
-    process.env.CODEX_MODEL = nextModel;
+    currentModel = selection.model;
+    process.env.CODEX_MODEL = selection.model;
   }
 
   if (reasoningChanged) {
-    currentReasoningEffort = nextReasoningEffort;
-    process.env.CODEX_REASONING_EFFORT = nextReasoningEffort;
+    currentReasoningEffort = selection.reasoningEffort;
+    process.env.CODEX_REASONING_EFFORT = selection.reasoningEffort;
   }
 
   if (providerChanged) {
-    currentProvider = nextProvider;
-    process.env.CODEX_PROVIDER = nextProvider;
+    currentProvider = selection.provider;
+    process.env.CODEX_PROVIDER = selection.provider;
   }
 
   return {
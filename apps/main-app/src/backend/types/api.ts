@@ -25,12 +25,22 @@ export type MessageResponse = {
   id: string;
   role: MessageWithAttachments['role'];
   content: string;
+  status: MessageWithAttachments['status'];
   createdAt: string;
   attachments: AttachmentResponse[];
   items: ThreadItem[];
   responderProvider: string | null;
   responderModel: string | null;
   responderReasoningEffort: string | null;
+  usage: MessageUsageResponse | null;
+};
+
+export type MessageUsageResponse = {
+  provider: string | null;
+  model: string | null;
+  inputTokens: number;
+  cachedInputTokens: number;
+  outputTokens: number;
 };
 
 export type IncomingAttachment = {
@@ -65,10 +75,20 @@ export const messageToResponse = (message: MessageWithAttachments): MessageRespo
   id: message.id,
   role: message.role,
   content: message.content,
+  status: message.status,
   createdAt: message.createdAt,
   attachments: message.attachments.map(attachmentToResponse),
   items: message.items ?? [],
   responderProvider: message.responderProvider ?? null,
   responderModel: message.responderModel ?? null,
-  responderReasoningEffort: message.responderReasoningEffort ?? null
+  responderReasoningEffort: message.responderReasoningEffort ?? null,
+  usage: message.usage
+    ? {
+        provider: message.usage.provider,
+        model: message.usage.model,
+        inputTokens: message.usage.inputTokens,
+        cachedInputTokens: message.usage.cachedInputTokens,
+        outputTokens: message.usage.outputTokens
+      }
+    : null
 });
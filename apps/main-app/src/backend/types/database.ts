@@ -1,5 +1,9 @@
 import type { ThreadItem } from '@openai/codex-sdk';
-import type { DeployConfig } from '../../shared/dokploy';
+import type {
+  DeployConfig,
+  DeploymentStatus,
+  SessionServiceBackendKind
+} from '../../shared/dokploy';
 
 export type SessionRecord = {
   id: string;
@@ -12,11 +16,14 @@ export type SessionRecord = {
   userId: string | null;
 };
 
+export type MessageStatus = 'completed' | 'in_progress' | 'interrupted' | 'queued';
+
 export type MessageRecord = {
   id: string;
   sessionId: string;
   role: 'system' | 'user' | 'assistant';
   content: string;
+  status: MessageStatus;
   createdAt: string;
   responderProvider: string | null;
   responderModel: string | null;
@@ -37,6 +44,7 @@ export type AttachmentRecord = {
 export type MessageWithAttachments = MessageRecord & {
   attachments: AttachmentRecord[];
   items: ThreadItem[];
+  usage?: MessageUsageRecord | null;
 };
 
 export type NewAttachmentInput = {
@@ -46,9 +54,12 @@ export type NewAttachmentInput = {
   relativePath: string;
 };
 
-export type DeployConfigRow = {
+export type DeployTargetRow = {
   id: string;
+  name: string;
+  isDefault: boolean;
   config: DeployConfig;
+  createdAt: string;
   updatedAt: string;
   hasApiKey: boolean;
   apiKeyCipher?: string | null;
@@ -61,15 +72,32 @@ export type UserRecord = {
   username: string;
   passwordHash: string;
   isAdmin: boolean;
+  /** When the user turned on two-factor authentication, or null. */
+  totpEnabledAt: string | null;
   createdAt: string;
   updatedAt: string;
 };
 
+export type UserTotpRecord = {
+  userId: string;
+  /** Base32 secret, set while enrolling and once enabled. */
+  secret: string | null;
+  enabledAt: string | null;
+  /** Last 30-second step a code was accepted for, so codes cannot be replayed. */
+  lastUsedStep: number | null;
+  /** SHA-256 hashes of the recovery codes that have not been used. */
+  recoveryCodeHashes: string[];
+};
+
 export type LoginSessionRecord = {
   id: string;
   userId: string;
   expiresAt: string;
   createdAt: string;
+  /** The admin viewing the app as `userId`, for impersonation sessions. */
+  impersonatorUserId: string | null;
+  /** The admin's own login session, restored when the impersonation ends. */
+  impersonatorSessionId: string | null;
 };
 
 export type UserAuthFileRecord = {
@@ -91,6 +119,19 @@ export type SessionServiceRecord = {
   serviceUrl: string | null;
   status: 'creating' | 'running' | 'stopped' | 'error';
   errorMessage: string | null;
+  /** Last time someone used the session, for stopping idle services. */
+  lastActivityAt: string | null;
+  /** Why a stopped service was stopped; idle ones start again on open. */
+  stoppedReason: 'manual' | 'idle' | null;
+  backend: SessionServiceBackendKind;
+  /** Docker container of a service on the local backend. */
+  containerId: string | null;
+  /** Result of the last health check, null before the first one. */
+  health: 'healthy' | 'unhealthy' | null;
+  healthCheckedAt: string | null;
+  /** Automatic restarts since the service was last started by hand. */
+  restartCount: number;
+  lastRestartAt: string | null;
   createdAt: string;
   updatedAt: string;
 };
@@ -105,6 +146,233 @@ export type SessionSettingsRecord = {
   gitRemoteUrl: string | null;
   gitBranch: string | null;
   autoCommit: boolean;
+  provider: string | null;
+  model: string | null;
+  reasoningEffort: string | null;
+  deployTargetId: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type SearchResultSource = 'session' | 'message' | 'run_item';
+
+export type SearchResultRecord = {
+  source: SearchResultSource;
+  sessionId: string;
+  sessionTitle: string;
+  messageId: string | null;
+  role: MessageRecord['role'] | null;
+  snippet: string;
+  createdAt: string;
+};
+
+export type SessionForkRecord = {
+  sessionId: string;
+  sourceSessionId: string | null;
+  sourceMessageId: string | null;
+  createdAt: string;
+};
+
+export type MessageUsageRecord = {
+  messageId: string | null;
+  sessionId: string;
+  userId: string | null;
+  provider: string | null;
+  model: string | null;
+  inputTokens: number;
+  cachedInputTokens: number;
+  outputTokens: number;
+  createdAt: string;
+};
+
+export type ModelPricingRecord = {
+  model: string;
+  inputPerMillion: number;
+  cachedInputPerMillion: number | null;
+  outputPerMillion: number;
+  updatedAt: string;
+};
+
+export type UsageGroupBy = 'user' | 'session' | 'provider' | 'day';
+
+export type UsageReportRow = {
+  groupKey: string;
+  label: string;
+  turns: number;
+  inputTokens: number;
+  cachedInputTokens: number;
+  outputTokens: number;
+  cost: number;
+  unpricedTurns: number;
+};
+
+export type UserQuotaLimits = {
+  /** Agent turns started in the last hour, including queued messages. */
+  turnsPerHour: number | null;
+  /** Uncached input plus output tokens over the last 24 hours. */
+  tokensPerDay: number | null;
+  /** Agent turns running at the same time across all sessions. */
+  concurrentTurns: number | null;
+};
+
+export type UserQuotaRecord = UserQuotaLimits & {
+  userId: string;
+  updatedAt: string;
+};
+
+export type UserQuotaUsage = {
+  turnsLastHour: number;
+  oldestTurnInHourAt: string | null;
+  queuedMessages: number;
+  tokensLastDay: number;
+  oldestUsageInDayAt: string | null;
+  runningTurns: number;
+};
+
+export type SessionTurnStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+
+export type SessionTurnRecord = {
+  id: string;
+  sessionId: string;
+  userMessageId: string | null;
+  assistantMessageId: string | null;
+  status: SessionTurnStatus;
+  error: string | null;
   createdAt: string;
   updatedAt: string;
+  completedAt: string | null;
+};
+
+export type { DeploymentStatus };
+
+/** One deployment triggered against a deploy target. */
+export type DeploymentRecord = {
+  id: string;
+  targetId: string | null;
+  /** Name of the target at deploy time, kept after the target is deleted. */
+  targetName: string;
+  applicationId: string | null;
+  artifactKey: string | null;
+  commitSha: string | null;
+  userId: string | null;
+  username: string | null;
+  /** Session whose service was deployed, for session service deployments. */
+  sessionId: string | null;
+  dokployDeploymentId: string | null;
+  status: DeploymentStatus;
+  error: string | null;
+  /** Deployment whose artifact this one redeployed. */
+  redeployOf: string | null;
+  createdAt: string;
+  updatedAt: string;
+  completedAt: string | null;
+};
+
+/** Workspace archive uploaded for a deploy target. */
+export type DeployArtifactRecord = {
+  key: string;
+  targetId: string | null;
+  targetName: string | null;
+  size: number;
+  commitSha: string | null;
+  createdAt: string;
+};
+
+export type SessionSecretRecord = {
+  sessionId: string;
+  key: string;
+  valueCipher: string;
+  valueIv: string | null;
+  valueTag: string | null;
+  updatedBy: string | null;
+  updatedByUsername: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type SessionSecretAuditRecord = {
+  id: string;
+  sessionId: string;
+  key: string;
+  action: 'created' | 'updated' | 'deleted';
+  userId: string | null;
+  username: string | null;
+  createdAt: string;
+};
+
+export type TurnChangeDecision = 'accepted' | 'reverted';
+
+/** Review decision for one hunk of a turn's diff; files without text hunks use index 0. */
+export type TurnChangeReviewRecord = {
+  turnId: string;
+  filePath: string;
+  hunkIndex: number;
+  decision: TurnChangeDecision;
+  updatedAt: string;
+};
+
+export type AuditEventRecord = {
+  id: string;
+  createdAt: string;
+  /** Who did it: the signed-in person, also while impersonating. */
+  actorUserId: string | null;
+  actorUsername: string | null;
+  /** The user the actor was impersonating, if any. */
+  actingAsUserId: string | null;
+  actingAsUsername: string | null;
+  /** Dotted name such as `user.delete` or `deploy_target.update`. */
+  action: string;
+  targetType: string | null;
+  targetId: string | null;
+  targetLabel: string | null;
+  ip: string | null;
+  /** Summaries of the changed fields; never secrets. */
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+};
+
+/**
+ * What a personal API token may do: `read` allows GET requests, `sessions`
+ * also changes to sessions and their services, `deploy` also changes to
+ * deployment targets.
+ */
+export type ApiTokenScope = 'read' | 'sessions' | 'deploy';
+
+export type ApiTokenRecord = {
+  id: string;
+  userId: string;
+  name: string;
+  /** First characters of the token, to tell tokens apart; the rest is only stored hashed. */
+  tokenPrefix: string;
+  scopes: ApiTokenScope[];
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  lastUsedIp: string | null;
+  createdAt: string;
+};
+
+/** Links a user to their account at a sign-in provider. */
+export type UserIdentityRecord = {
+  id: string;
+  userId: string;
+  /** `github`, or the id of an OIDC provider. */
+  provider: string;
+  /** The provider's stable id of the account, e.g. the OIDC `sub`. */
+  subject: string;
+  email: string | null;
+  createdAt: string;
+  lastLoginAt: string | null;
+};
+
+export type AuditEventFilter = {
+  /** Exact action, or a prefix ending in "." such as `user.`. */
+  action?: string;
+  /** Matches the actor or the impersonated user. */
+  actorUserId?: string;
+  targetType?: string;
+  from?: string;
+  to?: string;
+  search?: string;
+  limit?: number;
+  offset?: number;
 };
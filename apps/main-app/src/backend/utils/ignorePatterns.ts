@@ -0,0 +1,160 @@
+/**
+ * Minimal .gitignore / .dockerignore matcher: comments, negation, anchoring,
+ * directory-only rules, `*`, `?`, `**` and character classes.
+ */
+
+export type IgnoreRule = {
+  pattern: string;
+  negated: boolean;
+  directoryOnly: boolean;
+  /** Directory the rule is relative to, '' for the archive root. */
+  base: string;
+  /** Literal leading directories of an anchored pattern, relative to the root, ending in '/'. */
+  prefix: string;
+  regex: RegExp;
+};
+
+const escapeRegex = (value: string): string => value.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+
+const globToRegex = (glob: string): string => {
+  let output = '';
+  for (let index = 0; index < glob.length; index += 1) {
+    const char = glob[index]!;
+    if (char === '*') {
+      if (glob[index + 1] === '*') {
+        const atSegmentStart = index === 0 || glob[index - 1] === '/';
+        if (atSegmentStart && glob[index + 2] === '/') {
+          output += '(?:.*/)?';
+          index += 2;
+        } else {
+          output += '.*';
+          index += 1;
+        }
+      } else {
+        output += '[^/]*';
+      }
+    } else if (char === '?') {
+      output += '[^/]';
+    } else if (char === '[') {
+      const end = glob.indexOf(']', index + 2);
+      if (end === -1) {
+        output += '\\[';
+      } else {
+        let body = glob.slice(index + 1, end).replace(/\\/g, '\\\\');
+        if (body.startsWith('!')) {
+          body = `^${body.slice(1)}`;
+        }
+        output += `[${body}]`;
+        index = end;
+      }
+    } else if (char === '\\' && index + 1 < glob.length) {
+      output += escapeRegex(glob[index + 1]!);
+      index += 1;
+    } else {
+      output += escapeRegex(char);
+    }
+  }
+  return output;
+};
+
+/**
+ * Compiles one pattern line. `anchored` treats every pattern as relative to
+ * `base`, as .dockerignore does; otherwise only patterns containing a slash are.
+ */
+export const compileIgnorePattern = (
+  line: string,
+  options: { base?: string; anchored?: boolean } = {},
+): IgnoreRule | null => {
+  let pattern = line.replace(/(?<!\\)\s+$/, '');
+  if (pattern.length === 0 || pattern.startsWith('#')) {
+    return null;
+  }
+
+  let negated = false;
+  if (pattern.startsWith('!')) {
+    negated = true;
+    pattern = pattern.slice(1);
+  } else if (pattern.startsWith('\\!') || pattern.startsWith('\\#')) {
+    pattern = pattern.slice(1);
+  }
+
+  let directoryOnly = false;
+  if (pattern.endsWith('/')) {
+    directoryOnly = true;
+    pattern = pattern.replace(/\/+$/, '');
+  }
+
+  const anchored = options.anchored || pattern.includes('/');
+  pattern = pattern.replace(/^\/+/, '');
+  if (options.anchored) {
+    pattern = pattern.replace(/^\.\//, '');
+  }
+  if (pattern.length === 0) {
+    return null;
+  }
+
+  const base = options.base ?? '';
+  const body = globToRegex(pattern);
+  const literal = anchored ? pattern.slice(0, pattern.search(/[*?[\\]|$/)) : '';
+  const literalDirectory = literal.slice(0, literal.lastIndexOf('/') + 1);
+  return {
+    pattern: line.trim(),
+    negated,
+    directoryOnly,
+    base,
+    prefix: anchored && base ? `${base}/${literalDirectory}` : literalDirectory,
+    regex: new RegExp(anchored ? `^${body}$` : `^(?:.*/)?${body}$`),
+  };
+};
+
+export const parseIgnoreFile = (
+  content: string,
+  options: { base?: string; anchored?: boolean } = {},
+): IgnoreRule[] =>
+  content
+    .split(/\r?\n/)
+    .map((line) => compileIgnorePattern(line, options))
+    .filter((rule): rule is IgnoreRule => rule !== null);
+
+/**
+ * Applies the rules in order, last match wins. `inherited` is the state of
+ * the parent directory, so entries of an ignored directory stay ignored
+ * unless a negated rule matches them.
+ */
+export const isPathIgnored = (
+  rules: IgnoreRule[],
+  relativePath: string,
+  isDirectory: boolean,
+  inherited = false,
+): boolean => {
+  let ignored = inherited;
+  for (const rule of rules) {
+    if (rule.directoryOnly && !isDirectory) {
+      continue;
+    }
+    let candidate = relativePath;
+    if (rule.base) {
+      if (!relativePath.startsWith(`${rule.base}/`)) {
+        continue;
+      }
+      candidate = relativePath.slice(rule.base.length + 1);
+    }
+    if (rule.regex.test(candidate)) {
+      ignored = !rule.negated;
+    }
+  }
+  return ignored;
+};
+
+/**
+ * Whether a negated rule may re-include something below an ignored
+ * directory. Only anchored rules with a literal prefix count, so re-includes
+ * such as `!*.md` do not force a walk through every ignored tree.
+ */
+export const mayReincludeBelow = (rules: IgnoreRule[], directory: string): boolean =>
+  rules.some(
+    (rule) =>
+      rule.negated &&
+      rule.prefix.length > 0 &&
+      (rule.prefix.startsWith(`${directory}/`) || `${directory}/`.startsWith(rule.prefix)),
+  );
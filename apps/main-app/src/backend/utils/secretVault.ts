@@ -65,3 +65,32 @@ export const decryptSecret = (
   ]);
   return decrypted.toString("utf8");
 };
+
+// Derived from CODEX_WEBAPP_SECRET, so the encryption key itself never signs
+// anything. There is no fallback: a random key would break every signed link
+// on restart.
+const getSigningKey = (): Buffer | null => {
+  const key = getSecretKey();
+  return key
+    ? Buffer.from(crypto.hkdfSync("sha256", key, Buffer.alloc(0), "codex-webapp signing", 32))
+    : null;
+};
+
+export const isSigningAvailable = (): boolean => getSigningKey() !== null;
+
+export const signValue = (value: string): string => {
+  const key = getSigningKey();
+  if (!key) {
+    throw new Error("Set CODEX_WEBAPP_SECRET on the server to create signed links.");
+  }
+  return crypto.createHmac("sha256", key).update(value).digest("base64url");
+};
+
+export const verifySignature = (value: string, signature: string): boolean => {
+  if (!isSigningAvailable()) {
+    return false;
+  }
+  const expected = Buffer.from(signValue(value));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+};
@@ -0,0 +1,41 @@
+import type { Request, Response } from "express";
+
+const HEARTBEAT_INTERVAL_MS = 25_000;
+
+export type EventStream = {
+  send: (event: string, data: unknown) => void;
+  /** Registers cleanup that runs once the client disconnects. */
+  onClose: (callback: () => void) => void;
+};
+
+/**
+ * Turns the response into a `text/event-stream`. A comment line is sent
+ * periodically so proxies do not drop the idle connection.
+ */
+export const openEventStream = (req: Request, res: Response): EventStream => {
+  res.status(200);
+  res.setHeader("Content-Type", "text/event-stream");
+  res.setHeader("Cache-Control", "no-cache, no-transform");
+  res.setHeader("Connection", "keep-alive");
+  res.setHeader("X-Accel-Buffering", "no");
+  res.flushHeaders();
+
+  const closeCallbacks: Array<() => void> = [];
+  const heartbeat = setInterval(() => {
+    res.write(": keep-alive\n\n");
+  }, HEARTBEAT_INTERVAL_MS);
+
+  req.on("close", () => {
+    clearInterval(heartbeat);
+    closeCallbacks.forEach((callback) => callback());
+  });
+
+  return {
+    send: (event, data) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    },
+    onClose: (callback) => {
+      closeCallbacks.push(callback);
+    },
+  };
+};
@@ -18,14 +18,23 @@ import {
   createSession,
   deleteSession,
   fetchMeta,
+  fetchSessionMeta,
   fetchSessionWorkspaceInfo,
   fetchMessages,
   fetchSessions,
   streamPostMessage,
-  updateMeta,
+  streamTurnEvents,
+  fetchCurrentTurn,
+  cancelCurrentTurn,
+  updateQueuedMessage,
+  deleteQueuedMessage,
+  forkSession,
+  updateSessionMeta,
   updateSessionTitle,
   setSessionTitleLock,
   setSessionAutoCommit,
+  setSessionDeployTarget,
+  fetchDeployTargetSummaries,
   autoUpdateSessionTitle,
   type AutoTitleMessagePayload,
   getSessionSettings,
@@ -34,10 +43,13 @@ import type {
   AppMeta,
   Message,
   PostMessageErrorResponse,
+  PostMessageStreamEvent,
+  SearchResult,
   Session,
   TurnItem,
   SessionWorkspaceInfo,
 } from "./api/types";
+import type { DeployTargetSummary } from "../../shared/dokploy";
 import ReactMarkdown, { type Components } from "react-markdown";
 import remarkGfm from "remark-gfm";
 import WorkspaceRootModal from "./components/WorkspaceRootModal";
@@ -46,6 +58,9 @@ import LoginPage from "./pages/LoginPage";
 import AdminPanel from "./components/AdminPanel";
 import DokployPanel from "./components/DokployPanel";
 import GitHubConnectionPanel from "./components/GitHubConnectionPanel";
+import SessionSearch from "./components/SessionSearch";
+import TurnReviewModal from "./components/TurnReviewModal";
+import ImpersonationBanner from "./components/ImpersonationBanner";
 import SessionSettingsModal, {
   type SessionSettings,
 } from "./components/SessionSettingsModal";
@@ -187,6 +202,49 @@ const isReasoningValue = (
 ): value is AppMeta["reasoningEffort"] =>
   value === "low" || value === "medium" || value === "high";
 
+const getStoredMetaPreferences = (
+  meta: AppMeta,
+): Partial<{
+  provider: AppMeta["provider"];
+  model: string;
+  reasoningEffort: AppMeta["reasoningEffort"];
+}> => {
+  const preferences: Partial<{
+    provider: AppMeta["provider"];
+    model: string;
+    reasoningEffort: AppMeta["reasoningEffort"];
+  }> = {};
+
+  const storedProviderRaw = safeGetLocalStorageItem(LAST_PROVIDER_STORAGE_KEY);
+  if (
+    isProviderValue(storedProviderRaw) &&
+    meta.availableProviders.includes(storedProviderRaw)
+  ) {
+    preferences.provider = storedProviderRaw;
+  }
+
+  const storedModelRaw = safeGetLocalStorageItem(LAST_MODEL_STORAGE_KEY);
+  const modelOptions = getModelOptionsForProvider(
+    meta,
+    preferences.provider ?? meta.provider,
+  );
+  if (storedModelRaw && modelOptions.includes(storedModelRaw)) {
+    preferences.model = storedModelRaw;
+  }
+
+  const storedReasoningRaw = safeGetLocalStorageItem(
+    LAST_REASONING_STORAGE_KEY,
+  );
+  if (
+    isReasoningValue(storedReasoningRaw) &&
+    meta.availableReasoningEfforts.includes(storedReasoningRaw)
+  ) {
+    preferences.reasoningEffort = storedReasoningRaw;
+  }
+
+  return preferences;
+};
+
 type Theme = "light" | "dark";
 
 const getInitialTheme = (): Theme => {
@@ -280,6 +338,34 @@ const ITEM_EMOJIS: Record<string, string> = {
 };
 
 const STREAMING_PREVIEW_MAX_LENGTH = 160;
+const MAX_TURN_REATTACH_ATTEMPTS = 5;
+const TURN_REATTACH_DELAY_MS = 1000;
+
+type TurnStreamResult = {
+  completed: boolean;
+  queued: boolean;
+  sawAssistantFinal: boolean;
+  userMessageCreatedAt: string | null;
+  turnId: string | null;
+  lastSeq: number | undefined;
+};
+
+// Queued follow-ups stay at the bottom of the chat until they are sent.
+const placeMessage = (messages: Message[], message: Message): Message[] => {
+  const remaining = messages.filter((entry) => entry.id !== message.id);
+  const firstQueuedIndex =
+    message.status === "queued"
+      ? -1
+      : remaining.findIndex((entry) => entry.status === "queued");
+  if (firstQueuedIndex < 0) {
+    return [...remaining, message];
+  }
+  return [
+    ...remaining.slice(0, firstQueuedIndex),
+    message,
+    ...remaining.slice(firstQueuedIndex),
+  ];
+};
 
 const truncatePreview = (value: string): string => {
   const trimmed = value.trim();
@@ -375,6 +461,22 @@ function AuthenticatedApp() {
   const [loadingMessages, setLoadingMessages] = useState(false);
   const [creatingSession, setCreatingSession] = useState(false);
   const [sendingMessage, setSendingMessage] = useState(false);
+  const [cancellingTurn, setCancellingTurn] = useState(false);
+  const [queueingMessage, setQueueingMessage] = useState(false);
+  const [forkingMessageId, setForkingMessageId] = useState<string | null>(
+    null,
+  );
+  const [reviewingMessageId, setReviewingMessageId] = useState<string | null>(
+    null,
+  );
+  const [focusRequest, setFocusRequest] = useState(0);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<
+    string | null
+  >(null);
+  const [editingQueuedMessage, setEditingQueuedMessage] = useState<{
+    id: string;
+    content: string;
+  } | null>(null);
   const [composerValue, setComposerValue] = useState("");
   const [errorNotice, setErrorNotice] = useState<string | null>(null);
   const [theme, setTheme] = useState<Theme>(() => getInitialTheme());
@@ -405,15 +507,19 @@ function AuthenticatedApp() {
     gitRemoteUrl: string | null;
     gitBranch: string | null;
     autoCommit: boolean;
+    deployTargetId: string | null;
     githubOwner?: string;
     githubRepo?: string;
   } | null>(null);
+  const [deployTargets, setDeployTargets] = useState<DeployTargetSummary[]>([]);
   const messageListRef = useRef<HTMLDivElement | null>(null);
   const bottomSentinelRef = useRef<HTMLDivElement | null>(null);
   const shouldAutoScrollRef = useRef(true);
   const pendingScrollToBottomRef = useRef(false);
+  const pendingFocusMessageIdRef = useRef<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement | null>(null);
   const activeSessionIdRef = useRef<string | null>(null);
+  const attachedTurnIdsRef = useRef<Set<string>>(new Set());
   const titleEditingRef = useRef(false);
 
   const isRawView = chatViewMode === "raw";
@@ -682,10 +788,17 @@ function AuthenticatedApp() {
     let canceled = false;
     const loadSettings = async () => {
       try {
-        const settings = await getSessionSettings(activeSessionId);
+        const [settings, targets] = await Promise.all([
+          getSessionSettings(activeSessionId),
+          fetchDeployTargetSummaries().catch((error) => {
+            console.error("Failed to load deployment targets", error);
+            return [];
+          }),
+        ]);
         if (canceled) {
           return;
         }
+        setDeployTargets(targets);
         
         // Extract GitHub owner/repo from gitRemoteUrl
         let githubOwner: string | undefined;
@@ -702,6 +815,7 @@ function AuthenticatedApp() {
           gitRemoteUrl: settings.gitRemoteUrl,
           gitBranch: settings.gitBranch,
           autoCommit: settings.autoCommit ?? true,
+          deployTargetId: settings.deployTargetId ?? null,
           githubOwner,
           githubRepo,
         });
@@ -745,6 +859,23 @@ function AuthenticatedApp() {
       return;
     }
 
+    // A search result asked for a specific message; wait until it renders.
+    const focusMessageId = pendingFocusMessageIdRef.current;
+    if (focusMessageId) {
+      const target = container.querySelector<HTMLElement>(
+        `[data-message-id="${focusMessageId}"]`,
+      );
+      if (!target) {
+        return;
+      }
+      pendingFocusMessageIdRef.current = null;
+      pendingScrollToBottomRef.current = false;
+      shouldAutoScrollRef.current = false;
+      target.scrollIntoView({ block: "center" });
+      setHighlightedMessageId(focusMessageId);
+      return;
+    }
+
     if (!(pendingScrollToBottomRef.current || shouldAutoScrollRef.current)) {
       return;
     }
@@ -762,7 +893,15 @@ function AuthenticatedApp() {
     } else {
       scrollToBottom();
     }
-  }, [messages, chatViewMode]);
+  }, [messages, chatViewMode, focusRequest]);
+
+  useEffect(() => {
+    if (!highlightedMessageId) {
+      return;
+    }
+    const timer = setTimeout(() => setHighlightedMessageId(null), 3000);
+    return () => clearTimeout(timer);
+  }, [highlightedMessageId]);
 
   useEffect(() => {
     setComposerAttachments([]);
@@ -830,83 +969,13 @@ function AuthenticatedApp() {
     let canceled = false;
     const loadMeta = async () => {
       try {
-        const settings = await fetchMeta();
-        if (canceled) {
-          return;
-        }
-
-        const storedProviderRaw = safeGetLocalStorageItem(
-          LAST_PROVIDER_STORAGE_KEY,
-        );
-        const storedProvider =
-          isProviderValue(storedProviderRaw) &&
-          settings.availableProviders.includes(storedProviderRaw)
-            ? storedProviderRaw
-            : null;
-
-        const storedModelRaw = safeGetLocalStorageItem(
-          LAST_MODEL_STORAGE_KEY,
-        );
-        const storedModel =
-          storedModelRaw && settings.availableModels.includes(storedModelRaw)
-            ? storedModelRaw
-            : null;
-
-        const storedReasoningRaw = safeGetLocalStorageItem(
-          LAST_REASONING_STORAGE_KEY,
-        );
-        const storedReasoning =
-          isReasoningValue(storedReasoningRaw) &&
-          settings.availableReasoningEfforts.includes(storedReasoningRaw)
-            ? storedReasoningRaw
-            : null;
-
-        const updates: Partial<{
-          provider: AppMeta["provider"];
-          model: string;
-          reasoningEffort: AppMeta["reasoningEffort"];
-        }> = {};
-
-        if (storedProvider && storedProvider !== settings.provider) {
-          updates.provider = storedProvider;
-        }
-
-        if (storedModel && storedModel !== settings.model) {
-          updates.model = storedModel;
-        }
-
-        if (storedReasoning && storedReasoning !== settings.reasoningEffort) {
-          updates.reasoningEffort = storedReasoning;
-        }
-
-        if (Object.keys(updates).length > 0) {
-          if (canceled) {
-            return;
-          }
-
-          setUpdatingMeta(true);
-          try {
-            const updated = await updateMeta(updates);
-            if (!canceled) {
-              setMeta(updated);
-              persistMetaPreferences(updated);
-            }
-          } catch (error) {
-            console.warn("Failed to apply stored Codex preferences", error);
-            if (!canceled) {
-              setMeta(settings);
-              persistMetaPreferences(settings);
-            }
-          } finally {
-            if (!canceled) {
-              setUpdatingMeta(false);
-            }
-          }
-        } else {
-          if (!canceled) {
-            persistMetaPreferences(settings);
-            setMeta(settings);
-          }
+        // Provider, model and reasoning effort are stored per session; the
+        // global meta only supplies defaults when no session is selected.
+        const settings = activeSessionId
+          ? await fetchSessionMeta(activeSessionId)
+          : await fetchMeta();
+        if (!canceled) {
+          setMeta(settings);
         }
       } catch (error) {
         console.warn("Failed to load application metadata", error);
@@ -918,7 +987,7 @@ function AuthenticatedApp() {
     return () => {
       canceled = true;
     };
-  }, [persistMetaPreferences]);
+  }, [activeSessionId]);
 
   useEffect(() => {
     titleEditingRef.current = titleEditorOpen;
@@ -1032,6 +1101,26 @@ function AuthenticatedApp() {
     }
   }, [activeSession, sessionSettings]);
 
+  const handleDeployTargetChange = useCallback(
+    async (targetId: string | null) => {
+      if (!activeSession || !sessionSettings) {
+        return;
+      }
+
+      try {
+        const result = await setSessionDeployTarget(activeSession.id, targetId);
+        setSessionSettings({
+          ...sessionSettings,
+          deployTargetId: result.deployTargetId,
+        });
+      } catch (error) {
+        console.error("Failed to change deployment target", error);
+        setErrorNotice("Unable to change the deployment target. Please try again.");
+      }
+    },
+    [activeSession, sessionSettings],
+  );
+
   const handleTitleEditStart = useCallback(() => {
     if (!activeSession || activeSession.titleLocked) {
       return;
@@ -1217,6 +1306,19 @@ function AuthenticatedApp() {
     [addAttachments],
   );
 
+  const applyMetaUpdate = (payload: {
+    model?: string;
+    reasoningEffort?: AppMeta["reasoningEffort"];
+    provider?: AppMeta["provider"];
+  }): Promise<AppMeta> => {
+    if (!activeSessionId) {
+      // Without a session the selection only becomes the preference used for
+      // the next session that gets created.
+      return Promise.resolve({ ...meta!, ...payload });
+    }
+    return updateSessionMeta(activeSessionId, payload);
+  };
+
   const handleModelChange = (event: ChangeEvent<HTMLSelectElement>) => {
     if (!meta || updatingMeta) {
       return;
@@ -1231,7 +1333,7 @@ function AuthenticatedApp() {
     setMeta({ ...meta, model: nextModel });
     setUpdatingMeta(true);
 
-    void updateMeta({ model: nextModel })
+    void applyMetaUpdate({ model: nextModel })
       .then((updated) => {
         setMeta(updated);
         persistMetaPreferences(updated);
@@ -1271,7 +1373,7 @@ function AuthenticatedApp() {
         ? { provider: nextProvider, model: nextModel }
         : { provider: nextProvider };
 
-    void updateMeta(payload)
+    void applyMetaUpdate(payload)
       .then((updated) => {
         setMeta(updated);
         persistMetaPreferences(updated);
@@ -1807,7 +1909,9 @@ function AuthenticatedApp() {
     const trimmedContent = displayContent.trim();
     const hasContent = trimmedContent.length > 0;
     const isStreamingAssistant =
-      sendingMessage && message.role === "assistant" && message.id.startsWith("temp-");
+      message.role === "assistant" &&
+      (message.status === "in_progress" ||
+        (sendingMessage && message.id.startsWith("temp-")));
     const streamingPreview = isStreamingAssistant
       ? (() => {
           if (trimmedContent.length > 0) {
@@ -1907,7 +2011,13 @@ function AuthenticatedApp() {
           : "System notice.";
 
     return (
-      <article key={message.id} className={`message message-${message.role}`}>
+      <article
+        key={message.id}
+        data-message-id={message.id}
+        className={`message message-${message.role}${
+          highlightedMessageId === message.id ? " message-highlighted" : ""
+        }`}
+      >
         <header className="message-meta">
           <span className="message-role">
             {message.role === "assistant"
@@ -1916,12 +2026,94 @@ function AuthenticatedApp() {
                 ? "You"
                 : "System"}
           </span>
+          {message.status === "interrupted" ? (
+            <span className="message-status-interrupted">Interrupted</span>
+          ) : null}
+          {message.role === "user" &&
+          message.status !== "queued" &&
+          !message.id.startsWith("temp-") ? (
+            <button
+              type="button"
+              className="message-fork-button"
+              onClick={() => void handleForkFromMessage(message.id)}
+              disabled={forkingMessageId !== null}
+              title="Start a new session from this message"
+            >
+              {forkingMessageId === message.id ? "Forking…" : "Fork from here"}
+            </button>
+          ) : null}
+          {message.role === "assistant" &&
+          (message.status === "completed" || message.status === "interrupted") &&
+          !message.id.startsWith("temp-") ? (
+            <button
+              type="button"
+              className="message-review-button"
+              onClick={() => setReviewingMessageId(message.id)}
+              title="Review the file changes made during this turn"
+            >
+              Review changes
+            </button>
+          ) : null}
+          {message.status === "queued" ? (
+            <span className="message-status-queued">
+              Queued
+              {editingQueuedMessage?.id !== message.id ? (
+                <>
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setEditingQueuedMessage({
+                        id: message.id,
+                        content: message.content,
+                      })
+                    }
+                  >
+                    Edit
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => void handleRemoveQueuedMessage(message.id)}
+                  >
+                    Remove
+                  </button>
+                </>
+              ) : null}
+            </span>
+          ) : null}
           <span className="message-timestamp">
             {messageTimeFormatter.format(new Date(message.createdAt))}
           </span>
         </header>
         {detailedItemsBlock}
-        {hasContent ? (
+        {editingQueuedMessage?.id === message.id ? (
+          <div className="queued-message-editor">
+            <textarea
+              value={editingQueuedMessage.content}
+              onChange={(event) =>
+                setEditingQueuedMessage({
+                  id: message.id,
+                  content: event.target.value,
+                })
+              }
+              rows={3}
+            />
+            <div className="queued-message-editor-actions">
+              <button
+                type="button"
+                onClick={() => setEditingQueuedMessage(null)}
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={() => void handleSaveQueuedMessage()}
+                disabled={editingQueuedMessage.content.trim().length === 0}
+              >
+                Save
+              </button>
+            </div>
+          </div>
+        ) : hasContent ? (
           <ReactMarkdown
             className="message-content"
             remarkPlugins={markdownPlugins}
@@ -2015,7 +2207,7 @@ function AuthenticatedApp() {
     setMeta({ ...meta, reasoningEffort: nextEffort });
     setUpdatingMeta(true);
 
-    void updateMeta({ reasoningEffort: nextEffort })
+    void applyMetaUpdate({ reasoningEffort: nextEffort })
       .then((updated) => {
         setMeta(updated);
         persistMetaPreferences(updated);
@@ -2072,7 +2264,10 @@ function AuthenticatedApp() {
     setErrorNotice(null);
 
     try {
-      const session = await createSession(settings);
+      const session = await createSession({
+        ...settings,
+        ...(meta ? getStoredMetaPreferences(meta) : {}),
+      });
       setSessions((prev) => sortSessions([session, ...prev]));
       setActiveSessionId(session.id);
       updateMessages([]);
@@ -2091,6 +2286,59 @@ function AuthenticatedApp() {
     }
   };
 
+  const handleSearchResultSelect = (result: SearchResult) => {
+    if (chatViewMode !== "formatted" && chatViewMode !== "detailed") {
+      setChatViewMode("formatted");
+    }
+
+    if (result.messageId) {
+      const messageId = result.messageId;
+      pendingFocusMessageIdRef.current = messageId;
+      setFocusRequest((previous) => previous + 1);
+      // Give up if the message never shows up (e.g. it was deleted).
+      setTimeout(() => {
+        if (pendingFocusMessageIdRef.current === messageId) {
+          pendingFocusMessageIdRef.current = null;
+        }
+      }, 5000);
+    }
+
+    handleSelectSession(result.sessionId);
+  };
+
+  const handleForkFromMessage = async (messageId: string) => {
+    const sourceSessionId = activeSessionId;
+    if (!sourceSessionId || forkingMessageId) {
+      return;
+    }
+
+    setForkingMessageId(messageId);
+    setErrorNotice(null);
+
+    try {
+      const { session, draft } = await forkSession(sourceSessionId, messageId);
+      setSessions((prev) => sortSessions([session, ...prev]));
+      setActiveSessionId(session.id);
+      setComposerValue(draft);
+      setComposerAttachments([]);
+      shouldAutoScrollRef.current = true;
+      pendingScrollToBottomRef.current = true;
+    } catch (error) {
+      console.error("Failed to fork session", error);
+      const bodyError =
+        error instanceof ApiError
+          ? (error.body as { error?: unknown } | null)?.error
+          : null;
+      setErrorNotice(
+        typeof bodyError === "string"
+          ? bodyError
+          : "Unable to fork this conversation. Please try again.",
+      );
+    } finally {
+      setForkingMessageId(null);
+    }
+  };
+
   const handleSelectSession = (sessionId: string) => {
     if (sessionId === activeSessionId) {
       return;
@@ -2102,43 +2350,33 @@ function AuthenticatedApp() {
     pendingScrollToBottomRef.current = true;
   };
 
-  const handleSendMessage = async (event: FormEvent<HTMLFormElement>) => {
-    event.preventDefault();
-    const targetSessionId = activeSessionId;
-    if (!targetSessionId || sendingMessage) {
-      return;
-    }
-
-    const trimmedContent = composerValue.trim();
-    if (!trimmedContent && composerAttachments.length === 0) {
-      return;
-    }
-
-    setSendingMessage(true);
-    setErrorNotice(null);
-
-    const attachmentUploads = composerAttachments.map((attachment) => ({
-      filename: attachment.name,
-      mimeType: attachment.mimeType,
-      size: attachment.size,
-      base64: attachment.base64,
-    }));
-
-    const payload = {
-      content: trimmedContent,
-      attachments: attachmentUploads.length > 0 ? attachmentUploads : undefined,
+  const consumeTurnStream = async (
+    targetSessionId: string,
+    stream: AsyncGenerator<PostMessageStreamEvent>,
+    options: { fromComposer: boolean },
+  ): Promise<TurnStreamResult> => {
+    const result: TurnStreamResult = {
+      completed: false,
+      queued: false,
+      sawAssistantFinal: false,
+      userMessageCreatedAt: null,
+      turnId: null,
+      lastSeq: undefined,
     };
 
     try {
-      const stream = streamPostMessage(targetSessionId, payload);
-      let streamCompleted = false;
-      let sawAssistantFinal = false;
-      let userMessageCreatedAt: string | null = null;
-
       for await (const streamEvent of stream) {
         const viewingTargetSession =
           activeSessionIdRef.current === targetSessionId;
 
+        if (streamEvent.turnId && streamEvent.turnId !== result.turnId) {
+          result.turnId = streamEvent.turnId;
+          attachedTurnIdsRef.current.add(streamEvent.turnId);
+        }
+        if (typeof streamEvent.seq === "number") {
+          result.lastSeq = streamEvent.seq;
+        }
+
         if (streamEvent.type === "user_message") {
           const normalizedMessage: Message = {
             ...streamEvent.message,
@@ -2146,12 +2384,16 @@ function AuthenticatedApp() {
             items: streamEvent.message.items ?? [],
           };
 
-          userMessageCreatedAt = normalizedMessage.createdAt;
+          result.userMessageCreatedAt = normalizedMessage.createdAt;
 
           if (viewingTargetSession) {
-            updateMessages((previous) => [...previous, normalizedMessage]);
-            setComposerValue("");
-            setComposerAttachments([]);
+            updateMessages((previous) =>
+              placeMessage(previous, normalizedMessage),
+            );
+            if (options.fromComposer) {
+              setComposerValue("");
+              setComposerAttachments([]);
+            }
           }
 
           setSessions((previous) => {
@@ -2201,6 +2443,28 @@ function AuthenticatedApp() {
           continue;
         }
 
+        if (streamEvent.type === "message_queued") {
+          const normalizedMessage: Message = {
+            ...streamEvent.message,
+            attachments: streamEvent.message.attachments ?? [],
+            items: streamEvent.message.items ?? [],
+          };
+
+          if (viewingTargetSession) {
+            updateMessages((previous) =>
+              placeMessage(previous, normalizedMessage),
+            );
+            if (options.fromComposer) {
+              setComposerValue("");
+              setComposerAttachments([]);
+            }
+          }
+
+          result.queued = true;
+          result.completed = true;
+          break;
+        }
+
         if (streamEvent.type === "assistant_message_snapshot") {
           if (viewingTargetSession) {
             const normalizedMessage: Message = {
@@ -2218,7 +2482,7 @@ function AuthenticatedApp() {
                 nextMessages[existingIndex] = normalizedMessage;
                 return nextMessages;
               }
-              return [...previous, normalizedMessage];
+              return placeMessage(previous, normalizedMessage);
             });
           }
           continue;
@@ -2231,18 +2495,18 @@ function AuthenticatedApp() {
             items: streamEvent.message.items ?? [],
           };
 
-          sawAssistantFinal = true;
+          result.sawAssistantFinal = true;
 
           if (viewingTargetSession) {
             updateMessages((previous) => {
-              const nextMessages = [...previous];
+              let nextMessages = [...previous];
               const tempIndex = nextMessages.findIndex(
                 (message) => message.id === streamEvent.temporaryId,
               );
               if (tempIndex >= 0) {
                 nextMessages.splice(tempIndex, 1, normalizedMessage);
               } else {
-                nextMessages.push(normalizedMessage);
+                nextMessages = placeMessage(nextMessages, normalizedMessage);
               }
 
               if (
@@ -2297,19 +2561,197 @@ function AuthenticatedApp() {
 
           setSessions((previous) => sortSessions(previous));
           setErrorNotice(streamEvent.message);
-          streamCompleted = true;
+          result.completed = true;
         }
 
         if (streamEvent.type === "done") {
-          streamCompleted = true;
+          result.completed = true;
         }
 
-        if (streamCompleted) {
+        if (result.completed) {
           break;
         }
       }
+    } catch (error) {
+      // Once the turn is known a dropped connection is recoverable; the
+      // caller re-attaches to the server-side turn.
+      if (!result.turnId || error instanceof ApiError) {
+        throw error;
+      }
+      console.warn("Turn stream interrupted", error);
+    } finally {
+      if (result.turnId) {
+        attachedTurnIdsRef.current.delete(result.turnId);
+      }
+    }
+
+    return result;
+  };
+
+  // A running reply or a queued follow-up means the server has (or is about
+  // to start) a turn this client should be attached to.
+  const hasPendingTurn = messages.some(
+    (message) =>
+      message.status === "queued" ||
+      (message.role === "assistant" && message.status === "in_progress"),
+  );
+
+  useEffect(() => {
+    if (!activeSessionId || loadingMessages || sendingMessage) {
+      return;
+    }
+
+    if (!hasPendingTurn) {
+      return;
+    }
+
+    let canceled = false;
+    const resumeRunningTurn = async () => {
+      try {
+        const turn = await fetchCurrentTurn(activeSessionId);
+        if (
+          canceled ||
+          !turn ||
+          turn.status !== "running" ||
+          attachedTurnIdsRef.current.has(turn.id)
+        ) {
+          return;
+        }
+
+        attachedTurnIdsRef.current.add(turn.id);
+        setSendingMessage(true);
+        try {
+          await consumeTurnStream(
+            activeSessionId,
+            streamTurnEvents(activeSessionId, turn.id),
+            { fromComposer: false },
+          );
+        } finally {
+          attachedTurnIdsRef.current.delete(turn.id);
+          setSendingMessage(false);
+        }
+      } catch (error) {
+        console.warn("Failed to re-attach to running turn", error);
+      }
+    };
+
+    void resumeRunningTurn();
+
+    return () => {
+      canceled = true;
+    };
+  }, [activeSessionId, loadingMessages, sendingMessage, hasPendingTurn]);
+
+  const reportQueuedMessageError = (error: unknown, fallback: string) => {
+    const bodyError =
+      error instanceof ApiError
+        ? (error.body as { error?: unknown } | null)?.error
+        : null;
+    setErrorNotice(typeof bodyError === "string" ? bodyError : fallback);
+  };
+
+  const queueFollowUpMessage = async (
+    targetSessionId: string,
+    payload: Parameters<typeof streamPostMessage>[1],
+  ) => {
+    setQueueingMessage(true);
+    setErrorNotice(null);
+
+    try {
+      // Normally answered with "message_queued"; if the running turn ended in
+      // the meantime the message starts a turn of its own.
+      await consumeTurnStream(
+        targetSessionId,
+        streamPostMessage(targetSessionId, payload),
+        { fromComposer: true },
+      );
+    } catch (error) {
+      console.error("Failed to queue message", error);
+      reportQueuedMessageError(
+        error,
+        "Failed to queue message. Check your connection and try again.",
+      );
+    } finally {
+      setQueueingMessage(false);
+    }
+  };
+
+  const handleSendMessage = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const targetSessionId = activeSessionId;
+    if (!targetSessionId || queueingMessage) {
+      return;
+    }
+
+    const trimmedContent = composerValue.trim();
+    if (!trimmedContent && composerAttachments.length === 0) {
+      return;
+    }
+
+    const attachmentUploads = composerAttachments.map((attachment) => ({
+      filename: attachment.name,
+      mimeType: attachment.mimeType,
+      size: attachment.size,
+      base64: attachment.base64,
+    }));
+
+    const payload = {
+      content: trimmedContent,
+      attachments: attachmentUploads.length > 0 ? attachmentUploads : undefined,
+    };
+
+    if (sendingMessage) {
+      await queueFollowUpMessage(targetSessionId, payload);
+      return;
+    }
+
+    setSendingMessage(true);
+    setErrorNotice(null);
+
+    try {
+      let result = await consumeTurnStream(
+        targetSessionId,
+        streamPostMessage(targetSessionId, payload),
+        { fromComposer: true },
+      );
+
+      // The turn keeps running on the server when the connection drops, so
+      // re-attach and replay the events that were missed.
+      let reattachAttempts = 0;
+      while (
+        !result.completed &&
+        result.turnId &&
+        reattachAttempts < MAX_TURN_REATTACH_ATTEMPTS
+      ) {
+        reattachAttempts += 1;
+        await new Promise((resolve) =>
+          setTimeout(resolve, TURN_REATTACH_DELAY_MS),
+        );
+        const turnId = result.turnId;
+        try {
+          const resumed = await consumeTurnStream(
+            targetSessionId,
+            streamTurnEvents(targetSessionId, turnId, result.lastSeq),
+            { fromComposer: false },
+          );
+          result = {
+            completed: resumed.completed,
+            queued: result.queued,
+            sawAssistantFinal:
+              result.sawAssistantFinal || resumed.sawAssistantFinal,
+            userMessageCreatedAt:
+              result.userMessageCreatedAt ?? resumed.userMessageCreatedAt,
+            turnId: resumed.turnId ?? turnId,
+            lastSeq: resumed.lastSeq ?? result.lastSeq,
+          };
+        } catch (reattachError) {
+          console.warn("Failed to re-attach to turn", reattachError);
+        }
+      }
 
-      if (!sawAssistantFinal) {
+      const { sawAssistantFinal, userMessageCreatedAt } = result;
+
+      if (!sawAssistantFinal && !result.queued) {
         const pollForAssistant = async (
           remainingAttempts: number,
         ): Promise<void> => {
@@ -2396,6 +2838,13 @@ function AuthenticatedApp() {
           } else {
             setErrorNotice("Unexpected error from Codex.");
           }
+        } else if (
+          body &&
+          typeof body === "object" &&
+          typeof (body as { error?: unknown }).error === "string"
+        ) {
+          // Validation and quota errors (400/429) carry a readable message.
+          setErrorNotice((body as { error: string }).error);
         } else {
           setErrorNotice("Unexpected error from Codex.");
         }
@@ -2410,6 +2859,75 @@ function AuthenticatedApp() {
     }
   };
 
+  const handleSaveQueuedMessage = async () => {
+    const targetSessionId = activeSessionId;
+    const draft = editingQueuedMessage;
+    if (!targetSessionId || !draft) {
+      return;
+    }
+
+    try {
+      const updated = await updateQueuedMessage(
+        targetSessionId,
+        draft.id,
+        draft.content.trim(),
+      );
+      updateMessages((previous) =>
+        previous.map((message) =>
+          message.id === updated.id
+            ? {
+                ...updated,
+                attachments: updated.attachments ?? [],
+                items: updated.items ?? [],
+              }
+            : message,
+        ),
+      );
+      setEditingQueuedMessage(null);
+    } catch (error) {
+      console.error("Failed to update queued message", error);
+      reportQueuedMessageError(error, "Failed to update the queued message.");
+    }
+  };
+
+  const handleRemoveQueuedMessage = async (messageId: string) => {
+    const targetSessionId = activeSessionId;
+    if (!targetSessionId) {
+      return;
+    }
+
+    try {
+      await deleteQueuedMessage(targetSessionId, messageId);
+      updateMessages((previous) =>
+        previous.filter((message) => message.id !== messageId),
+      );
+    } catch (error) {
+      console.error("Failed to remove queued message", error);
+      reportQueuedMessageError(error, "Failed to remove the queued message.");
+    }
+  };
+
+  const handleStopTurn = async () => {
+    const targetSessionId = activeSessionId;
+    if (!targetSessionId || cancellingTurn) {
+      return;
+    }
+
+    setCancellingTurn(true);
+    try {
+      // The running stream delivers the interrupted message and closes itself.
+      await cancelCurrentTurn(targetSessionId);
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 404) {
+        return;
+      }
+      console.error("Failed to stop turn", error);
+      setErrorNotice("Failed to stop the agent. Please try again.");
+    } finally {
+      setCancellingTurn(false);
+    }
+  };
+
   const handleDeleteSession = async (sessionId: string) => {
     if (!window.confirm("Delete this conversation? This cannot be undone.")) {
       return;
@@ -2431,10 +2949,11 @@ function AuthenticatedApp() {
   };
 
   const isComposerDisabled =
-    !activeSessionId || sendingMessage || loadingMessages || creatingSession;
+    !activeSessionId || queueingMessage || loadingMessages || creatingSession;
 
   return (
     <div className="app">
+      <ImpersonationBanner />
       <header className="app-header">
         <div>
           <h1>{tagline}</h1>
@@ -2507,6 +3026,8 @@ function AuthenticatedApp() {
             </button>
           </div>
 
+          <SessionSearch onSelect={handleSearchResultSelect} />
+
           {loadingSessions ? (
             <p className="sidebar-empty muted">Loading sessions…</p>
           ) : sessions.length === 0 ? (
@@ -2722,6 +3243,28 @@ function AuthenticatedApp() {
                       </p>
                     </>
                   )}
+                  {sessionSettings && deployTargets.length > 1 && (
+                    <p className="muted" style={{ marginTop: "0.5em" }}>
+                      <label style={{ display: "flex", alignItems: "center", gap: "0.5em" }}>
+                        <span>Deploy to:</span>
+                        <select
+                          value={sessionSettings.deployTargetId ?? ""}
+                          onChange={(event) =>
+                            void handleDeployTargetChange(event.target.value || null)
+                          }
+                        >
+                          <option value="">
+                            Default target ({deployTargets.find((target) => target.isDefault)?.name ?? "none"})
+                          </option>
+                          {deployTargets.map((target) => (
+                            <option key={target.id} value={target.id}>
+                              {target.name}
+                            </option>
+                          ))}
+                        </select>
+                      </label>
+                    </p>
+                  )}
                 </div>
                 <div className="chat-header-tools">
                   <div className="workspace-controls">
@@ -2984,8 +3527,22 @@ function AuthenticatedApp() {
                       </span>
                     )}
                   </div>
+                  {sendingMessage ? (
+                    <button
+                      type="button"
+                      className="composer-stop"
+                      onClick={() => void handleStopTurn()}
+                      disabled={cancellingTurn}
+                    >
+                      {cancellingTurn ? "Stopping…" : "Stop"}
+                    </button>
+                  ) : null}
                   <button type="submit" disabled={isComposerDisabled}>
-                    {sendingMessage ? "Thinking…" : "Send"}
+                    {queueingMessage
+                      ? "Queuing…"
+                      : sendingMessage
+                        ? "Queue"
+                        : "Send"}
                   </button>
                 </div>
                 </form>
@@ -3032,6 +3589,15 @@ function AuthenticatedApp() {
         </div>
       ) : null}
 
+      {reviewingMessageId && activeSessionId ? (
+        <TurnReviewModal
+          key={`${activeSessionId}:${reviewingMessageId}`}
+          sessionId={activeSessionId}
+          messageId={reviewingMessageId}
+          onClose={() => setReviewingMessageId(null)}
+        />
+      ) : null}
+
       <WorkspaceRootModal
         open={workspaceModalOpen}
         session={activeSession}
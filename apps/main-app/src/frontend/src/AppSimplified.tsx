@@ -6,10 +6,24 @@ import ServiceIframe from "./components/ServiceIframe";
 import AdminPanel from "./components/AdminPanel";
 import DokployPanel from "./components/DokployPanel";
 import GitHubConnectionPanel from "./components/GitHubConnectionPanel";
+import ApiTokensPanel from "./components/ApiTokensPanel";
+import TwoFactorPanel from "./components/TwoFactorPanel";
 import NewSessionModal from "./components/NewSessionModal";
 import DeploymentLogs from "./components/DeploymentLogs";
-import { createSession, deleteSession, fetchSessions } from "./api/client";
+import DeploymentStatusBanner from "./components/DeploymentStatusBanner";
+import ServiceLogsViewer from "./components/ServiceLogsViewer";
+import SessionSecretsPanel from "./components/SessionSecretsPanel";
+import TurnReviewModal from "./components/TurnReviewModal";
+import StatusChip, { getServiceHealthChip } from "./components/StatusChip";
+import ImpersonationBanner from "./components/ImpersonationBanner";
+import {
+  createSession,
+  deleteSession,
+  fetchSessions,
+  reportSessionServiceActivity,
+} from "./api/client";
 import type { Session } from "@codex-webapp/shared";
+import type { SearchResult } from "./api/types";
 
 const TAGLINES = [
   "webedt - (wĕb ĕd′-ĭt)",
@@ -20,15 +34,27 @@ const TAGLINES = [
 
 type Theme = "light" | "dark";
 
+// Well below the server's idle timeout
+const ACTIVITY_REPORT_INTERVAL_MS = 5 * 60 * 1000;
+
 function AppSimplified() {
-  const { user, logout } = useAuth();
+  const { user, logout, twoFactorSetupRequired } = useAuth();
   const [theme, setTheme] = useState<Theme>("dark");
   const [sessions, setSessions] = useState<Session[]>([]);
   const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
-  const [viewMode, setViewMode] = useState<"service" | "admin" | "dokploy" | "github">("service");
+  const [viewMode, setViewMode] = useState<
+    "service" | "logs" | "secrets" | "admin" | "dokploy" | "github" | "tokens" | "security"
+  >(() =>
+    user?.isAdmin && /[?&]sso_(linked|error)=/.test(window.location.search) ? "admin" : "service",
+  );
   const [loading, setLoading] = useState(true);
   const [serviceStatuses, setServiceStatuses] = useState<Record<string, any>>({});
+  const [serviceStatusRefresh, setServiceStatusRefresh] = useState(0);
   const [isNewSessionModalOpen, setIsNewSessionModalOpen] = useState(false);
+  const [reviewingMessageId, setReviewingMessageId] = useState<string | null>(null);
+  const [focusRequest, setFocusRequest] = useState<
+    { sessionId: string; messageId: string } | null
+  >(null);
   const tagline = useMemo(() => TAGLINES[Math.floor(Math.random() * TAGLINES.length)], []);
 
   const activeSession = useMemo(
@@ -72,6 +98,7 @@ function AppSimplified() {
     if (!user || sessions.length === 0) return;
 
     let cancelled = false;
+    let timer: number | undefined;
 
     async function loadServiceStatuses() {
       const statuses: Record<string, any> = {};
@@ -92,13 +119,14 @@ function AppSimplified() {
         setServiceStatuses(statuses);
       }
 
-      // Poll for status updates if any service is not running
+      // Poll quickly while any service is not running, and slowly otherwise
+      // so crashes found by the server's health checks show up
       const hasNonRunningServices = Object.values(statuses).some(
         (s) => s?.status && s.status !== "running"
       );
 
-      if (hasNonRunningServices && !cancelled) {
-        setTimeout(loadServiceStatuses, 3000); // Poll every 3 seconds
+      if (!cancelled) {
+        timer = window.setTimeout(loadServiceStatuses, hasNonRunningServices ? 3000 : 30000);
       }
     }
 
@@ -106,8 +134,37 @@ function AppSimplified() {
 
     return () => {
       cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [user, sessions, serviceStatusRefresh]);
+
+  // Keep the open session's service from being stopped as idle, and wake it
+  // if it already was
+  useEffect(() => {
+    if (!user || !activeSessionId) return;
+
+    const sessionId = activeSessionId;
+    const report = async () => {
+      if (document.visibilityState !== "visible") return;
+      try {
+        const result = await reportSessionServiceActivity(sessionId);
+        if (result.woken) {
+          setServiceStatuses((prev) => ({ ...prev, [sessionId]: result.status }));
+          setServiceStatusRefresh((count) => count + 1);
+        }
+      } catch (error) {
+        console.error("Failed to report session activity:", error);
+      }
+    };
+
+    void report();
+    const timer = window.setInterval(() => void report(), ACTIVITY_REPORT_INTERVAL_MS);
+    document.addEventListener("visibilitychange", report);
+    return () => {
+      window.clearInterval(timer);
+      document.removeEventListener("visibilitychange", report);
     };
-  }, [user, sessions]);
+  }, [user, activeSessionId]);
 
   const handleNewSession = useCallback(() => {
     setIsNewSessionModalOpen(true);
@@ -119,6 +176,8 @@ function AppSimplified() {
     gitBranch?: string;
     dockerfilePath?: string;
     customEnvVars?: Record<string, string>;
+    secretEnvVars?: Record<string, string>;
+    deployTargetId?: string;
   }) => {
     try {
       const newSession = await createSession(data);
@@ -151,6 +210,15 @@ function AppSimplified() {
     }
   }, [activeSessionId, sessions]);
 
+  // The service scrolls to the message once its chat has loaded
+  const handleSearchResultSelect = useCallback((result: SearchResult) => {
+    setActiveSessionId(result.sessionId);
+    setViewMode("service");
+    setFocusRequest(
+      result.messageId ? { sessionId: result.sessionId, messageId: result.messageId } : null,
+    );
+  }, []);
+
   const toggleTheme = useCallback(() => {
     setTheme((prev) => {
       const next = prev === "dark" ? "light" : "dark";
@@ -176,6 +244,19 @@ function AppSimplified() {
     return <LoginPage />;
   }
 
+  if (twoFactorSetupRequired) {
+    return (
+      <div className="login-page">
+        <div className="two-factor-gate">
+          <TwoFactorPanel />
+          <button type="button" className="ghost-button" onClick={() => void logout()}>
+            Sign out
+          </button>
+        </div>
+      </div>
+    );
+  }
+
   if (loading) {
     return (
       <div className="app-loading">
@@ -205,6 +286,7 @@ function AppSimplified() {
 
   return (
     <div className="app-layout">
+      <ImpersonationBanner />
       {/* Top Bar */}
       <header className="app-header">
         <div className="header-left">
@@ -212,6 +294,27 @@ function AppSimplified() {
         </div>
 
         <div className="header-right">
+          {activeSession && <StatusChip {...getServiceHealthChip(serviceStatus)} />}
+          {activeSession && (
+            <button
+              type="button"
+              className="ghost-button"
+              onClick={() => setViewMode(viewMode === "logs" ? "service" : "logs")}
+              aria-label="Service logs"
+            >
+              {viewMode === "logs" ? "Service" : "Logs"}
+            </button>
+          )}
+          {activeSession && (
+            <button
+              type="button"
+              className="ghost-button"
+              onClick={() => setViewMode(viewMode === "secrets" ? "service" : "secrets")}
+              aria-label="Session secrets"
+            >
+              {viewMode === "secrets" ? "Service" : "Secrets"}
+            </button>
+          )}
           <button
             type="button"
             className="ghost-button"
@@ -220,6 +323,22 @@ function AppSimplified() {
           >
             GitHub
           </button>
+          <button
+            type="button"
+            className="ghost-button"
+            onClick={() => setViewMode("tokens")}
+            aria-label="API tokens"
+          >
+            API Tokens
+          </button>
+          <button
+            type="button"
+            className="ghost-button"
+            onClick={() => setViewMode("security")}
+            aria-label="Security"
+          >
+            Security
+          </button>
           <button
             type="button"
             className="ghost-button"
@@ -268,11 +387,26 @@ function AppSimplified() {
           onNewSession={handleNewSession}
           onDeleteSession={handleDeleteSession}
           serviceStatuses={serviceStatuses}
+          onSelectSearchResult={handleSearchResultSelect}
         />
 
         {/* Right Panel */}
         <div className="app-main-panel">
-          {viewMode === "admin" ? (
+          {viewMode === "service" && activeSession && (
+            <DeploymentStatusBanner
+              sessionId={activeSession.id}
+              onFinished={() => setServiceStatusRefresh((count) => count + 1)}
+            />
+          )}
+          {viewMode === "logs" && activeSession ? (
+            <div className="message-panel">
+              <ServiceLogsViewer key={activeSession.id} sessionId={activeSession.id} />
+            </div>
+          ) : viewMode === "secrets" && activeSession ? (
+            <div className="message-panel">
+              <SessionSecretsPanel key={activeSession.id} sessionId={activeSession.id} />
+            </div>
+          ) : viewMode === "admin" ? (
             <div className="message-panel">
               <AdminPanel />
             </div>
@@ -284,8 +418,21 @@ function AppSimplified() {
             <div className="message-panel">
               <GitHubConnectionPanel />
             </div>
+          ) : viewMode === "tokens" ? (
+            <div className="message-panel">
+              <ApiTokensPanel />
+            </div>
+          ) : viewMode === "security" ? (
+            <div className="message-panel">
+              <TwoFactorPanel />
+            </div>
           ) : activeSession && isServiceReady ? (
-            <ServiceIframe serviceUrl={serviceUrl} sessionId={activeSession.id} />
+            <ServiceIframe
+              serviceUrl={serviceUrl}
+              sessionId={activeSession.id}
+              focusRequest={focusRequest?.sessionId === activeSession.id ? focusRequest : null}
+              onReviewTurn={setReviewingMessageId}
+            />
           ) : activeSession && serviceStatus?.status === "creating" ? (
             <div style={{ display: "flex", flexDirection: "column", height: "100%", overflow: "hidden" }}>
               <div style={{ padding: "1.5rem", borderBottom: "1px solid var(--color-border)" }}>
@@ -314,7 +461,11 @@ function AppSimplified() {
                 {serviceStatus?.status === "error" && "❌ "}
                 {getStatusMessage(serviceStatus?.status)}
               </h3>
-              <p>Your session service status is being checked.</p>
+              <p>
+                {serviceStatus?.status === "stopped" && serviceStatus?.stoppedReason === "idle"
+                  ? "The service was stopped after a period of inactivity and is starting again."
+                  : "Your session service status is being checked."}
+              </p>
               <div style={{ marginTop: "1rem", fontSize: "0.9rem", opacity: 0.8 }}>
                 <p><strong>Status:</strong> {serviceStatus?.status || "unknown"}</p>
                 {serviceUrl && <p><strong>URL:</strong> {serviceUrl}</p>}
@@ -340,6 +491,16 @@ function AppSimplified() {
         onClose={() => setIsNewSessionModalOpen(false)}
         onCreate={handleCreateSession}
       />
+
+      {/* Turn Review Modal, opened from a reply in the service */}
+      {reviewingMessageId && activeSession && (
+        <TurnReviewModal
+          key={`${activeSession.id}:${reviewingMessageId}`}
+          sessionId={activeSession.id}
+          messageId={reviewingMessageId}
+          onClose={() => setReviewingMessageId(null)}
+        />
+      )}
     </div>
   );
 }
@@ -9,6 +9,8 @@ import type {
   PostMessageSuccessResponse,
   PostMessageStreamEvent,
   Session,
+  SessionTurn,
+  SearchResult,
   ListWorkspaceFilesResponse,
   WorkspaceFile,
   WorkspaceFileContent,
@@ -17,16 +19,31 @@ import type {
   BrowseWorkspaceResponse,
   ProviderOption,
   DeployApplicationsResponse,
-  DeployConfigPayload,
-  DeployConfigResult,
   DeployProjectsResponse,
+  DeployTargetListResponse,
+  DeployTargetPayload,
+  DeployTargetResult,
+  DeployTargetSummaryListResponse,
   DeployTestResponse,
   DeployUploadResponse,
+  DeployRedeployResponse,
+  DeployTriggerResponse,
+  DeploymentListResponse,
   DeployEnvironmentsResponse,
+  SessionSecret,
+  SessionSecretAuditEntry,
+  SessionSecretAuditResponse,
+  SessionSecretListResponse,
   AuthUser,
   LoginRequest,
   LoginResponse,
+  TwoFactorChallengeResponse,
+  TwoFactorRequirement,
+  TwoFactorSetupResponse,
+  TwoFactorStatus,
+  RecoveryCodesResponse,
   MeResponse,
+  SsoProvidersResponse,
   UserListResponse,
   UserDetailResponse,
   CreateUserRequest,
@@ -36,7 +53,33 @@ import type {
   UserAuthFileDetailResponse,
   UserAuthFileSummary,
   UserAuthFileDetail,
+  UsageReport,
+  UsageReportQuery,
+  AuditEventListResponse,
+  AuditEventQuery,
+  ApiToken,
+  CreateApiTokenRequest,
+  CreateApiTokenResponse,
+  ModelPricing,
+  ModelPricingRequest,
+  UserQuotaLimits,
+  UserQuotaStatus,
+  TurnChangeSelection,
+  TurnDiff,
+  SessionServiceStatus,
 } from "./types";
+import type {
+  ArchivePreviewResponse,
+  ArtifactStorageResponse,
+  ArtifactSweepResponse,
+  DeployArchiveRules,
+  DeployTargetSummary,
+  DeploymentResponse,
+  ServiceLogLine,
+  ServiceLogQuery,
+  SessionServiceBackendKind,
+  SessionServiceBackendSettings,
+} from "../../../shared/dokploy";
 
 export class ApiError<T = unknown> extends Error {
   readonly status: number;
@@ -72,11 +115,25 @@ async function request<T>(path: string, init?: RequestInit): Promise<T> {
   return data as T;
 }
 
-export async function login(payload: LoginRequest): Promise<AuthUser> {
-  const data = await request<LoginResponse>("/api/auth/login", {
+/** Returns the user, or a challenge when the account has two-factor authentication. */
+export async function login(
+  payload: LoginRequest,
+): Promise<AuthUser | TwoFactorChallengeResponse> {
+  const data = await request<LoginResponse | TwoFactorChallengeResponse>("/api/auth/login", {
     method: "POST",
     body: JSON.stringify(payload),
   });
+  return "user" in data ? data.user : data;
+}
+
+export async function verifyTwoFactorLogin(
+  challengeToken: string,
+  code: string,
+): Promise<AuthUser> {
+  const data = await request<LoginResponse>("/api/auth/login/two-factor", {
+    method: "POST",
+    body: JSON.stringify({ challengeToken, code }),
+  });
   return data.user;
 }
 
@@ -86,11 +143,73 @@ export async function logout(): Promise<void> {
   });
 }
 
-export async function fetchCurrentUser(): Promise<AuthUser> {
-  const data = await request<MeResponse>("/api/auth/me");
+export async function fetchCurrentUser(): Promise<MeResponse> {
+  return request<MeResponse>("/api/auth/me");
+}
+
+/** Ends an impersonation and returns the admin whose session is restored. */
+export async function endImpersonation(): Promise<AuthUser> {
+  const data = await request<LoginResponse>("/api/auth/impersonation/end", {
+    method: "POST",
+  });
   return data.user;
 }
 
+export async function fetchSsoProviders(): Promise<SsoProvidersResponse> {
+  return request<SsoProvidersResponse>("/api/auth/sso/providers");
+}
+
+export async function updateSsoSettings(payload: {
+  passwordLoginEnabled: boolean;
+}): Promise<{ passwordLoginEnabled: boolean }> {
+  return request<{ passwordLoginEnabled: boolean }>("/api/auth/sso/settings", {
+    method: "PUT",
+    body: JSON.stringify(payload),
+  });
+}
+
+export async function fetchTwoFactorStatus(): Promise<TwoFactorStatus> {
+  return request<TwoFactorStatus>("/api/auth/two-factor");
+}
+
+export async function startTwoFactorSetup(): Promise<TwoFactorSetupResponse> {
+  return request<TwoFactorSetupResponse>("/api/auth/two-factor/setup", {
+    method: "POST",
+  });
+}
+
+export async function enableTwoFactor(code: string): Promise<string[]> {
+  const data = await request<RecoveryCodesResponse>("/api/auth/two-factor/enable", {
+    method: "POST",
+    body: JSON.stringify({ code }),
+  });
+  return data.recoveryCodes;
+}
+
+export async function regenerateRecoveryCodes(code: string): Promise<string[]> {
+  const data = await request<RecoveryCodesResponse>("/api/auth/two-factor/recovery-codes", {
+    method: "POST",
+    body: JSON.stringify({ code }),
+  });
+  return data.recoveryCodes;
+}
+
+export async function disableTwoFactor(code: string): Promise<void> {
+  await request<void>("/api/auth/two-factor/disable", {
+    method: "POST",
+    body: JSON.stringify({ code }),
+  });
+}
+
+export async function updateTwoFactorPolicy(
+  requirement: TwoFactorRequirement,
+): Promise<{ requirement: TwoFactorRequirement }> {
+  return request<{ requirement: TwoFactorRequirement }>("/api/auth/two-factor/policy", {
+    method: "PUT",
+    body: JSON.stringify({ requirement }),
+  });
+}
+
 export async function changePassword(
   currentPassword: string,
   newPassword: string,
@@ -138,7 +257,120 @@ export async function impersonateUser(userId: string): Promise<AuthUser> {
   return data.user;
 }
 
+export async function resetUserTwoFactor(userId: string): Promise<void> {
+  await request<void>(`/api/users/${userId}/two-factor`, {
+    method: "DELETE",
+  });
+}
+
 // Service management
+export async function fetchUserQuota(userId: string): Promise<UserQuotaStatus> {
+  return request<UserQuotaStatus>(`/api/users/${userId}/quota`);
+}
+
+export async function updateUserQuota(
+  userId: string,
+  limits: UserQuotaLimits,
+): Promise<UserQuotaStatus> {
+  return request<UserQuotaStatus>(`/api/users/${userId}/quota`, {
+    method: "PUT",
+    body: JSON.stringify(limits),
+  });
+}
+
+export async function fetchUsageReport(
+  query: UsageReportQuery,
+): Promise<UsageReport> {
+  const params = new URLSearchParams({ groupBy: query.groupBy });
+  if (query.from) {
+    params.set("from", query.from);
+  }
+  if (query.to) {
+    params.set("to", query.to);
+  }
+  if (query.userId) {
+    params.set("userId", query.userId);
+  }
+  return request<UsageReport>(`/api/usage?${params.toString()}`);
+}
+
+export async function fetchApiTokens(): Promise<ApiToken[]> {
+  const data = await request<{ tokens: ApiToken[] }>("/api/tokens");
+  return data.tokens;
+}
+
+export async function createApiToken(
+  payload: CreateApiTokenRequest,
+): Promise<CreateApiTokenResponse> {
+  return request<CreateApiTokenResponse>("/api/tokens", {
+    method: "POST",
+    body: JSON.stringify(payload),
+  });
+}
+
+export async function revokeApiToken(tokenId: string): Promise<void> {
+  await request<void>(`/api/tokens/${encodeURIComponent(tokenId)}`, {
+    method: "DELETE",
+  });
+}
+
+const toAuditQueryString = (query: AuditEventQuery): string => {
+  const params = new URLSearchParams();
+  for (const key of ["action", "actorUserId", "targetType", "from", "to", "search"] as const) {
+    if (query[key]) {
+      params.set(key, query[key] as string);
+    }
+  }
+  if (query.limit !== undefined) {
+    params.set("limit", String(query.limit));
+  }
+  if (query.offset !== undefined) {
+    params.set("offset", String(query.offset));
+  }
+  const value = params.toString();
+  return value ? `?${value}` : "";
+};
+
+export async function fetchAuditEvents(
+  query: AuditEventQuery,
+): Promise<AuditEventListResponse> {
+  return request<AuditEventListResponse>(`/api/audit-events${toAuditQueryString(query)}`);
+}
+
+/** URL of all audit events matching the filters, as a CSV or JSON file. */
+export function getAuditEventsExportUrl(
+  query: Omit<AuditEventQuery, "limit" | "offset">,
+  format: "csv" | "json",
+): string {
+  const queryString = toAuditQueryString(query);
+  return `/api/audit-events/export${queryString ? `${queryString}&` : "?"}format=${format}`;
+}
+
+export async function fetchModelPricing(): Promise<ModelPricing[]> {
+  const data = await request<{ pricing: ModelPricing[] }>("/api/usage/pricing");
+  return data.pricing;
+}
+
+export async function saveModelPricing(
+  model: string,
+  requestBody: ModelPricingRequest,
+): Promise<ModelPricing> {
+  const data = await request<{ pricing: ModelPricing }>(
+    `/api/usage/pricing/${encodeURIComponent(model)}`,
+    {
+      method: "PUT",
+      body: JSON.stringify(requestBody),
+    },
+  );
+  return data.pricing;
+}
+
+export async function deleteModelPricing(model: string): Promise<void> {
+  await request<void>(`/api/usage/pricing/${encodeURIComponent(model)}`, {
+    method: "DELETE",
+  });
+}
+
 export async function createSessionService(sessionId: string): Promise<void> {
   await request(`/api/sessions/${sessionId}/service/create`, {
     method: "POST",
@@ -147,7 +379,7 @@ export async function createSessionService(sessionId: string): Promise<void> {
 
 export async function getSessionServiceStatus(
   sessionId: string,
-): Promise<{ status: string; url?: string; error?: string }> {
+): Promise<SessionServiceStatus> {
   try {
     return await request(`/api/sessions/${sessionId}/service/status`);
   } catch (error) {
@@ -164,6 +396,98 @@ export async function getSessionServiceLogs(sessionId: string): Promise<{ logs:
   return await request(`/api/sessions/${sessionId}/service/logs`);
 }
 
+const toLogQueryString = (query: ServiceLogQuery): string => {
+  const params = new URLSearchParams();
+  if (query.source) {
+    params.set("source", query.source);
+  }
+  if (query.follow !== undefined) {
+    params.set("follow", String(query.follow));
+  }
+  if (query.tail !== undefined) {
+    params.set("tail", String(query.tail));
+  }
+  if (query.levels && query.levels.length > 0) {
+    params.set("levels", query.levels.join(","));
+  }
+  if (query.pattern) {
+    params.set("pattern", query.pattern);
+  }
+  if (query.ignoreCase !== undefined) {
+    params.set("ignoreCase", String(query.ignoreCase));
+  }
+  const value = params.toString();
+  return value ? `?${value}` : "";
+};
+
+export type ServiceLogStreamHandlers = {
+  onLines: (lines: ServiceLogLine[]) => void;
+  onError: (message: string) => void;
+  /**
+   * The stream is over: all lines were sent, the deployment finished or the
+   * connection dropped.
+   */
+  onEnd: (reason: "complete" | "finished" | "disconnected") => void;
+};
+
+/**
+ * Streams the logs of a session service. Returns a function that closes
+ * the stream.
+ */
+export function streamSessionServiceLogs(
+  sessionId: string,
+  query: ServiceLogQuery,
+  handlers: ServiceLogStreamHandlers,
+): () => void {
+  const source = new EventSource(
+    `/api/sessions/${sessionId}/service/logs/stream${toLogQueryString(query)}`,
+    { withCredentials: true },
+  );
+  let ended = false;
+  source.addEventListener("lines", (event) => {
+    handlers.onLines(JSON.parse((event as MessageEvent<string>).data));
+  });
+  source.addEventListener("log-error", (event) => {
+    handlers.onError(JSON.parse((event as MessageEvent<string>).data).error);
+  });
+  source.addEventListener("end", (event) => {
+    ended = true;
+    // Closing keeps the browser from reconnecting and replaying the logs
+    source.close();
+    handlers.onEnd(JSON.parse((event as MessageEvent<string>).data).reason);
+  });
+  // A reconnect would replay the tail, so a dropped stream stays closed
+  source.onerror = () => {
+    if (!ended) {
+      source.close();
+      handlers.onError("The log stream was disconnected.");
+      handlers.onEnd("disconnected");
+    }
+  };
+  return () => source.close();
+}
+
+/** URL of the current service logs as a text file, filtered like the stream. */
+export function getSessionServiceLogsDownloadUrl(
+  sessionId: string,
+  query: Omit<ServiceLogQuery, "follow" | "tail">,
+): string {
+  return `/api/sessions/${sessionId}/service/logs/download${toLogQueryString(query)}`;
+}
+
+/**
+ * Tells the server the session is open, which keeps its service from being
+ * stopped as idle and starts it again if it was.
+ */
+export async function reportSessionServiceActivity(sessionId: string): Promise<{
+  woken: boolean;
+  status: SessionServiceStatus;
+}> {
+  return await request(`/api/sessions/${sessionId}/service/activity`, {
+    method: "POST",
+  });
+}
+
 export async function startSessionService(sessionId: string): Promise<void> {
   await request(`/api/sessions/${sessionId}/service/start`, {
     method: "POST",
@@ -236,6 +560,17 @@ export async function fetchSessions(): Promise<Session[]> {
   return data.sessions;
 }
 
+export async function searchSessions(
+  query: string,
+  signal?: AbortSignal,
+): Promise<SearchResult[]> {
+  const data = await request<{ results: SearchResult[] }>(
+    `/api/search?q=${encodeURIComponent(query)}`,
+    { signal },
+  );
+  return data.results;
+}
+
 const normalizeMessage = (message: Message): Message => ({
   ...message,
   attachments: message.attachments ?? [],
@@ -243,6 +578,7 @@ const normalizeMessage = (message: Message): Message => ({
   responderProvider: message.responderProvider ?? null,
   responderModel: message.responderModel ?? null,
   responderReasoningEffort: message.responderReasoningEffort ?? null,
+  usage: message.usage ?? null,
 });
 
 const normalizeReasoningEffort = (
@@ -434,13 +770,44 @@ export async function updateMeta(payload: {
   return normalizeMetaResponse(data);
 }
 
+export async function fetchSessionMeta(sessionId: string): Promise<AppMeta> {
+  const data = await request<MetaResponsePayload>(
+    `/api/sessions/${sessionId}/meta`,
+  );
+  return normalizeMetaResponse(data);
+}
+
+export async function updateSessionMeta(
+  sessionId: string,
+  payload: {
+    model?: string;
+    reasoningEffort?: AppMeta["reasoningEffort"];
+    provider?: AppMeta["provider"];
+  },
+): Promise<AppMeta> {
+  const data = await request<MetaResponsePayload>(
+    `/api/sessions/${sessionId}/meta`,
+    {
+      method: "PATCH",
+      body: JSON.stringify(payload),
+    },
+  );
+  return normalizeMetaResponse(data);
+}
+
 export async function createSession(params?: {
   title?: string;
   githubRepo?: string;
   gitBranch?: string;
   customEnvVars?: Record<string, string>;
+  /** Stored encrypted; they can be replaced later but not read back. */
+  secretEnvVars?: Record<string, string>;
   dockerfilePath?: string;
   buildSettings?: Record<string, unknown>;
+  provider?: AppMeta["provider"];
+  model?: string;
+  reasoningEffort?: AppMeta["reasoningEffort"];
+  deployTargetId?: string;
 }): Promise<Session> {
   const data = await request<CreateSessionResponse>("/api/sessions", {
     method: "POST",
@@ -450,6 +817,50 @@ export async function createSession(params?: {
   return data.session;
 }
 
+/**
+ * Branches the conversation into a new session holding everything before
+ * `messageId`. `draft` is that message's text, ready to be edited and resent.
+ */
+export async function forkSession(
+  sessionId: string,
+  messageId: string,
+): Promise<{ session: Session; draft: string }> {
+  return await request<{ session: Session; draft: string }>(
+    `/api/sessions/${sessionId}/messages/${messageId}/fork`,
+    { method: "POST" },
+  );
+}
+
+export async function fetchSessionSecrets(
+  sessionId: string,
+): Promise<SessionSecretListResponse> {
+  return request<SessionSecretListResponse>(`/api/sessions/${sessionId}/secrets`);
+}
+
+/**
+ * Replaces the session's secrets. Keys left out are deleted; entries without
+ * a value keep their stored value.
+ */
+export async function saveSessionSecrets(
+  sessionId: string,
+  secrets: Array<{ key: string; value?: string }>,
+): Promise<SessionSecret[]> {
+  const data = await request<SessionSecretListResponse>(`/api/sessions/${sessionId}/secrets`, {
+    method: "PUT",
+    body: JSON.stringify({ secrets }),
+  });
+  return data.secrets;
+}
+
+export async function fetchSessionSecretAudit(
+  sessionId: string,
+): Promise<SessionSecretAuditEntry[]> {
+  const data = await request<SessionSecretAuditResponse>(
+    `/api/sessions/${sessionId}/secrets/audit`,
+  );
+  return data.entries;
+}
+
 export async function getSessionSettings(sessionId: string): Promise<{
   id: string;
   sessionId: string;
@@ -460,6 +871,7 @@ export async function getSessionSettings(sessionId: string): Promise<{
   gitRemoteUrl: string | null;
   gitBranch: string | null;
   autoCommit: boolean;
+  deployTargetId: string | null;
 }> {
   const data = await request<{ settings: {
     id: string;
@@ -471,6 +883,7 @@ export async function getSessionSettings(sessionId: string): Promise<{
     gitRemoteUrl: string | null;
     gitBranch: string | null;
     autoCommit: boolean;
+    deployTargetId: string | null;
   } }>(`/api/sessions/${sessionId}/settings`);
   return data.settings;
 }
@@ -488,42 +901,29 @@ export async function fetchMessages(sessionId: string): Promise<Message[]> {
   return data.messages.map((message) => normalizeMessage(message));
 }
 
-export async function* streamPostMessage(
-  sessionId: string,
-  payload: {
-    content: string;
-    attachments?: AttachmentUpload[];
-  },
-): AsyncGenerator<PostMessageStreamEvent> {
-  const response = await fetch(`/api/sessions/${sessionId}/messages`, {
-    method: "POST",
-    headers: {
-      Accept: "application/x-ndjson",
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify(payload),
-  });
-
-  if (!response.ok) {
-    let errorBody: unknown = null;
-    const contentType = response.headers.get("Content-Type") ?? "";
-    if (contentType.includes("application/json")) {
-      try {
-        errorBody = await response.json();
-      } catch {
-        errorBody = null;
-      }
-    } else {
-      try {
-        const text = await response.text();
-        errorBody = text.length > 0 ? { message: text } : null;
-      } catch {
-        errorBody = null;
-      }
+async function throwStreamError(response: Response): Promise<never> {
+  let errorBody: unknown = null;
+  const contentType = response.headers.get("Content-Type") ?? "";
+  if (contentType.includes("application/json")) {
+    try {
+      errorBody = await response.json();
+    } catch {
+      errorBody = null;
+    }
+  } else {
+    try {
+      const text = await response.text();
+      errorBody = text.length > 0 ? { message: text } : null;
+    } catch {
+      errorBody = null;
     }
-    throw new ApiError(response.status, errorBody);
   }
+  throw new ApiError(response.status, errorBody);
+}
 
+async function* readStreamEvents(
+  response: Response,
+): AsyncGenerator<PostMessageStreamEvent> {
   if (!response.body) {
     throw new Error(
       "Streaming responses are not supported in this environment.",
@@ -580,6 +980,143 @@ export async function* streamPostMessage(
   }
 }
 
+export async function* streamPostMessage(
+  sessionId: string,
+  payload: {
+    content: string;
+    attachments?: AttachmentUpload[];
+  },
+): AsyncGenerator<PostMessageStreamEvent> {
+  const response = await fetch(`/api/sessions/${sessionId}/messages`, {
+    method: "POST",
+    headers: {
+      Accept: "application/x-ndjson",
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(payload),
+  });
+
+  if (!response.ok) {
+    await throwStreamError(response);
+  }
+
+  if (response.status === 202) {
+    const data = (await response.json()) as { message: Message };
+    yield { type: "message_queued", message: data.message };
+    return;
+  }
+
+  yield* readStreamEvents(response);
+}
+
+export async function updateQueuedMessage(
+  sessionId: string,
+  messageId: string,
+  content: string,
+): Promise<Message> {
+  const data = await request<{ message: Message }>(
+    `/api/sessions/${sessionId}/messages/${messageId}`,
+    {
+      method: "PATCH",
+      body: JSON.stringify({ content }),
+    },
+  );
+  return data.message;
+}
+
+export async function deleteQueuedMessage(
+  sessionId: string,
+  messageId: string,
+): Promise<void> {
+  await request<void>(`/api/sessions/${sessionId}/messages/${messageId}`, {
+    method: "DELETE",
+  });
+}
+
+export async function fetchCurrentTurn(
+  sessionId: string,
+): Promise<SessionTurn | null> {
+  const data = await request<{ turn: SessionTurn | null }>(
+    `/api/sessions/${sessionId}/turns/current`,
+  );
+  return data.turn;
+}
+
+export async function fetchSessionTurns(
+  sessionId: string,
+): Promise<SessionTurn[]> {
+  const data = await request<{ turns: SessionTurn[] }>(
+    `/api/sessions/${sessionId}/turns`,
+  );
+  return data.turns;
+}
+
+export async function fetchTurnDiff(
+  sessionId: string,
+  turnId: string,
+): Promise<TurnDiff> {
+  const data = await request<{ diff: TurnDiff }>(
+    `/api/sessions/${sessionId}/turns/${turnId}/diff`,
+  );
+  return data.diff;
+}
+
+export async function acceptTurnChanges(
+  sessionId: string,
+  turnId: string,
+  files: TurnChangeSelection,
+): Promise<TurnDiff> {
+  const data = await request<{ diff: TurnDiff }>(
+    `/api/sessions/${sessionId}/turns/${turnId}/accept`,
+    { method: "POST", body: JSON.stringify({ files }) },
+  );
+  return data.diff;
+}
+
+export async function revertTurnChanges(
+  sessionId: string,
+  turnId: string,
+  files: TurnChangeSelection,
+): Promise<TurnDiff> {
+  const data = await request<{ diff: TurnDiff }>(
+    `/api/sessions/${sessionId}/turns/${turnId}/revert`,
+    { method: "POST", body: JSON.stringify({ files }) },
+  );
+  return data.diff;
+}
+
+export async function cancelCurrentTurn(sessionId: string): Promise<string> {
+  const data = await request<{ turnId: string }>(
+    `/api/sessions/${sessionId}/turns/current/cancel`,
+    { method: "POST" },
+  );
+  return data.turnId;
+}
+
+/**
+ * Re-attaches to a server-side turn. Events up to and including `afterSeq`
+ * are skipped so a dropped stream can resume where it left off.
+ */
+export async function* streamTurnEvents(
+  sessionId: string,
+  turnId: string,
+  afterSeq?: number,
+): AsyncGenerator<PostMessageStreamEvent> {
+  const query = afterSeq !== undefined ? `?after=${afterSeq}` : "";
+  const response = await fetch(
+    `/api/sessions/${sessionId}/turns/${turnId}/stream${query}`,
+    {
+      headers: { Accept: "application/x-ndjson" },
+    },
+  );
+
+  if (!response.ok) {
+    await throwStreamError(response);
+  }
+
+  yield* readStreamEvents(response);
+}
+
 export async function fetchSessionWorkspaceInfo(
   sessionId: string,
 ): Promise<SessionWorkspaceInfo> {
@@ -631,28 +1168,93 @@ export async function setSessionAutoCommit(
   return { autoCommit: response.settings.autoCommit };
 }
 
-export async function fetchDeployConfig(): Promise<DeployConfigResult> {
-  const data = await request<DeployConfigResult>("/api/deploy/config");
+export async function setSessionDeployTarget(
+  sessionId: string,
+  targetId: string | null,
+): Promise<{ deployTargetId: string | null }> {
+  const response = await request<{ settings: { deployTargetId: string | null } }>(
+    `/api/sessions/${sessionId}/deploy-target`,
+    {
+      method: "PUT",
+      body: JSON.stringify({ targetId }),
+    },
+  );
+  return { deployTargetId: response.settings.deployTargetId };
+}
+
+/**
+ * Lists the deployment targets any signed-in user may pick for a session.
+ * Settings and credentials are only returned by the admin endpoints.
+ */
+export async function fetchDeployTargetSummaries(): Promise<DeployTargetSummary[]> {
+  const data = await request<DeployTargetSummaryListResponse>("/api/deploy-targets");
+  return data.targets;
+}
+
+export async function fetchDeployTargets(): Promise<DeployTargetResult[]> {
+  const data = await request<DeployTargetListResponse>("/api/deploy/targets");
+  return data.targets;
+}
+
+export async function fetchDeployTarget(targetId: string): Promise<DeployTargetResult> {
+  const data = await request<DeployTargetResult>(`/api/deploy/targets/${targetId}`);
   return data;
 }
 
-export async function updateDeployConfig(
-  payload: DeployConfigPayload,
-): Promise<DeployConfigResult> {
-  const data = await request<DeployConfigResult>("/api/deploy/config", {
+export async function createDeployTarget(
+  payload: DeployTargetPayload & { name: string },
+): Promise<DeployTargetResult> {
+  const data = await request<DeployTargetResult>("/api/deploy/targets", {
+    method: "POST",
+    body: JSON.stringify(payload),
+  });
+  return data;
+}
+
+export async function updateDeployTarget(
+  targetId: string,
+  payload: DeployTargetPayload,
+): Promise<DeployTargetResult> {
+  const data = await request<DeployTargetResult>(`/api/deploy/targets/${targetId}`, {
     method: "PUT",
     body: JSON.stringify(payload),
   });
   return data;
 }
 
-export async function testDeployConnection(
-  params?: { apiKey?: string; baseUrl?: string; authMethod?: string },
-): Promise<DeployTestResponse> {
+export async function deleteDeployTarget(targetId: string): Promise<void> {
+  await request<void>(`/api/deploy/targets/${targetId}`, {
+    method: "DELETE",
+  });
+}
+
+export async function setDefaultDeployTarget(
+  targetId: string,
+): Promise<DeployTargetResult> {
+  const data = await request<DeployTargetResult>(
+    `/api/deploy/targets/${targetId}/default`,
+    { method: "POST" },
+  );
+  return data;
+}
+
+/**
+ * Tests a Dokploy connection. With a `targetId` the saved credentials of that
+ * target fill in whatever is not passed; without one, `baseUrl` and `apiKey`
+ * are required.
+ */
+export async function testDeployConnection(params: {
+  targetId?: string;
+  apiKey?: string;
+  baseUrl?: string;
+  authMethod?: string;
+}): Promise<DeployTestResponse> {
+  const { targetId, ...credentials } = params;
+  const url = targetId ? `/api/deploy/targets/${targetId}/test` : "/api/deploy/test";
   try {
-    const data = await request<DeployTestResponse>("/api/deploy/test", {
+    const data = await request<DeployTestResponse>(url, {
       method: "POST",
-      body: JSON.stringify(params || {}),
+      body: JSON.stringify(credentials),
     });
     return data;
   } catch (error) {
@@ -670,52 +1272,192 @@ export async function testDeployConnection(
   }
 }
 
-export async function syncDeployConfig(): Promise<DeployConfigResult> {
-  const data = await request<DeployConfigResult>("/api/deploy/sync", {
+export async function syncDeployTarget(targetId: string): Promise<DeployTargetResult> {
+  const data = await request<DeployTargetResult>(`/api/deploy/targets/${targetId}/sync`, {
     method: "POST",
   });
   return data;
 }
 
-export async function triggerDeployment(): Promise<{ ok: boolean; result: unknown }> {
-  const data = await request<{ ok: boolean; result: unknown }>("/api/deploy/deploy", {
+export async function triggerDeployment(
+  targetId: string,
+): Promise<DeployTriggerResponse> {
+  const data = await request<DeployTriggerResponse>(
+    `/api/deploy/targets/${targetId}/deploy`,
+    { method: "POST" },
+  );
+  return data;
+}
+
+export async function fetchDeployments(targetId: string): Promise<DeploymentResponse[]> {
+  const data = await request<DeploymentListResponse>(
+    `/api/deploy/targets/${targetId}/deployments`,
+  );
+  return data.deployments;
+}
+
+export type DeploymentEventHandlers = {
+  onSnapshot: (deployments: DeploymentResponse[]) => void;
+  onUpdate: (deployment: DeploymentResponse) => void;
+};
+
+/**
+ * Listens to a deployment event stream. The browser reconnects on its own
+ * after a dropped connection and the server then resends the snapshot.
+ * Returns a function that closes the stream.
+ */
+function subscribeToDeploymentEvents(
+  path: string,
+  handlers: DeploymentEventHandlers,
+): () => void {
+  const source = new EventSource(path, { withCredentials: true });
+  source.addEventListener("deployments", (event) => {
+    handlers.onSnapshot(JSON.parse((event as MessageEvent<string>).data));
+  });
+  source.addEventListener("deployment", (event) => {
+    handlers.onUpdate(JSON.parse((event as MessageEvent<string>).data));
+  });
+  return () => source.close();
+}
+
+export function subscribeToTargetDeployments(
+  targetId: string,
+  handlers: DeploymentEventHandlers,
+): () => void {
+  return subscribeToDeploymentEvents(
+    `/api/deploy/targets/${targetId}/deployments/events`,
+    handlers,
+  );
+}
+
+export async function fetchSessionDeployments(
+  sessionId: string,
+): Promise<DeploymentResponse[]> {
+  const data = await request<DeploymentListResponse>(
+    `/api/sessions/${sessionId}/service/deployments`,
+  );
+  return data.deployments;
+}
+
+export function subscribeToSessionDeployments(
+  sessionId: string,
+  handlers: DeploymentEventHandlers,
+): () => void {
+  return subscribeToDeploymentEvents(
+    `/api/sessions/${sessionId}/service/deployments/events`,
+    handlers,
+  );
+}
+
+export async function fetchArtifactStorage(): Promise<ArtifactStorageResponse> {
+  const data = await request<ArtifactStorageResponse>("/api/deploy/artifacts");
+  return data;
+}
+
+/** Applies the artifact retention policy right away instead of at the next sweep. */
+export async function sweepDeployArtifacts(): Promise<ArtifactSweepResponse> {
+  const data = await request<ArtifactSweepResponse>("/api/deploy/artifacts/sweep", {
     method: "POST",
   });
   return data;
 }
 
-export async function fetchDokployProjects(): Promise<DeployProjectsResponse> {
-  const data = await request<DeployProjectsResponse>("/api/deploy/projects");
+export async function fetchServiceBackendSettings(): Promise<SessionServiceBackendSettings> {
+  const data = await request<SessionServiceBackendSettings>("/api/deploy/service-backend");
+  return data;
+}
+
+/** Picks the backend new session services are created on. */
+export async function updateServiceBackend(
+  backend: SessionServiceBackendKind,
+): Promise<SessionServiceBackendSettings> {
+  const data = await request<SessionServiceBackendSettings>("/api/deploy/service-backend", {
+    method: "PUT",
+    body: JSON.stringify({ backend }),
+  });
+  return data;
+}
+
+export async function deleteDeployArtifact(key: string): Promise<void> {
+  await request<void>(`/api/deploy/artifacts/${encodeURIComponent(key)}`, {
+    method: "DELETE",
+  });
+}
+
+/**
+ * Deploys the artifact of an earlier deployment again. The target's source
+ * is switched to that artifact, so the returned config reflects it.
+ */
+export async function redeployDeployment(
+  targetId: string,
+  deploymentId: string,
+): Promise<DeployRedeployResponse> {
+  const data = await request<DeployRedeployResponse>(
+    `/api/deploy/targets/${targetId}/deployments/${deploymentId}/redeploy`,
+    { method: "POST" },
+  );
+  return data;
+}
+
+export async function fetchDokployProjects(
+  targetId: string,
+): Promise<DeployProjectsResponse> {
+  const data = await request<DeployProjectsResponse>(
+    `/api/deploy/targets/${targetId}/projects`,
+  );
   return data;
 }
 
 export async function fetchDokployApplications(
+  targetId: string,
   projectId?: string,
 ): Promise<DeployApplicationsResponse> {
   const url = projectId
-    ? `/api/deploy/applications?projectId=${encodeURIComponent(projectId)}`
-    : "/api/deploy/applications";
+    ? `/api/deploy/targets/${targetId}/applications?projectId=${encodeURIComponent(projectId)}`
+    : `/api/deploy/targets/${targetId}/applications`;
   const data = await request<DeployApplicationsResponse>(url);
   return data;
 }
 
 export async function fetchDokployEnvironments(
+  targetId: string,
   projectId: string,
 ): Promise<DeployEnvironmentsResponse> {
   const data = await request<DeployEnvironmentsResponse>(
-    `/api/deploy/environments?projectId=${encodeURIComponent(projectId)}`,
+    `/api/deploy/targets/${targetId}/environments?projectId=${encodeURIComponent(projectId)}`,
+  );
+  return data;
+}
+
+/**
+ * Lists the files an upload of the session's workspace would pack and their
+ * total size. Passing `archive` previews rules that are not saved yet.
+ */
+export async function previewWorkspaceArchive(
+  targetId: string,
+  options: { sessionId: string; archive?: DeployArchiveRules },
+): Promise<ArchivePreviewResponse> {
+  const data = await request<ArchivePreviewResponse>(
+    `/api/deploy/targets/${targetId}/upload/preview`,
+    {
+      method: "POST",
+      body: JSON.stringify(options),
+    },
   );
   return data;
 }
 
 export async function uploadWorkspaceArtifact(
-  workspaceRoot?: string,
+  targetId: string,
+  sessionId: string,
 ): Promise<DeployUploadResponse> {
-  const body = workspaceRoot ? { workspaceRoot } : {};
-  const data = await request<DeployUploadResponse>("/api/deploy/upload", {
-    method: "POST",
-    body: JSON.stringify(body),
-  });
+  const data = await request<DeployUploadResponse>(
+    `/api/deploy/targets/${targetId}/upload`,
+    {
+      method: "POST",
+      body: JSON.stringify({ sessionId }),
+    },
+  );
   return data;
 }
 
@@ -1,7 +1,9 @@
 import type {
   DeployConfig,
-  DeployConfigResponse,
   DeployEnvVar,
+  DeployTargetResponse,
+  DeployTargetSummary,
+  DeploymentResponse,
 } from "../../../shared/dokploy";
 
 export type Session = {
@@ -19,6 +21,7 @@ export type AuthUser = {
   id: string;
   username: string;
   isAdmin: boolean;
+  twoFactorEnabled: boolean;
   createdAt: string;
   updatedAt: string;
 };
@@ -33,8 +36,59 @@ export type LoginResponse = {
   user: AuthUser;
 };
 
+/** Returned by login instead of the user when a two-factor code is needed. */
+export type TwoFactorChallengeResponse = {
+  twoFactorRequired: true;
+  challengeToken: string;
+};
+
 export type MeResponse = {
   user: AuthUser;
+  /** The admin viewing the app as `user`, while impersonating. */
+  impersonator: AuthUser | null;
+  /** The user has to turn on two-factor authentication before using the app. */
+  twoFactorSetupRequired: boolean;
+};
+
+export type TwoFactorRequirement = "off" | "admins" | "all";
+
+export type TwoFactorStatus = {
+  enabled: boolean;
+  enabledAt: string | null;
+  recoveryCodesRemaining: number;
+  /** Whether the admin setting requires two-factor authentication for this user. */
+  required: boolean;
+  requirement: TwoFactorRequirement;
+  /** False until the server has CODEX_WEBAPP_SECRET to encrypt the secret with. */
+  available: boolean;
+};
+
+export type TwoFactorSetupResponse = {
+  secret: string;
+  otpauthUrl: string;
+  /** PNG data URL of the QR code for `otpauthUrl`. */
+  qrCode: string;
+};
+
+export type RecoveryCodesResponse = {
+  recoveryCodes: string[];
+};
+
+export type SsoProvider = {
+  id: string;
+  name: string;
+  type: "github" | "oidc";
+  /** Starts a sign-in; add `?link=true` to link the provider to the signed-in user. */
+  loginUrl: string;
+  /** Whether the signed-in user has linked this provider. */
+  linked: boolean;
+};
+
+export type SsoProvidersResponse = {
+  passwordLoginEnabled: boolean;
+  /** Password login is kept on by the server's FORCE_PASSWORD_LOGIN setting. */
+  passwordLoginForced: boolean;
+  providers: SsoProvider[];
 };
 
 export type MessageRole = "system" | "user" | "assistant";
@@ -48,16 +102,32 @@ export type Attachment = {
   createdAt: string;
 };
 
+export type MessageStatus =
+  | "completed"
+  | "in_progress"
+  | "interrupted"
+  | "queued";
+
 export type Message = {
   id: string;
   role: MessageRole;
   content: string;
+  status?: MessageStatus;
   createdAt: string;
   attachments: Attachment[];
   items?: TurnItem[];
   responderProvider?: string | null;
   responderModel?: string | null;
   responderReasoningEffort?: string | null;
+  usage?: MessageUsage | null;
+};
+
+export type MessageUsage = {
+  provider: string | null;
+  model: string | null;
+  inputTokens: number;
+  cachedInputTokens: number;
+  outputTokens: number;
 };
 
 export type Usage = {
@@ -98,11 +168,16 @@ export type PostMessageErrorResponse = {
   userMessage: Message;
 };
 
-export type PostMessageStreamEvent =
+export type PostMessageStreamEvent = (
   | {
       type: "user_message";
       message: Message;
     }
+  | {
+      /** The session was busy; the message waits in the queue. */
+      type: "message_queued";
+      message: Message;
+    }
   | {
       type: "assistant_message_snapshot";
       message: Message;
@@ -121,7 +196,70 @@ export type PostMessageStreamEvent =
     }
   | {
       type: "done";
-    };
+    }
+) & {
+  /** Server-side turn the event belongs to. */
+  turnId?: string;
+  /** Position in the turn's event log; pass it back to resume a stream. */
+  seq?: number;
+};
+
+export type SessionTurnStatus = "running" | "completed" | "failed" | "cancelled";
+
+export type SessionTurn = {
+  id: string;
+  sessionId: string;
+  userMessageId: string | null;
+  assistantMessageId: string | null;
+  status: SessionTurnStatus;
+  error: string | null;
+  createdAt: string;
+  updatedAt: string;
+  completedAt: string | null;
+};
+
+export type TurnChangeDecision = "accepted" | "reverted";
+
+export type TurnDiffHunk = {
+  index: number;
+  header: string;
+  /** Patch lines including their leading " ", "+", "-" or "\" marker. */
+  lines: string[];
+  decision: TurnChangeDecision | null;
+};
+
+export type TurnDiffFile = {
+  path: string;
+  status: "added" | "modified" | "deleted";
+  binary: boolean;
+  /** True when the patch was too large to display; `hunks` is then empty. */
+  truncated: boolean;
+  additions: number;
+  deletions: number;
+  hunks: TurnDiffHunk[];
+  decision: TurnChangeDecision | null;
+};
+
+export type TurnDiff = {
+  turnId: string;
+  /** False while the turn is running or when it predates snapshots. */
+  available: boolean;
+  files: TurnDiffFile[];
+};
+
+/** Files to act on; omitting `hunks` selects the whole file. */
+export type TurnChangeSelection = Array<{ path: string; hunks?: number[] }>;
+
+export type SearchResult = {
+  /** Where the match was found: a session title, a message, or a run item. */
+  source: "session" | "message" | "run_item";
+  sessionId: string;
+  sessionTitle: string;
+  messageId: string | null;
+  role: Message["role"] | null;
+  snippet: string;
+  createdAt: string;
+};
 
 export type ProviderOption = "CodexSDK" | "ClaudeCodeSDK" | "DroidCLI" | "CopilotCLI" | "GeminiSDK";
 export type ReasoningEffort = "low" | "medium" | "high";
@@ -189,10 +327,22 @@ export type DeployConfigPayload = DeployConfig & {
   apiKey?: string | null;
 };
 
-export type DeployConfigResult = DeployConfigResponse & {
+export type DeployTargetPayload = DeployConfigPayload & {
+  name?: string;
+};
+
+export type DeployTargetResult = DeployTargetResponse & {
   env?: DeployEnvVar[];
 };
 
+export type DeployTargetListResponse = {
+  targets: DeployTargetResult[];
+};
+
+export type DeployTargetSummaryListResponse = {
+  targets: DeployTargetSummary[];
+};
+
 export type DeployTestResponse = {
   ok: boolean;
   projects?: unknown;
@@ -211,6 +361,45 @@ export type DeployApplicationsResponse = {
   }>;
 };
 
+/** A session secret; its value is never sent back by the server. */
+export type SessionServiceStatus = {
+  status: string;
+  url?: string;
+  error?: string;
+  stoppedReason?: string;
+  backend?: string;
+  /** Result of the last health check, missing before the first one. */
+  health?: "healthy" | "unhealthy";
+  healthCheckedAt?: string;
+  /** Automatic restarts since the service was last started by hand. */
+  restartCount?: number;
+};
+
+export type SessionSecret = {
+  key: string;
+  masked: true;
+  updatedAt: string;
+  updatedBy: string | null;
+};
+
+export type SessionSecretListResponse = {
+  secrets: SessionSecret[];
+  /** False when the server has no key to encrypt new values with. */
+  encryptionAvailable: boolean;
+};
+
+export type SessionSecretAuditEntry = {
+  id: string;
+  key: string;
+  action: "created" | "updated" | "deleted";
+  username: string | null;
+  createdAt: string;
+};
+
+export type SessionSecretAuditResponse = {
+  entries: SessionSecretAuditEntry[];
+};
+
 export type DeployEnvironmentsResponse = {
   environments: Array<{
     environmentId: string;
@@ -218,12 +407,26 @@ export type DeployEnvironmentsResponse = {
   }>;
 };
 
+export type DeploymentListResponse = {
+  deployments: DeploymentResponse[];
+};
+
+export type DeployTriggerResponse = {
+  ok: boolean;
+  deployment: DeploymentResponse;
+};
+
+export type DeployRedeployResponse = {
+  deployment: DeploymentResponse;
+  config: DeployTargetResult;
+};
+
 export type DeployUploadResponse = {
   artifactKey: string;
   artifactUrl: string;
   expiresAt: string;
   size: number;
-  config: DeployConfigResult;
+  config: DeployTargetResult;
 };
 
 export type UserListResponse = {
@@ -271,3 +474,127 @@ export type UserAuthFileDetail = {
 export type UserAuthFileDetailResponse = {
   file: UserAuthFileDetail;
 };
+
+export type UsageGroupBy = "user" | "session" | "provider" | "day";
+
+export type UsageTotals = {
+  turns: number;
+  inputTokens: number;
+  cachedInputTokens: number;
+  outputTokens: number;
+  /** Cost of the priced turns, in the currency the model prices use. */
+  cost: number;
+  /** Turns whose model has no price configured. */
+  unpricedTurns: number;
+};
+
+export type UsageReportRow = UsageTotals & {
+  groupKey: string;
+  label: string;
+};
+
+export type UsageReport = {
+  groupBy: UsageGroupBy;
+  from: string;
+  to: string;
+  rows: UsageReportRow[];
+  totals: UsageTotals;
+};
+
+export type UsageReportQuery = {
+  groupBy: UsageGroupBy;
+  from?: string;
+  to?: string;
+  userId?: string;
+};
+
+export type ApiTokenScope = "read" | "sessions" | "deploy";
+
+export type ApiToken = {
+  id: string;
+  name: string;
+  /** First characters of the token, to tell tokens apart. */
+  tokenPrefix: string;
+  scopes: ApiTokenScope[];
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  lastUsedIp: string | null;
+  createdAt: string;
+};
+
+export type CreateApiTokenRequest = {
+  name: string;
+  scopes: ApiTokenScope[];
+  /** null for a token that does not expire. */
+  expiresInDays: number | null;
+};
+
+export type CreateApiTokenResponse = {
+  token: ApiToken;
+  /** The token itself, which the server does not show again. */
+  secret: string;
+};
+
+export type AuditEvent = {
+  id: string;
+  createdAt: string;
+  actorUserId: string | null;
+  actorUsername: string | null;
+  /** The user the actor was impersonating, if any. */
+  actingAsUserId: string | null;
+  actingAsUsername: string | null;
+  action: string;
+  targetType: string | null;
+  targetId: string | null;
+  targetLabel: string | null;
+  ip: string | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+};
+
+export type AuditEventQuery = {
+  /** Exact action, or a prefix ending in "." such as `user.`. */
+  action?: string;
+  actorUserId?: string;
+  targetType?: string;
+  from?: string;
+  to?: string;
+  search?: string;
+  limit?: number;
+  offset?: number;
+};
+
+export type AuditEventListResponse = {
+  events: AuditEvent[];
+  hasMore: boolean;
+};
+
+export type ModelPricing = {
+  model: string;
+  inputPerMillion: number;
+  cachedInputPerMillion: number | null;
+  outputPerMillion: number;
+  updatedAt: string;
+};
+
+export type ModelPricingRequest = Omit<ModelPricing, "model" | "updatedAt">;
+
+export type UserQuotaLimits = {
+  turnsPerHour: number | null;
+  tokensPerDay: number | null;
+  concurrentTurns: number | null;
+};
+
+export type UserQuotaUsage = {
+  turnsLastHour: number;
+  oldestTurnInHourAt: string | null;
+  queuedMessages: number;
+  tokensLastDay: number;
+  oldestUsageInDayAt: string | null;
+  runningTurns: number;
+};
+
+export type UserQuotaStatus = {
+  limits: UserQuotaLimits;
+  usage: UserQuotaUsage;
+};
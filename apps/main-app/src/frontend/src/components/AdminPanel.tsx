@@ -9,18 +9,59 @@ import {
   deleteUserAuthFile,
   downloadUserAuthFile,
   impersonateUser,
+  resetUserTwoFactor,
+  fetchUserQuota,
+  updateUserQuota,
 } from "../api/client";
 import type {
   AuthUser,
   CreateUserRequest,
   UserAuthFileSummary,
+  UserQuotaLimits,
+  UserQuotaStatus,
 } from "../api/types";
 import { useAuth } from "../context/AuthContext";
+import UsagePanel from "./UsagePanel";
+import ArtifactStoragePanel from "./ArtifactStoragePanel";
+import ServiceBackendPanel from "./ServiceBackendPanel";
+import AuditLogPanel from "./AuditLogPanel";
+import SignInSettingsPanel from "./SignInSettingsPanel";
 
 type ProviderKey = UserAuthFileSummary["provider"];
 
 const PROVIDERS: ProviderKey[] = ["codex", "claude", "droid", "copilot"];
 
+type AdminTab = "users" | "usage" | "storage" | "services" | "signin" | "audit";
+
+const adminTabLabels: Record<AdminTab, string> = {
+  users: "Users",
+  usage: "Usage",
+  storage: "Storage",
+  services: "Services",
+  signin: "Sign-in",
+  audit: "Audit Log",
+};
+
+type QuotaDraft = Record<keyof UserQuotaLimits, string>;
+
+const QUOTA_FIELDS: { key: keyof UserQuotaLimits; label: string }[] = [
+  { key: "turnsPerHour", label: "Turns per hour" },
+  { key: "tokensPerDay", label: "Tokens per day" },
+  { key: "concurrentTurns", label: "Concurrent turns" },
+];
+
+const toQuotaDraft = (limits: UserQuotaLimits): QuotaDraft => ({
+  turnsPerHour: limits.turnsPerHour === null ? "" : String(limits.turnsPerHour),
+  tokensPerDay: limits.tokensPerDay === null ? "" : String(limits.tokensPerDay),
+  concurrentTurns: limits.concurrentTurns === null ? "" : String(limits.concurrentTurns),
+});
+
+const emptyQuotaDraft: QuotaDraft = {
+  turnsPerHour: "",
+  tokensPerDay: "",
+  concurrentTurns: "",
+};
+
 const providerLabels: Record<ProviderKey, string> = {
   codex: "Codex CLI",
   claude: "Claude CLI",
@@ -29,7 +70,13 @@ const providerLabels: Record<ProviderKey, string> = {
 };
 
 const AdminPanel = () => {
-  const { user: currentUser } = useAuth();
+  const { user: currentUser, impersonator } = useAuth();
+  // The server refuses credential changes made on someone else's behalf
+  const impersonating = impersonator !== null;
+  // Linking a sign-in provider returns here with the result in the URL
+  const [activeTab, setActiveTab] = useState<AdminTab>(() =>
+    /[?&]sso_(linked|error)=/.test(window.location.search) ? "signin" : "users",
+  );
   const [users, setUsers] = useState<AuthUser[]>([]);
   const [loadingUsers, setLoadingUsers] = useState(true);
   const [usersError, setUsersError] = useState<string | null>(null);
@@ -59,6 +106,11 @@ const AdminPanel = () => {
   const [authEditorLoading, setAuthEditorLoading] = useState(false);
   const [authEditorError, setAuthEditorError] = useState<string | null>(null);
 
+  const [quotaStatus, setQuotaStatus] = useState<UserQuotaStatus | null>(null);
+  const [quotaDraft, setQuotaDraft] = useState<QuotaDraft>(emptyQuotaDraft);
+  const [quotaSaving, setQuotaSaving] = useState(false);
+  const [quotaError, setQuotaError] = useState<string | null>(null);
+
   const selectedUser = useMemo(
     () => users.find((candidate) => candidate.id === selectedUserId) ?? null,
     [users, selectedUserId],
@@ -97,6 +149,20 @@ const AdminPanel = () => {
     }
   }, []);
 
+  const refreshQuota = useCallback(async (userId: string) => {
+    setQuotaError(null);
+    try {
+      const status = await fetchUserQuota(userId);
+      setQuotaStatus(status);
+      setQuotaDraft(toQuotaDraft(status.limits));
+    } catch (error) {
+      console.error("Failed to load quota", error);
+      setQuotaError("Unable to load quota for this user");
+      setQuotaStatus(null);
+      setQuotaDraft(emptyQuotaDraft);
+    }
+  }, []);
+
   useEffect(() => {
     void refreshUsers();
   }, [refreshUsers]);
@@ -105,15 +171,18 @@ const AdminPanel = () => {
     if (selectedUser) {
       setAdminDraft(selectedUser.isAdmin);
       void refreshAuthFiles(selectedUser.id);
+      void refreshQuota(selectedUser.id);
     } else {
       setAuthSummaries([]);
       setAdminDraft(false);
+      setQuotaStatus(null);
+      setQuotaDraft(emptyQuotaDraft);
     }
     setAuthEditorTarget(null);
     setAuthEditorFileName("");
     setAuthEditorContent("");
     setAuthEditorError(null);
-  }, [selectedUser, refreshAuthFiles]);
+  }, [selectedUser, refreshAuthFiles, refreshQuota]);
 
   const handleCreateUser = async (event: FormEvent) => {
     event.preventDefault();
@@ -183,6 +252,23 @@ const AdminPanel = () => {
     }
   };
 
+  const handleResetTwoFactor = async (user: AuthUser) => {
+    if (
+      !window.confirm(
+        `Turn off two-factor authentication for ${user.username}? They can sign in with only their password until they set it up again.`,
+      )
+    ) {
+      return;
+    }
+    try {
+      await resetUserTwoFactor(user.id);
+      await refreshUsers();
+    } catch (error) {
+      console.error("Failed to reset two-factor authentication", error);
+      alert("Unable to reset two-factor authentication.");
+    }
+  };
+
   const handleSaveAdmin = async () => {
     if (!selectedUser) {
       return;
@@ -232,6 +318,41 @@ const AdminPanel = () => {
     }
   };
 
+  const handleSaveQuota = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!selectedUser || quotaSaving) {
+      return;
+    }
+
+    const limits = {} as UserQuotaLimits;
+    for (const { key, label } of QUOTA_FIELDS) {
+      const raw = quotaDraft[key].trim();
+      if (raw.length === 0) {
+        limits[key] = null;
+        continue;
+      }
+      const value = Number(raw);
+      if (!Number.isInteger(value) || value < 1) {
+        setQuotaError(`${label} must be a whole number of at least 1, or empty for no limit.`);
+        return;
+      }
+      limits[key] = value;
+    }
+
+    setQuotaError(null);
+    setQuotaSaving(true);
+    try {
+      const status = await updateUserQuota(selectedUser.id, limits);
+      setQuotaStatus(status);
+      setQuotaDraft(toQuotaDraft(status.limits));
+    } catch (error) {
+      console.error("Failed to update quota", error);
+      setQuotaError("Unable to update quota.");
+    } finally {
+      setQuotaSaving(false);
+    }
+  };
+
   const openAuthEditor = async (provider: ProviderKey, fileName: string | null) => {
     if (!selectedUser) {
       return;
@@ -329,293 +450,382 @@ const AdminPanel = () => {
     authSummaries.filter((summary) => summary.provider === provider);
 
   return (
-    <div className="admin-panel">
-      <div className="admin-users-column">
-        <header>
-          <h2>Users</h2>
-          {usersError && <span className="error-text">{usersError}</span>}
-        </header>
-        {loadingUsers ? (
-          <div className="placeholder">Loading users…</div>
-        ) : (
-          <ul className="admin-user-list">
-            {users.map((user) => (
-              <li
-                key={user.id}
-                className={user.id === selectedUserId ? "selected" : ""}
-              >
-                <button
-                  type="button"
-                  onClick={() => setSelectedUserId(user.id)}
-                  className="user-selector"
-                >
-                  <span>{user.username}</span>
-                  {user.isAdmin && <span className="badge">Admin</span>}
-                </button>
-                {currentUser?.id !== user.id && (
-                  <button
-                    type="button"
-                    className="danger-link"
-                    onClick={() => void handleDeleteUser(user.id)}
-                    title="Delete user"
-                  >
-                    Delete
-                  </button>
-                )}
-              </li>
-            ))}
-          </ul>
-        )}
-
-        <form className="admin-create-user" onSubmit={handleCreateUser}>
-          <h3>Create User</h3>
-          <label>
-            Username
-            <input
-              type="text"
-              value={createUserForm.username}
-              onChange={(event) =>
-                setCreateUserForm((previous) => ({
-                  ...previous,
-                  username: event.target.value,
-                }))
-              }
-              required
-              disabled={createUserForm.submitting}
-            />
-          </label>
-          <label>
-            Password
-            <input
-              type="password"
-              value={createUserForm.password}
-              onChange={(event) =>
-                setCreateUserForm((previous) => ({
-                  ...previous,
-                  password: event.target.value,
-                }))
-              }
-              required
-              disabled={createUserForm.submitting}
-            />
-            <small className="muted">Must include a letter and number (min. 8 chars)</small>
-          </label>
-          <label className="checkbox">
-            <input
-              type="checkbox"
-              checked={createUserForm.isAdmin}
-              onChange={(event) =>
-                setCreateUserForm((previous) => ({
-                  ...previous,
-                  isAdmin: event.target.checked,
-                }))
-              }
-              disabled={createUserForm.submitting}
-            />
-            Grant admin access
-          </label>
-          {createUserForm.error && (
-            <div className="error-text">{createUserForm.error}</div>
-          )}
-          <button type="submit" disabled={createUserForm.submitting}>
-            {createUserForm.submitting ? "Creating…" : "Create user"}
+    <div className="admin-view">
+      <nav className="admin-tabs">
+        {(Object.keys(adminTabLabels) as AdminTab[]).map((tab) => (
+          <button
+            key={tab}
+            type="button"
+            className={tab === activeTab ? "admin-tab active" : "admin-tab"}
+            onClick={() => setActiveTab(tab)}
+          >
+            {adminTabLabels[tab]}
           </button>
-        </form>
-      </div>
-
-      <div className="admin-detail-column">
-        {selectedUser ? (
-          <>
+        ))}
+      </nav>
+      {activeTab === "usage" ? (
+        <UsagePanel users={users} />
+      ) : activeTab === "storage" ? (
+        <ArtifactStoragePanel />
+      ) : activeTab === "services" ? (
+        <ServiceBackendPanel />
+      ) : activeTab === "signin" ? (
+        <SignInSettingsPanel />
+      ) : activeTab === "audit" ? (
+        <AuditLogPanel users={users} />
+      ) : (
+        <div className="admin-panel">
+          <div className="admin-users-column">
             <header>
-              <h2>{selectedUser.username}</h2>
-              <p>
-                Created {new Date(selectedUser.createdAt).toLocaleString()} ·
-                Updated {new Date(selectedUser.updatedAt).toLocaleString()}
-              </p>
-              {currentUser?.id !== selectedUser.id && (
-                <button
-                  type="button"
-                  onClick={() => void handleImpersonateUser(selectedUser.id)}
-                  style={{
-                    marginTop: "1em",
-                    backgroundColor: "#6366f1",
-                    color: "white",
-                    border: "none",
-                    padding: "0.5em 1em",
-                    borderRadius: "4px",
-                    cursor: "pointer",
-                  }}
-                >
-                  View Site as {selectedUser.username}
-                </button>
-              )}
+              <h2>Users</h2>
+              {usersError && <span className="error-text">{usersError}</span>}
             </header>
-
-            <section className="admin-section">
-              <h3>Account Settings</h3>
-              <div className="admin-section-row">
-                <label className="checkbox">
-                  <input
-                    type="checkbox"
-                    checked={adminDraft}
-                    onChange={(event) => setAdminDraft(event.target.checked)}
-                    disabled={adminSaving}
-                  />
-                  Admin access
-                </label>
-                <button
-                  type="button"
-                  onClick={() => void handleSaveAdmin()}
-                  disabled={adminSaving || adminDraft === selectedUser.isAdmin}
-                >
-                  {adminSaving ? "Saving…" : "Save"}
-                </button>
-              </div>
-
-              <form className="admin-section-row" onSubmit={handleUpdatePassword}>
-                <label className="password-field">
-                  <span>New password</span>
-                  <input
-                    type="password"
-                    value={passwordDraft}
-                    onChange={(event) => {
-                      setPasswordDraft(event.target.value);
-                      setPasswordError(null);
-                      setPasswordSuccess(null);
-                    }}
-                    disabled={passwordSaving}
-                    placeholder="Enter new password"
-                  />
-                  <small className="muted">Must include a letter and number (min. 8 chars)</small>
-                </label>
-                <button type="submit" disabled={passwordSaving || passwordDraft.length === 0}>
-                  {passwordSaving ? "Updating…" : "Update password"}
-                </button>
-              </form>
-              {passwordError && <div className="error-text">{passwordError}</div>}
-              {passwordSuccess && <div style={{ color: "green", fontSize: "0.9em", marginTop: "0.5em" }}>{passwordSuccess}</div>}
-            </section>
-
-            <section className="admin-section">
-              <h3>Authentication Files</h3>
-              {authError && <div className="error-text">{authError}</div>}
-              {authLoading ? (
-                <div className="placeholder">Loading auth files…</div>
-              ) : (
-                <div className="auth-providers-grid">
-                  {PROVIDERS.map((provider) => {
-                    const files = getProviderFiles(provider);
-                    const isEditing = authEditorTarget?.provider === provider;
-                    return (
-                      <div className="auth-card" key={provider}>
-                        <header>
-                          <h4>{providerLabels[provider]}</h4>
-                          <span
-                            className={files.length > 0 ? "status configured" : "status missing"}
-                          >
-                            {files.length > 0 ? "Configured" : "Not set"}
-                          </span>
-                        </header>
-                        <div className="auth-card-files">
-                          {files.length === 0 ? (
-                            <p className="muted">No files uploaded.</p>
-                          ) : (
-                            <ul>
-                              {files.map((file) => (
-                                <li key={file.id}>
-                                  <div className="auth-file-info">
-                                    <span className="file-name">{file.fileName}</span>
-                                    <span className="timestamp">
-                                      Updated {new Date(file.updatedAt).toLocaleString()}
-                                    </span>
-                                  </div>
-                                  <div className="auth-file-actions">
-                                    <button
-                                      type="button"
-                                      onClick={() => void openAuthEditor(provider, file.fileName)}
-                                    >
-                                      Edit
-                                    </button>
-                                    <button
-                                      type="button"
-                                      className="danger-link"
-                                      onClick={() => void handleRemoveAuthFile(provider, file.fileName)}
-                                    >
-                                      Remove
-                                    </button>
-                                  </div>
-                                </li>
-                              ))}
-                            </ul>
-                          )}
-                        </div>
-                        <div className="auth-card-actions">
-                          <button
-                            type="button"
-                            onClick={() => void openAuthEditor(provider, null)}
-                          >
-                            Add file
-                          </button>
-                        </div>
-                        {isEditing && (
-                          <div className="auth-editor">
-                            <label>
-                              File name
-                              <input
-                                type="text"
-                                value={authEditorTarget?.fileName ? authEditorTarget.fileName : authEditorFileName}
-                                onChange={(event) => setAuthEditorFileName(event.target.value)}
-                                disabled={Boolean(authEditorTarget?.fileName)}
-                              />
-                            </label>
-                            {authEditorLoading ? (
-                              <div className="placeholder">Loading file…</div>
-                            ) : (
-                              <textarea
-                                value={authEditorContent}
-                                onChange={(event) => setAuthEditorContent(event.target.value)}
-                                spellCheck={false}
-                                rows={10}
-                              />
-                            )}
-                            {authEditorError && (
-                              <div className="error-text">{authEditorError}</div>
-                            )}
-                            <div className="auth-editor-actions">
-                              <button
-                                type="button"
-                                onClick={() => void handleSaveAuthFile()}
-                                disabled={authEditorSaving || authEditorLoading}
+            {loadingUsers ? (
+              <div className="placeholder">Loading users…</div>
+            ) : (
+              <ul className="admin-user-list">
+                {users.map((user) => (
+                  <li
+                    key={user.id}
+                    className={user.id === selectedUserId ? "selected" : ""}
+                  >
+                    <button
+                      type="button"
+                      onClick={() => setSelectedUserId(user.id)}
+                      className="user-selector"
+                    >
+                      <span>{user.username}</span>
+                      {user.isAdmin && <span className="badge">Admin</span>}
+                    </button>
+                    {currentUser?.id !== user.id && (
+                      <button
+                        type="button"
+                        className="danger-link"
+                        onClick={() => void handleDeleteUser(user.id)}
+                        title="Delete user"
+                      >
+                        Delete
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <form className="admin-create-user" onSubmit={handleCreateUser}>
+              <h3>Create User</h3>
+              <label>
+                Username
+                <input
+                  type="text"
+                  value={createUserForm.username}
+                  onChange={(event) =>
+                    setCreateUserForm((previous) => ({
+                      ...previous,
+                      username: event.target.value,
+                    }))
+                  }
+                  required
+                  disabled={createUserForm.submitting}
+                />
+              </label>
+              <label>
+                Password
+                <input
+                  type="password"
+                  value={createUserForm.password}
+                  onChange={(event) =>
+                    setCreateUserForm((previous) => ({
+                      ...previous,
+                      password: event.target.value,
+                    }))
+                  }
+                  required
+                  disabled={createUserForm.submitting}
+                />
+                <small className="muted">Must include a letter and number (min. 8 chars)</small>
+              </label>
+              <label className="checkbox">
+                <input
+                  type="checkbox"
+                  checked={createUserForm.isAdmin}
+                  onChange={(event) =>
+                    setCreateUserForm((previous) => ({
+                      ...previous,
+                      isAdmin: event.target.checked,
+                    }))
+                  }
+                  disabled={createUserForm.submitting}
+                />
+                Grant admin access
+              </label>
+              {createUserForm.error && (
+                <div className="error-text">{createUserForm.error}</div>
+              )}
+              <button type="submit" disabled={createUserForm.submitting}>
+                {createUserForm.submitting ? "Creating…" : "Create user"}
+              </button>
+            </form>
+          </div>
+
+          <div className="admin-detail-column">
+            {selectedUser ? (
+              <>
+                <header>
+                  <h2>{selectedUser.username}</h2>
+                  <p>
+                    Created {new Date(selectedUser.createdAt).toLocaleString()} ·
+                    Updated {new Date(selectedUser.updatedAt).toLocaleString()}
+                  </p>
+                  {currentUser?.id !== selectedUser.id && !impersonating && (
+                    <button
+                      type="button"
+                      onClick={() => void handleImpersonateUser(selectedUser.id)}
+                      style={{
+                        marginTop: "1em",
+                        backgroundColor: "#6366f1",
+                        color: "white",
+                        border: "none",
+                        padding: "0.5em 1em",
+                        borderRadius: "4px",
+                        cursor: "pointer",
+                      }}
+                    >
+                      View Site as {selectedUser.username}
+                    </button>
+                  )}
+                </header>
+
+                <section className="admin-section">
+                  <h3>Account Settings</h3>
+                  <div className="admin-section-row">
+                    <label className="checkbox">
+                      <input
+                        type="checkbox"
+                        checked={adminDraft}
+                        onChange={(event) => setAdminDraft(event.target.checked)}
+                        disabled={adminSaving}
+                      />
+                      Admin access
+                    </label>
+                    <button
+                      type="button"
+                      onClick={() => void handleSaveAdmin()}
+                      disabled={adminSaving || adminDraft === selectedUser.isAdmin}
+                    >
+                      {adminSaving ? "Saving…" : "Save"}
+                    </button>
+                  </div>
+
+                  <form className="admin-section-row" onSubmit={handleUpdatePassword}>
+                    <label className="password-field">
+                      <span>New password</span>
+                      <input
+                        type="password"
+                        value={passwordDraft}
+                        onChange={(event) => {
+                          setPasswordDraft(event.target.value);
+                          setPasswordError(null);
+                          setPasswordSuccess(null);
+                        }}
+                        disabled={passwordSaving || impersonating}
+                        placeholder="Enter new password"
+                      />
+                      <small className="muted">Must include a letter and number (min. 8 chars)</small>
+                    </label>
+                    <button
+                      type="submit"
+                      disabled={passwordSaving || impersonating || passwordDraft.length === 0}
+                    >
+                      {passwordSaving ? "Updating…" : "Update password"}
+                    </button>
+                  </form>
+                  {passwordError && <div className="error-text">{passwordError}</div>}
+                  {passwordSuccess && <div style={{ color: "green", fontSize: "0.9em", marginTop: "0.5em" }}>{passwordSuccess}</div>}
+
+                  <div className="admin-section-row">
+                    <span>
+                      Two-factor authentication: {selectedUser.twoFactorEnabled ? "On" : "Off"}
+                    </span>
+                    {selectedUser.twoFactorEnabled && (
+                      <button
+                        type="button"
+                        className="danger-link"
+                        onClick={() => void handleResetTwoFactor(selectedUser)}
+                        disabled={impersonating}
+                      >
+                        Reset
+                      </button>
+                    )}
+                  </div>
+                </section>
+
+                <section className="admin-section">
+                  <h3>Quotas</h3>
+                  <p className="muted">Leave a field empty for no limit.</p>
+                  <form className="admin-section-row admin-quota-form" onSubmit={handleSaveQuota}>
+                    {QUOTA_FIELDS.map(({ key, label }) => (
+                      <label key={key}>
+                        <span>{label}</span>
+                        <input
+                          type="number"
+                          min="1"
+                          step="1"
+                          value={quotaDraft[key]}
+                          onChange={(event) =>
+                            setQuotaDraft((previous) => ({
+                              ...previous,
+                              [key]: event.target.value,
+                            }))
+                          }
+                          placeholder="Unlimited"
+                          disabled={quotaSaving}
+                        />
+                      </label>
+                    ))}
+                    <button type="submit" disabled={quotaSaving}>
+                      {quotaSaving ? "Saving…" : "Save"}
+                    </button>
+                  </form>
+                  {quotaStatus && (
+                    <p className="muted">
+                      Current usage: {quotaStatus.usage.turnsLastHour} turns in the last hour
+                      {quotaStatus.usage.queuedMessages > 0 &&
+                        ` (+${quotaStatus.usage.queuedMessages} queued)`}
+                      {" · "}
+                      {quotaStatus.usage.tokensLastDay.toLocaleString()} tokens in the last 24 hours
+                      {" · "}
+                      {quotaStatus.usage.runningTurns} running
+                    </p>
+                  )}
+                  {quotaError && <div className="error-text">{quotaError}</div>}
+                </section>
+
+                <section className="admin-section">
+                  <h3>Authentication Files</h3>
+                  {authError && <div className="error-text">{authError}</div>}
+                  {authLoading ? (
+                    <div className="placeholder">Loading auth files…</div>
+                  ) : (
+                    <div className="auth-providers-grid">
+                      {PROVIDERS.map((provider) => {
+                        const files = getProviderFiles(provider);
+                        const isEditing = authEditorTarget?.provider === provider;
+                        return (
+                          <div className="auth-card" key={provider}>
+                            <header>
+                              <h4>{providerLabels[provider]}</h4>
+                              <span
+                                className={files.length > 0 ? "status configured" : "status missing"}
                               >
-                                {authEditorSaving ? "Saving…" : "Save"}
-                              </button>
+                                {files.length > 0 ? "Configured" : "Not set"}
+                              </span>
+                            </header>
+                            <div className="auth-card-files">
+                              {files.length === 0 ? (
+                                <p className="muted">No files uploaded.</p>
+                              ) : (
+                                <ul>
+                                  {files.map((file) => (
+                                    <li key={file.id}>
+                                      <div className="auth-file-info">
+                                        <span className="file-name">{file.fileName}</span>
+                                        <span className="timestamp">
+                                          Updated {new Date(file.updatedAt).toLocaleString()}
+                                        </span>
+                                      </div>
+                                      <div className="auth-file-actions">
+                                        <button
+                                          type="button"
+                                          onClick={() => void openAuthEditor(provider, file.fileName)}
+                                          disabled={impersonating}
+                                        >
+                                          Edit
+                                        </button>
+                                        <button
+                                          type="button"
+                                          className="danger-link"
+                                          onClick={() => void handleRemoveAuthFile(provider, file.fileName)}
+                                          disabled={impersonating}
+                                        >
+                                          Remove
+                                        </button>
+                                      </div>
+                                    </li>
+                                  ))}
+                                </ul>
+                              )}
+                            </div>
+                            <div className="auth-card-actions">
                               <button
                                 type="button"
-                                className="ghost-button"
-                                onClick={() => {
-                                  setAuthEditorTarget(null);
-                                  setAuthEditorFileName("");
-                                  setAuthEditorContent("");
-                                  setAuthEditorError(null);
-                                }}
-                                disabled={authEditorSaving}
+                                onClick={() => void openAuthEditor(provider, null)}
+                                disabled={impersonating}
                               >
-                                Cancel
+                                Add file
                               </button>
                             </div>
+                            {isEditing && (
+                              <div className="auth-editor">
+                                <label>
+                                  File name
+                                  <input
+                                    type="text"
+                                    value={authEditorTarget?.fileName ? authEditorTarget.fileName : authEditorFileName}
+                                    onChange={(event) => setAuthEditorFileName(event.target.value)}
+                                    disabled={Boolean(authEditorTarget?.fileName)}
+                                  />
+                                </label>
+                                {authEditorLoading ? (
+                                  <div className="placeholder">Loading file…</div>
+                                ) : (
+                                  <textarea
+                                    value={authEditorContent}
+                                    onChange={(event) => setAuthEditorContent(event.target.value)}
+                                    spellCheck={false}
+                                    rows={10}
+                                  />
+                                )}
+                                {authEditorError && (
+                                  <div className="error-text">{authEditorError}</div>
+                                )}
+                                <div className="auth-editor-actions">
+                                  <button
+                                    type="button"
+                                    onClick={() => void handleSaveAuthFile()}
+                                    disabled={authEditorSaving || authEditorLoading}
+                                  >
+                                    {authEditorSaving ? "Saving…" : "Save"}
+                                  </button>
+                                  <button
+                                    type="button"
+                                    className="ghost-button"
+                                    onClick={() => {
+                                      setAuthEditorTarget(null);
+                                      setAuthEditorFileName("");
+                                      setAuthEditorContent("");
+                                      setAuthEditorError(null);
+                                    }}
+                                    disabled={authEditorSaving}
+                                  >
+                                    Cancel
+                                  </button>
+                                </div>
+                              </div>
+                            )}
                           </div>
-                        )}
-                      </div>
-                    );
-                  })}
-                </div>
-              )}
-            </section>
-          </>
-        ) : (
-          <div className="placeholder">Select a user to manage their settings.</div>
-        )}
-      </div>
+                        );
+                      })}
+                    </div>
+                  )}
+                </section>
+              </>
+            ) : (
+              <div className="placeholder">Select a user to manage their settings.</div>
+            )}
+          </div>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,247 @@
+import { FormEvent, useCallback, useEffect, useState } from "react";
+import { ApiError, createApiToken, fetchApiTokens, revokeApiToken } from "../api/client";
+import type { ApiToken, ApiTokenScope } from "../api/types";
+import { useAuth } from "../context/AuthContext";
+
+const scopeLabels: Record<ApiTokenScope, string> = {
+  read: "Read",
+  sessions: "Sessions",
+  deploy: "Deploy",
+};
+
+const scopeDescriptions: Record<ApiTokenScope, string> = {
+  read: "GET requests only",
+  sessions: "Create sessions, send messages and manage services",
+  deploy: "Change deployment targets and deploy",
+};
+
+const expiryOptions: { value: string; label: string }[] = [
+  { value: "7", label: "7 days" },
+  { value: "30", label: "30 days" },
+  { value: "90", label: "90 days" },
+  { value: "365", label: "1 year" },
+  { value: "", label: "Never" },
+];
+
+const extractErrorMessage = (error: unknown, fallback: string): string => {
+  if (error instanceof ApiError) {
+    const body = error.body as { error?: unknown };
+    if (body && typeof body.error === "string" && body.error.trim().length > 0) {
+      return body.error;
+    }
+  }
+  return fallback;
+};
+
+const isExpired = (token: ApiToken): boolean =>
+  token.expiresAt !== null && Date.parse(token.expiresAt) <= Date.now();
+
+/**
+ * Personal access tokens for calling the REST API from scripts with an
+ * `Authorization: Bearer` header. A new token is shown once, right after it
+ * is created.
+ */
+const ApiTokensPanel = () => {
+  const { impersonator } = useAuth();
+  const [tokens, setTokens] = useState<ApiToken[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiTokenScope[]>(["read"]);
+  const [expiresInDays, setExpiresInDays] = useState("30");
+  const [creating, setCreating] = useState(false);
+  const [createdSecret, setCreatedSecret] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setTokens(await fetchApiTokens());
+    } catch (loadError) {
+      console.error("Failed to load API tokens", loadError);
+      setError("Unable to load API tokens");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const toggleScope = (scope: ApiTokenScope) => {
+    setScopes((current) =>
+      current.includes(scope) ? current.filter((entry) => entry !== scope) : [...current, scope],
+    );
+  };
+
+  const handleCreate = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!name.trim() || scopes.length === 0) {
+      setError("Enter a name and choose at least one scope.");
+      return;
+    }
+
+    setCreating(true);
+    setError(null);
+    try {
+      const created = await createApiToken({
+        name: name.trim(),
+        scopes,
+        expiresInDays: expiresInDays ? Number(expiresInDays) : null,
+      });
+      setCreatedSecret(created.secret);
+      setTokens((current) => [created.token, ...current]);
+      setName("");
+    } catch (createError) {
+      console.error("Failed to create API token", createError);
+      setError(extractErrorMessage(createError, "Unable to create API token."));
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (token: ApiToken) => {
+    if (!window.confirm(`Revoke the token "${token.name}"? Scripts using it will stop working.`)) {
+      return;
+    }
+    try {
+      await revokeApiToken(token.id);
+      setTokens((current) => current.filter((entry) => entry.id !== token.id));
+    } catch (revokeError) {
+      console.error("Failed to revoke API token", revokeError);
+      setError(extractErrorMessage(revokeError, "Unable to revoke API token."));
+    }
+  };
+
+  return (
+    <div className="usage-panel">
+      <section className="admin-section">
+        <h3>API Tokens</h3>
+        <p className="muted">
+          Send a token as <code>Authorization: Bearer &lt;token&gt;</code> to call the API from
+          scripts. Sign-in, token and user management only work when signed in.
+        </p>
+        {error && <div className="error-text">{error}</div>}
+        {createdSecret && (
+          <div className="admin-section-row">
+            <span>Copy the new token now; it will not be shown again.</span>
+            <code>{createdSecret}</code>
+            <button
+              type="button"
+              className="ghost-button"
+              onClick={() => void navigator.clipboard?.writeText(createdSecret)}
+            >
+              Copy
+            </button>
+            <button type="button" className="ghost-button" onClick={() => setCreatedSecret(null)}>
+              Done
+            </button>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="placeholder">Loading tokens…</div>
+        ) : tokens.length === 0 ? (
+          <div className="placeholder">No tokens yet.</div>
+        ) : (
+          <table className="usage-table">
+            <thead>
+              <tr>
+                <th>Name</th>
+                <th>Token</th>
+                <th>Scopes</th>
+                <th>Expires</th>
+                <th>Last used</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {tokens.map((token) => (
+                <tr key={token.id}>
+                  <td>{token.name}</td>
+                  <td>
+                    <code>{token.tokenPrefix}…</code>
+                  </td>
+                  <td>{token.scopes.map((scope) => scopeLabels[scope]).join(", ")}</td>
+                  <td className={isExpired(token) ? "error-text" : undefined}>
+                    {token.expiresAt
+                      ? `${isExpired(token) ? "Expired " : ""}${new Date(token.expiresAt).toLocaleString()}`
+                      : "Never"}
+                  </td>
+                  <td>
+                    {token.lastUsedAt
+                      ? `${new Date(token.lastUsedAt).toLocaleString()}${
+                          token.lastUsedIp ? ` from ${token.lastUsedIp}` : ""
+                        }`
+                      : "Never"}
+                  </td>
+                  <td className="usage-table-actions">
+                    <button
+                      type="button"
+                      className="danger-link"
+                      onClick={() => void handleRevoke(token)}
+                    >
+                      Revoke
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+
+      <section className="admin-section">
+        <h3>New Token</h3>
+        {impersonator ? (
+          <p className="muted">Tokens cannot be created while viewing as another user.</p>
+        ) : (
+          <form className="admin-section-row" onSubmit={handleCreate}>
+            <label>
+              Name
+              <input
+                type="text"
+                value={name}
+                onChange={(event) => setName(event.target.value)}
+                placeholder="e.g. CI pipeline"
+                maxLength={100}
+                disabled={creating}
+              />
+            </label>
+            {(Object.keys(scopeLabels) as ApiTokenScope[]).map((scope) => (
+              <label key={scope} className="checkbox" title={scopeDescriptions[scope]}>
+                <input
+                  type="checkbox"
+                  checked={scopes.includes(scope)}
+                  onChange={() => toggleScope(scope)}
+                  disabled={creating}
+                />
+                {scopeLabels[scope]}
+              </label>
+            ))}
+            <label>
+              Expires after
+              <select
+                value={expiresInDays}
+                onChange={(event) => setExpiresInDays(event.target.value)}
+                disabled={creating}
+              >
+                {expiryOptions.map((option) => (
+                  <option key={option.label} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <button type="submit" disabled={creating}>
+              {creating ? "Creating…" : "Create token"}
+            </button>
+          </form>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default ApiTokensPanel;
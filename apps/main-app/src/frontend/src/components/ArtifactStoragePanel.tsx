@@ -0,0 +1,184 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  ApiError,
+  deleteDeployArtifact,
+  fetchArtifactStorage,
+  sweepDeployArtifacts,
+} from "../api/client";
+import type { ArtifactStorageResponse } from "../../../shared/dokploy";
+
+const formatBytes = (value: number): string => {
+  if (value < 1024) {
+    return `${value} B`;
+  }
+  if (value < 1024 * 1024) {
+    return `${(value / 1024).toFixed(1)} KB`;
+  }
+  if (value < 1024 * 1024 * 1024) {
+    return `${(value / (1024 * 1024)).toFixed(1)} MB`;
+  }
+  return `${(value / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+};
+
+const formatLimit = (value: number, format: (value: number) => string): string =>
+  value > 0 ? format(value) : "no limit";
+
+const extractErrorMessage = (error: unknown, fallback: string): string => {
+  if (error instanceof ApiError) {
+    const body = error.body as { error?: unknown };
+    if (body && typeof body.error === "string" && body.error.trim().length > 0) {
+      return body.error;
+    }
+  }
+  return fallback;
+};
+
+const ArtifactStoragePanel = () => {
+  const [storage, setStorage] = useState<ArtifactStorageResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [sweeping, setSweeping] = useState(false);
+  const [deletingKey, setDeletingKey] = useState<string | null>(null);
+
+  const refreshStorage = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setStorage(await fetchArtifactStorage());
+    } catch (loadError) {
+      console.error("Failed to load artifact storage", loadError);
+      setError("Unable to load artifact storage");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void refreshStorage();
+  }, [refreshStorage]);
+
+  const handleSweep = async () => {
+    setSweeping(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const result = await sweepDeployArtifacts();
+      setStorage(result.storage);
+      setNotice(
+        result.removed.length > 0
+          ? `Removed ${result.removed.length} artifact${result.removed.length === 1 ? "" : "s"}, freeing ${formatBytes(result.freedBytes)}.`
+          : "Nothing to clean up.",
+      );
+    } catch (sweepError) {
+      console.error("Failed to sweep deploy artifacts", sweepError);
+      setError(extractErrorMessage(sweepError, "Artifact cleanup failed."));
+    } finally {
+      setSweeping(false);
+    }
+  };
+
+  const handleDelete = async (key: string) => {
+    if (!window.confirm(`Delete the artifact ${key}? It can no longer be redeployed.`)) {
+      return;
+    }
+    setDeletingKey(key);
+    setError(null);
+    setNotice(null);
+    try {
+      await deleteDeployArtifact(key);
+      await refreshStorage();
+    } catch (deleteError) {
+      console.error("Failed to delete deploy artifact", deleteError);
+      setError(extractErrorMessage(deleteError, "Unable to delete the artifact."));
+    } finally {
+      setDeletingKey(null);
+    }
+  };
+
+  const policy = storage?.policy;
+
+  return (
+    <div className="usage-panel">
+      <section className="admin-section">
+        <h3>Deploy Artifacts</h3>
+        {policy ? (
+          <p className="muted">
+            Keeping the latest {formatLimit(policy.keepPerTarget, String)} per target, for{" "}
+            {formatLimit(policy.maxAgeDays, (days) => `${days} days`)}, up to{" "}
+            {formatLimit(policy.maxTotalBytes, formatBytes)} in total. Artifacts a target
+            still uses are always kept.{" "}
+            {policy.sweepIntervalMinutes > 0
+              ? `Cleanup runs every ${policy.sweepIntervalMinutes} minutes.`
+              : "Automatic cleanup is disabled."}
+          </p>
+        ) : null}
+        <div className="admin-section-row">
+          <button type="button" onClick={() => void handleSweep()} disabled={sweeping}>
+            {sweeping ? "Cleaning up…" : "Run cleanup now"}
+          </button>
+          <button type="button" onClick={() => void refreshStorage()} disabled={loading}>
+            Refresh
+          </button>
+        </div>
+        {notice && <p className="muted">{notice}</p>}
+        {error && <div className="error-text">{error}</div>}
+
+        {loading && !storage ? (
+          <div className="placeholder">Loading artifacts…</div>
+        ) : storage ? (
+          <>
+            <p className="muted">
+              {storage.artifacts.length} artifact{storage.artifacts.length === 1 ? "" : "s"} ·{" "}
+              {formatBytes(storage.totalBytes)}
+              {storage.lastSweepAt &&
+                ` · last cleanup ${new Date(storage.lastSweepAt).toLocaleString()}`}
+            </p>
+            {storage.artifacts.length === 0 ? (
+              <div className="placeholder">No artifacts stored.</div>
+            ) : (
+              <table className="usage-table">
+                <thead>
+                  <tr>
+                    <th>Artifact</th>
+                    <th>Target</th>
+                    <th>Commit</th>
+                    <th>Created</th>
+                    <th>Size</th>
+                    <th />
+                  </tr>
+                </thead>
+                <tbody>
+                  {storage.artifacts.map((artifact) => (
+                    <tr key={artifact.key}>
+                      <td>
+                        {artifact.key}
+                        {artifact.inUse && <span className="muted"> (in use)</span>}
+                      </td>
+                      <td>{artifact.targetName ?? "—"}</td>
+                      <td>{artifact.commitSha ? artifact.commitSha.slice(0, 7) : "—"}</td>
+                      <td>{new Date(artifact.createdAt).toLocaleString()}</td>
+                      <td>{formatBytes(artifact.size)}</td>
+                      <td className="usage-table-actions">
+                        <button
+                          type="button"
+                          className="danger-link"
+                          onClick={() => void handleDelete(artifact.key)}
+                          disabled={artifact.inUse || deletingKey !== null}
+                        >
+                          {deletingKey === artifact.key ? "Deleting…" : "Delete"}
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </>
+        ) : null}
+      </section>
+    </div>
+  );
+};
+
+export default ArtifactStoragePanel;
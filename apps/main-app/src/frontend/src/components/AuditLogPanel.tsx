@@ -0,0 +1,267 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { ApiError, fetchAuditEvents, getAuditEventsExportUrl } from "../api/client";
+import type { AuditEvent, AuditEventQuery, AuthUser } from "../api/types";
+
+type AuditLogPanelProps = {
+  users: AuthUser[];
+};
+
+const PAGE_SIZE = 100;
+
+const actionGroups: { value: string; label: string }[] = [
+  { value: "", label: "All actions" },
+  { value: "user.", label: "Users" },
+  { value: "impersonation.", label: "Impersonation" },
+  { value: "auth_file.", label: "Auth files" },
+  { value: "deploy_target.", label: "Deploy targets" },
+  { value: "workspace.", label: "Workspace paths" },
+  { value: "service_backend.", label: "Service backend" },
+  { value: "api_token.", label: "API tokens" },
+  { value: "auth.", label: "Sign-in settings" },
+];
+
+const targetTypes: { value: string; label: string }[] = [
+  { value: "", label: "All targets" },
+  { value: "user", label: "User" },
+  { value: "auth_file", label: "Auth file" },
+  { value: "deploy_target", label: "Deploy target" },
+  { value: "session", label: "Session" },
+  { value: "setting", label: "Setting" },
+  { value: "api_token", label: "API token" },
+];
+
+const extractErrorMessage = (error: unknown, fallback: string): string => {
+  if (error instanceof ApiError) {
+    const body = error.body as { error?: unknown };
+    if (body && typeof body.error === "string" && body.error.trim().length > 0) {
+      return body.error;
+    }
+  } else if (error instanceof Error && error.message.trim().length > 0) {
+    // e.g. network failures
+    return error.message;
+  }
+  return fallback;
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined) {
+    return "—";
+  }
+  return typeof value === "string" ? value : JSON.stringify(value);
+};
+
+/** One line per changed field, e.g. `isAdmin: false → true`. */
+const describeChanges = (event: AuditEvent): string[] => {
+  const before = event.before ?? {};
+  const after = event.after ?? {};
+  const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+  return keys.map((key) => {
+    if (!event.before) {
+      return `${key}: ${formatValue(after[key])}`;
+    }
+    if (!event.after) {
+      return `${key}: ${formatValue(before[key])} (removed)`;
+    }
+    return `${key}: ${formatValue(before[key])} → ${formatValue(after[key])}`;
+  });
+};
+
+/**
+ * Filterable view of the append-only audit log, with export of everything
+ * that matches the filters as CSV or JSON.
+ */
+const AuditLogPanel = ({ users }: AuditLogPanelProps) => {
+  const [action, setAction] = useState("");
+  const [actorUserId, setActorUserId] = useState("");
+  const [targetType, setTargetType] = useState("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [searchDraft, setSearchDraft] = useState("");
+  const [search, setSearch] = useState("");
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const filters = useMemo<AuditEventQuery>(
+    () => ({
+      action: action || undefined,
+      actorUserId: actorUserId || undefined,
+      targetType: targetType || undefined,
+      from: from || undefined,
+      to: to || undefined,
+      search: search || undefined,
+    }),
+    [action, actorUserId, targetType, from, to, search],
+  );
+
+  const loadEvents = useCallback(
+    async (offset: number) => {
+      setLoading(true);
+      setError(null);
+      try {
+        const data = await fetchAuditEvents({ ...filters, limit: PAGE_SIZE, offset });
+        setEvents((current) => (offset === 0 ? data.events : [...current, ...data.events]));
+        setHasMore(data.hasMore);
+      } catch (loadError) {
+        console.error("Failed to load audit events", loadError);
+        setError(extractErrorMessage(loadError, "Unable to load audit events"));
+      } finally {
+        setLoading(false);
+      }
+    },
+    [filters],
+  );
+
+  useEffect(() => {
+    void loadEvents(0);
+  }, [loadEvents]);
+
+  // Searching on every keystroke would query the log as the admin types
+  useEffect(() => {
+    const timer = window.setTimeout(() => setSearch(searchDraft.trim()), 300);
+    return () => window.clearTimeout(timer);
+  }, [searchDraft]);
+
+  return (
+    <div className="usage-panel">
+      <section className="admin-section">
+        <h3>Audit Log</h3>
+        <div className="admin-section-row usage-filters">
+          <label>
+            Action
+            <select value={action} onChange={(event) => setAction(event.target.value)}>
+              {actionGroups.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            User
+            <select
+              value={actorUserId}
+              onChange={(event) => setActorUserId(event.target.value)}
+            >
+              <option value="">All users</option>
+              {users.map((user) => (
+                <option key={user.id} value={user.id}>
+                  {user.username}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Target
+            <select value={targetType} onChange={(event) => setTargetType(event.target.value)}>
+              {targetTypes.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            From
+            <input
+              type="date"
+              value={from}
+              max={to || undefined}
+              onChange={(event) => setFrom(event.target.value)}
+            />
+          </label>
+          <label>
+            To
+            <input
+              type="date"
+              value={to}
+              min={from || undefined}
+              onChange={(event) => setTo(event.target.value)}
+            />
+          </label>
+          <label>
+            Search
+            <input
+              type="search"
+              value={searchDraft}
+              placeholder="Target, user or IP"
+              onChange={(event) => setSearchDraft(event.target.value)}
+            />
+          </label>
+        </div>
+        <div className="admin-section-row">
+          <span className="muted">Dates are in UTC. Exports include up to 10,000 events.</span>
+          <a className="ghost-button" href={getAuditEventsExportUrl(filters, "csv")} download>
+            Export CSV
+          </a>
+          <a className="ghost-button" href={getAuditEventsExportUrl(filters, "json")} download>
+            Export JSON
+          </a>
+        </div>
+
+        {error && <div className="error-text">{error}</div>}
+        {loading && events.length === 0 ? (
+          <div className="placeholder">Loading audit events…</div>
+        ) : events.length === 0 ? (
+          <div className="placeholder">No audit events match these filters.</div>
+        ) : (
+          <>
+            <table className="usage-table">
+              <thead>
+                <tr>
+                  <th>Time</th>
+                  <th>Actor</th>
+                  <th>Action</th>
+                  <th>Target</th>
+                  <th>IP</th>
+                  <th>Changes</th>
+                </tr>
+              </thead>
+              <tbody>
+                {events.map((event) => (
+                  <tr key={event.id}>
+                    <td>{new Date(event.createdAt).toLocaleString()}</td>
+                    <td>
+                      {event.actorUsername ?? event.actorUserId ?? "—"}
+                      {(event.actingAsUsername || event.actingAsUserId) && (
+                        <div className="muted">
+                          as {event.actingAsUsername ?? event.actingAsUserId}
+                        </div>
+                      )}
+                    </td>
+                    <td>{event.action}</td>
+                    <td title={event.targetId ?? undefined}>
+                      {event.targetLabel ?? event.targetId ?? "—"}
+                      {event.targetType && <div className="muted">{event.targetType}</div>}
+                    </td>
+                    <td>{event.ip ?? "—"}</td>
+                    <td>
+                      {describeChanges(event).map((line) => (
+                        <div key={line}>{line}</div>
+                      ))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {hasMore && (
+              <div className="usage-table-actions">
+                <button
+                  type="button"
+                  className="ghost-button"
+                  onClick={() => void loadEvents(events.length)}
+                  disabled={loading}
+                >
+                  {loading ? "Loading…" : "Load more"}
+                </button>
+              </div>
+            )}
+          </>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default AuditLogPanel;
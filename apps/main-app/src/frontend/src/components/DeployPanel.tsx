@@ -1,24 +1,39 @@
 import { useCallback, useEffect, useMemo, useState } from "react";
 import {
-  fetchDeployConfig,
-  updateDeployConfig,
+  createDeployTarget,
+  deleteDeployTarget,
+  fetchDeployTargets,
+  setDefaultDeployTarget,
+  updateDeployTarget,
   testDeployConnection,
-  syncDeployConfig,
+  syncDeployTarget,
   triggerDeployment,
+  fetchDeployments,
+  subscribeToTargetDeployments,
+  redeployDeployment,
+  previewWorkspaceArchive,
   fetchDokployProjects,
   fetchDokployApplications,
+  fetchSessions,
   uploadWorkspaceArtifact,
 } from "../api/client";
 import type {
   DeployConfigPayload,
-  DeployConfigResult,
+  DeployTargetPayload,
+  DeployTargetResult,
+  Session,
 } from "../api/types";
 import type {
+  ArchivePreviewResponse,
+  DeployArchiveRules,
   DeployBuildConfig,
   DeployEnvVar,
   DeploySource,
   DeploySourceGit,
+  DeploymentResponse,
+  DeploymentStatus,
 } from "../../../shared/dokploy";
+import DeployTargetSelector from "./DeployTargetSelector";
 
 type StatusMessage = {
   type: "success" | "error" | "info";
@@ -59,6 +74,13 @@ const normalizeBuildConfig = (
   return { ...build };
 };
 
+const deploymentStatusLabels: Record<DeploymentStatus, string> = {
+  pending: "Pending",
+  running: "Running",
+  succeeded: "Succeeded",
+  failed: "Failed",
+};
+
 const formatBytes = (value: number): string => {
   if (value < 1024) {
     return `${value} B`;
@@ -70,8 +92,9 @@ const formatBytes = (value: number): string => {
 };
 
 const DeployPanel = () => {
-  const [initialConfig, setInitialConfig] = useState<DeployConfigResult | null>(null);
-  const [draft, setDraft] = useState<DeployConfigPayload | null>(null);
+  const [targets, setTargets] = useState<DeployTargetResult[]>([]);
+  const [initialConfig, setInitialConfig] = useState<DeployTargetResult | null>(null);
+  const [draft, setDraft] = useState<DeployTargetPayload | null>(null);
   const [apiKeyInput, setApiKeyInput] = useState<string>("");
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
@@ -79,44 +102,190 @@ const DeployPanel = () => {
   const [syncing, setSyncing] = useState(false);
   const [deploying, setDeploying] = useState(false);
   const [uploading, setUploading] = useState(false);
+  const [previewing, setPreviewing] = useState(false);
+  const [archivePreview, setArchivePreview] = useState<ArchivePreviewResponse | null>(null);
   const [status, setStatus] = useState<StatusMessage | null>(null);
   const [projects, setProjects] = useState<unknown[]>([]);
   const [applications, setApplications] = useState<
     Array<{ applicationId: string; name: string; description: string }>
   >([]);
+  const [deployments, setDeployments] = useState<DeploymentResponse[]>([]);
+  const [redeployingId, setRedeployingId] = useState<string | null>(null);
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [workspaceSessionId, setWorkspaceSessionId] = useState("");
+
+  const selectedId = initialConfig?.id ?? null;
+
+  // Uploads pack the workspace of one of these sessions
+  useEffect(() => {
+    fetchSessions()
+      .then(setSessions)
+      .catch((error) => console.error("Failed to load sessions", error));
+  }, []);
+
+  const loadDeployments = useCallback(async (targetId: string) => {
+    try {
+      setDeployments(await fetchDeployments(targetId));
+    } catch (error) {
+      console.error("Failed to load deployment history", error);
+    }
+  }, []);
 
-  const applyDraft = useCallback((config: DeployConfigResult) => {
-    const { hasApiKey: _hasApiKey, ...rest } = config;
-    setDraft({
-      ...rest,
-      env: cloneEnv(rest.env),
-      source: ensureSource(rest.source),
-      build: normalizeBuildConfig(rest.build),
+  // Dokploy reports the outcome later; the event stream keeps the history current
+  useEffect(() => {
+    setDeployments([]);
+    if (!selectedId) {
+      return;
+    }
+    return subscribeToTargetDeployments(selectedId, {
+      onSnapshot: setDeployments,
+      onUpdate: (deployment) => {
+        setDeployments((current) => {
+          const index = current.findIndex((entry) => entry.id === deployment.id);
+          if (index === -1) {
+            return [deployment, ...current];
+          }
+          const next = [...current];
+          next[index] = deployment;
+          return next;
+        });
+      },
     });
+  }, [selectedId]);
+
+  // A null target starts the draft of a new one
+  const applyDraft = useCallback((target: DeployTargetResult | null) => {
+    setInitialConfig(target);
+    if (!target) {
+      setDraft({
+        name: "",
+        baseUrl: "",
+        authMethod: "x-api-key",
+        env: [],
+        source: ensureSource(),
+        build: normalizeBuildConfig(undefined),
+      });
+    } else {
+      const {
+        id: _id,
+        isDefault: _isDefault,
+        hasApiKey: _hasApiKey,
+        createdAt: _createdAt,
+        updatedAt: _updatedAt,
+        ...rest
+      } = target;
+      setDraft({
+        ...rest,
+        env: cloneEnv(rest.env),
+        source: ensureSource(rest.source),
+        build: normalizeBuildConfig(rest.build),
+      });
+    }
     setApiKeyInput("");
+    setProjects([]);
+    setApplications([]);
+    setArchivePreview(null);
   }, []);
 
-  const loadConfig = useCallback(async () => {
-    setLoading(true);
+  const loadTargets = useCallback(
+    async (selectId?: string | null) => {
+      setLoading(true);
+      try {
+        const data = await fetchDeployTargets();
+        setTargets(data);
+        applyDraft(
+          data.find((target) => target.id === selectId) ??
+            data.find((target) => target.isDefault) ??
+            data[0] ??
+            null,
+        );
+        setStatus(null);
+      } catch (error) {
+        console.error("Failed to load deploy targets", error);
+        setStatus({ type: "error", text: "Failed to load Dokploy configuration." });
+      } finally {
+        setLoading(false);
+      }
+    },
+    [applyDraft],
+  );
+
+  useEffect(() => {
+    void loadTargets();
+  }, [loadTargets]);
+
+  /** Refreshes the target list after one target changed on the server. */
+  const applySavedTarget = useCallback(
+    (target: DeployTargetResult) => {
+      setTargets((previous) =>
+        previous.some((entry) => entry.id === target.id)
+          ? previous.map((entry) => (entry.id === target.id ? target : entry))
+          : [...previous, target],
+      );
+      applyDraft(target);
+    },
+    [applyDraft],
+  );
+
+  const requireSavedTarget = useCallback((): string | null => {
+    if (!selectedId) {
+      setStatus({ type: "error", text: "Save the new target before using it." });
+    }
+    return selectedId;
+  }, [selectedId]);
+
+  const handleSelectTarget = useCallback(
+    (targetId: string) => {
+      const target = targets.find((entry) => entry.id === targetId);
+      if (target) {
+        applyDraft(target);
+        setStatus(null);
+      }
+    },
+    [applyDraft, targets],
+  );
+
+  const handleNewTarget = useCallback(() => {
+    applyDraft(null);
+    setStatus({ type: "info", text: "Enter the settings of the new target." });
+  }, [applyDraft]);
+
+  const handleMakeDefault = useCallback(async () => {
+    if (!selectedId) {
+      return;
+    }
     try {
-      const data = await fetchDeployConfig();
-      setInitialConfig(data);
-      applyDraft(data);
-      setStatus(null);
+      await setDefaultDeployTarget(selectedId);
+      await loadTargets(selectedId);
+      setStatus({ type: "success", text: "Default deployment target changed." });
     } catch (error) {
-      console.error("Failed to load deploy config", error);
-      setStatus({ type: "error", text: "Failed to load Dokploy configuration." });
-    } finally {
-      setLoading(false);
+      console.error("Failed to change the default deploy target", error);
+      setStatus({
+        type: "error",
+        text: error instanceof Error ? error.message : "Unable to change the default target.",
+      });
     }
-  }, [applyDraft]);
+  }, [loadTargets, selectedId]);
 
-  useEffect(() => {
-    void loadConfig();
-  }, [loadConfig]);
+  const handleDeleteTarget = useCallback(async () => {
+    if (!selectedId || !window.confirm(`Delete the deployment target "${initialConfig?.name}"?`)) {
+      return;
+    }
+    try {
+      await deleteDeployTarget(selectedId);
+      await loadTargets();
+      setStatus({ type: "success", text: "Deployment target deleted." });
+    } catch (error) {
+      console.error("Failed to delete deploy target", error);
+      setStatus({
+        type: "error",
+        text: error instanceof Error ? error.message : "Unable to delete the target.",
+      });
+    }
+  }, [initialConfig?.name, loadTargets, selectedId]);
 
   const updateDraft = useCallback(
-    <K extends keyof DeployConfigPayload>(key: K, value: DeployConfigPayload[K]) => {
+    <K extends keyof DeployTargetPayload>(key: K, value: DeployTargetPayload[K]) => {
       setDraft((previous) => {
         if (!previous) {
           return previous;
@@ -191,7 +360,7 @@ const DeployPanel = () => {
     setSaving(true);
     setStatus(null);
     try {
-      const payload: DeployConfigPayload = {
+      const payload: DeployTargetPayload = {
         ...draft,
         env: cloneEnv(draft.env),
         source: ensureSource(draft.source),
@@ -202,9 +371,10 @@ const DeployPanel = () => {
         payload.apiKey = apiKeyInput.trim();
       }
 
-      const updated = await updateDeployConfig(payload);
-      setInitialConfig(updated);
-      applyDraft(updated);
+      const updated = selectedId
+        ? await updateDeployTarget(selectedId, payload)
+        : await createDeployTarget({ ...payload, name: payload.name ?? "" });
+      applySavedTarget(updated);
       setStatus({ type: "success", text: "Dokploy configuration saved." });
     } catch (error) {
       console.error("Failed to save Dokploy config", error);
@@ -214,13 +384,18 @@ const DeployPanel = () => {
     } finally {
       setSaving(false);
     }
-  }, [apiKeyInput, applyDraft, draft]);
+  }, [apiKeyInput, applySavedTarget, draft, selectedId]);
 
   const handleTestConnection = useCallback(async () => {
     setTesting(true);
     setStatus(null);
     try {
-      const result = await testDeployConnection(apiKeyInput.trim() || undefined);
+      const result = await testDeployConnection({
+        targetId: selectedId ?? undefined,
+        baseUrl: draft?.baseUrl,
+        authMethod: draft?.authMethod,
+        apiKey: apiKeyInput.trim() || undefined,
+      });
       if (result.ok) {
         setStatus({ type: "success", text: "Successfully connected to Dokploy." });
       } else {
@@ -235,15 +410,18 @@ const DeployPanel = () => {
     } finally {
       setTesting(false);
     }
-  }, [apiKeyInput]);
+  }, [apiKeyInput, draft?.authMethod, draft?.baseUrl, selectedId]);
 
   const handleSync = useCallback(async () => {
+    const targetId = requireSavedTarget();
+    if (!targetId) {
+      return;
+    }
     setSyncing(true);
     setStatus(null);
     try {
-      const updated = await syncDeployConfig();
-      setInitialConfig(updated);
-      applyDraft(updated);
+      const updated = await syncDeployTarget(targetId);
+      applySavedTarget(updated);
       setStatus({ type: "success", text: "Synchronized Dokploy application." });
     } catch (error) {
       console.error("Failed to synchronize Dokploy application", error);
@@ -254,13 +432,18 @@ const DeployPanel = () => {
     } finally {
       setSyncing(false);
     }
-  }, [applyDraft]);
+  }, [applySavedTarget, requireSavedTarget, workspaceSessionId]);
 
   const handleDeploy = useCallback(async () => {
+    const targetId = requireSavedTarget();
+    if (!targetId) {
+      return;
+    }
     setDeploying(true);
     setStatus(null);
     try {
-      await triggerDeployment();
+      await triggerDeployment(targetId);
+      await loadDeployments(targetId);
       setStatus({ type: "success", text: "Deployment triggered successfully." });
     } catch (error) {
       console.error("Failed to trigger Dokploy deployment", error);
@@ -271,11 +454,47 @@ const DeployPanel = () => {
     } finally {
       setDeploying(false);
     }
-  }, []);
+  }, [loadDeployments, requireSavedTarget]);
+
+  const handleRedeploy = useCallback(
+    async (deployment: DeploymentResponse) => {
+      const targetId = requireSavedTarget();
+      if (!targetId || redeployingId) {
+        return;
+      }
+      const version = deployment.commitSha
+        ? `commit ${deployment.commitSha.slice(0, 7)}`
+        : `the artifact from ${new Date(deployment.createdAt).toLocaleString()}`;
+      if (!window.confirm(`Redeploy ${version}? The target's source will point to that artifact.`)) {
+        return;
+      }
+      setRedeployingId(deployment.id);
+      setStatus(null);
+      try {
+        const result = await redeployDeployment(targetId, deployment.id);
+        applySavedTarget(result.config);
+        await loadDeployments(targetId);
+        setStatus({ type: "success", text: "Redeployment triggered successfully." });
+      } catch (error) {
+        console.error("Failed to redeploy earlier artifact", error);
+        setStatus({
+          type: "error",
+          text: error instanceof Error ? error.message : "Redeploy failed.",
+        });
+      } finally {
+        setRedeployingId(null);
+      }
+    },
+    [applySavedTarget, loadDeployments, redeployingId, requireSavedTarget],
+  );
 
   const handleRefreshProjects = useCallback(async () => {
+    const targetId = requireSavedTarget();
+    if (!targetId) {
+      return;
+    }
     try {
-      const result = await fetchDokployProjects();
+      const result = await fetchDokployProjects(targetId);
       setProjects(result.projects);
       setStatus({ type: "info", text: "Fetched projects from Dokploy." });
     } catch (error) {
@@ -285,16 +504,20 @@ const DeployPanel = () => {
         text: error instanceof Error ? error.message : "Unable to fetch projects.",
       });
     }
-  }, []);
+  }, [requireSavedTarget]);
 
   const handleRefreshApplications = useCallback(async () => {
+    const targetId = requireSavedTarget();
+    if (!targetId) {
+      return;
+    }
     const projectId = draft?.projectId;
     if (!projectId) {
       setStatus({ type: "error", text: "Set a project ID before loading applications." });
       return;
     }
     try {
-      const result = await fetchDokployApplications(projectId);
+      const result = await fetchDokployApplications(targetId, projectId);
       setApplications(result.applications);
       setStatus({ type: "info", text: "Fetched applications from Dokploy." });
     } catch (error) {
@@ -304,15 +527,18 @@ const DeployPanel = () => {
         text: error instanceof Error ? error.message : "Unable to fetch applications.",
       });
     }
-  }, [draft?.projectId]);
+  }, [draft?.projectId, requireSavedTarget]);
 
   const handleUploadWorkspace = useCallback(async () => {
+    const targetId = requireSavedTarget();
+    if (!targetId || !workspaceSessionId) {
+      return;
+    }
     setUploading(true);
     setStatus(null);
     try {
-      const result = await uploadWorkspaceArtifact();
-      setInitialConfig(result.config);
-      applyDraft(result.config);
+      const result = await uploadWorkspaceArtifact(targetId, workspaceSessionId);
+      applySavedTarget(result.config);
       setStatus({
         type: "success",
         text: `Workspace uploaded (${formatBytes(result.size)}).`,
@@ -326,7 +552,42 @@ const DeployPanel = () => {
     } finally {
       setUploading(false);
     }
-  }, [applyDraft]);
+  }, [applySavedTarget, requireSavedTarget]);
+
+  const updateArchiveRules = useCallback((patch: Partial<DeployArchiveRules>) => {
+    setDraft((previous) => {
+      if (!previous) {
+        return previous;
+      }
+      return { ...previous, archive: { ...previous.archive, ...patch } };
+    });
+    setArchivePreview(null);
+  }, []);
+
+  const handlePreviewArchive = useCallback(async () => {
+    const targetId = requireSavedTarget();
+    if (!targetId || !workspaceSessionId) {
+      return;
+    }
+    setPreviewing(true);
+    setStatus(null);
+    try {
+      setArchivePreview(
+        await previewWorkspaceArchive(targetId, {
+          sessionId: workspaceSessionId,
+          archive: draft?.archive ?? {},
+        }),
+      );
+    } catch (error) {
+      console.error("Failed to preview workspace archive", error);
+      setStatus({
+        type: "error",
+        text: error instanceof Error ? error.message : "Archive preview failed.",
+      });
+    } finally {
+      setPreviewing(false);
+    }
+  }, [draft?.archive, requireSavedTarget, workspaceSessionId]);
 
   const workspaceInfo = useMemo(() => {
     if (!draft || draft.source.type !== "workspace") {
@@ -347,9 +608,28 @@ const DeployPanel = () => {
         <div className={`deploy-status deploy-status-${status.type}`}>{status.text}</div>
       ) : null}
 
+      <DeployTargetSelector
+        targets={targets}
+        selectedId={selectedId}
+        disabled={saving}
+        onSelect={handleSelectTarget}
+        onCreate={handleNewTarget}
+        onMakeDefault={() => void handleMakeDefault()}
+        onDelete={() => void handleDeleteTarget()}
+      />
+
       <section className="deploy-section">
         <h2>Dokploy Connection</h2>
         <div className="deploy-grid">
+          <label>
+            <span>Target Name</span>
+            <input
+              type="text"
+              value={draft.name ?? ""}
+              onChange={(event) => updateDraft("name", event.target.value)}
+              placeholder="Production"
+            />
+          </label>
           <label>
             <span>Base URL</span>
             <input
@@ -580,9 +860,26 @@ const DeployPanel = () => {
         ) : (
           <div className="deploy-workspace-info">
             <p>
-              Upload the current workspace as a tar.gz artifact. Dokploy will pull the archive using
+              Upload a session's workspace as a tar.gz artifact. Dokploy will pull the archive using
               a generated URL when deploying.
             </p>
+            <label>
+              <span>Session Workspace</span>
+              <select
+                value={workspaceSessionId}
+                onChange={(event) => {
+                  setWorkspaceSessionId(event.target.value);
+                  setArchivePreview(null);
+                }}
+              >
+                <option value="">Choose a session…</option>
+                {sessions.map((session) => (
+                  <option key={session.id} value={session.id}>
+                    {session.title}
+                  </option>
+                ))}
+              </select>
+            </label>
             {workspaceInfo?.artifactUrl ? (
               <p>
                 <strong>Last Upload:</strong> {workspaceInfo.lastUploadedAt ?? "Unknown"} —
@@ -593,9 +890,87 @@ const DeployPanel = () => {
             ) : (
               <p>No workspace artifact uploaded yet.</p>
             )}
-            <button type="button" onClick={handleUploadWorkspace} disabled={uploading}>
-              {uploading ? "Uploading…" : "Upload Current Workspace"}
+            <button
+              type="button"
+              onClick={handleUploadWorkspace}
+              disabled={uploading || !workspaceSessionId}
+            >
+              {uploading ? "Uploading…" : "Upload Workspace"}
+            </button>
+
+            <h3>Archive Contents</h3>
+            <p>
+              Patterns use .gitignore syntax, one per line. Include patterns win over ignore
+              files and exclude patterns. <code>.git</code>, <code>node_modules</code>,{" "}
+              <code>dist</code>, <code>var</code>, <code>workspaces</code> and <code>.env</code>{" "}
+              files are left out unless included. The server's database and other sessions'
+              workspaces are never packed.
+            </p>
+            <label className="deploy-toggle">
+              <input
+                type="checkbox"
+                checked={draft.archive?.useGitignore ?? true}
+                onChange={(event) => updateArchiveRules({ useGitignore: event.target.checked })}
+              />
+              <span>Respect .gitignore</span>
+            </label>
+            <label className="deploy-toggle">
+              <input
+                type="checkbox"
+                checked={draft.archive?.useDockerignore ?? true}
+                onChange={(event) =>
+                  updateArchiveRules({ useDockerignore: event.target.checked })
+                }
+              />
+              <span>Respect .dockerignore</span>
+            </label>
+            <div className="deploy-grid">
+              <label>
+                <span>Exclude Patterns</span>
+                <textarea
+                  className="deploy-archive-patterns"
+                  value={(draft.archive?.exclude ?? []).join("\n")}
+                  onChange={(event) =>
+                    updateArchiveRules({ exclude: event.target.value.split("\n") })
+                  }
+                  rows={4}
+                  placeholder={"*.log\ncoverage/"}
+                />
+              </label>
+              <label>
+                <span>Include Patterns</span>
+                <textarea
+                  className="deploy-archive-patterns"
+                  value={(draft.archive?.include ?? []).join("\n")}
+                  onChange={(event) =>
+                    updateArchiveRules({ include: event.target.value.split("\n") })
+                  }
+                  rows={4}
+                  placeholder="dist/**"
+                />
+              </label>
+            </div>
+            <button
+              type="button"
+              onClick={handlePreviewArchive}
+              disabled={previewing || !workspaceSessionId}
+            >
+              {previewing ? "Listing Files…" : "Preview Archive"}
             </button>
+            {archivePreview ? (
+              <>
+                <p>
+                  <strong>{archivePreview.fileCount}</strong> file
+                  {archivePreview.fileCount === 1 ? "" : "s"},{" "}
+                  {formatBytes(archivePreview.totalBytes)} before compression
+                </p>
+                <pre className="deploy-data-preview deploy-archive-preview">
+                  {archivePreview.files
+                    .map((file) => `${file.path}  (${formatBytes(file.size)})`)
+                    .join("\n")}
+                </pre>
+              </>
+            ) : null}
           </div>
         )}
       </section>
@@ -725,6 +1100,74 @@ const DeployPanel = () => {
         </button>
       </section>
 
+      <section className="deploy-section">
+        <h2>Deployment History</h2>
+        {!selectedId ? (
+          <p>Save the target to start recording its deployments.</p>
+        ) : deployments.length > 0 ? (
+          <table className="deploy-env-table deploy-history-table">
+            <thead>
+              <tr>
+                <th>Started</th>
+                <th>Status</th>
+                <th>Artifact</th>
+                <th>Commit</th>
+                <th>Triggered By</th>
+                <th>Dokploy ID</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {deployments.map((deployment) => (
+                <tr key={deployment.id}>
+                  <td>{new Date(deployment.createdAt).toLocaleString()}</td>
+                  <td>
+                    <span
+                      className={`deploy-history-status deploy-history-status-${deployment.status}`}
+                      title={deployment.error ?? undefined}
+                    >
+                      {deploymentStatusLabels[deployment.status]}
+                    </span>
+                    {deployment.redeployOf ? (
+                      <small className="deploy-history-note">Redeploy</small>
+                    ) : null}
+                  </td>
+                  <td>
+                    {deployment.artifactKey ? (
+                      <code title={deployment.artifactKey}>{deployment.artifactKey}</code>
+                    ) : (
+                      "Git source"
+                    )}
+                  </td>
+                  <td>
+                    {deployment.commitSha ? (
+                      <code title={deployment.commitSha}>{deployment.commitSha.slice(0, 7)}</code>
+                    ) : (
+                      "—"
+                    )}
+                  </td>
+                  <td>{deployment.username ?? "—"}</td>
+                  <td>{deployment.dokployDeploymentId ?? "—"}</td>
+                  <td>
+                    {deployment.canRedeploy ? (
+                      <button
+                        type="button"
+                        onClick={() => void handleRedeploy(deployment)}
+                        disabled={redeployingId !== null}
+                      >
+                        {redeployingId === deployment.id ? "Redeploying…" : "Redeploy This Version"}
+                      </button>
+                    ) : null}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <p>No deployments recorded yet.</p>
+        )}
+      </section>
+
       <section className="deploy-section">
         <h2>Traefik Configuration</h2>
         <textarea
@@ -0,0 +1,72 @@
+import type { DeployTargetSummary } from "../../../shared/dokploy";
+
+type DeployTargetSelectorProps = {
+  targets: DeployTargetSummary[];
+  /** Target being edited; null while a new target is drafted. */
+  selectedId: string | null;
+  disabled?: boolean;
+  onSelect: (targetId: string) => void;
+  onCreate: () => void;
+  onMakeDefault: () => void;
+  onDelete: () => void;
+};
+
+const DeployTargetSelector = ({
+  targets,
+  selectedId,
+  disabled = false,
+  onSelect,
+  onCreate,
+  onMakeDefault,
+  onDelete,
+}: DeployTargetSelectorProps) => {
+  const selected = targets.find((target) => target.id === selectedId) ?? null;
+
+  return (
+    <section className="deploy-section">
+      <h2>Deployment Targets</h2>
+      <div className="deploy-grid">
+        <label>
+          <span>Target</span>
+          <select
+            value={selectedId ?? ""}
+            onChange={(event) => onSelect(event.target.value)}
+            disabled={disabled}
+          >
+            {selectedId === null ? <option value="">New target…</option> : null}
+            {targets.map((target) => (
+              <option key={target.id} value={target.id}>
+                {target.name}
+                {target.isDefault ? " (default)" : ""}
+              </option>
+            ))}
+          </select>
+          <small className="muted">
+            Sessions deploy to the default target unless another one is chosen for them.
+          </small>
+        </label>
+      </div>
+      <div className="deploy-actions">
+        <button type="button" onClick={onCreate} disabled={disabled || selectedId === null}>
+          New Target
+        </button>
+        <button
+          type="button"
+          onClick={onMakeDefault}
+          disabled={disabled || !selected || selected.isDefault}
+        >
+          Make Default
+        </button>
+        <button
+          type="button"
+          onClick={onDelete}
+          disabled={disabled || !selected || selected.isDefault}
+        >
+          Delete Target
+        </button>
+      </div>
+    </section>
+  );
+};
+
+export default DeployTargetSelector;
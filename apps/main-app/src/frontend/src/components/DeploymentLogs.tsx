@@ -1,4 +1,5 @@
 import { useState, useEffect, useRef } from "react";
+import { streamSessionServiceLogs } from "../api/client";
 
 type DeploymentLogsProps = {
   sessionId: string;
@@ -17,6 +18,9 @@ const DeploymentLogs = ({ sessionId, onComplete }: DeploymentLogsProps) => {
   const [error, setError] = useState<string | null>(null);
   const logsEndRef = useRef<HTMLDivElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  // Read through a ref so a new callback does not restart the stream
+  const onCompleteRef = useRef(onComplete);
+  onCompleteRef.current = onComplete;
 
   // Auto-scroll to bottom when logs update
   useEffect(() => {
@@ -25,56 +29,47 @@ const DeploymentLogs = ({ sessionId, onComplete }: DeploymentLogsProps) => {
     }
   }, [logs]);
 
-  // Poll deployment logs
+  // Follow the build log until the deployment finishes
   useEffect(() => {
     let cancelled = false;
-    let pollTimer: NodeJS.Timeout | null = null;
-
-    const fetchLogs = async () => {
-      try {
-        const response = await fetch(
-          `/api/sessions/${sessionId}/service/deployment-logs`
-        );
-
-        if (!response.ok) {
-          throw new Error(`Failed to fetch logs: ${response.statusText}`);
-        }
-
-        const data: LogsResponse = await response.json();
-
-        if (!cancelled) {
-          setLogs(data.logs);
-          setStatus(data.status);
+    let started = false;
+
+    const stop = streamSessionServiceLogs(
+      sessionId,
+      { source: "deployment", follow: true, tail: 5000 },
+      {
+        onLines: (lines) => {
+          const text = lines.map((line) => line.text).join("\n");
+          setLogs((current) => (started ? `${current}\n${text}` : text));
+          started = true;
+          setStatus("running");
           setError(null);
-
-          // If deployment is complete (success or error), stop polling
-          if (data.status === "done" || data.status === "error") {
-            if (onComplete) {
-              onComplete();
-            }
-          } else {
-            // Continue polling if still in progress
-            pollTimer = setTimeout(fetchLogs, 3000);
+        },
+        onError: setError,
+        onEnd: (reason) => {
+          if (reason !== "finished") {
+            return;
           }
-        }
-      } catch (err) {
-        if (!cancelled) {
-          setError(err instanceof Error ? err.message : "Failed to fetch logs");
-          // Retry on error
-          pollTimer = setTimeout(fetchLogs, 5000);
-        }
-      }
-    };
-
-    fetchLogs();
+          // The stream only tells that the build ended, not how
+          void fetch(`/api/sessions/${sessionId}/service/deployment-logs`)
+            .then((response) => (response.ok ? (response.json() as Promise<LogsResponse>) : null))
+            .catch(() => null)
+            .then((data) => {
+              if (cancelled) {
+                return;
+              }
+              setStatus(data?.status ?? "done");
+              onCompleteRef.current?.();
+            });
+        },
+      },
+    );
 
     return () => {
       cancelled = true;
-      if (pollTimer) {
-        clearTimeout(pollTimer);
-      }
+      stop();
     };
-  }, [sessionId, onComplete]);
+  }, [sessionId]);
 
   const getStatusColor = (status: string): string => {
     switch (status) {
@@ -0,0 +1,73 @@
+import { useEffect, useRef, useState } from "react";
+import { subscribeToSessionDeployments } from "../api/client";
+import type { DeploymentResponse } from "../../../shared/dokploy";
+
+type DeploymentStatusBannerProps = {
+  sessionId: string;
+  /** Called when a deployment of the session finishes while it is watched. */
+  onFinished?: (deployment: DeploymentResponse) => void;
+};
+
+const isActive = (deployment: DeploymentResponse): boolean =>
+  deployment.status === "pending" || deployment.status === "running";
+
+/**
+ * Shows the latest deployment of a session while it runs, and its outcome
+ * once Dokploy reports it. Finished deployments from before the banner was
+ * opened are not shown.
+ */
+const DeploymentStatusBanner = ({ sessionId, onFinished }: DeploymentStatusBannerProps) => {
+  const [deployment, setDeployment] = useState<DeploymentResponse | null>(null);
+  const [dismissed, setDismissed] = useState(false);
+  const onFinishedRef = useRef(onFinished);
+  onFinishedRef.current = onFinished;
+
+  useEffect(() => {
+    setDeployment(null);
+    setDismissed(false);
+    return subscribeToSessionDeployments(sessionId, {
+      onSnapshot: (deployments) => {
+        const latest = deployments[0];
+        setDeployment(latest && isActive(latest) ? latest : null);
+      },
+      onUpdate: (update) => {
+        setDeployment((current) => {
+          if (current && current.id !== update.id && isActive(current) && !isActive(update)) {
+            // An older deployment finished after a newer one started
+            return current;
+          }
+          return update;
+        });
+        setDismissed(false);
+        if (!isActive(update)) {
+          onFinishedRef.current?.(update);
+        }
+      },
+    });
+  }, [sessionId]);
+
+  if (!deployment || dismissed) {
+    return null;
+  }
+
+  const target = deployment.targetName;
+  const message =
+    deployment.status === "succeeded"
+      ? `Deployment to ${target} succeeded.`
+      : deployment.status === "failed"
+        ? `Deployment to ${target} failed${deployment.error ? `: ${deployment.error}` : "."}`
+        : `Deploying to ${target}…`;
+
+  return (
+    <div className={`deployment-banner deployment-banner-${deployment.status}`} role="status">
+      <span>{message}</span>
+      {!isActive(deployment) && (
+        <button type="button" className="ghost-button" onClick={() => setDismissed(true)}>
+          Dismiss
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default DeploymentStatusBanner;
@@ -1,10 +1,10 @@
 import { useCallback, useEffect, useState } from "react";
 import {
-  fetchDeployConfig,
-  updateDeployConfig,
+  fetchDeployTargets,
+  updateDeployTarget,
   testDeployConnection,
 } from "../api/client";
-import type { DeployConfigPayload, DeployConfigResult } from "../api/types";
+import type { DeployTargetPayload, DeployTargetResult } from "../api/types";
 
 type StatusMessage = {
   type: "success" | "error" | "info";
@@ -17,8 +17,8 @@ type DokployConfigModalProps = {
 };
 
 export const DokployConfigModal = ({ isOpen, onClose }: DokployConfigModalProps) => {
-  // Component for configuring Dokploy settings
-  const [initialConfig, setInitialConfig] = useState<DeployConfigResult | null>(null);
+  // Component for configuring the default Dokploy deployment target
+  const [initialConfig, setInitialConfig] = useState<DeployTargetResult | null>(null);
   const [baseUrl, setBaseUrl] = useState<string>("");
   const [authMethod, setAuthMethod] = useState<"x-api-key" | "authorization">("x-api-key");
   const [apiKeyInput, setApiKeyInput] = useState<string>("");
@@ -32,7 +32,11 @@ export const DokployConfigModal = ({ isOpen, onClose }: DokployConfigModalProps)
   const loadConfig = useCallback(async () => {
     setLoading(true);
     try {
-      const data = await fetchDeployConfig();
+      const targets = await fetchDeployTargets();
+      const data = targets.find((target) => target.isDefault) ?? targets[0];
+      if (!data) {
+        throw new Error("No deployment target configured.");
+      }
       setInitialConfig(data);
       setBaseUrl(data.baseUrl || "");
       setAuthMethod(data.authMethod || "x-api-key");
@@ -59,14 +63,12 @@ export const DokployConfigModal = ({ isOpen, onClose }: DokployConfigModalProps)
     setStatus(null);
 
     try {
-      const payload: DeployConfigPayload = {
-        ...initialConfig!,
+      const result = await testDeployConnection({
+        targetId: initialConfig?.id,
         baseUrl,
         authMethod,
         apiKey: apiKeyInput || undefined,
-      };
-
-      const result = await testDeployConnection(payload);
+      });
       if (result.success) {
         setStatus({ type: "success", text: "Connection test succeeded!" });
       } else {
@@ -90,7 +92,7 @@ export const DokployConfigModal = ({ isOpen, onClose }: DokployConfigModalProps)
     setStatus(null);
 
     try {
-      const payload: DeployConfigPayload = {
+      const payload: DeployTargetPayload = {
         ...initialConfig!,
         baseUrl,
         authMethod,
@@ -99,7 +101,7 @@ export const DokployConfigModal = ({ isOpen, onClose }: DokployConfigModalProps)
         apiKey: apiKeyInput || undefined,
       };
 
-      await updateDeployConfig(payload);
+      await updateDeployTarget(initialConfig!.id, payload);
       setStatus({ type: "success", text: "Settings saved successfully!" });
       setApiKeyInput("");
       await loadConfig();
@@ -1,11 +1,15 @@
 import { useCallback, useEffect, useState } from "react";
 import {
-  fetchDeployConfig,
-  updateDeployConfig,
+  createDeployTarget,
+  deleteDeployTarget,
+  fetchDeployTargets,
+  setDefaultDeployTarget,
+  updateDeployTarget,
   testDeployConnection,
   fetchDokployEnvironments,
 } from "../api/client";
-import type { DeployConfigPayload, DeployConfigResult } from "../api/types";
+import type { DeployTargetPayload, DeployTargetResult } from "../api/types";
+import DeployTargetSelector from "./DeployTargetSelector";
 
 type StatusMessage = {
   type: "success" | "error" | "info";
@@ -13,7 +17,9 @@ type StatusMessage = {
 };
 
 const DokployPanel = () => {
-  const [initialConfig, setInitialConfig] = useState<DeployConfigResult | null>(null);
+  const [targets, setTargets] = useState<DeployTargetResult[]>([]);
+  const [initialConfig, setInitialConfig] = useState<DeployTargetResult | null>(null);
+  const [name, setName] = useState<string>("");
   const [baseUrl, setBaseUrl] = useState<string>("");
   const [authMethod, setAuthMethod] = useState<"x-api-key" | "authorization">("x-api-key");
   const [apiKeyInput, setApiKeyInput] = useState<string>("");
@@ -28,33 +34,50 @@ const DokployPanel = () => {
   const [environments, setEnvironments] = useState<Array<{ environmentId: string; name: string }>>([]);
   const [loadingEnvironments, setLoadingEnvironments] = useState(false);
 
-  const loadConfig = useCallback(async () => {
-    setLoading(true);
-    try {
-      const data = await fetchDeployConfig();
-      setInitialConfig(data);
-      setBaseUrl(data.baseUrl || "");
-      setAuthMethod(data.authMethod || "x-api-key");
-      setProjectId(data.projectId || "");
-      setEnvironmentId(data.environmentId || "");
-      setGithubId(data.githubId || "");
-      setApiKeyInput("");
-      setStatus(null);
-    } catch (error) {
-      console.error("Failed to load deploy config", error);
-      setStatus({ type: "error", text: "Failed to load Dokploy configuration." });
-    } finally {
-      setLoading(false);
-    }
+  const selectedId = initialConfig?.id ?? null;
+
+  const applyTarget = useCallback((target: DeployTargetResult | null) => {
+    setInitialConfig(target);
+    setName(target?.name || "");
+    setBaseUrl(target?.baseUrl || "");
+    setAuthMethod(target?.authMethod || "x-api-key");
+    setProjectId(target?.projectId || "");
+    setEnvironmentId(target?.environmentId || "");
+    setGithubId(target?.githubId || "");
+    setApiKeyInput("");
+    setProjects([]);
   }, []);
 
+  const loadTargets = useCallback(
+    async (selectId?: string | null) => {
+      setLoading(true);
+      try {
+        const data = await fetchDeployTargets();
+        setTargets(data);
+        applyTarget(
+          data.find((target) => target.id === selectId) ??
+            data.find((target) => target.isDefault) ??
+            data[0] ??
+            null,
+        );
+        setStatus(null);
+      } catch (error) {
+        console.error("Failed to load deploy targets", error);
+        setStatus({ type: "error", text: "Failed to load Dokploy configuration." });
+      } finally {
+        setLoading(false);
+      }
+    },
+    [applyTarget],
+  );
+
   useEffect(() => {
-    void loadConfig();
-  }, [loadConfig]);
+    void loadTargets();
+  }, [loadTargets]);
 
   useEffect(() => {
     const fetchEnvironments = async () => {
-      if (!projectId) {
+      if (!projectId || !selectedId) {
         setEnvironments([]);
         return;
       }
@@ -62,7 +85,7 @@ const DokployPanel = () => {
       console.log('[DokployPanel] Fetching environments for projectId:', projectId);
       setLoadingEnvironments(true);
       try {
-        const result = await fetchDokployEnvironments(projectId);
+        const result = await fetchDokployEnvironments(selectedId, projectId);
         console.log('[DokployPanel] Fetched environments:', result.environments);
         setEnvironments(result.environments);
       } catch (error) {
@@ -74,7 +97,54 @@ const DokployPanel = () => {
     };
 
     void fetchEnvironments();
-  }, [projectId]);
+  }, [projectId, selectedId]);
+
+  const handleSelectTarget = (targetId: string) => {
+    const target = targets.find((entry) => entry.id === targetId);
+    if (target) {
+      applyTarget(target);
+      setStatus(null);
+    }
+  };
+
+  const handleNewTarget = () => {
+    applyTarget(null);
+    setStatus({ type: "info", text: "Enter the connection settings of the new target." });
+  };
+
+  const handleMakeDefault = async () => {
+    if (!selectedId) {
+      return;
+    }
+
+    try {
+      await setDefaultDeployTarget(selectedId);
+      await loadTargets(selectedId);
+      setStatus({ type: "success", text: `"${name}" is now the default target.` });
+    } catch (error: any) {
+      setStatus({
+        type: "error",
+        text: error?.message || "Failed to change the default target.",
+      });
+    }
+  };
+
+  const handleDeleteTarget = async () => {
+    if (!selectedId || !window.confirm(`Delete the deployment target "${name}"?`)) {
+      return;
+    }
+
+    try {
+      await deleteDeployTarget(selectedId);
+      await loadTargets();
+      setStatus({ type: "success", text: "Deployment target deleted." });
+    } catch (error: any) {
+      setStatus({
+        type: "error",
+        text: error?.message || "Failed to delete the deployment target.",
+      });
+    }
+  };
 
   const handleTestConnection = async () => {
     setTesting(true);
@@ -82,6 +152,7 @@ const DokployPanel = () => {
 
     try {
       const result = await testDeployConnection({
+        targetId: selectedId ?? undefined,
         baseUrl,
         authMethod,
         apiKey: apiKeyInput || undefined,
@@ -121,8 +192,10 @@ const DokployPanel = () => {
     setStatus(null);
 
     try {
-      const payload: DeployConfigPayload = {
-        ...initialConfig!,
+      const payload: DeployTargetPayload = {
+        source: { type: "git", provider: "github" },
+        ...initialConfig,
+        name: name.trim(),
         baseUrl,
         authMethod,
         projectId,
@@ -131,10 +204,12 @@ const DokployPanel = () => {
         apiKey: apiKeyInput || undefined,
       };
 
-      await updateDeployConfig(payload);
+      const saved = selectedId
+        ? await updateDeployTarget(selectedId, payload)
+        : await createDeployTarget({ ...payload, name: name.trim() });
       setStatus({ type: "success", text: "Settings saved successfully!" });
       setApiKeyInput("");
-      await loadConfig();
+      await loadTargets(saved.id);
     } catch (error: any) {
       setStatus({
         type: "error",
@@ -153,7 +228,7 @@ const DokployPanel = () => {
     <div className="deploy-panel">
       <h1 style={{ marginTop: 0 }}>Dokploy Configuration</h1>
       <p className="muted" style={{ marginBottom: "2em" }}>
-        Configure global Dokploy server settings. These settings apply to all service-based sessions.
+        Configure the Dokploy servers that service-based sessions are deployed to.
       </p>
 
       {status && (
@@ -162,9 +237,29 @@ const DokployPanel = () => {
         </div>
       )}
 
+      <DeployTargetSelector
+        targets={targets}
+        selectedId={selectedId}
+        disabled={saving}
+        onSelect={handleSelectTarget}
+        onCreate={handleNewTarget}
+        onMakeDefault={() => void handleMakeDefault()}
+        onDelete={() => void handleDeleteTarget()}
+      />
+
       <section className="deploy-section">
         <h2>Connection Settings</h2>
         <div className="deploy-grid">
+          <label>
+            <span>Target Name</span>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Production"
+            />
+          </label>
+
           <label>
             <span>Base URL</span>
             <input
@@ -286,14 +381,14 @@ const DokployPanel = () => {
           <button
             type="button"
             onClick={handleTestConnection}
-            disabled={testing || !baseUrl}
+            disabled={testing || !baseUrl || (!selectedId && !apiKeyInput)}
           >
             {testing ? "Testing…" : "Test Connection"}
           </button>
           <button
             type="button"
             onClick={handleSave}
-            disabled={saving || !baseUrl || !projectId || !environmentId}
+            disabled={saving || !name.trim() || !baseUrl || !projectId || !environmentId}
           >
             {saving ? "Saving…" : "Save Settings"}
           </button>
@@ -0,0 +1,47 @@
+import { useState } from "react";
+import { useAuth } from "../context/AuthContext";
+
+/**
+ * Stays on top of the app while an admin views it as another user, with a
+ * button that returns to the admin's own session.
+ */
+const ImpersonationBanner = () => {
+  const { user, impersonator, endImpersonation } = useAuth();
+  const [ending, setEnding] = useState(false);
+
+  if (!user || !impersonator) {
+    return null;
+  }
+
+  const handleEnd = async () => {
+    setEnding(true);
+    try {
+      await endImpersonation();
+      // Sessions and settings on screen belong to the impersonated user
+      window.location.href = "/";
+    } catch (error) {
+      console.error("Failed to end impersonation", error);
+      alert("Unable to end impersonation.");
+      setEnding(false);
+    }
+  };
+
+  return (
+    <div className="impersonation-banner" role="status">
+      <span>
+        Viewing as <strong>{user.username}</strong> (signed in as {impersonator.username}).
+        Password and auth file changes are disabled.
+      </span>
+      <button
+        type="button"
+        className="ghost-button"
+        onClick={() => void handleEnd()}
+        disabled={ending}
+      >
+        {ending ? "Ending…" : "End impersonation"}
+      </button>
+    </div>
+  );
+};
+
+export default ImpersonationBanner;
@@ -1,4 +1,6 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import { fetchDeployTargetSummaries } from "../api/client";
+import type { DeployTargetSummary } from "../../../shared/dokploy";
 import "./NewSessionModal.css";
 
 type NewSessionFormData = {
@@ -7,8 +9,11 @@ type NewSessionFormData = {
   gitBranch: string;
   dockerfilePath: string;
   customEnvVars: string; // JSON string
+  deployTargetId: string; // empty = default target
 };
 
+type SecretRow = { key: string; value: string };
+
 const generateBranchName = (): string => {
   const timestamp = Date.now();
   const randomSuffix = Math.random().toString(36).substring(2, 8);
@@ -24,6 +29,8 @@ type NewSessionModalProps = {
     gitBranch?: string;
     dockerfilePath?: string;
     customEnvVars?: Record<string, string>;
+    secretEnvVars?: Record<string, string>;
+    deployTargetId?: string;
   }) => Promise<void>;
 };
 
@@ -34,9 +41,33 @@ const NewSessionModal = ({ isOpen, onClose, onCreate }: NewSessionModalProps) =>
     gitBranch: "",
     dockerfilePath: "",
     customEnvVars: "",
+    deployTargetId: "",
   });
+  const [secretRows, setSecretRows] = useState<SecretRow[]>([]);
   const [error, setError] = useState<string>("");
   const [loading, setLoading] = useState(false);
+  const [deployTargets, setDeployTargets] = useState<DeployTargetSummary[]>([]);
+
+  useEffect(() => {
+    if (!isOpen) {
+      return;
+    }
+
+    let cancelled = false;
+    fetchDeployTargetSummaries()
+      .then((targets) => {
+        if (!cancelled) {
+          setDeployTargets(targets);
+        }
+      })
+      .catch((err) => {
+        console.error("Failed to load deployment targets", err);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen]);
 
   if (!isOpen) return null;
 
@@ -87,6 +118,17 @@ const NewSessionModal = ({ isOpen, onClose, onCreate }: NewSessionModalProps) =>
         payload.customEnvVars = envVars;
       }
 
+      const secrets = secretRows.filter((row) => row.key.trim());
+      if (secrets.length > 0) {
+        payload.secretEnvVars = Object.fromEntries(
+          secrets.map((row) => [row.key.trim(), row.value]),
+        );
+      }
+
+      if (formData.deployTargetId) {
+        payload.deployTargetId = formData.deployTargetId;
+      }
+
       await onCreate(payload);
 
       // Reset form
@@ -96,7 +138,9 @@ const NewSessionModal = ({ isOpen, onClose, onCreate }: NewSessionModalProps) =>
         gitBranch: "",
         dockerfilePath: "",
         customEnvVars: "",
+        deployTargetId: "",
       });
+      setSecretRows([]);
 
       onClose();
     } catch (err) {
@@ -110,6 +154,12 @@ const NewSessionModal = ({ isOpen, onClose, onCreate }: NewSessionModalProps) =>
     setFormData((prev) => ({ ...prev, [field]: value }));
   };
 
+  const updateSecretRow = (index: number, field: keyof SecretRow, value: string) => {
+    setSecretRows((rows) =>
+      rows.map((row, rowIndex) => (rowIndex === index ? { ...row, [field]: value } : row)),
+    );
+  };
+
   const handleClose = () => {
     if (!loading) {
       setFormData({
@@ -118,7 +168,9 @@ const NewSessionModal = ({ isOpen, onClose, onCreate }: NewSessionModalProps) =>
         gitBranch: "",
         dockerfilePath: "",
         customEnvVars: "",
+        deployTargetId: "",
       });
+      setSecretRows([]);
       setError("");
       onClose();
     }
@@ -209,6 +261,30 @@ const NewSessionModal = ({ isOpen, onClose, onCreate }: NewSessionModalProps) =>
             </small>
           </div>
 
+          {deployTargets.length > 1 && (
+            <div className="form-group">
+              <label htmlFor="deploy-target">Deployment Target</label>
+              <select
+                id="deploy-target"
+                value={formData.deployTargetId}
+                onChange={(e) => handleChange("deployTargetId", e.target.value)}
+                disabled={loading}
+              >
+                <option value="">
+                  Default target ({deployTargets.find((target) => target.isDefault)?.name ?? "none"})
+                </option>
+                {deployTargets.map((target) => (
+                  <option key={target.id} value={target.id}>
+                    {target.name}
+                  </option>
+                ))}
+              </select>
+              <small className="form-help">
+                Dokploy server the session's service is deployed to
+              </small>
+            </div>
+          )}
+
           <div className="form-group">
             <label htmlFor="env-vars">
               Environment Variables <span className="optional">(optional)</span>
@@ -226,6 +302,53 @@ const NewSessionModal = ({ isOpen, onClose, onCreate }: NewSessionModalProps) =>
             </small>
           </div>
 
+          <div className="form-group">
+            <label>
+              Secrets <span className="optional">(optional)</span>
+            </label>
+            {secretRows.map((row, index) => (
+              <div key={index} className="secret-row">
+                <input
+                  type="text"
+                  placeholder="KEY"
+                  value={row.key}
+                  onChange={(e) => updateSecretRow(index, "key", e.target.value)}
+                  disabled={loading}
+                />
+                <input
+                  type="password"
+                  autoComplete="off"
+                  placeholder="value"
+                  value={row.value}
+                  onChange={(e) => updateSecretRow(index, "value", e.target.value)}
+                  disabled={loading}
+                />
+                <button
+                  type="button"
+                  className="ghost-button"
+                  onClick={() =>
+                    setSecretRows((rows) => rows.filter((_, rowIndex) => rowIndex !== index))
+                  }
+                  disabled={loading}
+                  aria-label="Remove secret"
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+            <button
+              type="button"
+              className="ghost-button"
+              onClick={() => setSecretRows((rows) => [...rows, { key: "", value: "" }])}
+              disabled={loading}
+            >
+              Add secret
+            </button>
+            <small className="form-help">
+              Stored encrypted and passed to the service and agent runs; values are never shown again
+            </small>
+          </div>
+
           {error && (
             <div className="form-error" role="alert">
               {error}
@@ -0,0 +1,110 @@
+import { useCallback, useEffect, useState } from "react";
+import { ApiError, fetchServiceBackendSettings, updateServiceBackend } from "../api/client";
+import type {
+  SessionServiceBackendKind,
+  SessionServiceBackendSettings,
+} from "../../../shared/dokploy";
+
+const extractErrorMessage = (error: unknown, fallback: string): string => {
+  if (error instanceof ApiError) {
+    const body = error.body as { error?: unknown };
+    if (body && typeof body.error === "string" && body.error.trim().length > 0) {
+      return body.error;
+    }
+  }
+  return fallback;
+};
+
+const ServiceBackendPanel = () => {
+  const [settings, setSettings] = useState<SessionServiceBackendSettings | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refreshSettings = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setSettings(await fetchServiceBackendSettings());
+    } catch (loadError) {
+      console.error("Failed to load service backend settings", loadError);
+      setError("Unable to load service backend settings");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void refreshSettings();
+  }, [refreshSettings]);
+
+  const handleSelect = async (backend: SessionServiceBackendKind) => {
+    setSaving(true);
+    setError(null);
+    try {
+      setSettings(await updateServiceBackend(backend));
+    } catch (saveError) {
+      console.error("Failed to update service backend", saveError);
+      setError(extractErrorMessage(saveError, "Unable to switch the service backend."));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="usage-panel">
+      <section className="admin-section">
+        <h3>Session Services</h3>
+        <p className="muted">
+          Where new session services run. Existing services stay on the backend they were
+          created on.
+        </p>
+        {error && <div className="error-text">{error}</div>}
+
+        {loading && !settings ? (
+          <div className="placeholder">Loading backends…</div>
+        ) : settings ? (
+          <table className="usage-table">
+            <thead>
+              <tr>
+                <th>Backend</th>
+                <th>Status</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {settings.backends.map((option) => (
+                <tr key={option.kind}>
+                  <td>{option.label}</td>
+                  <td className={option.unavailableReason ? "muted" : undefined}>
+                    {option.unavailableReason ?? "Available"}
+                  </td>
+                  <td className="usage-table-actions">
+                    {settings.backend === option.kind ? (
+                      <strong>In use</strong>
+                    ) : (
+                      <button
+                        type="button"
+                        onClick={() => void handleSelect(option.kind)}
+                        disabled={saving || option.unavailableReason !== null}
+                      >
+                        Use
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : null}
+        <div className="admin-section-row">
+          <button type="button" onClick={() => void refreshSettings()} disabled={loading}>
+            Check again
+          </button>
+        </div>
+      </section>
+    </div>
+  );
+};
+
+export default ServiceBackendPanel;
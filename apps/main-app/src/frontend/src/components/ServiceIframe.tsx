@@ -4,12 +4,22 @@ import type { ServiceToMainMessage, MainToServiceMessage } from "@codex-webapp/s
 type ServiceIframeProps = {
   serviceUrl: string;
   sessionId: string;
+  // A new object asks the service to scroll to the message again
+  focusRequest?: { messageId: string } | null;
+  onReviewTurn?: (messageId: string) => void;
 };
 
-const ServiceIframe = ({ serviceUrl, sessionId }: ServiceIframeProps) => {
+const ServiceIframe = ({
+  serviceUrl,
+  sessionId,
+  focusRequest,
+  onReviewTurn,
+}: ServiceIframeProps) => {
   const iframeRef = useRef<HTMLIFrameElement>(null);
   const [status, setStatus] = useState<"loading" | "ready" | "error">("ready"); // Start as ready
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  // Set once the service page has loaded and can receive messages
+  const [serviceLoaded, setServiceLoaded] = useState(false);
 
   const sendToService = useCallback((message: MainToServiceMessage) => {
     if (!iframeRef.current?.contentWindow) {
@@ -33,6 +43,9 @@ const ServiceIframe = ({ serviceUrl, sessionId }: ServiceIframeProps) => {
             console.log("[Main App] Service is ready:", message.sessionId);
             setStatus("ready");
             setErrorMessage(null);
+            if (message.sessionId === sessionId) {
+              setServiceLoaded(true);
+            }
             break;
 
           case "ERROR":
@@ -49,6 +62,12 @@ const ServiceIframe = ({ serviceUrl, sessionId }: ServiceIframeProps) => {
           case "SERVICE_HEIGHT":
             // Could adjust iframe height dynamically
             break;
+
+          case "REVIEW_TURN":
+            if (message.sessionId === sessionId) {
+              onReviewTurn?.(message.messageId);
+            }
+            break;
         }
       } catch (error) {
         console.error("[Main App] Failed to handle service message:", error);
@@ -57,7 +76,18 @@ const ServiceIframe = ({ serviceUrl, sessionId }: ServiceIframeProps) => {
 
     window.addEventListener("message", handleMessage);
     return () => window.removeEventListener("message", handleMessage);
-  }, [serviceUrl]);
+  }, [serviceUrl, sessionId, onReviewTurn]);
+
+  // The iframe reloads when the session changes
+  useEffect(() => {
+    setServiceLoaded(false);
+  }, [serviceUrl, sessionId]);
+
+  useEffect(() => {
+    if (serviceLoaded && focusRequest) {
+      sendToService({ type: "FOCUS_MESSAGE", messageId: focusRequest.messageId });
+    }
+  }, [serviceLoaded, focusRequest, sendToService]);
 
   // Send initial auth token to service
   useEffect(() => {
@@ -0,0 +1,170 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  getSessionServiceLogsDownloadUrl,
+  streamSessionServiceLogs,
+} from "../api/client";
+import type {
+  ServiceLogLevel,
+  ServiceLogLine,
+  ServiceLogSource,
+} from "../../../shared/dokploy";
+
+type ServiceLogsViewerProps = {
+  sessionId: string;
+};
+
+const LOG_LEVELS: ServiceLogLevel[] = ["error", "warn", "info", "debug"];
+const MAX_LINES = 5000;
+const PATTERN_DEBOUNCE_MS = 400;
+
+/**
+ * Live view of a session service's container or build logs, with follow
+ * mode, level and pattern filters and a download of the filtered logs.
+ */
+const ServiceLogsViewer = ({ sessionId }: ServiceLogsViewerProps) => {
+  const [source, setSource] = useState<ServiceLogSource>("service");
+  const [follow, setFollow] = useState(true);
+  const [levels, setLevels] = useState<ServiceLogLevel[]>([]);
+  const [patternInput, setPatternInput] = useState("");
+  const [pattern, setPattern] = useState("");
+  const [ignoreCase, setIgnoreCase] = useState(true);
+  const [lines, setLines] = useState<ServiceLogLine[]>([]);
+  const [streaming, setStreaming] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [reconnectCount, setReconnectCount] = useState(0);
+  const logsEndRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const timer = window.setTimeout(() => setPattern(patternInput), PATTERN_DEBOUNCE_MS);
+    return () => window.clearTimeout(timer);
+  }, [patternInput]);
+
+  useEffect(() => {
+    setLines([]);
+    setError(null);
+    setStreaming(true);
+    return streamSessionServiceLogs(
+      sessionId,
+      { source, follow, tail: 500, levels, pattern, ignoreCase },
+      {
+        onLines: (incoming) => {
+          setLines((current) => [...current, ...incoming].slice(-MAX_LINES));
+        },
+        onError: setError,
+        onEnd: () => setStreaming(false),
+      },
+    );
+  }, [sessionId, source, follow, levels, pattern, ignoreCase, reconnectCount]);
+
+  useEffect(() => {
+    if (follow) {
+      logsEndRef.current?.scrollIntoView({ block: "end" });
+    }
+  }, [lines, follow]);
+
+  const toggleLevel = (level: ServiceLogLevel) => {
+    setLevels((current) =>
+      current.includes(level)
+        ? current.filter((entry) => entry !== level)
+        : LOG_LEVELS.filter((entry) => entry === level || current.includes(entry)),
+    );
+  };
+
+  const downloadUrl = getSessionServiceLogsDownloadUrl(sessionId, {
+    source,
+    levels,
+    pattern,
+    ignoreCase,
+  });
+
+  return (
+    <div className="service-logs">
+      <div className="service-logs-toolbar">
+        <label>
+          Logs
+          <select
+            value={source}
+            onChange={(event) => setSource(event.target.value as ServiceLogSource)}
+          >
+            <option value="service">Container</option>
+            <option value="deployment">Latest build</option>
+          </select>
+        </label>
+        <label className="service-logs-toggle">
+          <input
+            type="checkbox"
+            checked={follow}
+            onChange={(event) => setFollow(event.target.checked)}
+          />
+          Follow
+        </label>
+        <div className="service-logs-levels" role="group" aria-label="Log levels">
+          {LOG_LEVELS.map((level) => (
+            <label key={level} className="service-logs-toggle">
+              <input
+                type="checkbox"
+                checked={levels.includes(level)}
+                onChange={() => toggleLevel(level)}
+              />
+              {level}
+            </label>
+          ))}
+        </div>
+        <input
+          type="text"
+          className="service-logs-pattern"
+          placeholder="Filter"
+          value={patternInput}
+          onChange={(event) => setPatternInput(event.target.value)}
+        />
+        <label className="service-logs-toggle">
+          <input
+            type="checkbox"
+            checked={ignoreCase}
+            onChange={(event) => setIgnoreCase(event.target.checked)}
+          />
+          Ignore case
+        </label>
+        <button type="button" className="ghost-button" onClick={() => setLines([])}>
+          Clear
+        </button>
+        {!streaming && (
+          <button
+            type="button"
+            className="ghost-button"
+            onClick={() => setReconnectCount((count) => count + 1)}
+          >
+            {follow ? "Reconnect" : "Reload"}
+          </button>
+        )}
+        <a className="ghost-button" href={downloadUrl} download>
+          Download
+        </a>
+      </div>
+
+      <div className="service-logs-status muted">
+        {streaming ? (follow ? "Following…" : "Loading…") : `${lines.length} lines`}
+        {levels.length > 0 && " · lines without a level are hidden"}
+      </div>
+      {error && <div className="error-text">{error}</div>}
+
+      <div className="service-logs-output">
+        {lines.length === 0 && !streaming ? (
+          <div className="muted">No matching log lines.</div>
+        ) : (
+          lines.map((line, index) => (
+            <div
+              key={index}
+              className={line.level ? `service-logs-line level-${line.level}` : "service-logs-line"}
+            >
+              {line.text}
+            </div>
+          ))
+        )}
+        <div ref={logsEndRef} />
+      </div>
+    </div>
+  );
+};
+
+export default ServiceLogsViewer;
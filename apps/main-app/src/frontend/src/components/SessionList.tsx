@@ -1,4 +1,6 @@
 import type { Session } from "@codex-webapp/shared";
+import type { SearchResult } from "../api/types";
+import SessionSearch from "./SessionSearch";
 
 type SessionListProps = {
   sessions: Session[];
@@ -7,6 +9,7 @@ type SessionListProps = {
   onNewSession: () => void;
   onDeleteSession: (sessionId: string) => void;
   serviceStatuses: Record<string, { status: string; url?: string }>;
+  onSelectSearchResult?: (result: SearchResult) => void;
 };
 
 const formatSessionDate = (dateString: string): string => {
@@ -30,6 +33,7 @@ const SessionList = ({
   onNewSession,
   onDeleteSession,
   serviceStatuses,
+  onSelectSearchResult,
 }: SessionListProps) => {
   const getStatusIcon = (status?: string) => {
     switch (status) {
@@ -60,6 +64,8 @@ const SessionList = ({
         </button>
       </div>
 
+      {onSelectSearchResult && <SessionSearch onSelect={onSelectSearchResult} />}
+
       <div className="session-list">
         {sessions.length === 0 ? (
           <div className="session-empty">
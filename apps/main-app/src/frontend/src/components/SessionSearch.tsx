@@ -0,0 +1,136 @@
+import { useEffect, useState } from "react";
+import { searchSessions } from "../api/client";
+import type { SearchResult } from "../api/types";
+
+type SessionSearchProps = {
+  onSelect: (result: SearchResult) => void;
+};
+
+const SEARCH_DEBOUNCE_MS = 250;
+
+const SOURCE_LABELS: Record<SearchResult["source"], string> = {
+  session: "Title",
+  message: "Message",
+  run_item: "Tool output",
+};
+
+const escapeRegExp = (value: string): string =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Wraps the parts of `text` that start with one of the query terms in
+ * <mark>, mirroring the prefix matching done by the server.
+ */
+const highlightTerms = (text: string, query: string) => {
+  const terms = query
+    .split(/\s+/)
+    .filter((term) => term.length > 0)
+    .map(escapeRegExp);
+  if (terms.length === 0) {
+    return text;
+  }
+
+  const pattern = new RegExp(`(${terms.join("|")})`, "gi");
+  return text.split(pattern).map((part, index) =>
+    index % 2 === 1 ? <mark key={index}>{part}</mark> : part,
+  );
+};
+
+const SessionSearch = ({ onSelect }: SessionSearchProps) => {
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (trimmed.length === 0) {
+      setResults([]);
+      setSearching(false);
+      setError(null);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      setSearching(true);
+      searchSessions(trimmed, controller.signal)
+        .then((matches) => {
+          setResults(matches);
+          setError(null);
+        })
+        .catch((err) => {
+          if (controller.signal.aborted) {
+            return;
+          }
+          console.error("Search failed", err);
+          setError("Search failed. Please try again.");
+        })
+        .finally(() => {
+          if (!controller.signal.aborted) {
+            setSearching(false);
+          }
+        });
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query]);
+
+  const trimmedQuery = query.trim();
+
+  return (
+    <div className="session-search">
+      <input
+        type="search"
+        className="session-search-input"
+        placeholder="Search sessions and messages…"
+        value={query}
+        onChange={(event) => setQuery(event.target.value)}
+        onKeyDown={(event) => {
+          if (event.key === "Escape") {
+            setQuery("");
+          }
+        }}
+        aria-label="Search sessions and messages"
+      />
+      {trimmedQuery.length > 0 ? (
+        <div className="session-search-results">
+          {error ? (
+            <p className="session-search-status session-search-error">{error}</p>
+          ) : searching && results.length === 0 ? (
+            <p className="session-search-status muted">Searching…</p>
+          ) : results.length === 0 ? (
+            <p className="session-search-status muted">No matches.</p>
+          ) : (
+            <ul>
+              {results.map((result) => (
+                <li key={`${result.sessionId}:${result.messageId ?? "title"}`}>
+                  <button
+                    type="button"
+                    className="session-search-result"
+                    onClick={() => onSelect(result)}
+                  >
+                    <span className="session-search-result-title">
+                      {result.sessionTitle}
+                    </span>
+                    <span className="session-search-result-source">
+                      {SOURCE_LABELS[result.source]}
+                    </span>
+                    <span className="session-search-result-snippet">
+                      {highlightTerms(result.snippet, trimmedQuery)}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      ) : null}
+    </div>
+  );
+};
+
+export default SessionSearch;
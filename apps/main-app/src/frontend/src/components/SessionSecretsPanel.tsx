@@ -0,0 +1,237 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  ApiError,
+  fetchSessionSecretAudit,
+  fetchSessionSecrets,
+  saveSessionSecrets,
+} from "../api/client";
+import type { SessionSecret, SessionSecretAuditEntry } from "../api/types";
+
+type SessionSecretsPanelProps = {
+  sessionId: string;
+};
+
+type SecretDraft = {
+  key: string;
+  /** Empty keeps the stored value of an existing secret. */
+  value: string;
+  stored: SessionSecret | null;
+};
+
+const extractErrorMessage = (error: unknown, fallback: string): string => {
+  if (error instanceof ApiError) {
+    const body = error.body as { error?: unknown };
+    if (body && typeof body.error === "string" && body.error.trim().length > 0) {
+      return body.error;
+    }
+  }
+  return fallback;
+};
+
+const toDrafts = (secrets: SessionSecret[]): SecretDraft[] =>
+  secrets.map((secret) => ({ key: secret.key, value: "", stored: secret }));
+
+/**
+ * Secret env vars of a session. Stored values are never shown; they can only
+ * be replaced or removed. Lists who changed which key.
+ */
+const SessionSecretsPanel = ({ sessionId }: SessionSecretsPanelProps) => {
+  const [drafts, setDrafts] = useState<SecretDraft[]>([]);
+  const [audit, setAudit] = useState<SessionSecretAuditEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [encryptionAvailable, setEncryptionAvailable] = useState(true);
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [{ secrets, encryptionAvailable: canEncrypt }, entries] = await Promise.all([
+        fetchSessionSecrets(sessionId),
+        fetchSessionSecretAudit(sessionId),
+      ]);
+      setDrafts(toDrafts(secrets));
+      setEncryptionAvailable(canEncrypt);
+      setAudit(entries);
+    } catch (loadError) {
+      console.error("Failed to load session secrets", loadError);
+      setError("Unable to load secrets");
+    } finally {
+      setLoading(false);
+    }
+  }, [sessionId]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const updateDraft = (index: number, changes: Partial<SecretDraft>) => {
+    setDrafts((current) =>
+      current.map((draft, draftIndex) => (draftIndex === index ? { ...draft, ...changes } : draft)),
+    );
+    setNotice(null);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const secrets = drafts
+        .filter((draft) => draft.key.trim())
+        .map((draft) =>
+          draft.stored && !draft.value
+            ? { key: draft.key.trim() }
+            : { key: draft.key.trim(), value: draft.value },
+        );
+      setDrafts(toDrafts(await saveSessionSecrets(sessionId, secrets)));
+      setAudit(await fetchSessionSecretAudit(sessionId));
+      setNotice("Secrets saved. Restart the service to apply them.");
+    } catch (saveError) {
+      console.error("Failed to save session secrets", saveError);
+      setError(extractErrorMessage(saveError, "Unable to save secrets."));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="usage-panel">
+      <section className="admin-section">
+        <h3>Secrets</h3>
+        <p className="muted">
+          Encrypted environment variables passed to the session's service and agent runs.
+          Stored values are never shown again; leave a value empty to keep it.
+        </p>
+        {!encryptionAvailable && (
+          <div className="error-text">
+            CODEX_WEBAPP_SECRET is not set on the server, so secrets cannot be stored
+            encrypted. Existing secrets can be removed, but not added or changed.
+          </div>
+        )}
+        {error && <div className="error-text">{error}</div>}
+        {notice && <p className="muted">{notice}</p>}
+
+        {loading && drafts.length === 0 ? (
+          <div className="placeholder">Loading secrets…</div>
+        ) : (
+          <>
+            {drafts.length === 0 ? (
+              <div className="placeholder">No secrets yet.</div>
+            ) : (
+              <table className="usage-table">
+                <thead>
+                  <tr>
+                    <th>Key</th>
+                    <th>Value</th>
+                    <th>Last changed</th>
+                    <th />
+                  </tr>
+                </thead>
+                <tbody>
+                  {drafts.map((draft, index) => (
+                    <tr key={draft.stored?.key ?? `new-${index}`}>
+                      <td>
+                        {draft.stored ? (
+                          draft.key
+                        ) : (
+                          <input
+                            type="text"
+                            placeholder="KEY"
+                            value={draft.key}
+                            onChange={(event) => updateDraft(index, { key: event.target.value })}
+                            disabled={saving}
+                          />
+                        )}
+                      </td>
+                      <td>
+                        <input
+                          type="password"
+                          autoComplete="off"
+                          placeholder={draft.stored ? "••••••••" : "value"}
+                          value={draft.value}
+                          onChange={(event) => updateDraft(index, { value: event.target.value })}
+                          disabled={saving || !encryptionAvailable}
+                        />
+                      </td>
+                      <td>
+                        {draft.stored
+                          ? `${new Date(draft.stored.updatedAt).toLocaleString()}${
+                              draft.stored.updatedBy ? ` by ${draft.stored.updatedBy}` : ""
+                            }`
+                          : "—"}
+                      </td>
+                      <td className="usage-table-actions">
+                        <button
+                          type="button"
+                          className="danger-link"
+                          onClick={() =>
+                            setDrafts((current) =>
+                              current.filter((_, draftIndex) => draftIndex !== index),
+                            )
+                          }
+                          disabled={saving}
+                        >
+                          Remove
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+            <div className="admin-section-row">
+              <button
+                type="button"
+                onClick={() =>
+                  setDrafts((current) => [...current, { key: "", value: "", stored: null }])
+                }
+                disabled={saving || !encryptionAvailable}
+              >
+                Add secret
+              </button>
+              <button type="button" onClick={() => void handleSave()} disabled={saving}>
+                {saving ? "Saving…" : "Save"}
+              </button>
+              <button type="button" onClick={() => void refresh()} disabled={saving || loading}>
+                Discard changes
+              </button>
+            </div>
+          </>
+        )}
+      </section>
+
+      <section className="admin-section">
+        <h3>Change history</h3>
+        {audit.length === 0 ? (
+          <div className="placeholder">No changes recorded.</div>
+        ) : (
+          <table className="usage-table">
+            <thead>
+              <tr>
+                <th>When</th>
+                <th>Key</th>
+                <th>Change</th>
+                <th>By</th>
+              </tr>
+            </thead>
+            <tbody>
+              {audit.map((entry) => (
+                <tr key={entry.id}>
+                  <td>{new Date(entry.createdAt).toLocaleString()}</td>
+                  <td>{entry.key}</td>
+                  <td>{entry.action}</td>
+                  <td>{entry.username ?? "—"}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default SessionSecretsPanel;
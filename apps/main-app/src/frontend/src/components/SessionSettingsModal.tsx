@@ -1,12 +1,18 @@
-import { FormEvent, useState } from "react";
+import { FormEvent, useEffect, useState } from "react";
+import { fetchDeployTargetSummaries } from "../api/client";
+import type { DeployTargetSummary } from "../../../shared/dokploy";
 
 export type SessionSettings = {
   title: string;
   githubRepo: string;
   gitBranch?: string;
   customEnvVars: Record<string, string>;
+  /** Stored encrypted and never shown again. */
+  secretEnvVars: Record<string, string>;
   dockerfilePath: string;
   buildSettings: Record<string, unknown>;
+  /** Omitted to deploy to the default target. */
+  deployTargetId?: string;
 };
 
 type Props = {
@@ -20,13 +26,36 @@ const SessionSettingsModal = ({ open, onClose, onSubmit }: Props) => {
   const [githubRepo, setGithubRepo] = useState("");
   const [gitBranch, setGitBranch] = useState("");
   const [dockerfilePath, setDockerfilePath] = useState("");
-  const [envVars, setEnvVars] = useState<Array<{ key: string; value: string }>>([
-    { key: "", value: "" },
-  ]);
+  const [envVars, setEnvVars] = useState<
+    Array<{ key: string; value: string; isSecret: boolean }>
+  >([{ key: "", value: "", isSecret: false }]);
+  const [deployTargetId, setDeployTargetId] = useState("");
+  const [deployTargets, setDeployTargets] = useState<DeployTargetSummary[]>([]);
   const [submitting, setSubmitting] = useState(false);
 
+  useEffect(() => {
+    if (!open) {
+      return;
+    }
+
+    let canceled = false;
+    fetchDeployTargetSummaries()
+      .then((targets) => {
+        if (!canceled) {
+          setDeployTargets(targets);
+        }
+      })
+      .catch((error) => {
+        console.error("Failed to load deployment targets", error);
+      });
+
+    return () => {
+      canceled = true;
+    };
+  }, [open]);
+
   const handleAddEnvVar = () => {
-    setEnvVars([...envVars, { key: "", value: "" }]);
+    setEnvVars([...envVars, { key: "", value: "", isSecret: false }]);
   };
 
   const handleRemoveEnvVar = (index: number) => {
@@ -43,14 +72,21 @@ const SessionSettingsModal = ({ open, onClose, onSubmit }: Props) => {
     setEnvVars(updated);
   };
 
+  const handleEnvVarSecretChange = (index: number, isSecret: boolean) => {
+    const updated = [...envVars];
+    updated[index].isSecret = isSecret;
+    setEnvVars(updated);
+  };
+
   const handleSubmit = async (event: FormEvent) => {
     event.preventDefault();
     setSubmitting(true);
 
     const customEnvVars: Record<string, string> = {};
+    const secretEnvVars: Record<string, string> = {};
     for (const item of envVars) {
       if (item.key.trim()) {
-        customEnvVars[item.key.trim()] = item.value;
+        (item.isSecret ? secretEnvVars : customEnvVars)[item.key.trim()] = item.value;
       }
     }
 
@@ -60,8 +96,10 @@ const SessionSettingsModal = ({ open, onClose, onSubmit }: Props) => {
         githubRepo: githubRepo.trim(),
         gitBranch: gitBranch.trim() || undefined,
         customEnvVars,
+        secretEnvVars,
         dockerfilePath: dockerfilePath.trim(),
         buildSettings: {},
+        deployTargetId: deployTargetId || undefined,
       });
 
       // Reset form
@@ -69,7 +107,8 @@ const SessionSettingsModal = ({ open, onClose, onSubmit }: Props) => {
       setGithubRepo("");
       setGitBranch("");
       setDockerfilePath("");
-      setEnvVars([{ key: "", value: "" }]);
+      setDeployTargetId("");
+      setEnvVars([{ key: "", value: "", isSecret: false }]);
     } finally {
       setSubmitting(false);
     }
@@ -180,6 +219,32 @@ const SessionSettingsModal = ({ open, onClose, onSubmit }: Props) => {
             </small>
           </label>
 
+          {deployTargets.length > 1 && (
+            <label style={{ display: "block", marginBottom: "1em" }}>
+              <span style={{ display: "block", marginBottom: "0.5em" }}>
+                Deployment Target
+              </span>
+              <select
+                value={deployTargetId}
+                onChange={(e) => setDeployTargetId(e.target.value)}
+                disabled={submitting}
+                style={{ width: "100%" }}
+              >
+                <option value="">
+                  Default target ({deployTargets.find((target) => target.isDefault)?.name ?? "none"})
+                </option>
+                {deployTargets.map((target) => (
+                  <option key={target.id} value={target.id}>
+                    {target.name}
+                  </option>
+                ))}
+              </select>
+              <small className="muted">
+                Dokploy server this session's service is deployed to
+              </small>
+            </label>
+          )}
+
           <div style={{ marginBottom: "1em" }}>
             <div
               style={{
@@ -221,7 +286,8 @@ const SessionSettingsModal = ({ open, onClose, onSubmit }: Props) => {
                   style={{ flex: "1" }}
                 />
                 <input
-                  type="text"
+                  type={envVar.isSecret ? "password" : "text"}
+                  autoComplete="off"
                   value={envVar.value}
                   onChange={(e) =>
                     handleEnvVarChange(index, "value", e.target.value)
@@ -230,6 +296,19 @@ const SessionSettingsModal = ({ open, onClose, onSubmit }: Props) => {
                   disabled={submitting}
                   style={{ flex: "2" }}
                 />
+                <label
+                  className="muted"
+                  style={{ display: "flex", gap: "0.25em", alignItems: "center" }}
+                  title="Encrypted at rest and never shown again"
+                >
+                  <input
+                    type="checkbox"
+                    checked={envVar.isSecret}
+                    onChange={(e) => handleEnvVarSecretChange(index, e.target.checked)}
+                    disabled={submitting}
+                  />
+                  Secret
+                </label>
                 <button
                   type="button"
                   onClick={() => handleRemoveEnvVar(index)}
@@ -0,0 +1,210 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  ApiError,
+  fetchSsoProviders,
+  fetchTwoFactorStatus,
+  updateSsoSettings,
+  updateTwoFactorPolicy,
+} from "../api/client";
+import type { SsoProvidersResponse, TwoFactorRequirement } from "../api/types";
+import { useAuth } from "../context/AuthContext";
+
+const errorMessages: Record<string, string> = {
+  NoSsoProviders: "Configure a single sign-on provider before disabling password sign-in.",
+  LinkSsoAccountFirst: "Link your own account to a provider before disabling password sign-in.",
+  TwoFactorUnavailable: "Set CODEX_WEBAPP_SECRET on the server to use two-factor authentication.",
+};
+
+const requirementLabels: Record<TwoFactorRequirement, string> = {
+  off: "Optional",
+  admins: "Required for admins",
+  all: "Required for everyone",
+};
+
+const extractErrorMessage = (error: unknown, fallback: string): string => {
+  if (error instanceof ApiError) {
+    const body = error.body as { error?: unknown };
+    if (body && typeof body.error === "string" && body.error.trim().length > 0) {
+      return errorMessages[body.error] ?? body.error;
+    }
+  }
+  return fallback;
+};
+
+// Set by the server after linking an account, then removed from the URL
+const takeLinkResult = (): { linked: string | null; error: string | null } => {
+  const url = new URL(window.location.href);
+  const linked = url.searchParams.get("sso_linked");
+  const error = url.searchParams.get("sso_error");
+  if (linked !== null || error !== null) {
+    url.searchParams.delete("sso_linked");
+    url.searchParams.delete("sso_error");
+    window.history.replaceState(null, "", url.toString());
+  }
+  return { linked, error };
+};
+
+/**
+ * Single sign-on providers configured on the server, linking them to the
+ * admin's own account, switching password sign-in off, and requiring
+ * two-factor authentication.
+ */
+const SignInSettingsPanel = () => {
+  const { impersonator } = useAuth();
+  const [settings, setSettings] = useState<SsoProvidersResponse | null>(null);
+  const [requirement, setRequirement] = useState<TwoFactorRequirement | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [linkResult] = useState(takeLinkResult);
+  const [error, setError] = useState<string | null>(linkResult.error);
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [providers, twoFactor] = await Promise.all([
+        fetchSsoProviders(),
+        fetchTwoFactorStatus(),
+      ]);
+      setSettings(providers);
+      setRequirement(twoFactor.requirement);
+    } catch (loadError) {
+      console.error("Failed to load sign-in settings", loadError);
+      setError("Unable to load sign-in settings");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const handleTogglePasswordLogin = async (enabled: boolean) => {
+    setSaving(true);
+    setError(null);
+    try {
+      const result = await updateSsoSettings({ passwordLoginEnabled: enabled });
+      setSettings((current) =>
+        current ? { ...current, passwordLoginEnabled: result.passwordLoginEnabled } : current,
+      );
+    } catch (saveError) {
+      console.error("Failed to update sign-in settings", saveError);
+      setError(extractErrorMessage(saveError, "Unable to update sign-in settings."));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRequirementChange = async (next: TwoFactorRequirement) => {
+    setSaving(true);
+    setError(null);
+    try {
+      setRequirement((await updateTwoFactorPolicy(next)).requirement);
+    } catch (saveError) {
+      console.error("Failed to update two-factor requirement", saveError);
+      setError(extractErrorMessage(saveError, "Unable to update the two-factor requirement."));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const linkedName = linkResult.linked
+    ? settings?.providers.find((provider) => provider.id === linkResult.linked)?.name ??
+      linkResult.linked
+    : null;
+
+  return (
+    <div className="usage-panel">
+      <section className="admin-section">
+        <h3>Single Sign-On</h3>
+        <p className="muted">
+          Providers are configured with environment variables on the server. With
+          SSO_AUTO_PROVISION set to true, members of a provider's allowed groups or organizations
+          get an account the first time they sign in; others need an account that is already
+          linked to the provider. Admin access follows the provider's admin groups or
+          organizations.
+        </p>
+        {error && <div className="error-text">{error}</div>}
+        {linkedName && <p className="muted">Linked your account to {linkedName}.</p>}
+
+        {loading ? (
+          <div className="placeholder">Loading providers…</div>
+        ) : !settings || settings.providers.length === 0 ? (
+          <div className="placeholder">No providers are configured.</div>
+        ) : (
+          <table className="usage-table">
+            <thead>
+              <tr>
+                <th>Provider</th>
+                <th>Type</th>
+                <th>Your account</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {settings.providers.map((provider) => (
+                <tr key={provider.id}>
+                  <td>{provider.name}</td>
+                  <td>{provider.type === "github" ? "GitHub" : "OpenID Connect"}</td>
+                  <td>{provider.linked ? "Linked" : "Not linked"}</td>
+                  <td className="usage-table-actions">
+                    {!provider.linked && !impersonator && (
+                      <a className="ghost-button" href={`${provider.loginUrl}?link=true`}>
+                        Link account
+                      </a>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+
+      <section className="admin-section">
+        <h3>Password Sign-In</h3>
+        {settings?.passwordLoginForced ? (
+          <p className="muted">
+            Password sign-in is kept on by FORCE_PASSWORD_LOGIN on the server.
+          </p>
+        ) : (
+          <label className="checkbox">
+            <input
+              type="checkbox"
+              checked={settings?.passwordLoginEnabled ?? true}
+              onChange={(event) => void handleTogglePasswordLogin(event.target.checked)}
+              disabled={loading || saving || Boolean(impersonator)}
+            />
+            Allow signing in with a username and password
+          </label>
+        )}
+      </section>
+
+      <section className="admin-section">
+        <h3>Two-Factor Authentication</h3>
+        <p className="muted">
+          Users who must use two-factor authentication and have not set it up are asked to do so
+          before they can continue. Their personal API tokens are refused until then.
+        </p>
+        <label>
+          Authenticator codes
+          <select
+            value={requirement ?? "off"}
+            onChange={(event) =>
+              void handleRequirementChange(event.target.value as TwoFactorRequirement)
+            }
+            disabled={loading || saving || Boolean(impersonator)}
+          >
+            {(Object.keys(requirementLabels) as TwoFactorRequirement[]).map((value) => (
+              <option key={value} value={value}>
+                {requirementLabels[value]}
+              </option>
+            ))}
+          </select>
+        </label>
+      </section>
+    </div>
+  );
+};
+
+export default SignInSettingsPanel;
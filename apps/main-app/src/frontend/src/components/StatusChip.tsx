@@ -1,8 +1,13 @@
 import type { HealthStatus } from '../hooks/useHealthStatus';
+import type { SessionServiceStatus } from '../api/types';
 
 interface StatusChipProps {
   status: HealthStatus;
   lastUpdated: Date | null;
+  /** Replaces the default label of the status. */
+  label?: string;
+  /** Shown on hover, e.g. why a check failed. */
+  detail?: string | null;
 }
 
 const STATUS_LABELS: Record<HealthStatus, string> = {
@@ -11,15 +16,65 @@ const STATUS_LABELS: Record<HealthStatus, string> = {
   unknown: 'Unknown'
 };
 
-export function StatusChip({ status, lastUpdated }: StatusChipProps) {
-  const title =
+/**
+ * Chip props for a session service, from its stored status and the result
+ * of the server's last health check.
+ */
+export function getServiceHealthChip(
+  service: SessionServiceStatus | null | undefined
+): StatusChipProps {
+  const lastUpdated = service?.healthCheckedAt
+    ? new Date(service.healthCheckedAt)
+    : null;
+  const restarts = service?.restartCount ?? 0;
+  const restartNote =
+    restarts > 0
+      ? `Restarted automatically ${restarts} time${restarts === 1 ? '' : 's'}`
+      : null;
+
+  if (!service || service.status === 'not_found') {
+    return { status: 'unknown', lastUpdated, label: 'No service' };
+  }
+  if (service.status === 'error') {
+    return {
+      status: 'error',
+      lastUpdated,
+      label: 'Failed',
+      detail: service.error ?? restartNote
+    };
+  }
+  if (service.status !== 'running') {
+    return { status: 'unknown', lastUpdated, label: service.status };
+  }
+  if (service.health === 'unhealthy') {
+    return {
+      status: 'error',
+      lastUpdated,
+      label: 'Unhealthy',
+      detail: service.error ?? restartNote
+    };
+  }
+  if (service.health === 'healthy') {
+    return { status: 'healthy', lastUpdated, detail: restartNote };
+  }
+  return {
+    status: 'unknown',
+    lastUpdated,
+    label: restarts > 0 ? 'Restarting' : 'Starting',
+    detail: restartNote
+  };
+}
+
+export function StatusChip({ status, lastUpdated, label, detail }: StatusChipProps) {
+  const checked =
     lastUpdated !== null
       ? `Last checked at ${lastUpdated.toLocaleTimeString()}`
       : 'Waiting for status...';
+  const title = detail ? `${detail}\n${checked}` : checked;
 
   return (
     <span className={`status-chip status-${status}`} title={title}>
-      {STATUS_LABELS[status]}
+      {label ?? STATUS_LABELS[status]}
     </span>
   );
 }
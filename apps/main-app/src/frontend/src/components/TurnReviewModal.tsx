@@ -0,0 +1,269 @@
+import { useEffect, useState } from "react";
+import {
+  acceptTurnChanges,
+  ApiError,
+  fetchSessionTurns,
+  fetchTurnDiff,
+  revertTurnChanges,
+} from "../api/client";
+import type {
+  TurnChangeDecision,
+  TurnChangeSelection,
+  TurnDiff,
+  TurnDiffFile,
+} from "../api/types";
+
+type TurnReviewModalProps = {
+  sessionId: string;
+  /** Assistant message whose turn is reviewed. */
+  messageId: string;
+  onClose: () => void;
+};
+
+const statusLabels: Record<TurnDiffFile["status"], string> = {
+  added: "Added",
+  modified: "Modified",
+  deleted: "Deleted",
+};
+
+const decisionLabels: Record<TurnChangeDecision, string> = {
+  accepted: "Accepted",
+  reverted: "Reverted",
+};
+
+const extractErrorMessage = (error: unknown, fallback: string): string => {
+  if (error instanceof ApiError) {
+    const body = error.body as { error?: unknown };
+    if (body && typeof body.error === "string" && body.error.trim().length > 0) {
+      return body.error;
+    }
+  }
+  return fallback;
+};
+
+const lineClassName = (line: string): string => {
+  if (line.startsWith("+")) {
+    return "turn-review-line turn-review-line-added";
+  }
+  if (line.startsWith("-")) {
+    return "turn-review-line turn-review-line-removed";
+  }
+  if (line.startsWith("\\")) {
+    return "turn-review-line turn-review-line-note";
+  }
+  return "turn-review-line";
+};
+
+const TurnReviewModal = ({
+  sessionId,
+  messageId,
+  onClose,
+}: TurnReviewModalProps) => {
+  const [diff, setDiff] = useState<TurnDiff | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [pendingAction, setPendingAction] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      setLoading(true);
+      setLoadError(null);
+      try {
+        const turns = await fetchSessionTurns(sessionId);
+        const turn = turns.find((entry) => entry.assistantMessageId === messageId);
+        if (!turn) {
+          if (!cancelled) {
+            setLoadError("No agent turn was recorded for this message.");
+          }
+          return;
+        }
+        const turnDiff = await fetchTurnDiff(sessionId, turn.id);
+        if (!cancelled) {
+          setDiff(turnDiff);
+        }
+      } catch (error) {
+        console.error("Failed to load turn diff", error);
+        if (!cancelled) {
+          setLoadError(extractErrorMessage(error, "Unable to load the changes of this turn."));
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    void load();
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId, messageId]);
+
+  const handleAction = async (
+    decision: TurnChangeDecision,
+    files: TurnChangeSelection,
+    actionKey: string,
+  ) => {
+    if (!diff || pendingAction) {
+      return;
+    }
+    if (
+      decision === "reverted" &&
+      !window.confirm("Restore the selected changes to their state before this turn?")
+    ) {
+      return;
+    }
+
+    setPendingAction(actionKey);
+    setActionError(null);
+    try {
+      const update = decision === "reverted" ? revertTurnChanges : acceptTurnChanges;
+      setDiff(await update(sessionId, diff.turnId, files));
+    } catch (error) {
+      console.error("Failed to review turn changes", error);
+      setActionError(extractErrorMessage(error, "Unable to update the changes."));
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const renderDecisionControls = (
+    decision: TurnChangeDecision | null,
+    files: TurnChangeSelection,
+    actionKey: string,
+  ) =>
+    decision === "reverted" ? (
+      <span className="turn-review-decision">{decisionLabels.reverted}</span>
+    ) : (
+      <span className="turn-review-actions">
+        {decision ? (
+          <span className="turn-review-decision">{decisionLabels[decision]}</span>
+        ) : (
+          <button
+            type="button"
+            className="ghost-button"
+            disabled={pendingAction !== null}
+            onClick={() => void handleAction("accepted", files, `${actionKey}:accept`)}
+          >
+            {pendingAction === `${actionKey}:accept` ? "Accepting…" : "Accept"}
+          </button>
+        )}
+        <button
+          type="button"
+          className="ghost-button"
+          disabled={pendingAction !== null}
+          onClick={() => void handleAction("reverted", files, `${actionKey}:revert`)}
+        >
+          {pendingAction === `${actionKey}:revert` ? "Reverting…" : "Revert"}
+        </button>
+      </span>
+    );
+
+  const renderFile = (file: TurnDiffFile) => (
+    <section key={file.path} className="turn-review-file">
+      <header className="turn-review-file-header">
+        <span className="turn-review-file-path" title={file.path}>
+          {file.path}
+        </span>
+        <span className={`turn-review-file-status turn-review-file-${file.status}`}>
+          {statusLabels[file.status]}
+        </span>
+        {!file.binary ? (
+          <span className="turn-review-file-stats">
+            +{file.additions} −{file.deletions}
+          </span>
+        ) : null}
+        {renderDecisionControls(file.decision, [{ path: file.path }], file.path)}
+      </header>
+      {file.binary ? (
+        <p className="turn-review-muted">Binary file changed.</p>
+      ) : file.truncated ? (
+        <p className="turn-review-muted">
+          This diff is too large to display. The file can still be accepted or
+          reverted as a whole.
+        </p>
+      ) : (
+        file.hunks.map((hunk) => (
+          <div
+            key={hunk.index}
+            className={`turn-review-hunk${
+              hunk.decision === "reverted" ? " turn-review-hunk-reverted" : ""
+            }`}
+          >
+            <div className="turn-review-hunk-header">
+              <code>{hunk.header}</code>
+              {file.hunks.length > 1
+                ? renderDecisionControls(
+                    hunk.decision,
+                    [{ path: file.path, hunks: [hunk.index] }],
+                    `${file.path}#${hunk.index}`,
+                  )
+                : null}
+            </div>
+            <pre className="turn-review-hunk-body">
+              {hunk.lines.map((line, index) => (
+                <span key={index} className={lineClassName(line)}>
+                  {line}
+                  {"\n"}
+                </span>
+              ))}
+            </pre>
+          </div>
+        ))
+      )}
+    </section>
+  );
+
+  return (
+    <div
+      className="workspace-modal-backdrop"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="turn-review-title"
+    >
+      <div className="workspace-modal turn-review-modal">
+        <header className="workspace-modal-header">
+          <div>
+            <h2 id="turn-review-title">Review Changes</h2>
+            {diff?.available ? (
+              <p className="workspace-modal-subtitle">
+                {diff.files.length} file{diff.files.length === 1 ? "" : "s"} changed
+                during this turn
+              </p>
+            ) : null}
+          </div>
+          <button
+            type="button"
+            className="workspace-modal-close"
+            onClick={onClose}
+            aria-label="Close change review"
+          >
+            ×
+          </button>
+        </header>
+
+        <div className="turn-review-body">
+          {actionError ? <div className="error-text">{actionError}</div> : null}
+          {loading ? (
+            <p className="turn-review-muted">Loading changes…</p>
+          ) : loadError ? (
+            <div className="error-text">{loadError}</div>
+          ) : !diff?.available ? (
+            <p className="turn-review-muted">
+              No snapshot is available for this turn. Changes can be reviewed
+              once the turn has finished.
+            </p>
+          ) : diff.files.length === 0 ? (
+            <p className="turn-review-muted">This turn did not change any files.</p>
+          ) : (
+            diff.files.map(renderFile)
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TurnReviewModal;
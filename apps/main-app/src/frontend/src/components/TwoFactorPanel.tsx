@@ -0,0 +1,246 @@
+import { FormEvent, useCallback, useEffect, useState } from "react";
+import {
+  ApiError,
+  disableTwoFactor,
+  enableTwoFactor,
+  fetchTwoFactorStatus,
+  regenerateRecoveryCodes,
+  startTwoFactorSetup,
+} from "../api/client";
+import type { TwoFactorSetupResponse, TwoFactorStatus } from "../api/types";
+import { useAuth } from "../context/AuthContext";
+
+const errorMessages: Record<string, string> = {
+  InvalidTwoFactorCode: "That code is not valid. Check your authenticator app's clock.",
+  TwoFactorRequired: "Your administrator requires two-factor authentication.",
+  TwoFactorUnavailable: "Set CODEX_WEBAPP_SECRET on the server to use two-factor authentication.",
+};
+
+const extractErrorMessage = (error: unknown, fallback: string): string => {
+  if (error instanceof ApiError) {
+    const body = error.body as { error?: unknown };
+    if (body && typeof body.error === "string" && body.error.trim().length > 0) {
+      return errorMessages[body.error] ?? body.error;
+    }
+  }
+  return fallback;
+};
+
+/**
+ * Turns two-factor authentication with an authenticator app on and off, and
+ * hands out recovery codes. Recovery codes are shown once, right after they
+ * are created.
+ */
+const TwoFactorPanel = () => {
+  const { impersonator, refresh: refreshAuth } = useAuth();
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [setup, setSetup] = useState<TwoFactorSetupResponse | null>(null);
+  const [code, setCode] = useState("");
+  const [working, setWorking] = useState(false);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    try {
+      setStatus(await fetchTwoFactorStatus());
+    } catch (loadError) {
+      console.error("Failed to load two-factor status", loadError);
+      setError("Unable to load two-factor authentication settings");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const runAction = async (action: () => Promise<void>, fallback: string) => {
+    setWorking(true);
+    setError(null);
+    try {
+      await action();
+    } catch (actionError) {
+      console.error(fallback, actionError);
+      setError(extractErrorMessage(actionError, fallback));
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleStartSetup = () =>
+    runAction(async () => {
+      setSetup(await startTwoFactorSetup());
+      setCode("");
+    }, "Unable to start two-factor setup.");
+
+  const handleEnable = (event: FormEvent) => {
+    event.preventDefault();
+    void runAction(async () => {
+      setRecoveryCodes(await enableTwoFactor(code));
+      setSetup(null);
+      setCode("");
+    }, "Unable to turn on two-factor authentication.");
+  };
+
+  const handleRegenerate = () =>
+    runAction(async () => {
+      setRecoveryCodes(await regenerateRecoveryCodes(code));
+      setCode("");
+    }, "Unable to create new recovery codes.");
+
+  const handleDisable = () => {
+    if (!window.confirm("Turn off two-factor authentication? Only your password will protect your account.")) {
+      return;
+    }
+    void runAction(async () => {
+      await disableTwoFactor(code);
+      setCode("");
+      await refresh();
+    }, "Unable to turn off two-factor authentication.");
+  };
+
+  const handleRecoveryCodesSaved = async () => {
+    setRecoveryCodes(null);
+    await refresh();
+    // Lets the app open once required setup is done
+    await refreshAuth();
+  };
+
+  return (
+    <div className="usage-panel">
+      <section className="admin-section">
+        <h3>Two-Factor Authentication</h3>
+        {error && <div className="error-text">{error}</div>}
+
+        {recoveryCodes ? (
+          <>
+            <p className="muted">
+              Save these recovery codes somewhere safe. Each one signs you in once if you lose
+              your authenticator app, and they will not be shown again.
+            </p>
+            <pre className="two-factor-recovery-codes">{recoveryCodes.join("\n")}</pre>
+            <div className="admin-section-row">
+              <button
+                type="button"
+                className="ghost-button"
+                onClick={() => void navigator.clipboard?.writeText(recoveryCodes.join("\n"))}
+              >
+                Copy
+              </button>
+              <button type="button" onClick={() => void handleRecoveryCodesSaved()}>
+                I saved them
+              </button>
+            </div>
+          </>
+        ) : loading || !status ? (
+          <div className="placeholder">Loading…</div>
+        ) : impersonator ? (
+          <p className="muted">
+            Two-factor authentication is {status.enabled ? "on" : "off"} for this user. It cannot
+            be changed while viewing as another user.
+          </p>
+        ) : status.enabled ? (
+          <>
+            <p className="muted">
+              On since {new Date(status.enabledAt!).toLocaleString()}.{" "}
+              {status.recoveryCodesRemaining} recovery codes left.
+            </p>
+            <div className="admin-section-row">
+              <label>
+                Current code
+                <input
+                  type="text"
+                  value={code}
+                  onChange={(event) => setCode(event.target.value)}
+                  autoComplete="one-time-code"
+                  disabled={working}
+                />
+              </label>
+              <button
+                type="button"
+                className="ghost-button"
+                onClick={() => void handleRegenerate()}
+                disabled={working || !code.trim()}
+              >
+                New recovery codes
+              </button>
+              {!status.required && (
+                <button
+                  type="button"
+                  className="danger-link"
+                  onClick={handleDisable}
+                  disabled={working || !code.trim()}
+                >
+                  Turn off
+                </button>
+              )}
+            </div>
+          </>
+        ) : setup ? (
+          <form onSubmit={handleEnable}>
+            <p className="muted">
+              Scan the QR code with an authenticator app, or enter the key by hand, then enter
+              the code it shows.
+            </p>
+            <img
+              className="two-factor-qr"
+              src={setup.qrCode}
+              alt="QR code for your authenticator app"
+            />
+            <p>
+              <code>{setup.secret}</code>
+            </p>
+            <div className="admin-section-row">
+              <label>
+                Code
+                <input
+                  type="text"
+                  value={code}
+                  onChange={(event) => setCode(event.target.value)}
+                  autoComplete="one-time-code"
+                  autoFocus
+                  disabled={working}
+                />
+              </label>
+              <button type="submit" disabled={working || !code.trim()}>
+                {working ? "Checking…" : "Turn on"}
+              </button>
+              <button
+                type="button"
+                className="ghost-button"
+                onClick={() => setSetup(null)}
+                disabled={working}
+              >
+                Cancel
+              </button>
+            </div>
+          </form>
+        ) : (
+          <>
+            <p className="muted">
+              {!status.available
+                ? "Two-factor authentication needs CODEX_WEBAPP_SECRET to be set on the server."
+                : status.required
+                  ? "Your administrator requires two-factor authentication. Set it up to continue."
+                  : "Ask for a code from an authenticator app in addition to your password when signing in."}
+            </p>
+            <div className="admin-section-row">
+              <button
+                type="button"
+                onClick={() => void handleStartSetup()}
+                disabled={working || !status.available}
+              >
+                Set up
+              </button>
+            </div>
+          </>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default TwoFactorPanel;
@@ -0,0 +1,361 @@
+import { FormEvent, useCallback, useEffect, useState } from "react";
+import {
+  deleteModelPricing,
+  fetchModelPricing,
+  fetchUsageReport,
+  saveModelPricing,
+} from "../api/client";
+import type {
+  AuthUser,
+  ModelPricing,
+  UsageGroupBy,
+  UsageReport,
+} from "../api/types";
+
+type UsagePanelProps = {
+  users: AuthUser[];
+};
+
+const groupByLabels: Record<UsageGroupBy, string> = {
+  user: "User",
+  session: "Session",
+  provider: "Provider",
+  day: "Day",
+};
+
+const tokenFormatter = new Intl.NumberFormat();
+const costFormatter = new Intl.NumberFormat(undefined, {
+  minimumFractionDigits: 2,
+  maximumFractionDigits: 4,
+});
+
+const emptyPricingForm = {
+  model: "",
+  inputPerMillion: "",
+  cachedInputPerMillion: "",
+  outputPerMillion: "",
+};
+
+const parsePrice = (value: string): number | null => {
+  if (value.trim().length === 0) {
+    return null;
+  }
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : Number.NaN;
+};
+
+const UsagePanel = ({ users }: UsagePanelProps) => {
+  const [groupBy, setGroupBy] = useState<UsageGroupBy>("user");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [userId, setUserId] = useState("");
+  const [report, setReport] = useState<UsageReport | null>(null);
+  const [reportLoading, setReportLoading] = useState(true);
+  const [reportError, setReportError] = useState<string | null>(null);
+
+  const [pricing, setPricing] = useState<ModelPricing[]>([]);
+  const [pricingError, setPricingError] = useState<string | null>(null);
+  const [pricingForm, setPricingForm] = useState(emptyPricingForm);
+  const [pricingSaving, setPricingSaving] = useState(false);
+
+  const refreshReport = useCallback(async () => {
+    setReportLoading(true);
+    setReportError(null);
+    try {
+      const data = await fetchUsageReport({
+        groupBy,
+        from: from || undefined,
+        to: to || undefined,
+        userId: userId || undefined,
+      });
+      setReport(data);
+    } catch (error) {
+      console.error("Failed to load usage report", error);
+      setReportError("Unable to load usage report");
+    } finally {
+      setReportLoading(false);
+    }
+  }, [groupBy, from, to, userId]);
+
+  const refreshPricing = useCallback(async () => {
+    try {
+      setPricing(await fetchModelPricing());
+    } catch (error) {
+      console.error("Failed to load model pricing", error);
+      setPricingError("Unable to load model pricing");
+    }
+  }, []);
+
+  useEffect(() => {
+    void refreshReport();
+  }, [refreshReport]);
+
+  useEffect(() => {
+    void refreshPricing();
+  }, [refreshPricing]);
+
+  const handleEditPricing = (entry: ModelPricing) => {
+    setPricingError(null);
+    setPricingForm({
+      model: entry.model,
+      inputPerMillion: String(entry.inputPerMillion),
+      cachedInputPerMillion:
+        entry.cachedInputPerMillion === null ? "" : String(entry.cachedInputPerMillion),
+      outputPerMillion: String(entry.outputPerMillion),
+    });
+  };
+
+  const handleSavePricing = async (event: FormEvent) => {
+    event.preventDefault();
+    if (pricingSaving) {
+      return;
+    }
+
+    const model = pricingForm.model.trim();
+    const inputPerMillion = parsePrice(pricingForm.inputPerMillion);
+    const cachedInputPerMillion = parsePrice(pricingForm.cachedInputPerMillion);
+    const outputPerMillion = parsePrice(pricingForm.outputPerMillion);
+    if (
+      !model ||
+      inputPerMillion === null ||
+      outputPerMillion === null ||
+      [inputPerMillion, cachedInputPerMillion, outputPerMillion].some((value) =>
+        Number.isNaN(value),
+      )
+    ) {
+      setPricingError("Enter a model and non-negative input and output prices.");
+      return;
+    }
+
+    setPricingError(null);
+    setPricingSaving(true);
+    try {
+      await saveModelPricing(model, {
+        inputPerMillion,
+        cachedInputPerMillion,
+        outputPerMillion,
+      });
+      setPricingForm(emptyPricingForm);
+      await Promise.all([refreshPricing(), refreshReport()]);
+    } catch (error) {
+      console.error("Failed to save model pricing", error);
+      setPricingError("Unable to save model pricing.");
+    } finally {
+      setPricingSaving(false);
+    }
+  };
+
+  const handleDeletePricing = async (model: string) => {
+    if (!window.confirm(`Remove the price for ${model}?`)) {
+      return;
+    }
+    try {
+      await deleteModelPricing(model);
+      await Promise.all([refreshPricing(), refreshReport()]);
+    } catch (error) {
+      console.error("Failed to remove model pricing", error);
+      alert("Unable to remove model pricing.");
+    }
+  };
+
+  return (
+    <div className="usage-panel">
+      <section className="admin-section">
+        <h3>Token Usage</h3>
+        <div className="admin-section-row usage-filters">
+          <label>
+            Group by
+            <select
+              value={groupBy}
+              onChange={(event) => setGroupBy(event.target.value as UsageGroupBy)}
+            >
+              {(Object.keys(groupByLabels) as UsageGroupBy[]).map((option) => (
+                <option key={option} value={option}>
+                  {groupByLabels[option]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            From
+            <input
+              type="date"
+              value={from}
+              max={to || undefined}
+              onChange={(event) => setFrom(event.target.value)}
+            />
+          </label>
+          <label>
+            To
+            <input
+              type="date"
+              value={to}
+              min={from || undefined}
+              onChange={(event) => setTo(event.target.value)}
+            />
+          </label>
+          <label>
+            User
+            <select value={userId} onChange={(event) => setUserId(event.target.value)}>
+              <option value="">All users</option>
+              {users.map((user) => (
+                <option key={user.id} value={user.id}>
+                  {user.username}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        {reportError && <div className="error-text">{reportError}</div>}
+        {reportLoading && !report ? (
+          <div className="placeholder">Loading usage…</div>
+        ) : report ? (
+          <>
+            <p className="muted">
+              {report.from} – {report.to} (UTC) · {tokenFormatter.format(report.totals.turns)}{" "}
+              turns · {tokenFormatter.format(report.totals.inputTokens)} input ·{" "}
+              {tokenFormatter.format(report.totals.outputTokens)} output · cost{" "}
+              {costFormatter.format(report.totals.cost)}
+              {report.totals.unpricedTurns > 0 &&
+                ` (${report.totals.unpricedTurns} turns without a model price)`}
+            </p>
+            {report.rows.length === 0 ? (
+              <div className="placeholder">No usage recorded in this period.</div>
+            ) : (
+              <table className="usage-table">
+                <thead>
+                  <tr>
+                    <th>{groupByLabels[report.groupBy]}</th>
+                    <th>Turns</th>
+                    <th>Input</th>
+                    <th>Cached</th>
+                    <th>Output</th>
+                    <th>Cost</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.rows.map((row) => (
+                    <tr key={row.groupKey}>
+                      <td>{row.label}</td>
+                      <td>{tokenFormatter.format(row.turns)}</td>
+                      <td>{tokenFormatter.format(row.inputTokens)}</td>
+                      <td>{tokenFormatter.format(row.cachedInputTokens)}</td>
+                      <td>{tokenFormatter.format(row.outputTokens)}</td>
+                      <td title={row.unpricedTurns > 0 ? `${row.unpricedTurns} unpriced turns` : undefined}>
+                        {costFormatter.format(row.cost)}
+                        {row.unpricedTurns > 0 && "*"}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </>
+        ) : null}
+      </section>
+
+      <section className="admin-section">
+        <h3>Model Pricing</h3>
+        <p className="muted">Prices per million tokens. Cached input defaults to the input price.</p>
+        {pricing.length === 0 ? (
+          <p className="muted">No model prices configured.</p>
+        ) : (
+          <table className="usage-table">
+            <thead>
+              <tr>
+                <th>Model</th>
+                <th>Input</th>
+                <th>Cached input</th>
+                <th>Output</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {pricing.map((entry) => (
+                <tr key={entry.model}>
+                  <td>{entry.model}</td>
+                  <td>{entry.inputPerMillion}</td>
+                  <td>{entry.cachedInputPerMillion ?? "—"}</td>
+                  <td>{entry.outputPerMillion}</td>
+                  <td className="usage-table-actions">
+                    <button type="button" onClick={() => handleEditPricing(entry)}>
+                      Edit
+                    </button>
+                    <button
+                      type="button"
+                      className="danger-link"
+                      onClick={() => void handleDeletePricing(entry.model)}
+                    >
+                      Remove
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        <form className="admin-section-row usage-pricing-form" onSubmit={handleSavePricing}>
+          <input
+            type="text"
+            placeholder="Model"
+            value={pricingForm.model}
+            onChange={(event) =>
+              setPricingForm((previous) => ({ ...previous, model: event.target.value }))
+            }
+            disabled={pricingSaving}
+          />
+          <input
+            type="number"
+            min="0"
+            step="any"
+            placeholder="Input"
+            value={pricingForm.inputPerMillion}
+            onChange={(event) =>
+              setPricingForm((previous) => ({
+                ...previous,
+                inputPerMillion: event.target.value,
+              }))
+            }
+            disabled={pricingSaving}
+          />
+          <input
+            type="number"
+            min="0"
+            step="any"
+            placeholder="Cached input"
+            value={pricingForm.cachedInputPerMillion}
+            onChange={(event) =>
+              setPricingForm((previous) => ({
+                ...previous,
+                cachedInputPerMillion: event.target.value,
+              }))
+            }
+            disabled={pricingSaving}
+          />
+          <input
+            type="number"
+            min="0"
+            step="any"
+            placeholder="Output"
+            value={pricingForm.outputPerMillion}
+            onChange={(event) =>
+              setPricingForm((previous) => ({
+                ...previous,
+                outputPerMillion: event.target.value,
+              }))
+            }
+            disabled={pricingSaving}
+          />
+          <button type="submit" disabled={pricingSaving}>
+            {pricingSaving ? "Saving…" : "Save price"}
+          </button>
+        </form>
+        {pricingError && <div className="error-text">{pricingError}</div>}
+      </section>
+    </div>
+  );
+};
+
+export default UsagePanel;
@@ -9,31 +9,46 @@ import {
 } from "react";
 import {
   ApiError,
+  endImpersonation as apiEndImpersonation,
   fetchCurrentUser,
   login as apiLogin,
   logout as apiLogout,
+  verifyTwoFactorLogin,
 } from "../api/client";
-import type { AuthUser, LoginRequest } from "../api/types";
+import type { AuthUser, LoginRequest, TwoFactorChallengeResponse } from "../api/types";
 
 type AuthContextValue = {
   user: AuthUser | null;
+  /** The admin viewing the app as `user`, while impersonating. */
+  impersonator: AuthUser | null;
+  /** The user has to turn on two-factor authentication before using the app. */
+  twoFactorSetupRequired: boolean;
   loading: boolean;
-  login: (payload: LoginRequest) => Promise<AuthUser>;
+  /** Resolves with a challenge instead of signing in when a two-factor code is needed. */
+  login: (payload: LoginRequest) => Promise<TwoFactorChallengeResponse | null>;
+  verifyTwoFactor: (challengeToken: string, code: string) => Promise<void>;
   logout: () => Promise<void>;
   refresh: () => Promise<void>;
+  endImpersonation: () => Promise<void>;
 };
 
 const AuthContext = createContext<AuthContextValue | undefined>(undefined);
 
 export const AuthProvider = ({ children }: { children: ReactNode }) => {
   const [user, setUser] = useState<AuthUser | null>(null);
+  const [impersonator, setImpersonator] = useState<AuthUser | null>(null);
+  const [twoFactorSetupRequired, setTwoFactorSetupRequired] = useState(false);
   const [loading, setLoading] = useState(true);
 
   const loadCurrentUser = useCallback(async () => {
     try {
       const current = await fetchCurrentUser();
-      setUser(current);
+      setUser(current.user);
+      setImpersonator(current.impersonator ?? null);
+      setTwoFactorSetupRequired(current.twoFactorSetupRequired ?? false);
     } catch (error) {
+      setImpersonator(null);
+      setTwoFactorSetupRequired(false);
       if (error instanceof ApiError && error.status === 401) {
         setUser(null);
         return;
@@ -51,15 +66,47 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     void bootstrap();
   }, [loadCurrentUser]);
 
-  const login = useCallback(async (payload: LoginRequest) => {
-    const authenticated = await apiLogin(payload);
-    setUser(authenticated);
-    return authenticated;
-  }, []);
+  const login = useCallback(
+    async (payload: LoginRequest) => {
+      const result = await apiLogin(payload);
+      if ("challengeToken" in result) {
+        return result;
+      }
+      // Also learns whether two-factor setup is required
+      await loadCurrentUser();
+      return null;
+    },
+    [loadCurrentUser],
+  );
+
+  const verifyTwoFactor = useCallback(
+    async (challengeToken: string, code: string) => {
+      await verifyTwoFactorLogin(challengeToken, code);
+      await loadCurrentUser();
+    },
+    [loadCurrentUser],
+  );
 
   const logout = useCallback(async () => {
     await apiLogout();
     setUser(null);
+    setImpersonator(null);
+    setTwoFactorSetupRequired(false);
+  }, []);
+
+  const endImpersonation = useCallback(async () => {
+    try {
+      setUser(await apiEndImpersonation());
+      setImpersonator(null);
+    } catch (error) {
+      // The admin's own session may have expired meanwhile
+      if (error instanceof ApiError && error.status === 401) {
+        setUser(null);
+        setImpersonator(null);
+        return;
+      }
+      throw error;
+    }
   }, []);
 
   const refresh = useCallback(async () => {
@@ -67,8 +114,28 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
   }, [loadCurrentUser]);
 
   const value = useMemo<AuthContextValue>(
-    () => ({ user, loading, login, logout, refresh }),
-    [user, loading, login, logout, refresh],
+    () => ({
+      user,
+      impersonator,
+      twoFactorSetupRequired,
+      loading,
+      login,
+      verifyTwoFactor,
+      logout,
+      refresh,
+      endImpersonation,
+    }),
+    [
+      user,
+      impersonator,
+      twoFactorSetupRequired,
+      loading,
+      login,
+      verifyTwoFactor,
+      logout,
+      refresh,
+      endImpersonation,
+    ],
   );
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
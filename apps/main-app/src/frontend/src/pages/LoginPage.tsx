@@ -1,17 +1,56 @@
-import { useState, FormEvent } from "react";
+import { useEffect, useState, FormEvent } from "react";
+import { ApiError, fetchSsoProviders } from "../api/client";
+import type { SsoProvider } from "../api/types";
 import { useAuth } from "../context/AuthContext";
 
+// Set by the server after single sign-on: `sso_error` when it failed, and
+// `two_factor` with a challenge when the account needs a two-factor code
+const takeQueryParam = (name: string): string | null => {
+  const url = new URL(window.location.href);
+  const value = url.searchParams.get(name);
+  if (value !== null) {
+    url.searchParams.delete(name);
+    window.history.replaceState(null, "", url.toString());
+  }
+  return value;
+};
+
+const readErrorCode = (error: unknown): string | null => {
+  if (error instanceof ApiError) {
+    const body = error.body as { error?: unknown };
+    return body && typeof body.error === "string" ? body.error : null;
+  }
+  return null;
+};
+
 type LoginPageProps = {
   onSuccess?: () => void;
 };
 
 const LoginPage = ({ onSuccess }: LoginPageProps) => {
-  const { login, loading } = useAuth();
+  const { login, verifyTwoFactor, loading } = useAuth();
   const [username, setUsername] = useState("");
   const [password, setPassword] = useState("");
   const [rememberMe, setRememberMe] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(() => takeQueryParam("sso_error"));
   const [submitting, setSubmitting] = useState(false);
+  const [challengeToken, setChallengeToken] = useState<string | null>(() =>
+    takeQueryParam("two_factor"),
+  );
+  const [code, setCode] = useState("");
+  const [providers, setProviders] = useState<SsoProvider[]>([]);
+  const [passwordLoginEnabled, setPasswordLoginEnabled] = useState(true);
+
+  useEffect(() => {
+    fetchSsoProviders()
+      .then((data) => {
+        setProviders(data.providers);
+        setPasswordLoginEnabled(data.passwordLoginEnabled);
+      })
+      .catch((err) => {
+        console.error("Failed to load sign-in providers", err);
+      });
+  }, []);
 
   const handleSubmit = async (event: FormEvent) => {
     event.preventDefault();
@@ -21,58 +60,149 @@ const LoginPage = ({ onSuccess }: LoginPageProps) => {
 
     setSubmitting(true);
     setError(null);
+
+    if (challengeToken) {
+      try {
+        await verifyTwoFactor(challengeToken, code);
+        onSuccess?.();
+      } catch (err) {
+        console.error("Two-factor verification failed", err);
+        const errorCode = readErrorCode(err);
+        if (errorCode === "TwoFactorChallengeExpired") {
+          setChallengeToken(null);
+          setError("The sign-in expired. Please sign in again.");
+        } else if (errorCode === "TooManyAttempts") {
+          setError("Too many attempts. Wait a minute and try again.");
+        } else {
+          setError("Invalid code.");
+        }
+      } finally {
+        setSubmitting(false);
+      }
+      return;
+    }
+
     try {
-      await login({ username, password, rememberMe });
+      const challenge = await login({ username, password, rememberMe });
+      if (challenge) {
+        setChallengeToken(challenge.challengeToken);
+        setCode("");
+        return;
+      }
       onSuccess?.();
     } catch (err) {
       console.error("Login failed", err);
-      setError("Invalid username or password.");
+      if (err instanceof ApiError && err.status === 403) {
+        setPasswordLoginEnabled(false);
+        setError("Password sign-in is disabled. Use single sign-on instead.");
+      } else {
+        setError("Invalid username or password.");
+      }
     } finally {
       setSubmitting(false);
     }
   };
 
+  if (challengeToken) {
+    return (
+      <div className="login-page">
+        <form className="login-card" onSubmit={handleSubmit}>
+          <h1>Codex WebApp</h1>
+          <div className="field">
+            <label htmlFor="two-factor-code">Authentication code</label>
+            <input
+              id="two-factor-code"
+              type="text"
+              value={code}
+              onChange={(event) => setCode(event.target.value)}
+              autoComplete="one-time-code"
+              autoFocus
+              disabled={submitting || loading}
+              required
+            />
+          </div>
+          <p className="muted">
+            Enter the 6-digit code from your authenticator app, or one of your recovery codes.
+          </p>
+          {error && <div className="error-text">{error}</div>}
+          <button type="submit" disabled={submitting || loading}>
+            {submitting ? "Verifying…" : "Verify"}
+          </button>
+          <button
+            type="button"
+            className="ghost-button"
+            onClick={() => {
+              setChallengeToken(null);
+              setError(null);
+            }}
+            disabled={submitting}
+          >
+            Back
+          </button>
+        </form>
+      </div>
+    );
+  }
+
   return (
     <div className="login-page">
       <form className="login-card" onSubmit={handleSubmit}>
         <h1>Codex WebApp</h1>
-        <div className="field">
-          <label htmlFor="username">Username</label>
-          <input
-            id="username"
-            type="text"
-            value={username}
-            onChange={(event) => setUsername(event.target.value)}
-            autoComplete="username"
-            disabled={submitting || loading}
-            required
-          />
-        </div>
-        <div className="field">
-          <label htmlFor="password">Password</label>
-          <input
-            id="password"
-            type="password"
-            value={password}
-            onChange={(event) => setPassword(event.target.value)}
-            autoComplete="current-password"
-            disabled={submitting || loading}
-            required
-          />
-        </div>
-        <label className="remember-me">
-          <input
-            type="checkbox"
-            checked={rememberMe}
-            onChange={(event) => setRememberMe(event.target.checked)}
-            disabled={submitting || loading}
-          />
-          Remember me
-        </label>
+        {providers.length > 0 && (
+          <div className="login-providers">
+            {providers.map((provider) => (
+              <a key={provider.id} className="login-provider" href={provider.loginUrl}>
+                Sign in with {provider.name}
+              </a>
+            ))}
+          </div>
+        )}
+        {passwordLoginEnabled && providers.length > 0 && (
+          <div className="login-divider">or</div>
+        )}
+        {passwordLoginEnabled && (
+          <>
+            <div className="field">
+              <label htmlFor="username">Username</label>
+              <input
+                id="username"
+                type="text"
+                value={username}
+                onChange={(event) => setUsername(event.target.value)}
+                autoComplete="username"
+                disabled={submitting || loading}
+                required
+              />
+            </div>
+            <div className="field">
+              <label htmlFor="password">Password</label>
+              <input
+                id="password"
+                type="password"
+                value={password}
+                onChange={(event) => setPassword(event.target.value)}
+                autoComplete="current-password"
+                disabled={submitting || loading}
+                required
+              />
+            </div>
+            <label className="remember-me">
+              <input
+                type="checkbox"
+                checked={rememberMe}
+                onChange={(event) => setRememberMe(event.target.checked)}
+                disabled={submitting || loading}
+              />
+              Remember me
+            </label>
+          </>
+        )}
         {error && <div className="error-text">{error}</div>}
-        <button type="submit" disabled={submitting || loading}>
-          {submitting ? "Signing in…" : "Sign in"}
-        </button>
+        {passwordLoginEnabled && (
+          <button type="submit" disabled={submitting || loading}>
+            {submitting ? "Signing in…" : "Sign in"}
+          </button>
+        )}
       </form>
     </div>
   );
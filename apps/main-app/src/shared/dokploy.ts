@@ -23,6 +23,8 @@ export type DeploySourceWorkspace = {
   artifactUrl?: string | null;
   artifactKey?: string | null;
   expiresAt?: string | null;
+  /** HEAD commit of the workspace when the artifact was created. */
+  commitSha?: string | null;
 };
 
 export type DeploySource = DeploySourceGit | DeploySourceWorkspace;
@@ -43,6 +45,28 @@ export type DeployResources = {
   replicas?: number | null;
 };
 
+/**
+ * Which workspace files go into an uploaded archive. Patterns use
+ * .gitignore syntax and are relative to the workspace root.
+ */
+export type DeployArchiveRules = {
+  /** Honor the workspace's .gitignore files (default true). */
+  useGitignore?: boolean;
+  /** Honor the workspace's root .dockerignore (default true). */
+  useDockerignore?: boolean;
+  /** Extra patterns to leave out. */
+  exclude?: string[];
+  /** Patterns shipped even when an ignore file or exclude pattern drops them. */
+  include?: string[];
+};
+
+export type ArchivePreviewResponse = {
+  root: string;
+  files: Array<{ path: string; size: number }>;
+  fileCount: number;
+  totalBytes: number;
+};
+
 export type DeployConfig = {
   baseUrl: string;
   authMethod: DeployAuthMethod;
@@ -60,9 +84,117 @@ export type DeployConfig = {
   source: DeploySource;
   build?: DeployBuildConfig;
   resources?: DeployResources;
+  archive?: DeployArchiveRules;
   lastSyncedAt?: string;
 };
 
 export type DeployConfigResponse = DeployConfig & {
   hasApiKey: boolean;
 };
+
+/** Limits enforced by the artifact sweeper; 0 disables a limit. */
+export type ArtifactRetentionPolicy = {
+  keepPerTarget: number;
+  maxAgeDays: number;
+  maxTotalBytes: number;
+  sweepIntervalMinutes: number;
+};
+
+export type DeployArtifactResponse = {
+  key: string;
+  size: number;
+  createdAt: string;
+  targetId: string | null;
+  targetName: string | null;
+  commitSha: string | null;
+  /** Referenced by a target's source or an unfinished deployment; never swept. */
+  inUse: boolean;
+};
+
+export type ArtifactStorageResponse = {
+  policy: ArtifactRetentionPolicy;
+  totalBytes: number;
+  artifacts: DeployArtifactResponse[];
+  lastSweepAt: string | null;
+};
+
+export type ArtifactSweepResponse = {
+  removed: Array<{ key: string; size: number; reason: string }>;
+  freedBytes: number;
+  storage: ArtifactStorageResponse;
+};
+
+export type DeploymentStatus = "pending" | "running" | "succeeded" | "failed";
+
+export type DeploymentResponse = {
+  id: string;
+  targetId: string | null;
+  targetName: string;
+  applicationId: string | null;
+  artifactKey: string | null;
+  commitSha: string | null;
+  userId: string | null;
+  username: string | null;
+  sessionId: string | null;
+  dokployDeploymentId: string | null;
+  status: DeploymentStatus;
+  error: string | null;
+  redeployOf: string | null;
+  createdAt: string;
+  updatedAt: string;
+  completedAt: string | null;
+  /** Whether the artifact of this deployment can still be redeployed. */
+  canRedeploy: boolean;
+};
+
+export type DeployTargetSummary = {
+  id: string;
+  name: string;
+  isDefault: boolean;
+};
+
+export type DeployTargetResponse = DeployConfigResponse &
+  DeployTargetSummary & {
+    createdAt: string;
+    updatedAt: string;
+  };
+
+/** Container output of a session service, or the build log of its latest deployment. */
+export type ServiceLogSource = "service" | "deployment";
+
+export type ServiceLogLevel = "error" | "warn" | "info" | "debug";
+
+export type ServiceLogLine = {
+  text: string;
+  /** Level recognised in the line, null when it carries none. */
+  level: ServiceLogLevel | null;
+};
+
+export type ServiceLogQuery = {
+  source?: ServiceLogSource;
+  /** Keep the stream open and send new lines as they appear. */
+  follow?: boolean;
+  /** Number of existing lines to send first. */
+  tail?: number;
+  /** Only lines of these levels; lines without a level are dropped too. */
+  levels?: ServiceLogLevel[];
+  /** Text lines must contain. */
+  pattern?: string;
+  ignoreCase?: boolean;
+};
+
+/** Where session services run: Dokploy applications or local Docker containers. */
+export type SessionServiceBackendKind = "dokploy" | "docker";
+
+export type SessionServiceBackendOption = {
+  kind: SessionServiceBackendKind;
+  label: string;
+  /** Why the backend cannot be used right now, null when it can. */
+  unavailableReason: string | null;
+};
+
+export type SessionServiceBackendSettings = {
+  /** Backend new session services are created on. */
+  backend: SessionServiceBackendKind;
+  backends: SessionServiceBackendOption[];
+};
@@ -15,6 +15,10 @@ export type MainToServiceMessage =
         gitRemoteUrl?: string | null;
         gitBranch?: string | null;
       };
+    }
+  | {
+      type: "FOCUS_MESSAGE";
+      messageId: string;
     };
 
 export type ServiceToMainMessage =
@@ -35,6 +39,11 @@ export type ServiceToMainMessage =
   | {
       type: "SERVICE_HEIGHT";
       height: number;
+    }
+  | {
+      type: "REVIEW_TURN";
+      sessionId: string;
+      messageId: string;
     };
 
 export type BridgeMessage = MainToServiceMessage | ServiceToMainMessage;